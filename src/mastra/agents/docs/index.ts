@@ -1,7 +1,7 @@
 import { openai } from '@ai-sdk/openai';
 import { Agent } from '@mastra/core/agent';
 import { findScreensTool, findApisTool, findSpecificationsTool } from '../../tools/docs/tool';
-import { githubCloneTool } from '../../tools/github/tool';
+import { githubCloneTool, importGraphTool } from '../../tools/github/tool';
 import { docsAgentInstructions } from './instructions';
 
 export const docsAgent = new Agent({
@@ -13,5 +13,6 @@ export const docsAgent = new Agent({
         findScreens: findScreensTool,
         findApis: findApisTool,
         findSpecs: findSpecificationsTool,
+        importGraph: importGraphTool,
     },
 });
\ No newline at end of file
@@ -1,6 +1,22 @@
 import { openai } from '@ai-sdk/openai';
 import { Agent } from '@mastra/core/agent';
-import { githubRepoInfoTool, githubCloneTool, analyzeCodeTool } from '../../tools/github/tool';
+import {
+    githubRepoInfoTool,
+    githubCloneTool,
+    analyzeCodeTool,
+    gitHistoryTool,
+    dependencyGraphTool,
+    vulnerabilityScanTool,
+    licenseCheckTool,
+    workspaceAnalysisTool,
+    duplicationTool,
+    importGraphTool,
+    deadCodeTool,
+    secretScanTool,
+    issueHealthTool,
+    projectActivityTool,
+    repositoryIssuesTool,
+} from '../../tools/github/tool';
 import { githubAgentInstructions } from './instructions';
 
 export const githubAgent = new Agent({
@@ -11,5 +27,45 @@ export const githubAgent = new Agent({
         githubRepoInfo: githubRepoInfoTool,
         githubClone: githubCloneTool,
         analyzeCode: analyzeCodeTool,
+        gitHistory: gitHistoryTool,
+        dependencyGraph: dependencyGraphTool,
+        vulnerabilityScan: vulnerabilityScanTool,
+        licenseCheck: licenseCheckTool,
+        analyzeWorkspaces: workspaceAnalysisTool,
+        detectDuplication: duplicationTool,
+        importGraph: importGraphTool,
+        deadCode: deadCodeTool,
+        secretScan: secretScanTool,
+        issueHealth: issueHealthTool,
+        projectActivity: projectActivityTool,
+        repositoryIssues: repositoryIssuesTool,
     },
-});
\ No newline at end of file
+});
+
+/**
+ * githubAgent にプロンプトを送り、ストリームで受け取った応答の全文を read で解釈して返す。
+ * LLM の呼び出しに失敗してもレポートを出力できるよう、失敗した場合は fallback の値を返す。
+ */
+export async function streamAgentText<T>(
+    prompt: string,
+    read: (text: string) => T,
+    fallback: (message: string) => T
+): Promise<T> {
+    try {
+        const response = await githubAgent.stream([
+            {
+                role: 'user',
+                content: prompt,
+            },
+        ]);
+
+        let text = '';
+        for await (const chunk of response.textStream) {
+            text += chunk;
+        }
+
+        return read(text);
+    } catch (error) {
+        return fallback(error instanceof Error ? error.message : String(error));
+    }
+}
@@ -1,10 +1,10 @@
 import { Mastra } from '@mastra/core/mastra';
 import { createLogger } from '@mastra/core/logger';
-import { weatherWorkflow, githubWorkflow, docsWorkflow } from './workflows';
+import { weatherWorkflow, githubWorkflow, docsWorkflow, compareWorkflow, trendWorkflow, reviewWorkflow } from './workflows';
 import { weatherAgent, githubAgent, docsAgent } from './agents';
 
 export const mastra = new Mastra({
-  workflows: { weatherWorkflow, githubWorkflow, docsWorkflow },
+  workflows: { weatherWorkflow, githubWorkflow, docsWorkflow, compareWorkflow, trendWorkflow, reviewWorkflow },
   agents: { weatherAgent, githubAgent, docsAgent },
   logger: createLogger({
     name: 'Mastra',
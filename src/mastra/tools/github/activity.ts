@@ -0,0 +1,279 @@
+import { simpleGit } from 'simple-git';
+import { z } from 'zod';
+import { isValidVersion, parseVersion } from './semver';
+import { GitHostingProvider, PROVIDER_NAMES, RepositoryCoordinates } from './providers';
+import { sparkline } from '../report/model';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+export const projectActivitySchema = z.object({
+    releases: z.object({
+        // github など: ホスティングサービスのリリース、git-tags: ローカルのタグの作成日時
+        source: z.enum(['github', 'gitlab', 'gitea', 'bitbucket', 'git-tags', 'none']),
+        // ホスティングサービスのリリースを取得できずタグで代用した場合の理由
+        fallbackReason: z.string().nullable(),
+        total: z.number(),
+        prereleases: z.number(),
+        // 直近365日のリリース数
+        lastYear: z.number(),
+        latest: z.object({
+            tag: z.string(),
+            name: z.string(),
+            date: z.string(),
+        }).nullable(),
+        daysSinceLastRelease: z.number().nullable(),
+        // 正式リリース（プレリリース以外）の間隔
+        averageIntervalDays: z.number().nullable(),
+        medianIntervalDays: z.number().nullable(),
+        recent: z.array(z.object({
+            tag: z.string(),
+            name: z.string(),
+            date: z.string(),
+            prerelease: z.boolean(),
+        })),
+    }),
+    tags: z.object({
+        total: z.number(),
+        semver: z.number(),
+        semverRatio: z.number().nullable(),
+        // セマンティックバージョニングに従っていないタグ（一部）
+        nonSemver: z.array(z.string()),
+    }),
+    contributors: z.object({
+        // 全履歴の作者数（ボットを除く）
+        total: z.number(),
+        months: z.array(z.object({
+            month: z.string(),
+            commits: z.number(),
+            active: z.number(),
+            // その月に初めてコミットした作者
+            new: z.number(),
+            returning: z.number(),
+        })),
+    }),
+    commitFrequency: z.object({
+        interval: z.literal('week'),
+        weeks: z.array(z.object({
+            start: z.string(),
+            commits: z.number(),
+        })),
+        sparkline: z.string(),
+    }),
+});
+
+export type ProjectActivity = z.infer<typeof projectActivitySchema>;
+
+export interface ProjectActivityOptions {
+    // 指定した場合はホスティングサービスのリリースとタグも使う
+    hosting?: { provider: GitHostingProvider; repository: RepositoryCoordinates };
+    // 月ごとの集計と週ごとのコミット数の期間（既定は12か月）
+    months?: number;
+    now?: Date;
+}
+
+interface Release {
+    tag: string;
+    name: string;
+    date: number;
+    prerelease: boolean;
+}
+
+/**
+ * リリースの頻度・タグの命名・月ごとのコントリビューター・週ごとのコミット数を集計する。
+ * リリースはホスティングサービスのリリースを優先し、取得できない場合や1件もない場合はローカルのタグの作成日時で代用する。
+ */
+export async function analyzeProjectActivity(repoPath: string, options: ProjectActivityOptions = {}): Promise<ProjectActivity> {
+    const months = options.months ?? 12;
+    const now = options.now ?? new Date();
+    const git = simpleGit(repoPath);
+    const isRepo = await git.checkIsRepo().catch(() => false);
+
+    const localTags = isRepo ? await readLocalTags(repoPath) : [];
+    let releases: Release[] = [];
+    let source: ProjectActivity['releases']['source'] = 'none';
+    let fallbackReason: string | null = null;
+    const tagNames = new Set(localTags.map(tag => tag.tag));
+
+    if (options.hosting) {
+        const { provider, repository } = options.hosting;
+        try {
+            releases = (await provider.listReleases(repository, { limit: 1000 }))
+                .filter(release => release.publishedAt)
+                .map(release => ({
+                    tag: release.tag,
+                    name: release.name,
+                    date: Date.parse(release.publishedAt!),
+                    prerelease: release.prerelease,
+                }));
+            if (releases.length > 0) source = provider.kind;
+        } catch (error) {
+            fallbackReason = `${PROVIDER_NAMES[provider.kind]} API request failed: ${error instanceof Error ? error.message : String(error)}`;
+        }
+        // シャロークローンなどでローカルにタグがない場合に備え、API のタグ名も加える
+        if (localTags.length === 0) {
+            try {
+                const tags = await provider.listTags(repository);
+                tags.forEach(tag => tagNames.add(tag));
+            } catch {
+                // タグはリリースの集計に影響しないため、失敗してもリリースの取得元は変えない
+            }
+        }
+    }
+
+    if (source === 'none' && localTags.length > 0) {
+        releases = localTags;
+        source = 'git-tags';
+    }
+
+    const commits = isRepo ? await readCommits(repoPath) : [];
+
+    return {
+        releases: summarizeReleases(releases, source, fallbackReason, now),
+        tags: summarizeTags(Array.from(tagNames)),
+        contributors: summarizeContributors(commits, months, now),
+        commitFrequency: summarizeCommitFrequency(commits, Math.round((months * 52) / 12), now),
+    };
+}
+
+async function readLocalTags(repoPath: string): Promise<Release[]> {
+    // creatordate は注釈付きタグではタグの作成日時、軽量タグではコミットの日時になる
+    const output = await simpleGit(repoPath)
+        .raw(['for-each-ref', '--sort=creatordate', '--format=%(refname:short)%09%(creatordate:iso-strict)', 'refs/tags'])
+        .catch(() => '');
+
+    return output.split('\n').filter(Boolean).flatMap(line => {
+        const [tag, date] = line.split('\t');
+        const time = Date.parse(date);
+        if (!tag || Number.isNaN(time)) return [];
+        return [{ tag, name: tag, date: time, prerelease: (parseVersion(tag)?.prerelease.length ?? 0) > 0 }];
+    });
+}
+
+async function readCommits(repoPath: string): Promise<Array<{ email: string; author: string; date: number }>> {
+    const output = await simpleGit(repoPath)
+        .raw(['log', '--format=%aN%x1f%aE%x1f%aI'])
+        .catch(() => '');
+
+    return output.split('\n').filter(Boolean).flatMap(line => {
+        const [author, email, date] = line.split('\x1f');
+        const time = Date.parse(date);
+        if (Number.isNaN(time) || isBot(author, email)) return [];
+        return [{ author, email: email.toLowerCase(), date: time }];
+    });
+}
+
+function isBot(author: string, email: string): boolean {
+    return /\[bot\]/i.test(author) || /\[bot\]@/i.test(email);
+}
+
+function summarizeReleases(
+    releases: Release[],
+    source: ProjectActivity['releases']['source'],
+    fallbackReason: string | null,
+    now: Date
+): ProjectActivity['releases'] {
+    const sorted = [...releases].sort((a, b) => b.date - a.date);
+    const stable = sorted.filter(release => !release.prerelease);
+    // 正式リリースがない場合はプレリリースも含めて間隔を求める
+    const cadence = (stable.length >= 2 ? stable : sorted).map(release => release.date);
+    const intervals = cadence.slice(1).map((date, index) => (cadence[index] - date) / DAY_MS);
+    const latest = stable[0] || sorted[0] || null;
+    const round = (value: number) => Math.round(value * 10) / 10;
+
+    return {
+        source,
+        fallbackReason,
+        total: sorted.length,
+        prereleases: sorted.length - stable.length,
+        lastYear: sorted.filter(release => now.getTime() - release.date <= 365 * DAY_MS).length,
+        latest: latest ? { tag: latest.tag, name: latest.name, date: new Date(latest.date).toISOString() } : null,
+        daysSinceLastRelease: latest ? Math.floor((now.getTime() - latest.date) / DAY_MS) : null,
+        averageIntervalDays: intervals.length > 0 ? round(intervals.reduce((sum, value) => sum + value, 0) / intervals.length) : null,
+        medianIntervalDays: intervals.length > 0 ? round(median(intervals)) : null,
+        recent: sorted.slice(0, 10).map(release => ({
+            tag: release.tag,
+            name: release.name,
+            date: new Date(release.date).toISOString(),
+            prerelease: release.prerelease,
+        })),
+    };
+}
+
+function summarizeTags(tags: string[]): ProjectActivity['tags'] {
+    const nonSemver = tags.filter(tag => !isValidVersion(tag)).sort();
+    return {
+        total: tags.length,
+        semver: tags.length - nonSemver.length,
+        semverRatio: tags.length > 0 ? (tags.length - nonSemver.length) / tags.length : null,
+        nonSemver: nonSemver.slice(0, 10),
+    };
+}
+
+/**
+ * 月ごとの作者を、その月に初めてコミットした作者と以前からの作者に分けて数える。
+ */
+function summarizeContributors(
+    commits: Array<{ email: string; date: number }>,
+    months: number,
+    now: Date
+): ProjectActivity['contributors'] {
+    const firstCommit = new Map<string, number>();
+    for (const commit of commits) {
+        const current = firstCommit.get(commit.email);
+        if (current === undefined || commit.date < current) firstCommit.set(commit.email, commit.date);
+    }
+
+    const monthKeys: string[] = [];
+    for (let offset = months - 1; offset >= 0; offset--) {
+        const date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - offset, 1));
+        monthKeys.push(date.toISOString().slice(0, 7));
+    }
+    const buckets = new Map(monthKeys.map(month => [month, { commits: 0, authors: new Set<string>() }]));
+
+    for (const commit of commits) {
+        const bucket = buckets.get(new Date(commit.date).toISOString().slice(0, 7));
+        if (!bucket) continue;
+        bucket.commits++;
+        bucket.authors.add(commit.email);
+    }
+
+    return {
+        total: firstCommit.size,
+        months: monthKeys.map(month => {
+            const { commits: count, authors } = buckets.get(month)!;
+            const newAuthors = Array.from(authors)
+                .filter(email => new Date(firstCommit.get(email)!).toISOString().slice(0, 7) === month).length;
+            return { month, commits: count, active: authors.size, new: newAuthors, returning: authors.size - newAuthors };
+        }),
+    };
+}
+
+function summarizeCommitFrequency(
+    commits: Array<{ date: number }>,
+    weeks: number,
+    now: Date
+): ProjectActivity['commitFrequency'] {
+    // 最後の週が現在時刻で終わるように区切る
+    const start = now.getTime() - weeks * WEEK_MS;
+    const counts = new Array<number>(weeks).fill(0);
+    for (const commit of commits) {
+        if (commit.date < start || commit.date >= now.getTime()) continue;
+        counts[Math.floor((commit.date - start) / WEEK_MS)]++;
+    }
+
+    return {
+        interval: 'week',
+        weeks: counts.map((count, index) => ({
+            start: new Date(start + index * WEEK_MS).toISOString().slice(0, 10),
+            commits: count,
+        })),
+        sparkline: counts.length > 0 ? sparkline(counts) : '',
+    };
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
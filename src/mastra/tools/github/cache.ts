@@ -0,0 +1,174 @@
+import { simpleGit } from 'simple-git';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { RepositorySource } from './source';
+
+// チェックアウトの取得状況
+// - local: ローカルの作業ディレクトリをそのまま使用
+// - cached: キャッシュ済みのコミットがリモートと一致したため再利用
+// - updated: 既存のチェックアウトを git fetch で更新
+// - cloned: 新規にクローン
+export type CheckoutStatus = 'local' | 'cached' | 'updated' | 'cloned';
+
+export interface RepositoryCheckout {
+    path: string;
+    branch: string;
+    commit: string;
+    status: CheckoutStatus;
+}
+
+interface RemoteRef {
+    // リモートに到達できたか（オフライン時は false）
+    reachable: boolean;
+    commit: string | null;
+    defaultBranch: string | null;
+}
+
+const SHA_PATTERN = /^[0-9a-f]{7,40}$/i;
+
+export const getCacheDir = () => {
+    return path.join(process.cwd(), '.mastra', 'cache', 'github');
+};
+
+/**
+ * リポジトリとrefの組み合わせごとにキャッシュディレクトリを割り当てる。
+ * 同じリポジトリの別refは別ディレクトリになるため、base/head を同時にチェックアウトできる。
+ */
+export const getCheckoutPath = (location: string, ref?: string) => {
+    const repoKey = createHash('md5').update(location).digest('hex');
+    const refName = ref || 'HEAD';
+    const refKey = `${refName.replace(/[^A-Za-z0-9._-]/g, '_')}-${createHash('md5').update(refName).digest('hex').slice(0, 8)}`;
+    return path.join(getCacheDir(), repoKey, refKey);
+};
+
+/**
+ * 指定されたrefをチェックアウトしたローカルパスを返す。
+ * リモートのrefをコミットSHAに解決し、キャッシュのコミットと一致する場合のみ再利用する。
+ * 一致しない場合は再クローンせず git fetch で更新する。
+ */
+export async function checkoutRepository(
+    source: RepositorySource,
+    ref?: string,
+    forceFresh: boolean = false
+): Promise<RepositoryCheckout> {
+    if (source.kind === 'local-directory' && !ref) {
+        return describeLocalDirectory(source.location);
+    }
+
+    const checkoutPath = getCheckoutPath(source.location, ref);
+    const remote = await resolveRemoteRef(source.location, ref);
+    const hasCheckout = !forceFresh && await isGitCheckout(checkoutPath);
+
+    let status: CheckoutStatus;
+    if (hasCheckout) {
+        const current = (await simpleGit(checkoutPath).revparse(['HEAD'])).trim();
+        const pinned = remote.commit
+            ? current === remote.commit
+            : !remote.reachable || (!!ref && SHA_PATTERN.test(ref) && current.startsWith(ref.toLowerCase()));
+
+        if (pinned) {
+            status = 'cached';
+        } else {
+            await updateCheckout(checkoutPath, ref);
+            status = 'updated';
+        }
+    } else {
+        if (!remote.reachable) {
+            throw new Error(`Repository is not reachable and no cached checkout exists: ${source.location}`);
+        }
+
+        await fs.rm(checkoutPath, { recursive: true, force: true });
+        await fs.mkdir(path.dirname(checkoutPath), { recursive: true });
+        await simpleGit().clone(source.location, checkoutPath);
+        if (ref) {
+            await updateCheckout(checkoutPath, ref);
+        }
+        status = 'cloned';
+    }
+
+    const commit = (await simpleGit(checkoutPath).revparse(['HEAD'])).trim();
+
+    return {
+        path: checkoutPath,
+        branch: ref || remote.defaultBranch || (await simpleGit(checkoutPath).revparse(['--abbrev-ref', 'HEAD'])).trim(),
+        commit,
+        status,
+    };
+}
+
+async function describeLocalDirectory(location: string): Promise<RepositoryCheckout> {
+    const git = simpleGit(location);
+    const isGitRepo = await git.checkIsRepo().catch(() => false);
+    if (!isGitRepo) {
+        return { path: location, branch: '', commit: '', status: 'local' };
+    }
+
+    // git init 直後などコミットがない場合は、コミットを空にしてブランチ名のみを返す
+    const commit = await git.revparse(['--verify', '--quiet', 'HEAD']).catch(() => '');
+    const branch = commit
+        ? await git.revparse(['--abbrev-ref', 'HEAD'])
+        : await git.raw(['symbolic-ref', '--short', 'HEAD']).catch(() => '');
+    return { path: location, branch: branch.trim(), commit: commit.trim(), status: 'local' };
+}
+
+async function resolveRemoteRef(location: string, ref?: string): Promise<RemoteRef> {
+    let output: string;
+    try {
+        output = await simpleGit().listRemote(['--symref', location, ...(ref ? [ref, `${ref}^{}`] : ['HEAD'])]);
+    } catch {
+        return { reachable: false, commit: null, defaultBranch: null };
+    }
+
+    const refs = new Map<string, string>();
+    let defaultBranch: string | null = null;
+    for (const line of output.split('\n')) {
+        const symref = line.match(/^ref:\s+refs\/heads\/(\S+)\s+HEAD$/);
+        if (symref) {
+            defaultBranch = symref[1];
+            continue;
+        }
+        const [sha, name] = line.trim().split(/\s+/);
+        if (sha && name) refs.set(name, sha);
+    }
+
+    if (!ref) {
+        return { reachable: true, commit: refs.get('HEAD') || null, defaultBranch };
+    }
+
+    // 注釈付きタグは参照先のコミットを優先する
+    const candidates = [`refs/tags/${ref}^{}`, `refs/heads/${ref}`, `refs/tags/${ref}`, ref];
+    const commit = candidates.map(name => refs.get(name)).find((sha): sha is string => !!sha) || null;
+
+    if (!commit && !SHA_PATTERN.test(ref)) {
+        throw new Error(`Ref not found on remote: ${ref}`);
+    }
+
+    return { reachable: true, commit, defaultBranch };
+}
+
+async function updateCheckout(checkoutPath: string, ref?: string): Promise<void> {
+    const git = simpleGit(checkoutPath);
+
+    if (ref && SHA_PATTERN.test(ref)) {
+        // コミットSHAはリモートで解決できないため、全refを取得してからチェックアウトする
+        const resolved = await git.revparse(['--verify', '--quiet', `${ref}^{commit}`]).catch(() => '');
+        if (!resolved.trim()) {
+            await git.fetch(['--tags', 'origin']);
+        }
+        await git.checkout(['--force', '--detach', ref]);
+        return;
+    }
+
+    await git.fetch(['origin', ref || 'HEAD']);
+    await git.checkout(['--force', '--detach', 'FETCH_HEAD']);
+}
+
+async function isGitCheckout(checkoutPath: string): Promise<boolean> {
+    try {
+        await fs.access(path.join(checkoutPath, '.git'));
+        return true;
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,237 @@
+import * as path from 'path';
+import { z } from 'zod';
+import { Octokit } from '@octokit/rest';
+import { loadJsonConfig } from './config';
+
+const CONFIG_FILE = '.mastra-github.json';
+const DEFAULT_BASE_URL = 'https://api.github.com';
+// 環境変数にトークンを探す順序
+const TOKEN_ENV_VARIABLES = ['GITHUB_TOKEN', 'GH_TOKEN'];
+// ETag で保持するレスポンスの上限（古いものから捨てる）
+const MAX_CACHE_ENTRIES = 500;
+
+export const githubClientConfigSchema = z.object({
+    token: z.string().optional(),
+    // トークンを読み込む環境変数名（設定ファイルにトークンを書かない場合）
+    tokenEnv: z.string().optional(),
+    // GitHub Enterprise Server の場合は https://<host>/api/v3
+    baseUrl: z.string().url().optional(),
+    maxRetries: z.number().int().min(0).optional(),
+    // 1回の待機の上限（秒）。レート制限の解除までこれ以上かかる場合は再試行しない
+    maxRetryWait: z.number().positive().optional(),
+}).strict();
+
+export type GitHubClientConfig = z.infer<typeof githubClientConfigSchema>;
+
+export interface GitHubClientOptions {
+    // 省略時は環境変数、設定ファイルの順に探す。null の場合は認証しない
+    token?: string | null;
+    baseUrl?: string;
+    // 設定ファイルのパス（省略時はカレントディレクトリの .mastra-github.json）
+    config?: string;
+    maxRetries?: number;
+    // 指数バックオフの初回の待機（ミリ秒）
+    retryDelay?: number;
+    maxRetryWait?: number;
+    // 待機の実装（モックサーバーでの確認用に差し替えられる）
+    sleep?: (ms: number) => Promise<void>;
+    // HTTP の実装（記録したフィクスチャの再生に差し替えられる）
+    fetch?: typeof fetch;
+}
+
+export interface GitHubRateLimit {
+    limit: number;
+    remaining: number;
+    used: number | null;
+    // core、search など
+    resource: string | null;
+    resetAt: string;
+}
+
+export interface GitHubClientStats {
+    requests: number;
+    // 304 Not Modified でキャッシュを返したリクエスト
+    notModified: number;
+    retries: number;
+}
+
+export interface GitHubClient {
+    octokit: Octokit;
+    baseUrl: string;
+    authenticated: boolean;
+    // 設定ファイルを読み込んだ場合のパス
+    configSource: string | null;
+    // 直近のレスポンスのレート制限ヘッダー（未取得の場合は null）
+    rateLimit(): GitHubRateLimit | null;
+    stats(): GitHubClientStats;
+}
+
+interface CachedResponse {
+    etag: string | null;
+    lastModified: string | null;
+    response: any;
+}
+
+/**
+ * トークン・ベースURL・再試行・ETag によるキャッシュを備えた GitHub API クライアントを作成する。
+ */
+export async function createGitHubClient(options: GitHubClientOptions = {}): Promise<GitHubClient> {
+    const { config, source } = await loadGitHubClientConfig(options.config);
+    const token = options.token !== undefined ? options.token : resolveToken(config);
+    const baseUrl = (options.baseUrl || process.env.GITHUB_API_URL || config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    const maxRetries = options.maxRetries ?? config.maxRetries ?? 3;
+    const retryDelay = options.retryDelay ?? 1000;
+    const maxRetryWait = options.maxRetryWait ?? (config.maxRetryWait ?? 60) * 1000;
+    const sleep = options.sleep || ((ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)));
+
+    const octokit = new Octokit({
+        ...(token ? { auth: token } : {}),
+        baseUrl,
+        userAgent: 'mastra-repository-analysis',
+        // 再試行する失敗や 304 を Octokit に出力させない
+        log: { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} },
+        ...(options.fetch ? { request: { fetch: options.fetch } } : {}),
+    });
+
+    const cache = new Map<string, CachedResponse>();
+    const stats: GitHubClientStats = { requests: 0, notModified: 0, retries: 0 };
+    let rateLimit: GitHubRateLimit | null = null;
+
+    const recordRateLimit = (headers: Record<string, string | number | undefined> | undefined) => {
+        const parsed = parseRateLimit(headers);
+        if (parsed) rateLimit = parsed;
+    };
+
+    octokit.hook.wrap('request', async (request, requestOptions) => {
+        const method = String(requestOptions.method || 'GET').toUpperCase();
+        const key = method === 'GET' ? octokit.request.endpoint.parse(requestOptions).url : null;
+        const cached = key ? cache.get(key) : undefined;
+        // 内側のフック（認証）は最初に渡されたオプションを参照するため、ヘッダーはその場で書き換える
+        if (cached?.etag) requestOptions.headers['if-none-match'] = cached.etag;
+        if (cached?.lastModified) requestOptions.headers['if-modified-since'] = cached.lastModified;
+
+        for (let attempt = 0; ; attempt++) {
+            stats.requests++;
+            try {
+                const response = await request(requestOptions);
+                recordRateLimit(response.headers);
+                if (key) {
+                    const etag = response.headers.etag || null;
+                    const lastModified = response.headers['last-modified'] || null;
+                    if (etag || lastModified) {
+                        cache.delete(key);
+                        cache.set(key, { etag, lastModified, response });
+                        if (cache.size > MAX_CACHE_ENTRIES) {
+                            cache.delete(cache.keys().next().value!);
+                        }
+                    }
+                }
+                return response;
+            } catch (error: any) {
+                recordRateLimit(error?.response?.headers);
+                if (error?.status === 304 && key && cached) {
+                    stats.notModified++;
+                    // 最近使ったものとして末尾に移す
+                    cache.delete(key);
+                    cache.set(key, cached);
+                    return cached.response;
+                }
+
+                const delay = computeRetryDelay(error, attempt, retryDelay);
+                if (delay === null || attempt >= maxRetries || delay > maxRetryWait) {
+                    throw error;
+                }
+                stats.retries++;
+                await sleep(delay);
+            }
+        }
+    });
+
+    return {
+        octokit,
+        baseUrl,
+        authenticated: Boolean(token),
+        configSource: source,
+        rateLimit: () => rateLimit,
+        stats: () => ({ ...stats }),
+    };
+}
+
+let sharedClient: Promise<GitHubClient> | null = null;
+
+/**
+ * ツール間で共有するクライアントを返す。ETag のキャッシュとレート制限の状態はプロセス内で共有される。
+ */
+export function getGitHubClient(): Promise<GitHubClient> {
+    if (!sharedClient) {
+        sharedClient = createGitHubClient().catch(error => {
+            // 設定ファイルの誤りを直した後に再試行できるようにする
+            sharedClient = null;
+            throw error;
+        });
+    }
+    return sharedClient;
+}
+
+/**
+ * 共有クライアントを破棄する（環境変数や設定ファイルを変更した後に使う）。
+ */
+export function resetGitHubClient(): void {
+    sharedClient = null;
+}
+
+export async function loadGitHubClientConfig(configPath?: string): Promise<{ config: GitHubClientConfig; source: string | null }> {
+    const loaded = await loadJsonConfig(githubClientConfigSchema, [path.join(process.cwd(), CONFIG_FILE)], configPath, 'GitHub client config');
+    return loaded ?? { config: {}, source: null };
+}
+
+function resolveToken(config: GitHubClientConfig): string | null {
+    const variables = config.tokenEnv ? [config.tokenEnv, ...TOKEN_ENV_VARIABLES] : TOKEN_ENV_VARIABLES;
+    for (const variable of variables) {
+        const value = process.env[variable]?.trim();
+        if (value) return value;
+    }
+    return config.token || null;
+}
+
+function parseRateLimit(headers: Record<string, string | number | undefined> | undefined): GitHubRateLimit | null {
+    if (!headers || headers['x-ratelimit-limit'] === undefined || headers['x-ratelimit-remaining'] === undefined) {
+        return null;
+    }
+    const reset = Number(headers['x-ratelimit-reset']);
+    return {
+        limit: Number(headers['x-ratelimit-limit']),
+        remaining: Number(headers['x-ratelimit-remaining']),
+        used: headers['x-ratelimit-used'] !== undefined ? Number(headers['x-ratelimit-used']) : null,
+        resource: headers['x-ratelimit-resource'] !== undefined ? String(headers['x-ratelimit-resource']) : null,
+        resetAt: new Date(Number.isFinite(reset) ? reset * 1000 : Date.now()).toISOString(),
+    };
+}
+
+/**
+ * 再試行までの待機（ミリ秒）を求める。再試行すべきでない失敗の場合は null を返す。
+ * - retry-after がある場合はその秒数（セカンダリレート制限）
+ * - 残り回数が 0 の場合は x-ratelimit-reset の時刻まで（プライマリレート制限）
+ * - それ以外の 429 とセカンダリレート制限の 403 は指数バックオフ
+ * 権限不足などによる 403 は再試行しない。
+ */
+function computeRetryDelay(error: any, attempt: number, retryDelay: number): number | null {
+    const status = error?.status;
+    if (status !== 403 && status !== 429) return null;
+    const headers = error?.response?.headers || {};
+
+    const retryAfter = Number(headers['retry-after']);
+    if (headers['retry-after'] !== undefined && Number.isFinite(retryAfter)) {
+        return Math.max(retryAfter, 0) * 1000;
+    }
+
+    if (String(headers['x-ratelimit-remaining']) === '0' && headers['x-ratelimit-reset'] !== undefined) {
+        // 時計のずれを考慮して1秒余分に待つ
+        return Math.max(Number(headers['x-ratelimit-reset']) * 1000 - Date.now(), 0) + 1000;
+    }
+
+    if (status === 429 || /secondary rate limit|abuse/i.test(String(error?.message || ''))) {
+        return retryDelay * 2 ** attempt;
+    }
+    return null;
+}
@@ -0,0 +1,429 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { simpleGit } from 'simple-git';
+import { z } from 'zod';
+import { analyzeCode } from './utils';
+import { analyzeSourceComplexity, isComplexitySupported, FunctionComplexity } from './complexity';
+import { scanVulnerabilities, VulnerabilityReport } from './vulnerabilities';
+import { scanSecrets, SecretReport } from './secrets';
+import { checkLicenses, LicenseReport } from './licenses';
+import { detectDeadCode, DeadCodeReport } from './deadcode';
+import { detectDuplication, DuplicationReport } from './duplication';
+import { analyzeImportGraph } from './imports';
+
+const metricDeltaSchema = z.object({
+    base: z.number(),
+    head: z.number(),
+    delta: z.number(),
+});
+
+const dependencyRefSchema = z.object({
+    name: z.string(),
+    version: z.string(),
+    ecosystem: z.string(),
+    scope: z.enum(['runtime', 'dev']),
+});
+
+export const comparisonFindingSchema = z.object({
+    // 検出元（vulnerability・secret・license・dead-code・import-cycle）
+    scanner: z.enum(['vulnerability', 'secret', 'license', 'dead-code', 'import-cycle']),
+    id: z.string(),
+    severity: z.string(),
+    message: z.string(),
+    location: z.string().nullable(),
+});
+
+export const refComparisonSchema = z.object({
+    base: z.object({ ref: z.string(), commit: z.string() }),
+    head: z.object({ ref: z.string(), commit: z.string() }),
+    // base から head までのコミット数（履歴が分岐している場合は head 側のみ）
+    commits: z.number(),
+    changedFiles: z.array(z.object({
+        file: z.string(),
+        status: z.enum(['added', 'modified', 'deleted', 'renamed']),
+        previousFile: z.string().nullable(),
+        added: z.number(),
+        deleted: z.number(),
+    })),
+    totals: z.object({
+        files: metricDeltaSchema,
+        code: metricDeltaSchema,
+        comment: metricDeltaSchema,
+        functions: metricDeltaSchema,
+        averageCyclomatic: metricDeltaSchema,
+        maintainability: metricDeltaSchema,
+        duplication: metricDeltaSchema,
+    }),
+    // コード行数が変化した言語
+    languages: z.array(z.object({
+        language: z.string(),
+        files: metricDeltaSchema,
+        code: metricDeltaSchema,
+    })),
+    dependencies: z.object({
+        added: z.array(dependencyRefSchema),
+        removed: z.array(dependencyRefSchema),
+        changed: z.array(z.object({
+            name: z.string(),
+            ecosystem: z.string(),
+            scope: z.enum(['runtime', 'dev']),
+            from: z.string(),
+            to: z.string(),
+        })),
+    }),
+    complexity: z.object({
+        // 複雑度が上がった関数と、閾値を超える新しい関数
+        regressions: z.array(z.object({
+            name: z.string(),
+            file: z.string(),
+            line: z.number(),
+            cyclomatic: metricDeltaSchema,
+            cognitive: metricDeltaSchema,
+            isNew: z.boolean(),
+        })),
+        improvements: z.number(),
+    }),
+    findings: z.object({
+        new: z.array(comparisonFindingSchema),
+        resolved: z.array(comparisonFindingSchema),
+    }),
+});
+
+export type ComparisonFinding = z.infer<typeof comparisonFindingSchema>;
+export type RefComparison = z.infer<typeof refComparisonSchema>;
+
+export interface RepositorySnapshot {
+    ref: string;
+    commit: string;
+    repoPath: string;
+    analysis: Awaited<ReturnType<typeof analyzeCode>>;
+    vulnerabilities: VulnerabilityReport;
+    secrets: SecretReport;
+    licenses: LicenseReport;
+    deadCode: DeadCodeReport;
+    duplication: DuplicationReport;
+    importCycles: string[][];
+}
+
+export interface SnapshotOptions {
+    advisoryDatabase?: string;
+    licensePolicy?: string;
+    secretAllowlist?: string;
+    entryPoints?: string[];
+}
+
+// 新しく追加された関数のうち、回帰として報告する複雑度の閾値
+export const NEW_FUNCTION_CYCLOMATIC = 10;
+export const NEW_FUNCTION_COGNITIVE = 15;
+
+/**
+ * 1つの ref のチェックアウトに対して、比較に必要な解析をまとめて実行する。
+ * 差分を漏れなく求めるため、各スキャナーの件数の上限は設けない。
+ */
+export async function collectSnapshot(
+    repoPath: string,
+    ref: string,
+    commit: string,
+    options: SnapshotOptions = {}
+): Promise<RepositorySnapshot> {
+    const analysis = await analyzeCode(repoPath);
+    const vulnerabilities = await scanVulnerabilities(repoPath, { database: options.advisoryDatabase });
+    const secrets = await scanSecrets(repoPath, { allowlist: options.secretAllowlist, limit: Number.MAX_SAFE_INTEGER });
+    const licenses = await checkLicenses(repoPath, { policy: options.licensePolicy });
+    const deadCode = await detectDeadCode(repoPath, { entryPoints: options.entryPoints, limit: Number.MAX_SAFE_INTEGER });
+    const duplication = await detectDuplication(repoPath, { files: analysis.files, limit: 0 });
+    const graph = await analyzeImportGraph(repoPath, { limit: 0 });
+
+    return {
+        ref,
+        commit,
+        repoPath,
+        analysis,
+        vulnerabilities,
+        secrets,
+        licenses,
+        deadCode,
+        duplication,
+        importCycles: graph.cycles,
+    };
+}
+
+/**
+ * base と head のスナップショットを比較し、変更ファイル・言語ごとの行数・依存関係・
+ * 関数ごとの複雑度の変化と、各スキャナーで新たに検出された（または解消された）指摘を求める。
+ */
+export async function compareSnapshots(base: RepositorySnapshot, head: RepositorySnapshot): Promise<RefComparison> {
+    const { changedFiles, commits } = await diffCommits(base, head);
+
+    const baseMetrics = base.analysis.codeMetrics;
+    const headMetrics = head.analysis.codeMetrics;
+    const languageNames = new Set([...Object.keys(baseMetrics.languageStats), ...Object.keys(headMetrics.languageStats)]);
+    const languages = Array.from(languageNames)
+        .map(language => ({
+            language,
+            files: delta(baseMetrics.languageStats[language]?.files || 0, headMetrics.languageStats[language]?.files || 0),
+            code: delta(baseMetrics.languageStats[language]?.code || 0, headMetrics.languageStats[language]?.code || 0),
+        }))
+        .filter(entry => entry.code.delta !== 0 || entry.files.delta !== 0)
+        .sort((a, b) => Math.abs(b.code.delta) - Math.abs(a.code.delta));
+
+    return {
+        base: { ref: base.ref, commit: base.commit },
+        head: { ref: head.ref, commit: head.commit },
+        commits,
+        changedFiles,
+        totals: {
+            files: delta(baseMetrics.totalFiles, headMetrics.totalFiles),
+            code: delta(baseMetrics.totalCode, headMetrics.totalCode),
+            comment: delta(baseMetrics.totalComment, headMetrics.totalComment),
+            functions: delta(base.analysis.analysis.complexity.functionCount, head.analysis.analysis.complexity.functionCount),
+            averageCyclomatic: delta(base.analysis.analysis.complexity.averageCyclomatic, head.analysis.analysis.complexity.averageCyclomatic),
+            maintainability: delta(base.analysis.analysis.maintainability, head.analysis.analysis.maintainability),
+            duplication: delta(base.duplication.percentage, head.duplication.percentage),
+        },
+        languages,
+        dependencies: compareDependencies(base, head),
+        complexity: await compareFunctionComplexity(base, head, changedFiles),
+        findings: compareFindings(collectFindings(base), collectFindings(head)),
+    };
+}
+
+function delta(base: number, head: number): z.infer<typeof metricDeltaSchema> {
+    return { base, head, delta: head - base };
+}
+
+/**
+ * git diff で base から head までに変更されたファイルを求める。
+ * head のチェックアウトに base のコミットがない場合は、base のチェックアウトから取得する。
+ */
+async function diffCommits(base: RepositorySnapshot, head: RepositorySnapshot): Promise<{
+    changedFiles: RefComparison['changedFiles'];
+    commits: number;
+}> {
+    const git = simpleGit(head.repoPath);
+    const hasBase = await git.raw(['cat-file', '-e', `${base.commit}^{commit}`]).then(() => true, () => false);
+    if (!hasBase) {
+        await git.fetch([base.repoPath, base.commit]).catch(() => git.fetch([base.repoPath, 'HEAD']));
+    }
+
+    const [nameStatus, numstat, count] = await Promise.all([
+        git.raw(['diff', '--name-status', '-M', base.commit, head.commit]),
+        git.raw(['diff', '--numstat', '-M', base.commit, head.commit]),
+        git.raw(['rev-list', '--count', `${base.commit}..${head.commit}`]),
+    ]);
+
+    // numstat の改名は "old => new" や "dir/{old => new}" の形式になるため、name-status と同じ順序で対応付ける
+    const stats = numstat.split('\n').filter(Boolean).map(line => {
+        const [added, deleted] = line.split('\t');
+        return {
+            added: added === '-' ? 0 : Number(added),
+            deleted: deleted === '-' ? 0 : Number(deleted),
+        };
+    });
+
+    const changedFiles = nameStatus.split('\n').filter(Boolean).map((line, index) => {
+        const [code, first, second] = line.split('\t');
+        const status = code.startsWith('A') ? 'added' as const
+            : code.startsWith('D') ? 'deleted' as const
+                : code.startsWith('R') ? 'renamed' as const
+                    : 'modified' as const;
+        return {
+            file: second ?? first,
+            status,
+            previousFile: status === 'renamed' ? first : null,
+            added: stats[index]?.added ?? 0,
+            deleted: stats[index]?.deleted ?? 0,
+        };
+    });
+
+    return { changedFiles, commits: Number(count.trim()) || 0 };
+}
+
+function compareDependencies(base: RepositorySnapshot, head: RepositorySnapshot): RefComparison['dependencies'] {
+    const key = (dep: { name: string; ecosystem: string; scope: string }) => `${dep.ecosystem}:${dep.scope}:${dep.name}`;
+    const toRef = (dep: RepositorySnapshot['analysis']['dependencies'][number]) => ({
+        name: dep.name,
+        version: dep.version,
+        ecosystem: dep.ecosystem,
+        scope: dep.scope,
+    });
+    const baseDeps = new Map(base.analysis.dependencies.map(dep => [key(dep), dep]));
+    const headDeps = new Map(head.analysis.dependencies.map(dep => [key(dep), dep]));
+
+    const added = Array.from(headDeps.entries()).filter(([name]) => !baseDeps.has(name)).map(([, dep]) => toRef(dep));
+    const removed = Array.from(baseDeps.entries()).filter(([name]) => !headDeps.has(name)).map(([, dep]) => toRef(dep));
+    const changed = Array.from(headDeps.entries())
+        .filter(([name, dep]) => baseDeps.has(name) && baseDeps.get(name)!.version !== dep.version)
+        .map(([name, dep]) => ({
+            name: dep.name,
+            ecosystem: dep.ecosystem,
+            scope: dep.scope,
+            from: baseDeps.get(name)!.version,
+            to: dep.version,
+        }));
+
+    return { added, removed, changed };
+}
+
+/**
+ * 変更された TS/JS ファイルについて、同じ名前の関数同士の複雑度を比較する。
+ * 同名の関数が複数ある場合は出現順で対応付ける。
+ */
+async function compareFunctionComplexity(
+    base: RepositorySnapshot,
+    head: RepositorySnapshot,
+    changedFiles: RefComparison['changedFiles']
+): Promise<RefComparison['complexity']> {
+    const regressions: RefComparison['complexity']['regressions'] = [];
+    let improvements = 0;
+
+    for (const change of changedFiles) {
+        if (change.status === 'deleted' || !isComplexitySupported(change.file)) continue;
+        const headFunctions = await readFunctions(head.repoPath, change.file);
+        const baseFunctions = change.status === 'added'
+            ? new Map<string, FunctionComplexity>()
+            : await readFunctions(base.repoPath, change.previousFile ?? change.file);
+
+        for (const [key, fn] of headFunctions) {
+            const previous = baseFunctions.get(key);
+            if (!previous) {
+                if (fn.cyclomatic >= NEW_FUNCTION_CYCLOMATIC || fn.cognitive >= NEW_FUNCTION_COGNITIVE) {
+                    regressions.push({
+                        name: fn.name,
+                        file: change.file,
+                        line: fn.line,
+                        cyclomatic: delta(0, fn.cyclomatic),
+                        cognitive: delta(0, fn.cognitive),
+                        isNew: true,
+                    });
+                }
+                continue;
+            }
+            if (fn.cyclomatic > previous.cyclomatic || fn.cognitive > previous.cognitive) {
+                regressions.push({
+                    name: fn.name,
+                    file: change.file,
+                    line: fn.line,
+                    cyclomatic: delta(previous.cyclomatic, fn.cyclomatic),
+                    cognitive: delta(previous.cognitive, fn.cognitive),
+                    isNew: false,
+                });
+            } else if (fn.cyclomatic < previous.cyclomatic || fn.cognitive < previous.cognitive) {
+                improvements++;
+            }
+        }
+    }
+
+    regressions.sort((a, b) => b.cognitive.delta - a.cognitive.delta || b.cyclomatic.delta - a.cyclomatic.delta);
+    return { regressions, improvements };
+}
+
+async function readFunctions(repoPath: string, file: string): Promise<Map<string, FunctionComplexity>> {
+    let content: string;
+    try {
+        content = await fs.readFile(path.join(repoPath, file), 'utf-8');
+    } catch {
+        return new Map();
+    }
+    return indexFunctions(content, file);
+}
+
+/**
+ * 関数を「名前#出現順」のキーで引けるようにする。ref をまたいで同じ関数を対応付けるために使う。
+ */
+export function indexFunctions(content: string, file: string): Map<string, FunctionComplexity> {
+    const functions = new Map<string, FunctionComplexity>();
+    const occurrences = new Map<string, number>();
+    for (const fn of analyzeSourceComplexity(content, file)?.functions || []) {
+        const index = occurrences.get(fn.name) || 0;
+        occurrences.set(fn.name, index + 1);
+        functions.set(`${fn.name}#${index}`, fn);
+    }
+    return functions;
+}
+
+/**
+ * 各スキャナーの結果を、ref をまたいで同一性を判定できるキー付きの指摘に変換する。
+ */
+function collectFindings(snapshot: RepositorySnapshot): Map<string, ComparisonFinding> {
+    const findings = new Map<string, ComparisonFinding>();
+    const add = (finding: ComparisonFinding) => findings.set(`${finding.scanner}:${finding.id}`, finding);
+
+    for (const finding of snapshot.vulnerabilities.findings) {
+        // バージョンが変わっても修正されていなければ同じ指摘とみなす
+        add({
+            scanner: 'vulnerability',
+            id: `${finding.id}:${finding.ecosystem}:${finding.package}`,
+            severity: finding.severity,
+            message: `${finding.package}@${finding.version}: ${finding.summary}`,
+            location: finding.path.join(' → ') || null,
+        });
+    }
+    for (const finding of snapshot.secrets.findings) {
+        add({
+            scanner: 'secret',
+            id: `${finding.fingerprint}:${finding.file}`,
+            severity: finding.severity,
+            message: `${finding.description} (${finding.redacted})`,
+            location: `${finding.file}:${finding.line}`,
+        });
+    }
+    for (const dependency of snapshot.licenses.dependencies) {
+        if (dependency.status === 'allowed') continue;
+        add({
+            scanner: 'license',
+            id: `${dependency.name}:${dependency.license ?? 'UNKNOWN'}:${dependency.status}`,
+            severity: dependency.status,
+            message: `${dependency.version ? `${dependency.name}@${dependency.version}` : dependency.name} is licensed under ${dependency.license ?? 'an unknown license'}`,
+            location: null,
+        });
+    }
+    for (const conflict of snapshot.licenses.conflicts) {
+        add({
+            scanner: 'license',
+            id: `conflict:${conflict.name}:${conflict.license}`,
+            severity: 'denied',
+            message: `${conflict.name}@${conflict.version}: ${conflict.reason}`,
+            location: null,
+        });
+    }
+    for (const file of snapshot.deadCode.deadFiles) {
+        add({
+            scanner: 'dead-code',
+            id: `file:${file.file}`,
+            severity: file.confidence,
+            message: `Unreachable file (${file.reason})`,
+            location: file.file,
+        });
+    }
+    for (const entry of snapshot.deadCode.unusedExports) {
+        add({
+            scanner: 'dead-code',
+            id: `export:${entry.file}:${entry.name}`,
+            severity: entry.confidence,
+            message: `Unused export ${entry.name}`,
+            location: `${entry.file}:${entry.line}`,
+        });
+    }
+    for (const cycle of snapshot.importCycles) {
+        // 循環は開始位置によらず同じものとして扱う
+        add({
+            scanner: 'import-cycle',
+            id: Array.from(new Set(cycle)).sort().join(','),
+            severity: 'medium',
+            message: `Import cycle: ${cycle.join(' → ')}`,
+            location: cycle[0] ?? null,
+        });
+    }
+    return findings;
+}
+
+function compareFindings(
+    base: Map<string, ComparisonFinding>,
+    head: Map<string, ComparisonFinding>
+): RefComparison['findings'] {
+    return {
+        new: Array.from(head.entries()).filter(([key]) => !base.has(key)).map(([, finding]) => finding),
+        resolved: Array.from(base.entries()).filter(([key]) => !head.has(key)).map(([, finding]) => finding),
+    };
+}
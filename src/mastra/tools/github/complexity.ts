@@ -0,0 +1,320 @@
+import * as path from 'path';
+import { parse, TSESTree, AST_NODE_TYPES, AST_TOKEN_TYPES } from '@typescript-eslint/typescript-estree';
+
+// AST解析の対象とする拡張子
+const SUPPORTED_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+// 関数ごとの複雑度メトリクス
+export interface FunctionComplexity {
+    name: string;
+    file: string;
+    line: number;
+    cyclomatic: number;
+    cognitive: number;
+    maxNesting: number;
+    length: number;
+    params: number;
+    maintainability: number;
+}
+
+// ファイルごとの解析結果
+export interface FileComplexity {
+    file: string;
+    functions: FunctionComplexity[];
+    maintainability: number;
+}
+
+// リポジトリ全体の集計結果
+export interface ComplexitySummary {
+    functionCount: number;
+    averageCyclomatic: number;
+    maxCyclomatic: number;
+    averageCognitive: number;
+    maxCognitive: number;
+    maxNesting: number;
+    averageLength: number;
+    averageParams: number;
+    worstFunctions: FunctionComplexity[];
+}
+
+type FunctionNode =
+    | TSESTree.FunctionDeclaration
+    | TSESTree.FunctionExpression
+    | TSESTree.ArrowFunctionExpression;
+
+interface FunctionCounters {
+    cyclomatic: number;
+    cognitive: number;
+    maxNesting: number;
+}
+
+export function isComplexitySupported(filePath: string): boolean {
+    return SUPPORTED_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * ソースコードをASTに変換し、関数単位の複雑度とファイルの保守性指数を算出する。
+ * 構文エラーなどで解析できない場合は null を返す。
+ */
+export function analyzeSourceComplexity(content: string, filePath: string): FileComplexity | null {
+    const ext = path.extname(filePath).toLowerCase();
+
+    let ast: TSESTree.Program;
+    try {
+        ast = parse(content, {
+            loc: true,
+            range: true,
+            tokens: true,
+            comment: false,
+            jsx: ext === '.tsx' || ext === '.jsx' || ext === '.js',
+        });
+    } catch {
+        return null;
+    }
+
+    const functions: FunctionComplexity[] = [];
+    const tokens = ast.tokens ?? [];
+    const lines = content.split('\n');
+
+    const visitFunction = (node: FunctionNode, parent: TSESTree.Node | undefined) => {
+        const counters: FunctionCounters = { cyclomatic: 1, cognitive: 0, maxNesting: 0 };
+        walkFunctionBody(node.body, node, counters, 0, 0, visitFunction);
+
+        const [start, end] = node.range;
+        const functionTokens = tokens.filter(token => token.range[0] >= start && token.range[1] <= end);
+        const functionLines = lines.slice(node.loc.start.line - 1, node.loc.end.line);
+
+        functions.push({
+            name: resolveFunctionName(node, parent),
+            file: filePath,
+            line: node.loc.start.line,
+            cyclomatic: counters.cyclomatic,
+            cognitive: counters.cognitive,
+            maxNesting: counters.maxNesting,
+            length: node.loc.end.line - node.loc.start.line + 1,
+            params: node.params.length,
+            maintainability: calculateMaintainabilityIndex(functionTokens, functionLines, counters.cyclomatic),
+        });
+    };
+
+    // モジュールスコープの関数を探索（関数内部は visitFunction が再帰的に処理する）
+    const moduleCounters: FunctionCounters = { cyclomatic: 1, cognitive: 0, maxNesting: 0 };
+    walkFunctionBody(ast, undefined, moduleCounters, 0, 0, visitFunction);
+
+    // 関数ごとの保守性指数の平均をファイルの値とする（関数がなければファイル全体で算出）
+    const maintainability = functions.length > 0
+        ? functions.reduce((sum, fn) => sum + fn.maintainability, 0) / functions.length
+        : calculateMaintainabilityIndex(tokens, lines, moduleCounters.cyclomatic);
+
+    return {
+        file: filePath,
+        functions: functions.sort((a, b) => a.line - b.line),
+        maintainability,
+    };
+}
+
+/**
+ * ファイル単位の結果を集計し、複雑度の高い関数を上位 limit 件まで抽出する。
+ */
+export function aggregateComplexity(files: FileComplexity[], limit: number = 10): ComplexitySummary {
+    const functions = files.flatMap(file => file.functions);
+    const count = functions.length;
+
+    const sum = (selector: (fn: FunctionComplexity) => number) =>
+        functions.reduce((total, fn) => total + selector(fn), 0);
+    const max = (selector: (fn: FunctionComplexity) => number) =>
+        functions.reduce((highest, fn) => Math.max(highest, selector(fn)), 0);
+
+    const worstFunctions = [...functions]
+        .sort((a, b) => b.cognitive - a.cognitive || b.cyclomatic - a.cyclomatic)
+        .slice(0, limit);
+
+    return {
+        functionCount: count,
+        averageCyclomatic: count > 0 ? sum(fn => fn.cyclomatic) / count : 0,
+        maxCyclomatic: max(fn => fn.cyclomatic),
+        averageCognitive: count > 0 ? sum(fn => fn.cognitive) / count : 0,
+        maxCognitive: max(fn => fn.cognitive),
+        maxNesting: max(fn => fn.maxNesting),
+        averageLength: count > 0 ? sum(fn => fn.length) / count : 0,
+        averageParams: count > 0 ? sum(fn => fn.params) / count : 0,
+        worstFunctions,
+    };
+}
+
+function walkFunctionBody(
+    node: TSESTree.Node,
+    parent: TSESTree.Node | undefined,
+    counters: FunctionCounters,
+    nesting: number,
+    depth: number,
+    onFunction: (node: FunctionNode, parent: TSESTree.Node | undefined) => void
+): void {
+    const visit = (child: TSESTree.Node | null | undefined, childNesting: number, childDepth: number) => {
+        if (!child) return;
+        if (isFunctionNode(child)) {
+            // ネストした関数は独立した関数として計測する
+            onFunction(child, node);
+            return;
+        }
+        walkFunctionBody(child, node, counters, childNesting, childDepth, onFunction);
+    };
+
+    const visitChildren = (childNesting: number, childDepth: number) => {
+        for (const child of childNodes(node)) {
+            visit(child, childNesting, childDepth);
+        }
+    };
+
+    counters.maxNesting = Math.max(counters.maxNesting, depth);
+
+    switch (node.type) {
+        case AST_NODE_TYPES.IfStatement: {
+            const isElseIf = parent?.type === AST_NODE_TYPES.IfStatement && parent.alternate === node;
+            counters.cyclomatic++;
+            counters.cognitive += isElseIf ? 1 : 1 + nesting;
+
+            visit(node.test, nesting, depth);
+            visit(node.consequent, nesting + 1, depth + 1);
+            if (node.alternate) {
+                if (node.alternate.type === AST_NODE_TYPES.IfStatement) {
+                    // else if は元の if と同じネストレベルとして扱う
+                    walkFunctionBody(node.alternate, node, counters, nesting, depth, onFunction);
+                } else {
+                    counters.cognitive++;
+                    visit(node.alternate, nesting + 1, depth + 1);
+                }
+            }
+            return;
+        }
+        case AST_NODE_TYPES.ConditionalExpression:
+            counters.cyclomatic++;
+            counters.cognitive += 1 + nesting;
+            visitChildren(nesting + 1, depth);
+            return;
+        case AST_NODE_TYPES.SwitchStatement:
+            counters.cognitive += 1 + nesting;
+            visitChildren(nesting + 1, depth + 1);
+            return;
+        case AST_NODE_TYPES.SwitchCase:
+            if (node.test) counters.cyclomatic++;
+            visitChildren(nesting, depth);
+            return;
+        case AST_NODE_TYPES.ForStatement:
+        case AST_NODE_TYPES.ForInStatement:
+        case AST_NODE_TYPES.ForOfStatement:
+        case AST_NODE_TYPES.WhileStatement:
+        case AST_NODE_TYPES.DoWhileStatement:
+            counters.cyclomatic++;
+            counters.cognitive += 1 + nesting;
+            visitChildren(nesting + 1, depth + 1);
+            return;
+        case AST_NODE_TYPES.TryStatement:
+            visit(node.block, nesting, depth + 1);
+            visit(node.handler, nesting, depth);
+            visit(node.finalizer, nesting, depth + 1);
+            return;
+        case AST_NODE_TYPES.CatchClause:
+            counters.cyclomatic++;
+            counters.cognitive += 1 + nesting;
+            visitChildren(nesting + 1, depth + 1);
+            return;
+        case AST_NODE_TYPES.LogicalExpression: {
+            counters.cyclomatic++;
+            // 同じ演算子の連続は1つのシーケンスとして数える
+            const continuesSequence = parent?.type === AST_NODE_TYPES.LogicalExpression
+                && parent.operator === node.operator;
+            if (!continuesSequence) counters.cognitive++;
+            visitChildren(nesting, depth);
+            return;
+        }
+        case AST_NODE_TYPES.AssignmentExpression:
+            if (node.operator === '&&=' || node.operator === '||=' || node.operator === '??=') {
+                counters.cyclomatic++;
+            }
+            visitChildren(nesting, depth);
+            return;
+        case AST_NODE_TYPES.BreakStatement:
+        case AST_NODE_TYPES.ContinueStatement:
+            if (node.label) counters.cognitive++;
+            return;
+        default:
+            visitChildren(nesting, depth);
+    }
+}
+
+export function childNodes(node: TSESTree.Node): TSESTree.Node[] {
+    const children: TSESTree.Node[] = [];
+    for (const [key, value] of Object.entries(node)) {
+        if (key === 'parent' || key === 'loc' || key === 'range' || key === 'tokens' || key === 'comments') continue;
+
+        if (Array.isArray(value)) {
+            for (const item of value) {
+                if (isNode(item)) children.push(item);
+            }
+        } else if (isNode(value)) {
+            children.push(value);
+        }
+    }
+    return children;
+}
+
+function isNode(value: unknown): value is TSESTree.Node {
+    return typeof value === 'object' && value !== null && typeof (value as { type?: unknown }).type === 'string';
+}
+
+function isFunctionNode(node: TSESTree.Node): node is FunctionNode {
+    return node.type === AST_NODE_TYPES.FunctionDeclaration
+        || node.type === AST_NODE_TYPES.FunctionExpression
+        || node.type === AST_NODE_TYPES.ArrowFunctionExpression;
+}
+
+function resolveFunctionName(node: FunctionNode, parent: TSESTree.Node | undefined): string {
+    if (node.id) return node.id.name;
+    if (!parent) return '<anonymous>';
+
+    switch (parent.type) {
+        case AST_NODE_TYPES.VariableDeclarator:
+            return parent.id.type === AST_NODE_TYPES.Identifier ? parent.id.name : '<anonymous>';
+        case AST_NODE_TYPES.MethodDefinition:
+        case AST_NODE_TYPES.Property:
+        case AST_NODE_TYPES.PropertyDefinition:
+            if (parent.key.type === AST_NODE_TYPES.Identifier) return parent.key.name;
+            if (parent.key.type === AST_NODE_TYPES.Literal) return String(parent.key.value);
+            return '<computed>';
+        case AST_NODE_TYPES.AssignmentExpression:
+            if (parent.left.type === AST_NODE_TYPES.Identifier) return parent.left.name;
+            if (parent.left.type === AST_NODE_TYPES.MemberExpression
+                && parent.left.property.type === AST_NODE_TYPES.Identifier) {
+                return parent.left.property.name;
+            }
+            return '<anonymous>';
+        default:
+            return '<anonymous>';
+    }
+}
+
+/**
+ * Halstead Volume・循環的複雑度・行数から保守性指数（Microsoft版、0〜1に正規化）を算出する。
+ */
+function calculateMaintainabilityIndex(tokens: TSESTree.Token[], lines: string[], cyclomatic: number): number {
+    const operators = new Map<string, number>();
+    const operands = new Map<string, number>();
+
+    for (const token of tokens) {
+        const target = token.type === AST_TOKEN_TYPES.Punctuator || token.type === AST_TOKEN_TYPES.Keyword
+            ? operators
+            : operands;
+        target.set(token.value, (target.get(token.value) || 0) + 1);
+    }
+
+    const vocabulary = operators.size + operands.size;
+    const length = tokens.length;
+    const volume = vocabulary > 1 ? length * Math.log2(vocabulary) : 0;
+    const linesOfCode = lines.filter(line => line.trim() !== '').length;
+
+    if (volume === 0 || linesOfCode === 0) return 1;
+
+    const index = 171 - 5.2 * Math.log(volume) - 0.23 * cyclomatic - 16.2 * Math.log(linesOfCode);
+    return Math.max(0, Math.min(171, index)) / 171;
+}
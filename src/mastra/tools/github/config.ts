@@ -0,0 +1,41 @@
+// .mastra-*.json などの JSON 設定ファイルの読み込み
+// 明示的に指定したパスがない場合はエラーにし、候補がすべてない場合は既定値を使えるよう null を返す。
+import * as fs from 'fs/promises';
+import { z } from 'zod';
+
+/**
+ * explicitPath（なければ candidates を順に）から最初に見つかった JSON を schema で検証して返す。
+ * 見つかったファイルの内容が不正な場合は、次の候補に進まずにファイル名を含むエラーにする。
+ */
+export async function loadJsonConfig<T extends z.ZodTypeAny>(
+    schema: T,
+    candidates: string[],
+    explicitPath: string | undefined,
+    // エラーの文言に使う設定ファイルの名前（"License policy" など）
+    label: string
+): Promise<{ config: z.output<T>; source: string } | null> {
+    for (const candidate of explicitPath ? [explicitPath] : candidates) {
+        let content: string;
+        try {
+            content = await fs.readFile(candidate, 'utf-8');
+        } catch {
+            continue;
+        }
+        let parsed: z.SafeParseReturnType<unknown, z.output<T>>;
+        try {
+            parsed = schema.safeParse(JSON.parse(content));
+        } catch (error) {
+            throw new Error(`${label} is invalid (${candidate}): ${error instanceof Error ? error.message : String(error)}`);
+        }
+        if (!parsed.success) {
+            throw new Error(`${label} is invalid (${candidate}): ${parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`);
+        }
+        return { config: parsed.data, source: candidate };
+    }
+
+    if (explicitPath) {
+        throw new Error(`${label} not found: ${explicitPath}`);
+    }
+    return null;
+}
+
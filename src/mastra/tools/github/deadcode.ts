@@ -0,0 +1,323 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { z } from 'zod';
+import { minimatch } from 'minimatch';
+import { buildModuleGraph, resolveFile, ModuleInfo } from './imports';
+import { detectWorkspaces } from './workspaces';
+
+export const deadCodeConfidenceSchema = z.enum(['high', 'medium', 'low']);
+
+export const entryPointSchema = z.object({
+    file: z.string(),
+    // package.json のフィールド、フレームワークの規約、利用者の指定のいずれによるものか
+    source: z.enum(['package', 'convention', 'user']),
+    reason: z.string(),
+});
+
+export const deadCodeReportSchema = z.object({
+    modules: z.number(),
+    // エントリポイントからたどれるモジュール数
+    reachable: z.number(),
+    entryPoints: z.array(entryPointSchema),
+    // どのモジュールからも import されていない export
+    unusedExports: z.array(z.object({
+        name: z.string(),
+        file: z.string(),
+        line: z.number(),
+        typeOnly: z.boolean(),
+        confidence: deadCodeConfidenceSchema,
+    })),
+    // エントリポイントからたどれないファイル
+    deadFiles: z.array(z.object({
+        file: z.string(),
+        // このファイルを import している（同じく到達不能な）ファイル数
+        importers: z.number(),
+        confidence: deadCodeConfidenceSchema,
+        reason: z.string(),
+    })),
+    // 参照先を特定できない動的 import()・require() の数（多いほど結果の信頼度は下がる）
+    unknownDynamicImports: z.number(),
+    counts: z.object({
+        unusedExports: z.number(),
+        deadFiles: z.number(),
+        high: z.number(),
+        medium: z.number(),
+        low: z.number(),
+    }),
+});
+
+export type DeadCodeConfidence = z.infer<typeof deadCodeConfidenceSchema>;
+export type EntryPoint = z.infer<typeof entryPointSchema>;
+export type DeadCodeReport = z.infer<typeof deadCodeReportSchema>;
+
+interface DeadCodeOptions {
+    // 追加のエントリポイント（リポジトリルートからの相対パスまたは glob）
+    entryPoints?: string[];
+    limit?: number;
+}
+
+const DEFAULT_LIMIT = 50;
+
+// フレームワークやツールが規約に従って読み込むため、import されていなくても使われるファイル
+const CONVENTION_ENTRIES: Array<{ pattern: string; reason: string }> = [
+    { pattern: '{,src/}{index,main,server,app,cli}.{ts,tsx,mts,cts,js,jsx,mjs,cjs}', reason: 'application entry point' },
+    { pattern: '**/src/mastra/index.{ts,js}', reason: 'Mastra entry point' },
+    { pattern: '**/{pages,src/pages}/**', reason: 'Next.js / Nuxt / Astro page' },
+    { pattern: '**/{app,src/app}/**/{page,layout,template,loading,error,global-error,not-found,default,route,opengraph-image,icon,sitemap,robots}.{ts,tsx,js,jsx}', reason: 'Next.js App Router convention' },
+    { pattern: '**/{,src/}{middleware,instrumentation}.{ts,js}', reason: 'Next.js convention' },
+    { pattern: '**/src/routes/**', reason: 'SvelteKit route' },
+    { pattern: '**/app/{root,entry.client,entry.server}.{ts,tsx,js,jsx}', reason: 'Remix convention' },
+    { pattern: '**/app/routes/**', reason: 'Remix route' },
+    { pattern: '**/{plugins,middleware,layouts,server,composables}/**', reason: 'Nuxt auto-import directory' },
+    { pattern: '**/gatsby-{config,node,browser,ssr}.{ts,js}', reason: 'Gatsby convention' },
+    { pattern: '**/*.config.{ts,mts,cts,js,mjs,cjs}', reason: 'tool configuration' },
+    { pattern: '**/.*rc.{js,cjs,mjs}', reason: 'tool configuration' },
+    { pattern: '**/*.{test,spec,e2e,stories,story,bench}.{ts,tsx,mts,cts,js,jsx,mjs,cjs}', reason: 'test or story' },
+    { pattern: '**/{__tests__,__mocks__,test,tests,e2e,cypress,.storybook}/**', reason: 'test or story' },
+    { pattern: '{scripts,bin,tools}/**', reason: 'standalone script' },
+];
+
+/**
+ * モジュールの依存グラフから、どこからも import されていない export と
+ * エントリポイントからたどれないファイルを検出する。
+ * 動的 import や規約による読み込みがあるため結果はヒューリスティックであり、項目ごとに信頼度を付ける。
+ */
+export async function detectDeadCode(repoPath: string, options: DeadCodeOptions = {}): Promise<DeadCodeReport> {
+    const graph = await buildModuleGraph(repoPath);
+    const files = new Set(graph.modules.keys());
+    const limit = options.limit ?? DEFAULT_LIMIT;
+
+    const entryPoints = await findEntryPoints(repoPath, files, options.entryPoints || []);
+    const entrySet = new Set(entryPoints.map(entry => entry.file));
+
+    // エントリポイントから import（型のみ・動的 import・再エクスポートを含む）をたどる
+    const reachable = new Set<string>(entrySet);
+    const queue = Array.from(entrySet);
+    while (queue.length > 0) {
+        const info = graph.modules.get(queue.shift()!);
+        for (const record of info?.imports || []) {
+            if (record.resolved && !reachable.has(record.resolved)) {
+                reachable.add(record.resolved);
+                queue.push(record.resolved);
+            }
+        }
+    }
+
+    const modules = Array.from(graph.modules.values());
+    const unknownDynamicImports = modules.reduce((sum, info) => sum + info.unknownDynamicImports, 0);
+    // 解析できなかったファイルの import は分からないため、参照先を特定できない動的 import と同様に扱う
+    const uncertain = unknownDynamicImports > 0 || modules.some(info => !info.parsed);
+    const dynamicPrefixes = modules.flatMap(info => info.dynamicPrefixes);
+    const underDynamicPrefix = (file: string) => dynamicPrefixes.some(prefix => prefix === '' || file.startsWith(`${prefix}/`));
+
+    const importers = new Map<string, Set<string>>();
+    for (const info of modules) {
+        for (const record of info.imports) {
+            if (!record.resolved || record.resolved === info.file) continue;
+            const set = importers.get(record.resolved) || new Set<string>();
+            set.add(info.file);
+            importers.set(record.resolved, set);
+        }
+    }
+
+    const deadFiles: DeadCodeReport['deadFiles'] = modules
+        .filter(info => info.parsed && !reachable.has(info.file))
+        .map(info => {
+            const count = importers.get(info.file)?.size || 0;
+            if (underDynamicPrefix(info.file)) {
+                return { file: info.file, importers: count, confidence: 'low' as const, reason: 'inside a directory loaded by a dynamic import' };
+            }
+            if (count > 0) {
+                return { file: info.file, importers: count, confidence: 'medium' as const, reason: 'only imported by unreachable files' };
+            }
+            return {
+                file: info.file,
+                importers: 0,
+                confidence: uncertain ? 'medium' as const : 'high' as const,
+                reason: 'not imported by any file',
+            };
+        })
+        .sort((a, b) => confidenceRank(a.confidence) - confidenceRank(b.confidence) || a.file.localeCompare(b.file));
+
+    const used = collectUsedExports(graph.modules, entrySet);
+    const unusedExports: DeadCodeReport['unusedExports'] = [];
+    for (const info of modules) {
+        // 到達不能なファイルはファイル単位で報告する
+        if (!info.parsed || !reachable.has(info.file) || entrySet.has(info.file)) continue;
+        const names = used.get(info.file);
+        if (names === 'all') continue;
+        for (const entry of info.exports) {
+            if (entry.name === '*' || names?.has(entry.name)) continue;
+            let confidence: DeadCodeConfidence = 'high';
+            if (underDynamicPrefix(info.file)) confidence = 'low';
+            // default export はフレームワークが規約で読み込むことが多い
+            else if (uncertain || entry.name === 'default') confidence = 'medium';
+            unusedExports.push({ name: entry.name, file: info.file, line: entry.line, typeOnly: entry.typeOnly, confidence });
+        }
+    }
+    unusedExports.sort((a, b) => confidenceRank(a.confidence) - confidenceRank(b.confidence)
+        || a.file.localeCompare(b.file) || a.line - b.line);
+
+    const all = [...unusedExports, ...deadFiles];
+    return {
+        modules: graph.modules.size,
+        reachable: reachable.size,
+        entryPoints,
+        unusedExports: unusedExports.slice(0, limit),
+        deadFiles: deadFiles.slice(0, limit),
+        unknownDynamicImports,
+        counts: {
+            unusedExports: unusedExports.length,
+            deadFiles: deadFiles.length,
+            high: all.filter(item => item.confidence === 'high').length,
+            medium: all.filter(item => item.confidence === 'medium').length,
+            low: all.filter(item => item.confidence === 'low').length,
+        },
+    };
+}
+
+/**
+ * package.json の main・module・exports・bin・scripts、フレームワークの規約、利用者の指定からエントリポイントを求める。
+ */
+async function findEntryPoints(repoPath: string, files: Set<string>, userEntries: string[]): Promise<EntryPoint[]> {
+    const entries = new Map<string, EntryPoint>();
+    const add = (file: string | null, source: EntryPoint['source'], reason: string) => {
+        if (file && !entries.has(file)) entries.set(file, { file, source, reason });
+    };
+
+    const { packages } = await detectWorkspaces(repoPath).catch(() => ({ packages: [] as Array<{ path: string }> }));
+    const packageDirectories = Array.from(new Set(['', ...packages.map(pkg => pkg.path === '.' ? '' : pkg.path)]));
+    for (const directory of packageDirectories) {
+        let manifest: any;
+        try {
+            manifest = JSON.parse(await fs.readFile(path.join(repoPath, directory, 'package.json'), 'utf-8'));
+        } catch {
+            continue;
+        }
+        const label = `${directory || '.'}/package.json`;
+        for (const [field, target] of manifestTargets(manifest)) {
+            add(resolveEntry(directory, target, files), 'package', `${field} in ${label}`);
+        }
+    }
+
+    for (const file of files) {
+        const convention = CONVENTION_ENTRIES.find(entry => minimatch(file, entry.pattern, { dot: true }));
+        if (convention) add(file, 'convention', convention.reason);
+    }
+
+    for (const pattern of userEntries) {
+        const normalized = pattern.replace(/^\.\//, '');
+        const resolved = resolveFile(normalized, files);
+        if (resolved) {
+            add(resolved, 'user', 'user-specified entry point');
+            continue;
+        }
+        for (const file of files) {
+            if (minimatch(file, normalized, { dot: true })) add(file, 'user', 'user-specified entry point');
+        }
+    }
+
+    return Array.from(entries.values()).sort((a, b) => a.file.localeCompare(b.file));
+}
+
+function manifestTargets(manifest: any): Array<[string, string]> {
+    const targets: Array<[string, string]> = [];
+    for (const field of ['source', 'main', 'module', 'browser', 'types', 'typings']) {
+        if (typeof manifest[field] === 'string') targets.push([field, manifest[field]]);
+    }
+    if (typeof manifest.bin === 'string') targets.push(['bin', manifest.bin]);
+    else if (manifest.bin && typeof manifest.bin === 'object') {
+        for (const [name, target] of Object.entries(manifest.bin)) {
+            if (typeof target === 'string') targets.push([`bin.${name}`, target]);
+        }
+    }
+    // exports は条件やサブパスで入れ子になるため、文字列の値をすべて集める
+    const collect = (value: unknown, key: string) => {
+        if (typeof value === 'string') targets.push([key, value]);
+        else if (Array.isArray(value)) value.forEach(item => collect(item, key));
+        else if (value && typeof value === 'object') {
+            for (const [child, nested] of Object.entries(value)) collect(nested, `${key}["${child}"]`);
+        }
+    };
+    collect(manifest.exports, 'exports');
+    // "dev": "tsx src/index.ts" のように scripts から直接実行されるファイル
+    for (const [name, script] of Object.entries(manifest.scripts || {})) {
+        if (typeof script !== 'string') continue;
+        for (const match of script.matchAll(/(?:^|\s)(\.?\/?[\w@./-]+\.(?:[cm]?[jt]sx?))(?=\s|$)/g)) {
+            targets.push([`scripts.${name}`, match[1]]);
+        }
+    }
+    return targets;
+}
+
+/**
+ * package.json に書かれたパスをソースファイルに対応付ける。ビルド成果物を指す場合は src 配下の同名ファイルを探す。
+ */
+function resolveEntry(directory: string, target: string, files: Set<string>): string | null {
+    if (target.includes('*')) return null;
+    const relative = target.replace(/^\.\//, '').replace(/\.d\.([cm]?)ts$/, '.$1ts');
+    const candidates = [relative];
+    const build = relative.match(/^(dist|lib|build|out)\/(?:(?:esm|cjs|es|umd)\/)?(.*)$/);
+    if (build) candidates.push(`src/${build[2]}`, build[2]);
+    for (const candidate of candidates) {
+        const resolved = resolveFile(path.posix.normalize(path.posix.join(directory, candidate)), files)
+            || resolveFile(path.posix.normalize(path.posix.join(directory, candidate.replace(/\.[cm]?jsx?$/, ''))), files);
+        if (resolved) return resolved;
+    }
+    return null;
+}
+
+/**
+ * 各モジュールについて、他のモジュールから参照されている export 名を集める。
+ * 名前空間 import・require・動的 import はすべての export を使うものとみなし、再エクスポートは元のファイルまでたどる。
+ */
+function collectUsedExports(modules: Map<string, ModuleInfo>, entryPoints: Set<string>): Map<string, Set<string> | 'all'> {
+    const used = new Map<string, Set<string> | 'all'>();
+    const queue: string[] = [];
+    const mark = (file: string, name: string) => {
+        const current = used.get(file);
+        if (current === 'all') return;
+        if (name === '*') {
+            used.set(file, 'all');
+        } else {
+            const names = current || new Set<string>();
+            if (names.has(name)) return;
+            names.add(name);
+            used.set(file, names);
+        }
+        queue.push(file);
+    };
+
+    // エントリポイントの export は公開 API として扱う
+    for (const file of entryPoints) mark(file, '*');
+    for (const info of modules.values()) {
+        for (const record of info.imports) {
+            // export ... from は再エクスポート側の利用状況に応じて下で伝播させる
+            if (!record.resolved || record.kind === 'export') continue;
+            for (const name of record.names) mark(record.resolved, name);
+        }
+    }
+
+    // 使われている名前を再エクスポートの元のファイルへ伝播させる
+    while (queue.length > 0) {
+        const file = queue.shift()!;
+        const info = modules.get(file);
+        const names = used.get(file);
+        if (!info || !names) continue;
+        for (const entry of info.exports) {
+            if (!entry.from || !entry.local) continue;
+            if (entry.name === '*') {
+                // export * from は default 以外の名前をそのまま公開する
+                if (names === 'all') mark(entry.from, '*');
+                else names.forEach(name => name !== 'default' && mark(entry.from!, name));
+            } else if (names === 'all' || names.has(entry.name)) {
+                mark(entry.from, entry.local);
+            }
+        }
+    }
+    return used;
+}
+
+function confidenceRank(confidence: DeadCodeConfidence): number {
+    return confidence === 'high' ? 0 : confidence === 'medium' ? 1 : 2;
+}
@@ -0,0 +1,294 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import fg from 'fast-glob';
+import { z } from 'zod';
+import { parse, AST_TOKEN_TYPES } from '@typescript-eslint/typescript-estree';
+import { filterIgnoredFiles } from './gitignore';
+import { classifyFiles, isSourceFile } from './languages';
+import { isComplexitySupported } from './complexity';
+
+export const cloneOccurrenceSchema = z.object({
+    file: z.string(),
+    startLine: z.number(),
+    endLine: z.number(),
+});
+
+export const cloneGroupSchema = z.object({
+    // 検出方式（TS/JS はトークン、それ以外は行）
+    mode: z.enum(['token', 'line']),
+    // 一致した長さ（行ベースの場合は比較した行数）
+    tokens: z.number(),
+    lines: z.number(),
+    occurrences: z.array(cloneOccurrenceSchema),
+});
+
+export const duplicationReportSchema = z.object({
+    minTokens: z.number(),
+    minLines: z.number(),
+    filesAnalyzed: z.number(),
+    // 解析対象のコード行数と、そのうち重複ブロックに含まれる行数
+    totalLines: z.number(),
+    duplicatedLines: z.number(),
+    percentage: z.number(),
+    groupCount: z.number(),
+    groups: z.array(cloneGroupSchema),
+    // 重複行の多いファイル
+    files: z.array(z.object({
+        file: z.string(),
+        duplicatedLines: z.number(),
+        percentage: z.number(),
+    })),
+});
+
+export type CloneGroup = z.infer<typeof cloneGroupSchema>;
+export type DuplicationReport = z.infer<typeof duplicationReportSchema>;
+
+interface DuplicationOptions {
+    // 解析対象のファイル（絶対パス）。省略時は .gitignore を考慮してリポジトリ全体を列挙する
+    files?: string[];
+    minTokens?: number;
+    minLines?: number;
+    limit?: number;
+}
+
+interface TokenStream {
+    file: string;
+    mode: CloneGroup['mode'];
+    // 正規化済みトークンのID列と、各トークンの開始・終了行
+    tokens: number[];
+    startLines: number[];
+    endLines: number[];
+    codeLines: number;
+}
+
+// jscpd の既定値に合わせる
+const DEFAULT_MIN_TOKENS = 50;
+const DEFAULT_MIN_LINES = 5;
+const DEFAULT_LIMIT = 20;
+
+const HASH_BASE = 1000003;
+
+// 行ベースの検出で比較から除く行（括弧のみの行やコメント行）
+const TRIVIAL_LINE = /^([{}()[\];,]*|end|(\/\/|#|--|\/\*|\*|%|;).*)$/;
+
+/**
+ * コピー＆ペーストされたコードブロックを検出する。
+ * TS/JS は識別子とリテラルを正規化したトークン列、それ以外の言語は正規化した行の列を比較し、
+ * 最小長を超えて一致する区間をクローンとしてまとめる。
+ */
+export async function detectDuplication(repoPath: string, options: DuplicationOptions = {}): Promise<DuplicationReport> {
+    const minTokens = options.minTokens ?? DEFAULT_MIN_TOKENS;
+    const minLines = options.minLines ?? DEFAULT_MIN_LINES;
+
+    const files: string[] = options.files || await fg('**/*', {
+        cwd: repoPath,
+        absolute: true,
+        onlyFiles: true,
+        ignore: ['**/.git/**', '**/node_modules/**'],
+    }).then(found => filterIgnoredFiles(repoPath, found));
+
+    // vendored・generated を除いたプログラミング言語のファイルのみを対象にする
+    const classified = (await classifyFiles(files, repoPath))
+        .filter(file => isSourceFile(file) && file.type === 'programming');
+
+    const vocabulary = new Map<string, number>();
+    const intern = (token: string) => {
+        let id = vocabulary.get(token);
+        if (id === undefined) {
+            id = vocabulary.size + 1;
+            vocabulary.set(token, id);
+        }
+        return id;
+    };
+
+    const streams: TokenStream[] = [];
+    for (const file of classified) {
+        let content: string;
+        try {
+            content = await fs.readFile(path.join(repoPath, file.path), 'utf-8');
+        } catch {
+            continue;
+        }
+        const stream = (isComplexitySupported(file.path) && tokenize(content, file.path, intern))
+            || lineTokens(content, file.path, intern);
+        streams.push({ ...stream, codeLines: file.code });
+    }
+
+    const groups = findClones(streams, minTokens, minLines);
+
+    // ファイルごとに重複ブロックに含まれる行を集計する
+    const covered = new Map<string, Set<number>>();
+    for (const group of groups) {
+        for (const occurrence of group.occurrences) {
+            const lines = covered.get(occurrence.file) || new Set<number>();
+            for (let line = occurrence.startLine; line <= occurrence.endLine; line++) lines.add(line);
+            covered.set(occurrence.file, lines);
+        }
+    }
+
+    const codeLines = new Map(streams.map(stream => [stream.file, stream.codeLines]));
+    const fileStats = Array.from(covered.entries())
+        .map(([file, lines]) => {
+            const total = codeLines.get(file) || lines.size;
+            const duplicatedLines = Math.min(lines.size, total);
+            return { file, duplicatedLines, percentage: total > 0 ? duplicatedLines / total : 0 };
+        })
+        .sort((a, b) => b.duplicatedLines - a.duplicatedLines);
+
+    const totalLines = streams.reduce((sum, stream) => sum + stream.codeLines, 0);
+    const duplicatedLines = fileStats.reduce((sum, file) => sum + file.duplicatedLines, 0);
+    const limit = options.limit ?? DEFAULT_LIMIT;
+
+    return {
+        minTokens,
+        minLines,
+        filesAnalyzed: streams.length,
+        totalLines,
+        duplicatedLines,
+        percentage: totalLines > 0 ? duplicatedLines / totalLines : 0,
+        groupCount: groups.length,
+        groups: groups.slice(0, limit),
+        files: fileStats.slice(0, limit),
+    };
+}
+
+/**
+ * TS/JS をトークン列に変換する。識別子は ID、リテラルは LIT に正規化し、
+ * 変数名や文字列だけが異なるコピーも同じ列になるようにする。構文エラーの場合は null を返す。
+ */
+function tokenize(content: string, file: string, intern: (token: string) => number): Omit<TokenStream, 'codeLines'> | null {
+    const ext = path.extname(file).toLowerCase();
+    let tokens;
+    try {
+        tokens = parse(content, {
+            loc: true,
+            tokens: true,
+            comment: false,
+            jsx: ext === '.tsx' || ext === '.jsx' || ext === '.js',
+        }).tokens || [];
+    } catch {
+        return null;
+    }
+
+    const stream: Omit<TokenStream, 'codeLines'> = { file, mode: 'token', tokens: [], startLines: [], endLines: [] };
+    for (const token of tokens) {
+        let normalized: string;
+        switch (token.type) {
+            case AST_TOKEN_TYPES.Identifier:
+            case AST_TOKEN_TYPES.JSXIdentifier:
+            case AST_TOKEN_TYPES.PrivateIdentifier:
+                normalized = 'ID';
+                break;
+            case AST_TOKEN_TYPES.String:
+            case AST_TOKEN_TYPES.Numeric:
+            case AST_TOKEN_TYPES.Template:
+            case AST_TOKEN_TYPES.RegularExpression:
+            case AST_TOKEN_TYPES.JSXText:
+                normalized = 'LIT';
+                break;
+            default:
+                normalized = token.value;
+        }
+        stream.tokens.push(intern(normalized));
+        stream.startLines.push(token.loc.start.line);
+        stream.endLines.push(token.loc.end.line);
+    }
+    return stream;
+}
+
+/**
+ * トークン化に対応していない言語の代替として、空白を正規化した行をトークンとして扱う。
+ */
+function lineTokens(content: string, file: string, intern: (token: string) => number): Omit<TokenStream, 'codeLines'> {
+    const stream: Omit<TokenStream, 'codeLines'> = { file, mode: 'line', tokens: [], startLines: [], endLines: [] };
+    content.split(/\r?\n/).forEach((line, index) => {
+        const normalized = line.trim().replace(/\s+/g, ' ');
+        if (TRIVIAL_LINE.test(normalized)) return;
+        stream.tokens.push(intern(normalized));
+        stream.startLines.push(index + 1);
+        stream.endLines.push(index + 1);
+    });
+    return stream;
+}
+
+/**
+ * 固定長のウィンドウのハッシュで一致候補を見つけ、一致する限り前方へ延長してクローンとする。
+ * 同じ元の区間に一致したものは1つのグループにまとめる。
+ */
+function findClones(streams: TokenStream[], minTokens: number, minLines: number): CloneGroup[] {
+    // 最初に現れた位置のみを記録する（以降の一致はすべてその位置に対するクローンとして扱う）
+    const seen = new Map<string, { stream: number; index: number }>();
+    const groups = new Map<string, { mode: CloneGroup['mode']; length: number; source: { stream: number; index: number }; copies: Array<{ stream: number; index: number; length: number }> }>();
+
+    streams.forEach((stream, streamIndex) => {
+        const window = stream.mode === 'token' ? minTokens : minLines;
+        if (stream.tokens.length < window) return;
+
+        let power = 1;
+        for (let i = 1; i < window; i++) power = Math.imul(power, HASH_BASE) >>> 0;
+
+        let hash = 0;
+        for (let i = 0; i < window; i++) hash = (Math.imul(hash, HASH_BASE) + stream.tokens[i]) >>> 0;
+
+        let skipUntil = 0;
+        for (let i = 0; i + window <= stream.tokens.length; i++) {
+            if (i > 0) {
+                // ローリングハッシュで先頭のトークンを取り除き、末尾のトークンを加える
+                hash = (hash - Math.imul(stream.tokens[i - 1], power)) >>> 0;
+                hash = (Math.imul(hash, HASH_BASE) + stream.tokens[i + window - 1]) >>> 0;
+            }
+
+            const key = `${stream.mode}:${hash}`;
+            const previous = seen.get(key);
+            if (!previous) {
+                seen.set(key, { stream: streamIndex, index: i });
+                continue;
+            }
+            if (i < skipUntil) continue;
+
+            const other = streams[previous.stream];
+            let length = 0;
+            while (
+                i + length < stream.tokens.length
+                && previous.index + length < other.tokens.length
+                && stream.tokens[i + length] === other.tokens[previous.index + length]
+                // 同じファイル内では自身の区間と重ならない範囲までに限る
+                && (previous.stream !== streamIndex || previous.index + length < i)
+            ) {
+                length++;
+            }
+            if (length < window) continue;
+
+            const startLine = stream.startLines[i];
+            const endLine = stream.endLines[i + length - 1];
+            if (endLine - startLine + 1 < minLines) continue;
+
+            const groupKey = `${previous.stream}:${previous.index}`;
+            const group = groups.get(groupKey) || { mode: stream.mode, length, source: previous, copies: [] };
+            group.length = Math.min(group.length, length);
+            group.copies.push({ stream: streamIndex, index: i, length });
+            groups.set(groupKey, group);
+
+            // 検出した区間の内側から同じクローンを重複して数えないようにする
+            skipUntil = i + length;
+        }
+    });
+
+    const toOccurrence = (position: { stream: number; index: number }, length: number) => {
+        const stream = streams[position.stream];
+        return {
+            file: stream.file,
+            startLine: stream.startLines[position.index],
+            endLine: stream.endLines[position.index + length - 1],
+        };
+    };
+
+    return Array.from(groups.values())
+        .map(group => {
+            const occurrences = [group.source, ...group.copies].map(position => toOccurrence(position, group.length));
+            const lines = Math.max(...occurrences.map(occurrence => occurrence.endLine - occurrence.startLine + 1));
+            return { mode: group.mode, tokens: group.length, lines, occurrences };
+        })
+        .filter(group => group.lines >= minLines)
+        .sort((a, b) => b.lines * b.occurrences.length - a.lines * a.occurrences.length);
+}
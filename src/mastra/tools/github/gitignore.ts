@@ -0,0 +1,98 @@
+import { simpleGit } from 'simple-git';
+import { minimatch } from 'minimatch';
+import fg from 'fast-glob';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+interface IgnoreRule {
+    // .gitignore が置かれたディレクトリ（ルートからの相対パス、ルートは空文字）
+    base: string;
+    pattern: string;
+    negate: boolean;
+    directoryOnly: boolean;
+}
+
+/**
+ * .gitignore で除外されるファイルを取り除く。
+ * gitの作業ツリーでは git ls-files の結果（グローバル設定や .git/info/exclude を含む）を使い、
+ * それ以外のディレクトリでは .gitignore を直接解釈する。
+ */
+export async function filterIgnoredFiles(dir: string, files: string[]): Promise<string[]> {
+    const tracked = await listGitFiles(dir);
+    if (tracked) {
+        return files.filter(file => tracked.has(toPosix(path.relative(dir, file))));
+    }
+
+    const rules = await loadIgnoreRules(dir);
+    if (rules.length === 0) return files;
+    return files.filter(file => !isIgnored(toPosix(path.relative(dir, file)), rules));
+}
+
+async function listGitFiles(dir: string): Promise<Set<string> | null> {
+    const git = simpleGit(dir);
+    const isRepo = await git.checkIsRepo().catch(() => false);
+    if (!isRepo) return null;
+
+    try {
+        const output = await git.raw(['ls-files', '-z', '--cached', '--others', '--exclude-standard']);
+        return new Set(output.split('\0').filter(Boolean));
+    } catch {
+        return null;
+    }
+}
+
+async function loadIgnoreRules(dir: string): Promise<IgnoreRule[]> {
+    const ignoreFiles = await fg('**/.gitignore', { cwd: dir, dot: true, onlyFiles: true, ignore: ['**/node_modules/**'] });
+    // 親ディレクトリの規則を先に評価し、深い階層の規則で上書きする
+    ignoreFiles.sort((a, b) => a.split('/').length - b.split('/').length);
+
+    const rules: IgnoreRule[] = [];
+    for (const ignoreFile of ignoreFiles) {
+        const base = path.posix.dirname(ignoreFile) === '.' ? '' : path.posix.dirname(ignoreFile);
+        const content = await fs.readFile(path.join(dir, ignoreFile), 'utf-8');
+        for (const rawLine of content.split(/\r?\n/)) {
+            const line = rawLine.replace(/(?<!\\)\s+$/, '');
+            if (!line || line.startsWith('#')) continue;
+
+            const negate = line.startsWith('!');
+            let pattern = (negate ? line.slice(1) : line).replace(/^\\([#!])/, '$1');
+            const directoryOnly = pattern.endsWith('/');
+            pattern = pattern.replace(/\/+$/, '');
+            if (!pattern) continue;
+
+            // スラッシュを含むパターンは .gitignore の位置からの相対、含まないものは任意の階層に一致する
+            const anchored = pattern.includes('/');
+            rules.push({
+                base,
+                pattern: anchored ? pattern.replace(/^\//, '') : `**/${pattern}`,
+                negate,
+                directoryOnly,
+            });
+        }
+    }
+    return rules;
+}
+
+function isIgnored(relativePath: string, rules: IgnoreRule[]): boolean {
+    let ignored = false;
+    for (const rule of rules) {
+        if (rule.base && !relativePath.startsWith(`${rule.base}/`)) continue;
+        const local = rule.base ? relativePath.slice(rule.base.length + 1) : relativePath;
+        const segments = local.split('/');
+
+        // ファイル自身、または親ディレクトリのいずれかがパターンに一致すれば対象とする
+        const candidates = segments.map((_, index) => segments.slice(0, index + 1).join('/'));
+        const matched = candidates.some((candidate, index) => {
+            const isDirectory = index < segments.length - 1;
+            if (rule.directoryOnly && !isDirectory) return false;
+            return minimatch(candidate, rule.pattern, { dot: true });
+        });
+
+        if (matched) ignored = !rule.negate;
+    }
+    return ignored;
+}
+
+function toPosix(filePath: string): string {
+    return filePath.split(path.sep).join('/');
+}
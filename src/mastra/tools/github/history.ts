@@ -0,0 +1,459 @@
+import { simpleGit } from 'simple-git';
+import { minimatch } from 'minimatch';
+import { z } from 'zod';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { analyzeSourceComplexity, isComplexitySupported } from './complexity';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CODEOWNERS_LOCATIONS = ['CODEOWNERS', '.github/CODEOWNERS', '.gitlab/CODEOWNERS', 'docs/CODEOWNERS'];
+
+export const gitHistorySchema = z.object({
+    totalCommits: z.number(),
+    totalAuthors: z.number(),
+    firstCommitDate: z.string().nullable(),
+    lastCommitDate: z.string().nullable(),
+    churn: z.array(z.object({
+        file: z.string(),
+        commits: z.number(),
+        added: z.number(),
+        deleted: z.number(),
+        authors: z.number(),
+        lastModified: z.string(),
+    })),
+    hotspots: z.array(z.object({
+        file: z.string(),
+        commits: z.number(),
+        complexity: z.number(),
+        complexitySource: z.enum(['cyclomatic', 'lines']),
+        score: z.number(),
+    })),
+    ownership: z.array(z.object({
+        author: z.string(),
+        email: z.string(),
+        commits: z.number(),
+        linesChanged: z.number(),
+        share: z.number(),
+    })),
+    busFactor: z.array(z.object({
+        directory: z.string(),
+        busFactor: z.number(),
+        topAuthors: z.array(z.object({
+            author: z.string(),
+            share: z.number(),
+        })),
+    })),
+    staleFiles: z.array(z.object({
+        file: z.string(),
+        lastModified: z.string().nullable(),
+        daysSinceChange: z.number().nullable(),
+    })),
+    codeowners: z.object({
+        file: z.string(),
+        unownedFiles: z.number(),
+        rules: z.array(z.object({
+            pattern: z.string(),
+            owners: z.array(z.string()),
+            matchedFiles: z.number(),
+            topCommitters: z.array(z.object({
+                author: z.string(),
+                share: z.number(),
+            })),
+            // 宣言された所有者が実際の主要コミッターに含まれるか（チームなど判定不能な場合は null）
+            ownersActive: z.boolean().nullable(),
+        })),
+    }).nullable(),
+});
+
+export type GitHistoryAnalysis = z.infer<typeof gitHistorySchema>;
+
+export interface GitHistoryOptions {
+    // git log --since に渡す期間（例: "1 year ago"）
+    since?: string;
+    // この日数以上コミットがないファイルを停滞ファイルとみなす
+    staleDays?: number;
+    // バスファクターを集計するディレクトリの深さ
+    directoryDepth?: number;
+    // 各ランキングの最大件数
+    limit?: number;
+}
+
+interface CommitRecord {
+    sha: string;
+    author: string;
+    email: string;
+    date: string;
+    files: Array<{ file: string; added: number; deleted: number }>;
+}
+
+interface FileStats {
+    commits: number;
+    added: number;
+    deleted: number;
+    // 作者（メールアドレス）ごとの変更行数
+    authors: Map<string, number>;
+    lastModified: string;
+}
+
+/**
+ * git log --numstat を解析し、チャーン・ホットスポット・オーナーシップ・バスファクターなどを算出する。
+ * gitリポジトリでない場合やコミットがない場合はコミット数0の結果を返す。
+ */
+export async function analyzeGitHistory(repoPath: string, options: GitHistoryOptions = {}): Promise<GitHistoryAnalysis> {
+    const { since, staleDays = 365, directoryDepth = 1, limit = 10 } = options;
+    const git = simpleGit(repoPath);
+
+    const isRepo = await git.checkIsRepo().catch(() => false);
+    if (!isRepo) {
+        return emptyHistory();
+    }
+    // git init 直後などコミットが1つもない場合は git log が失敗する
+    const hasCommits = await git.raw(['rev-parse', '--verify', '--quiet', 'HEAD']).then(output => output.trim() !== '', () => false);
+    if (!hasCommits) {
+        return emptyHistory();
+    }
+
+    const log = await git.raw([
+        'log',
+        '--numstat',
+        '--no-renames',
+        '--format=%x1e%H%x1f%aN%x1f%aE%x1f%aI',
+        ...(since ? [`--since=${since}`] : []),
+    ]);
+    const commits = parseNumstatLog(log);
+    const trackedFiles = (await git.raw(['ls-files'])).split('\n').filter(Boolean);
+    const tracked = new Set(trackedFiles);
+
+    // 作者の表示名は最新のコミットのものを使用する（git log は新しい順）
+    const authorNames = new Map<string, string>();
+    const authorStats = new Map<string, { commits: number; linesChanged: number }>();
+    const fileStats = new Map<string, FileStats>();
+
+    for (const commit of commits) {
+        if (!authorNames.has(commit.email)) authorNames.set(commit.email, commit.author);
+
+        const author = authorStats.get(commit.email) || { commits: 0, linesChanged: 0 };
+        author.commits++;
+
+        for (const change of commit.files) {
+            const lines = change.added + change.deleted;
+            author.linesChanged += lines;
+
+            const stats = fileStats.get(change.file) || {
+                commits: 0,
+                added: 0,
+                deleted: 0,
+                authors: new Map<string, number>(),
+                lastModified: commit.date,
+            };
+            stats.commits++;
+            stats.added += change.added;
+            stats.deleted += change.deleted;
+            stats.authors.set(commit.email, (stats.authors.get(commit.email) || 0) + Math.max(lines, 1));
+            fileStats.set(change.file, stats);
+        }
+
+        authorStats.set(commit.email, author);
+    }
+
+    const displayName = (email: string) => authorNames.get(email) || email;
+    const totalLinesChanged = [...authorStats.values()].reduce((sum, author) => sum + author.linesChanged, 0);
+
+    const churn = [...fileStats.entries()]
+        .filter(([file]) => tracked.has(file))
+        .map(([file, stats]) => ({
+            file,
+            commits: stats.commits,
+            added: stats.added,
+            deleted: stats.deleted,
+            authors: stats.authors.size,
+            lastModified: stats.lastModified,
+        }))
+        .sort((a, b) => (b.added + b.deleted) - (a.added + a.deleted))
+        .slice(0, limit);
+
+    const ownership = [...authorStats.entries()]
+        .map(([email, stats]) => ({
+            author: displayName(email),
+            email,
+            commits: stats.commits,
+            linesChanged: stats.linesChanged,
+            share: totalLinesChanged > 0 ? stats.linesChanged / totalLinesChanged : 0,
+        }))
+        .sort((a, b) => b.linesChanged - a.linesChanged || b.commits - a.commits);
+
+    const now = Date.now();
+    const staleFiles = trackedFiles
+        .map(file => {
+            const lastModified = fileStats.get(file)?.lastModified || null;
+            const daysSinceChange = lastModified ? Math.floor((now - Date.parse(lastModified)) / DAY_MS) : null;
+            return { file, lastModified, daysSinceChange };
+        })
+        .filter(entry => entry.daysSinceChange === null || entry.daysSinceChange >= staleDays)
+        .sort((a, b) => (b.daysSinceChange ?? Infinity) - (a.daysSinceChange ?? Infinity))
+        .slice(0, limit);
+
+    return {
+        totalCommits: commits.length,
+        totalAuthors: authorStats.size,
+        firstCommitDate: commits.length > 0 ? commits[commits.length - 1].date : null,
+        lastCommitDate: commits.length > 0 ? commits[0].date : null,
+        churn,
+        hotspots: await calculateHotspots(repoPath, fileStats, tracked, limit),
+        ownership,
+        busFactor: calculateBusFactor(fileStats, tracked, directoryDepth, displayName),
+        staleFiles,
+        codeowners: await checkCodeowners(repoPath, trackedFiles, fileStats, displayName),
+    };
+}
+
+function emptyHistory(): GitHistoryAnalysis {
+    return {
+        totalCommits: 0,
+        totalAuthors: 0,
+        firstCommitDate: null,
+        lastCommitDate: null,
+        churn: [],
+        hotspots: [],
+        ownership: [],
+        busFactor: [],
+        staleFiles: [],
+        codeowners: null,
+    };
+}
+
+function parseNumstatLog(log: string): CommitRecord[] {
+    const commits: CommitRecord[] = [];
+
+    for (const block of log.split('\x1e')) {
+        const lines = block.split('\n');
+        const header = lines.shift();
+        if (!header?.trim()) continue;
+
+        const [sha, author, email, date] = header.split('\x1f');
+        const files: CommitRecord['files'] = [];
+        for (const line of lines) {
+            const match = line.match(/^(\d+|-)\t(\d+|-)\t(.+)$/);
+            if (!match) continue;
+            files.push({
+                file: match[3],
+                // バイナリファイルは行数が "-" になる
+                added: match[1] === '-' ? 0 : Number(match[1]),
+                deleted: match[2] === '-' ? 0 : Number(match[2]),
+            });
+        }
+
+        commits.push({ sha, author, email: email.toLowerCase(), date, files });
+    }
+
+    return commits;
+}
+
+/**
+ * 変更頻度 × 複雑度でホットスポットを算出する。
+ * TS/JSは関数の循環的複雑度の合計、それ以外は行数を複雑度とみなす。
+ */
+async function calculateHotspots(
+    repoPath: string,
+    fileStats: Map<string, FileStats>,
+    tracked: Set<string>,
+    limit: number
+): Promise<GitHistoryAnalysis['hotspots']> {
+    // 頻繁に変更されるファイルのみ読み込む
+    const candidates = [...fileStats.entries()]
+        .filter(([file]) => tracked.has(file))
+        .sort((a, b) => b[1].commits - a[1].commits)
+        .slice(0, limit * 5);
+
+    const hotspots: GitHistoryAnalysis['hotspots'] = [];
+    for (const [file, stats] of candidates) {
+        let content: string;
+        try {
+            content = await fs.readFile(path.join(repoPath, file), 'utf-8');
+        } catch {
+            continue;
+        }
+
+        const fileComplexity = isComplexitySupported(file) ? analyzeSourceComplexity(content, file) : null;
+        const complexity = fileComplexity
+            ? fileComplexity.functions.reduce((sum, fn) => sum + fn.cyclomatic, 0)
+            : content.split('\n').filter(line => line.trim() !== '').length;
+
+        hotspots.push({
+            file,
+            commits: stats.commits,
+            complexity,
+            complexitySource: fileComplexity ? 'cyclomatic' : 'lines',
+            score: stats.commits * complexity,
+        });
+    }
+
+    return hotspots.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+/**
+ * ディレクトリごとに、変更行数の過半数を占めるのに必要な最小作者数をバスファクターとする。
+ */
+function calculateBusFactor(
+    fileStats: Map<string, FileStats>,
+    tracked: Set<string>,
+    depth: number,
+    displayName: (email: string) => string
+): GitHistoryAnalysis['busFactor'] {
+    const directories = new Map<string, Map<string, number>>();
+
+    for (const [file, stats] of fileStats) {
+        if (!tracked.has(file)) continue;
+
+        const segments = file.split('/').slice(0, -1);
+        const directory = segments.length > 0 ? segments.slice(0, depth).join('/') : '.';
+        const contributions = directories.get(directory) || new Map<string, number>();
+        for (const [email, lines] of stats.authors) {
+            contributions.set(email, (contributions.get(email) || 0) + lines);
+        }
+        directories.set(directory, contributions);
+    }
+
+    return [...directories.entries()]
+        .map(([directory, contributions]) => {
+            const topAuthors = summarizeContributions(contributions, displayName);
+
+            let busFactor = 0;
+            let covered = 0;
+            for (const author of topAuthors) {
+                busFactor++;
+                covered += author.share;
+                if (covered > 0.5) break;
+            }
+
+            return {
+                directory,
+                busFactor,
+                topAuthors: topAuthors.slice(0, 3).map(({ author, share }) => ({ author, share })),
+            };
+        })
+        .sort((a, b) => a.busFactor - b.busFactor || a.directory.localeCompare(b.directory));
+}
+
+/**
+ * CODEOWNERS のルールごとに、宣言された所有者と実際の主要コミッターを突き合わせる。
+ */
+async function checkCodeowners(
+    repoPath: string,
+    trackedFiles: string[],
+    fileStats: Map<string, FileStats>,
+    displayName: (email: string) => string
+): Promise<GitHistoryAnalysis['codeowners']> {
+    let codeownersFile: string | null = null;
+    let content = '';
+    for (const location of CODEOWNERS_LOCATIONS) {
+        try {
+            content = await fs.readFile(path.join(repoPath, location), 'utf-8');
+            codeownersFile = location;
+            break;
+        } catch {
+            // 次の候補を確認
+        }
+    }
+    if (!codeownersFile) return null;
+
+    const rules = content
+        .split('\n')
+        .map(line => line.replace(/(^|\s)#.*$/, '').trim())
+        .filter(Boolean)
+        .map(line => {
+            const [pattern, ...owners] = line.split(/\s+/);
+            return { pattern, owners };
+        });
+
+    // 後に記述されたルールが優先されるため、ファイルごとに最後に一致したルールを割り当てる
+    const filesByRule = rules.map(() => [] as string[]);
+    let unownedFiles = 0;
+    for (const file of trackedFiles) {
+        let matched = -1;
+        rules.forEach((rule, index) => {
+            if (matchesCodeownersPattern(file, rule.pattern)) matched = index;
+        });
+        if (matched >= 0 && rules[matched].owners.length > 0) {
+            filesByRule[matched].push(file);
+        } else {
+            unownedFiles++;
+        }
+    }
+
+    return {
+        file: codeownersFile,
+        unownedFiles,
+        rules: rules.map((rule, index) => {
+            const contributions = new Map<string, number>();
+            for (const file of filesByRule[index]) {
+                for (const [email, lines] of fileStats.get(file)?.authors || []) {
+                    contributions.set(email, (contributions.get(email) || 0) + lines);
+                }
+            }
+
+            const committers = summarizeContributions(contributions, displayName).slice(0, 3);
+            return {
+                pattern: rule.pattern,
+                owners: rule.owners,
+                matchedFiles: filesByRule[index].length,
+                topCommitters: committers.map(({ author, share }) => ({ author, share })),
+                ownersActive: ownersMatchCommitters(rule.owners, committers),
+            };
+        }),
+    };
+}
+
+function summarizeContributions(
+    contributions: Map<string, number>,
+    displayName: (email: string) => string
+): Array<{ author: string; email: string; share: number }> {
+    const total = [...contributions.values()].reduce((sum, lines) => sum + lines, 0);
+    return [...contributions.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .map(([email, lines]) => ({
+            author: displayName(email),
+            email,
+            share: total > 0 ? lines / total : 0,
+        }));
+}
+
+function matchesCodeownersPattern(file: string, pattern: string): boolean {
+    let glob = pattern;
+    if (glob.startsWith('/')) {
+        glob = glob.slice(1);
+    } else if (!glob.replace(/\/$/, '').includes('/')) {
+        // スラッシュを含まないパターンは任意の階層に一致する
+        glob = `**/${glob}`;
+    }
+    if (glob.endsWith('/')) {
+        glob = `${glob}**`;
+    }
+
+    return minimatch(file, glob, { dot: true }) || minimatch(file, `${glob}/**`, { dot: true });
+}
+
+/**
+ * CODEOWNERS の所有者（@user またはメールアドレス）が主要コミッターに含まれるかを判定する。
+ * GitHubのユーザー名とgitの作者情報は一致しないことがあるため、名前・メールのローカル部で照合する。
+ */
+function ownersMatchCommitters(
+    owners: string[],
+    committers: Array<{ author: string; email: string }>
+): boolean | null {
+    if (committers.length === 0) return null;
+
+    const individuals = owners.filter(owner => !owner.includes('/'));
+    if (individuals.length === 0) return null;
+
+    const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+    return individuals.some(owner => {
+        const handle = owner.startsWith('@') ? owner.slice(1) : owner;
+        return committers.some(committer => {
+            if (handle.includes('@')) return committer.email === handle.toLowerCase();
+            const key = normalize(handle);
+            return normalize(committer.author) === key
+                || normalize(committer.email.split('@')[0].replace(/^\d+\+/, '')) === key;
+        });
+    });
+}
@@ -0,0 +1,827 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { builtinModules } from 'module';
+import fg from 'fast-glob';
+import { z } from 'zod';
+import { parse, TSESTree, AST_NODE_TYPES } from '@typescript-eslint/typescript-estree';
+import { childNodes } from './complexity';
+import { filterIgnoredFiles } from './gitignore';
+import { isGenerated, isVendored } from './languages';
+import { detectWorkspaces } from './workspaces';
+
+export const graphLevelSchema = z.enum(['file', 'directory']);
+
+export const importGraphSchema = z.object({
+    level: graphLevelSchema,
+    files: z.number(),
+    // ファイル間の依存（重複を除いた数）
+    edges: z.number(),
+    modules: z.array(z.object({
+        file: z.string(),
+        // このモジュールを import しているファイル数
+        fanIn: z.number(),
+        // このモジュールが import しているリポジトリ内のファイル数
+        fanOut: z.number(),
+        // fanOut / (fanIn + fanOut)。1に近いほど他に依存し、依存されていない
+        instability: z.number(),
+    })),
+    directories: z.array(z.object({
+        directory: z.string(),
+        files: z.number(),
+        fanIn: z.number(),
+        fanOut: z.number(),
+    })),
+    directoryEdges: z.array(z.object({
+        from: z.string(),
+        to: z.string(),
+        count: z.number(),
+    })),
+    // 実行時の循環依存（型のみの import は除く）。各循環は先頭のファイルで閉じる
+    cycles: z.array(z.array(z.string())),
+    externalPackages: z.array(z.object({
+        name: z.string(),
+        builtin: z.boolean(),
+        importers: z.number(),
+    })),
+    unresolved: z.array(z.object({
+        file: z.string(),
+        specifier: z.string(),
+    })),
+    mermaid: z.string(),
+    dot: z.string(),
+    edgeList: z.array(z.object({
+        from: z.string(),
+        to: z.string(),
+        kind: z.enum(['import', 'export', 'dynamic', 'require']),
+        typeOnly: z.boolean(),
+    })).optional(),
+});
+
+export type GraphLevel = z.infer<typeof graphLevelSchema>;
+export type ImportGraph = z.infer<typeof importGraphSchema>;
+
+export interface ImportRecord {
+    specifier: string;
+    kind: 'import' | 'export' | 'dynamic' | 'require';
+    // 取り込む名前（default・名前空間や require 全体は '*'、副作用のみの import は空）
+    names: string[];
+    typeOnly: boolean;
+    line: number;
+    // リポジトリ内のファイルに解決できた場合はその相対パス
+    resolved: string | null;
+    // 外部パッケージの場合はパッケージ名
+    external: string | null;
+}
+
+export interface ExportRecord {
+    name: string;
+    line: number;
+    typeOnly: boolean;
+    // export ... from による再エクスポートの場合は元のファイルと、元のファイルでの名前（export * は '*'）
+    from: string | null;
+    local: string | null;
+}
+
+export interface ModuleInfo {
+    file: string;
+    imports: ImportRecord[];
+    exports: ExportRecord[];
+    // 構文エラーで解析できなかった場合は false
+    parsed: boolean;
+    // import(`./locales/${lang}`) のように一部のみ静的な動的 import が参照しうるディレクトリ
+    dynamicPrefixes: string[];
+    // 参照先をまったく特定できない動的 import()・require() の数
+    unknownDynamicImports: number;
+}
+
+export interface ModuleGraph {
+    modules: Map<string, ModuleInfo>;
+}
+
+interface GraphOptions {
+    level?: GraphLevel;
+    // ディレクトリ単位で集約する際の階層の深さ（省略時は親ディレクトリそのもの）
+    depth?: number;
+    includeEdges?: boolean;
+    limit?: number;
+    // 図に描くノードの上限（超えた場合は依存の多いノードを優先）
+    diagramNodeLimit?: number;
+}
+
+interface PathAliases {
+    // tsconfig.json のあるディレクトリ（リポジトリルートからの相対パス、ルートは空文字）
+    directory: string;
+    baseUrl: string | null;
+    paths: Array<{ pattern: string; targets: string[] }>;
+}
+
+interface CompilerPathOptions {
+    baseUrl?: string;
+    paths?: Record<string, string[]>;
+    // paths・baseUrl を定義した tsconfig のディレクトリ
+    configDirectory: string;
+}
+
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+// TypeScript の ESM では './foo.js' と書いて './foo.ts' を参照する
+const EXTENSION_ALIASES: Record<string, string[]> = {
+    '.js': ['.ts', '.tsx'],
+    '.jsx': ['.tsx'],
+    '.mjs': ['.mts'],
+    '.cjs': ['.cts'],
+};
+const BUILTIN_MODULES = new Set(builtinModules);
+
+const DEFAULT_LIMIT = 20;
+const DEFAULT_DIAGRAM_NODE_LIMIT = 60;
+
+/**
+ * TS/JS のファイルを解析し、import / export と依存先のファイルを求める。
+ * ESM の import・export ... from、CommonJS の require、動的 import() と tsconfig の paths エイリアス、
+ * ワークスペース内のパッケージ名による参照に対応する。
+ */
+export async function buildModuleGraph(repoPath: string): Promise<ModuleGraph> {
+    const listed = await fg(SOURCE_EXTENSIONS.map(ext => `**/*${ext}`), {
+        cwd: repoPath,
+        absolute: true,
+        onlyFiles: true,
+        ignore: ['**/.git/**', '**/node_modules/**'],
+    });
+    const files = (await filterIgnoredFiles(repoPath, listed))
+        .map(file => path.relative(repoPath, file).split(path.sep).join('/'))
+        .filter(file => !isVendored(file) && !/\.d\.[cm]?ts$/.test(file));
+
+    const contents = new Map<string, string>();
+    for (const file of files) {
+        try {
+            const content = await fs.readFile(path.join(repoPath, file), 'utf-8');
+            if (!isGenerated(file, content)) contents.set(file, content);
+        } catch {
+            // 読み込めないファイルは対象外
+        }
+    }
+
+    const fileSet = new Set(contents.keys());
+    const aliases = await loadPathAliases(repoPath);
+    const workspacePackages = await loadWorkspaceEntries(repoPath);
+
+    const modules = new Map<string, ModuleInfo>();
+    for (const [file, content] of contents) {
+        const info = parseModule(file, content);
+        for (const record of info.imports) {
+            const resolution = resolveSpecifier(record.specifier, file, fileSet, aliases, workspacePackages);
+            record.resolved = resolution.resolved;
+            record.external = resolution.external;
+        }
+        for (const entry of info.exports) {
+            if (entry.from !== null) {
+                entry.from = resolveSpecifier(entry.from, file, fileSet, aliases, workspacePackages).resolved;
+            }
+        }
+        modules.set(file, info);
+    }
+
+    return { modules };
+}
+
+/**
+ * モジュール間の依存グラフを構築し、循環依存・fan-in / fan-out・外部パッケージの利用状況と、
+ * Mermaid / Graphviz DOT の図を返す。
+ */
+export async function analyzeImportGraph(repoPath: string, options: GraphOptions = {}): Promise<ImportGraph> {
+    const level = options.level || 'directory';
+    const limit = options.limit ?? DEFAULT_LIMIT;
+    const graph = await buildModuleGraph(repoPath);
+
+    const edgeList: NonNullable<ImportGraph['edgeList']> = [];
+    const outgoing = new Map<string, Set<string>>();
+    const incoming = new Map<string, Set<string>>();
+    // 型のみの import は実行時の循環を生まないため、循環の検出からは除く
+    const runtime = new Map<string, Set<string>>();
+    const externals = new Map<string, Set<string>>();
+    const unresolved: ImportGraph['unresolved'] = [];
+
+    for (const [file, info] of graph.modules) {
+        outgoing.set(file, outgoing.get(file) || new Set());
+        incoming.set(file, incoming.get(file) || new Set());
+        runtime.set(file, runtime.get(file) || new Set());
+
+        for (const record of info.imports) {
+            if (record.resolved) {
+                if (record.resolved === file) continue;
+                edgeList.push({ from: file, to: record.resolved, kind: record.kind, typeOnly: record.typeOnly });
+                outgoing.get(file)!.add(record.resolved);
+                const importers = incoming.get(record.resolved) || new Set<string>();
+                importers.add(file);
+                incoming.set(record.resolved, importers);
+                if (!record.typeOnly) runtime.get(file)!.add(record.resolved);
+            } else if (record.external) {
+                const importers = externals.get(record.external) || new Set<string>();
+                importers.add(file);
+                externals.set(record.external, importers);
+            } else {
+                unresolved.push({ file, specifier: record.specifier });
+            }
+        }
+    }
+
+    const modules = Array.from(graph.modules.keys())
+        .map(file => {
+            const fanIn = incoming.get(file)?.size || 0;
+            const fanOut = outgoing.get(file)?.size || 0;
+            return { file, fanIn, fanOut, instability: fanIn + fanOut > 0 ? fanOut / (fanIn + fanOut) : 0 };
+        })
+        .sort((a, b) => b.fanIn - a.fanIn || b.fanOut - a.fanOut || a.file.localeCompare(b.file));
+
+    // ディレクトリ単位に集約する
+    const directoryOf = (file: string) => {
+        const directory = path.posix.dirname(file);
+        if (directory === '.') return '.';
+        return options.depth ? directory.split('/').slice(0, options.depth).join('/') : directory;
+    };
+    const directoryFiles = new Map<string, number>();
+    for (const file of graph.modules.keys()) {
+        const directory = directoryOf(file);
+        directoryFiles.set(directory, (directoryFiles.get(directory) || 0) + 1);
+    }
+    const directoryEdgeCounts = new Map<string, number>();
+    for (const [file, targets] of outgoing) {
+        for (const target of targets) {
+            const from = directoryOf(file);
+            const to = directoryOf(target);
+            if (from === to) continue;
+            const key = `${from}\u0000${to}`;
+            directoryEdgeCounts.set(key, (directoryEdgeCounts.get(key) || 0) + 1);
+        }
+    }
+    const directoryEdges = Array.from(directoryEdgeCounts.entries())
+        .map(([key, count]) => {
+            const [from, to] = key.split('\u0000');
+            return { from, to, count };
+        })
+        .sort((a, b) => b.count - a.count || a.from.localeCompare(b.from));
+    const directories = Array.from(directoryFiles.entries())
+        .map(([directory, files]) => ({
+            directory,
+            files,
+            fanIn: new Set(directoryEdges.filter(edge => edge.to === directory).map(edge => edge.from)).size,
+            fanOut: new Set(directoryEdges.filter(edge => edge.from === directory).map(edge => edge.to)).size,
+        }))
+        .sort((a, b) => a.directory.localeCompare(b.directory));
+
+    const cycles = findImportCycles(runtime);
+
+    const diagram = level === 'file'
+        ? {
+            nodes: Array.from(graph.modules.keys()),
+            edges: Array.from(outgoing.entries()).flatMap(([from, targets]) => Array.from(targets).map(to => ({ from, to, count: 1 }))),
+        }
+        : { nodes: Array.from(directoryFiles.keys()), edges: directoryEdges };
+    const cyclic = new Set(cycles.flat().map(file => level === 'file' ? file : directoryOf(file)));
+    const limited = limitDiagram(diagram.nodes, diagram.edges, options.diagramNodeLimit ?? DEFAULT_DIAGRAM_NODE_LIMIT);
+
+    const result: ImportGraph = {
+        level,
+        files: graph.modules.size,
+        edges: Array.from(outgoing.values()).reduce((sum, targets) => sum + targets.size, 0),
+        modules: modules.slice(0, limit),
+        directories,
+        directoryEdges,
+        cycles,
+        externalPackages: Array.from(externals.entries())
+            .map(([name, importers]) => ({ name, builtin: name.startsWith('node:'), importers: importers.size }))
+            .sort((a, b) => b.importers - a.importers || a.name.localeCompare(b.name)),
+        unresolved,
+        mermaid: toMermaid(limited.nodes, limited.edges, cyclic, limited.truncated, level === 'directory'),
+        dot: toDot(limited.nodes, limited.edges, cyclic, level === 'directory'),
+    };
+    if (options.includeEdges) result.edgeList = edgeList;
+    return result;
+}
+
+function parseModule(file: string, content: string): ModuleInfo {
+    const info: ModuleInfo = { file, imports: [], exports: [], parsed: false, dynamicPrefixes: [], unknownDynamicImports: 0 };
+    const ext = path.extname(file).toLowerCase();
+
+    let ast: TSESTree.Program;
+    try {
+        ast = parse(content, {
+            loc: true,
+            jsx: ext === '.tsx' || ext === '.jsx' || ext === '.js',
+        });
+    } catch {
+        return info;
+    }
+    info.parsed = true;
+
+    const addImport = (specifier: string, kind: ImportRecord['kind'], names: string[], typeOnly: boolean, node: TSESTree.Node) => {
+        info.imports.push({ specifier, kind, names, typeOnly, line: node.loc.start.line, resolved: null, external: null });
+    };
+    const addExport = (name: string, node: TSESTree.Node, typeOnly: boolean, from: string | null = null, local: string | null = null) => {
+        info.exports.push({ name, line: node.loc.start.line, typeOnly, from, local });
+    };
+    const addDynamic = (node: TSESTree.Node, kind: ImportRecord['kind'], argument: TSESTree.Node) => {
+        const source = staticString(argument);
+        if (source !== null) {
+            addImport(source, kind, ['*'], false, node);
+            return;
+        }
+        const prefix = staticPrefix(argument);
+        if (prefix !== null && prefix.startsWith('.') && prefix.includes('/')) {
+            const directory = path.posix.normalize(path.posix.join(path.posix.dirname(file), prefix.slice(0, prefix.lastIndexOf('/'))));
+            info.dynamicPrefixes.push(directory === '.' ? '' : directory);
+        } else {
+            info.unknownDynamicImports++;
+        }
+    };
+
+    for (const statement of ast.body) {
+        switch (statement.type) {
+            case AST_NODE_TYPES.ImportDeclaration: {
+                const names = statement.specifiers.map(specifier => {
+                    if (specifier.type === AST_NODE_TYPES.ImportDefaultSpecifier) return 'default';
+                    if (specifier.type === AST_NODE_TYPES.ImportNamespaceSpecifier) return '*';
+                    return specifier.imported.type === AST_NODE_TYPES.Identifier ? specifier.imported.name : String(specifier.imported.value);
+                });
+                const typeOnly = statement.importKind === 'type'
+                    || (statement.specifiers.length > 0 && statement.specifiers.every(specifier =>
+                        specifier.type === AST_NODE_TYPES.ImportSpecifier && specifier.importKind === 'type'));
+                addImport(statement.source.value, 'import', names, typeOnly, statement);
+                break;
+            }
+            case AST_NODE_TYPES.ExportAllDeclaration: {
+                const typeOnly = statement.exportKind === 'type';
+                addImport(statement.source.value, 'export', ['*'], typeOnly, statement);
+                addExport(statement.exported ? exportedName(statement.exported) : '*', statement, typeOnly, statement.source.value, '*');
+                break;
+            }
+            case AST_NODE_TYPES.ExportNamedDeclaration: {
+                const typeOnly = statement.exportKind === 'type';
+                if (statement.source) {
+                    addImport(
+                        statement.source.value,
+                        'export',
+                        statement.specifiers.map(specifier => exportedName(specifier.local)),
+                        typeOnly,
+                        statement
+                    );
+                }
+                for (const specifier of statement.specifiers) {
+                    addExport(
+                        exportedName(specifier.exported),
+                        specifier,
+                        typeOnly || specifier.exportKind === 'type',
+                        statement.source ? statement.source.value : null,
+                        statement.source ? exportedName(specifier.local) : null
+                    );
+                }
+                if (statement.declaration) {
+                    const declarationIsType = statement.declaration.type === AST_NODE_TYPES.TSInterfaceDeclaration
+                        || statement.declaration.type === AST_NODE_TYPES.TSTypeAliasDeclaration;
+                    for (const name of declaredNames(statement.declaration)) {
+                        addExport(name, statement, declarationIsType);
+                    }
+                }
+                break;
+            }
+            case AST_NODE_TYPES.ExportDefaultDeclaration:
+                addExport('default', statement, false);
+                break;
+            case AST_NODE_TYPES.TSImportEqualsDeclaration:
+                if (statement.moduleReference.type === AST_NODE_TYPES.TSExternalModuleReference
+                    && statement.moduleReference.expression.type === AST_NODE_TYPES.Literal
+                    && typeof statement.moduleReference.expression.value === 'string') {
+                    addImport(statement.moduleReference.expression.value, 'require', ['*'], statement.importKind === 'type', statement);
+                }
+                break;
+        }
+    }
+
+    // 動的 import()・require()・CommonJS の exports はファイル全体から探す
+    const visit = (node: TSESTree.Node) => {
+        if (node.type === AST_NODE_TYPES.ImportExpression) {
+            addDynamic(node, 'dynamic', node.source);
+        } else if (
+            node.type === AST_NODE_TYPES.CallExpression
+            && node.callee.type === AST_NODE_TYPES.Identifier
+            && node.callee.name === 'require'
+            && node.arguments.length === 1
+        ) {
+            addDynamic(node, 'require', node.arguments[0]);
+        } else if (node.type === AST_NODE_TYPES.AssignmentExpression && node.left.type === AST_NODE_TYPES.MemberExpression) {
+            const target = memberPath(node.left);
+            if (target === 'module.exports') {
+                addExport('default', node, false);
+            } else if (target?.startsWith('exports.') || target?.startsWith('module.exports.')) {
+                addExport(target.split('.').pop()!, node, false);
+            }
+        }
+        for (const child of childNodes(node)) visit(child);
+    };
+    visit(ast);
+
+    return info;
+}
+
+function exportedName(node: TSESTree.Identifier | TSESTree.StringLiteral): string {
+    return node.type === AST_NODE_TYPES.Identifier ? node.name : node.value;
+}
+
+function declaredNames(declaration: TSESTree.Node): string[] {
+    switch (declaration.type) {
+        case AST_NODE_TYPES.VariableDeclaration:
+            return declaration.declarations.flatMap(declarator => patternNames(declarator.id));
+        case AST_NODE_TYPES.FunctionDeclaration:
+        case AST_NODE_TYPES.TSDeclareFunction:
+        case AST_NODE_TYPES.ClassDeclaration:
+            return declaration.id ? [declaration.id.name] : [];
+        case AST_NODE_TYPES.TSInterfaceDeclaration:
+        case AST_NODE_TYPES.TSTypeAliasDeclaration:
+        case AST_NODE_TYPES.TSEnumDeclaration:
+            return [declaration.id.name];
+        case AST_NODE_TYPES.TSModuleDeclaration:
+            return declaration.id.type === AST_NODE_TYPES.Identifier ? [declaration.id.name] : [];
+        default:
+            return [];
+    }
+}
+
+function patternNames(pattern: TSESTree.Node): string[] {
+    switch (pattern.type) {
+        case AST_NODE_TYPES.Identifier:
+            return [pattern.name];
+        case AST_NODE_TYPES.ObjectPattern:
+            return pattern.properties.flatMap(property =>
+                property.type === AST_NODE_TYPES.RestElement ? patternNames(property.argument) : patternNames(property.value));
+        case AST_NODE_TYPES.ArrayPattern:
+            return pattern.elements.flatMap(element => element ? patternNames(element) : []);
+        case AST_NODE_TYPES.RestElement:
+            return patternNames(pattern.argument);
+        case AST_NODE_TYPES.AssignmentPattern:
+            return patternNames(pattern.left);
+        default:
+            return [];
+    }
+}
+
+function staticString(node: TSESTree.Node): string | null {
+    if (node.type === AST_NODE_TYPES.Literal && typeof node.value === 'string') return node.value;
+    if (node.type === AST_NODE_TYPES.TemplateLiteral && node.expressions.length === 0) return node.quasis[0].value.cooked;
+    return null;
+}
+
+/**
+ * テンプレートリテラルや文字列の連結の先頭にある静的な部分を返す。
+ */
+function staticPrefix(node: TSESTree.Node): string | null {
+    if (node.type === AST_NODE_TYPES.TemplateLiteral) return node.quasis[0].value.cooked;
+    if (node.type === AST_NODE_TYPES.BinaryExpression && node.operator === '+') {
+        return staticString(node.left) ?? staticPrefix(node.left);
+    }
+    return null;
+}
+
+function memberPath(node: TSESTree.Node): string | null {
+    if (node.type === AST_NODE_TYPES.Identifier) return node.name;
+    if (node.type === AST_NODE_TYPES.MemberExpression && !node.computed && node.property.type === AST_NODE_TYPES.Identifier) {
+        const object = memberPath(node.object);
+        return object ? `${object}.${node.property.name}` : null;
+    }
+    return null;
+}
+
+function resolveSpecifier(
+    specifier: string,
+    importer: string,
+    files: Set<string>,
+    aliases: PathAliases[],
+    workspacePackages: Map<string, string[]>
+): { resolved: string | null; external: string | null } {
+    if (specifier.startsWith('.') || specifier.startsWith('/')) {
+        const base = path.posix.normalize(path.posix.join(path.posix.dirname(importer), specifier));
+        return { resolved: resolveFile(base, files), external: null };
+    }
+
+    // 最も近い tsconfig.json の paths を優先する
+    const alias = aliases
+        .filter(entry => entry.directory === '' || importer.startsWith(`${entry.directory}/`))
+        .sort((a, b) => b.directory.length - a.directory.length)[0];
+    if (alias) {
+        const matches = alias.paths
+            .map(entry => ({ ...entry, wildcard: matchPattern(entry.pattern, specifier) }))
+            .filter(entry => entry.wildcard !== null)
+            .sort((a, b) => b.pattern.length - a.pattern.length);
+        const root = alias.baseUrl ?? alias.directory;
+        for (const match of matches) {
+            for (const target of match.targets) {
+                const resolved = resolveFile(path.posix.normalize(path.posix.join(root, target.replace('*', match.wildcard!))), files);
+                if (resolved) return { resolved, external: null };
+            }
+        }
+        if (alias.baseUrl !== null) {
+            const resolved = resolveFile(path.posix.normalize(path.posix.join(alias.baseUrl, specifier)), files);
+            if (resolved) return { resolved, external: null };
+        }
+    }
+
+    const name = packageName(specifier);
+    const entries = workspacePackages.get(name);
+    if (entries) {
+        const subpath = specifier.slice(name.length).replace(/^\//, '');
+        for (const entry of entries) {
+            const resolved = resolveFile(subpath ? path.posix.join(path.posix.dirname(entry), subpath) : entry, files);
+            if (resolved) return { resolved, external: null };
+        }
+    }
+
+    const bare = specifier.replace(/^node:/, '');
+    if (specifier.startsWith('node:') || BUILTIN_MODULES.has(bare) || BUILTIN_MODULES.has(packageName(bare))) {
+        return { resolved: null, external: `node:${packageName(bare)}` };
+    }
+    return { resolved: null, external: name };
+}
+
+export function resolveFile(base: string, files: Set<string>): string | null {
+    const normalized = base.replace(/^\.\//, '').replace(/^\//, '');
+    const candidates = [normalized];
+    const ext = path.posix.extname(normalized);
+    for (const replacement of EXTENSION_ALIASES[ext] || []) {
+        candidates.push(normalized.slice(0, -ext.length) + replacement);
+    }
+    for (const extension of SOURCE_EXTENSIONS) candidates.push(`${normalized}${extension}`);
+    for (const extension of SOURCE_EXTENSIONS) candidates.push(`${normalized}/index${extension}`);
+    return candidates.find(candidate => files.has(candidate)) || null;
+}
+
+function matchPattern(pattern: string, specifier: string): string | null {
+    const star = pattern.indexOf('*');
+    if (star === -1) return pattern === specifier ? '' : null;
+    const prefix = pattern.slice(0, star);
+    const suffix = pattern.slice(star + 1);
+    if (specifier.length < prefix.length + suffix.length) return null;
+    if (!specifier.startsWith(prefix) || !specifier.endsWith(suffix)) return null;
+    return specifier.slice(prefix.length, specifier.length - suffix.length);
+}
+
+function packageName(specifier: string): string {
+    const segments = specifier.split('/');
+    return specifier.startsWith('@') ? segments.slice(0, 2).join('/') : segments[0];
+}
+
+async function loadPathAliases(repoPath: string): Promise<PathAliases[]> {
+    const configs = await fg(['**/tsconfig.json', '**/jsconfig.json'], {
+        cwd: repoPath,
+        onlyFiles: true,
+        ignore: ['**/node_modules/**', '**/.git/**'],
+    });
+
+    const aliases: PathAliases[] = [];
+    for (const config of configs) {
+        const options = await readCompilerOptions(path.join(repoPath, config), repoPath);
+        if (!options) continue;
+
+        const directory = path.posix.dirname(config) === '.' ? '' : path.posix.dirname(config);
+        const baseUrl = typeof options.baseUrl === 'string'
+            ? path.posix.normalize(path.posix.join(options.configDirectory, options.baseUrl)).replace(/^\.$/, '')
+            : null;
+        aliases.push({
+            directory,
+            baseUrl,
+            paths: Object.entries(options.paths || {}).map(([pattern, targets]) => ({
+                pattern,
+                targets: (targets as string[]).map(target => baseUrl === null
+                    ? path.posix.join(path.posix.relative(directory, options.configDirectory), target)
+                    : target),
+            })),
+        });
+    }
+    return aliases;
+}
+
+/**
+ * tsconfig.json の compilerOptions を extends をたどって読み込む（paths・baseUrl は定義元の位置を基準にする）。
+ */
+async function readCompilerOptions(configPath: string, repoPath: string, seen = new Set<string>()): Promise<CompilerPathOptions | null> {
+    if (seen.has(configPath)) return null;
+    seen.add(configPath);
+
+    let config: any;
+    try {
+        config = parseJsonc(await fs.readFile(configPath, 'utf-8'));
+    } catch {
+        return null;
+    }
+    const relativeDirectory = path.relative(repoPath, path.dirname(configPath)).split(path.sep).join('/') || '.';
+
+    let inherited: CompilerPathOptions | null = null;
+    const parents = Array.isArray(config.extends) ? config.extends : config.extends ? [config.extends] : [];
+    for (const parent of parents) {
+        // パッケージとして配布される設定（@tsconfig/node18 など）は paths を持たないため相対パスのみたどる
+        if (typeof parent !== 'string' || !parent.startsWith('.')) continue;
+        const parentPath = path.resolve(path.dirname(configPath), parent.endsWith('.json') ? parent : `${parent}.json`);
+        const loaded = await readCompilerOptions(parentPath, repoPath, seen);
+        // 後に書かれた extends ほど優先される
+        if (loaded) inherited = loaded;
+    }
+
+    const options = config.compilerOptions || {};
+    if (options.baseUrl === undefined && options.paths === undefined) return inherited;
+    return {
+        baseUrl: options.baseUrl ?? inherited?.baseUrl,
+        paths: options.paths ?? inherited?.paths,
+        configDirectory: relativeDirectory === '.' ? '' : relativeDirectory,
+    };
+}
+
+async function loadWorkspaceEntries(repoPath: string): Promise<Map<string, string[]>> {
+    const entries = new Map<string, string[]>();
+    const { packages } = await detectWorkspaces(repoPath).catch(() => ({ packages: [] as Array<{ name: string; path: string }> }));
+
+    for (const pkg of packages) {
+        let manifest: any = {};
+        try {
+            manifest = JSON.parse(await fs.readFile(path.join(repoPath, pkg.path, 'package.json'), 'utf-8'));
+        } catch {
+            // package.json を持たない Nx プロジェクトなど
+        }
+        // ソースを指すフィールドを優先し、ビルド成果物の場合はソースのエントリポイントを推定する
+        const fields = [manifest.source, manifest.types, manifest.module, manifest.main]
+            .filter((field): field is string => typeof field === 'string')
+            .map(field => field.replace(/^\.\//, '').replace(/^(dist|lib|build)\//, 'src/').replace(/\.d\.ts$/, '.ts'));
+        entries.set(pkg.name, [...fields, 'src/index', 'index'].map(entry => path.posix.join(pkg.path, entry)));
+    }
+    return entries;
+}
+
+function parseJsonc(content: string): any {
+    // コメントと末尾のカンマを取り除く（文字列中の // は残す）
+    let output = '';
+    let inString = false;
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (inString) {
+            output += char;
+            if (char === '\\') output += content[++i] ?? '';
+            else if (char === '"') inString = false;
+        } else if (char === '"') {
+            inString = true;
+            output += char;
+        } else if (char === '/' && content[i + 1] === '/') {
+            while (i < content.length && content[i] !== '\n') i++;
+            output += '\n';
+        } else if (char === '/' && content[i + 1] === '*') {
+            i = content.indexOf('*/', i + 2);
+            if (i === -1) break;
+            i++;
+        } else {
+            output += char;
+        }
+    }
+    return JSON.parse(output.replace(/,(\s*[}\]])/g, '$1'));
+}
+
+/**
+ * 強連結成分ごとに、その中を一周する循環を1つずつ返す。
+ */
+function findImportCycles(edges: Map<string, Set<string>>): string[][] {
+    let index = 0;
+    const indices = new Map<string, number>();
+    const lowlinks = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const components: string[][] = [];
+
+    // 深い依存でもスタックが溢れないよう、Tarjan のアルゴリズムを反復で実装する
+    for (const start of edges.keys()) {
+        if (indices.has(start)) continue;
+        const work: Array<{ node: string; iterator: Iterator<string> }> = [];
+        const enter = (node: string) => {
+            indices.set(node, index);
+            lowlinks.set(node, index);
+            index++;
+            stack.push(node);
+            onStack.add(node);
+            work.push({ node, iterator: (edges.get(node) || new Set<string>()).values() });
+        };
+        enter(start);
+
+        while (work.length > 0) {
+            const frame = work[work.length - 1];
+            const next = frame.iterator.next();
+            if (!next.done) {
+                const target = next.value;
+                if (!indices.has(target)) {
+                    enter(target);
+                } else if (onStack.has(target)) {
+                    lowlinks.set(frame.node, Math.min(lowlinks.get(frame.node)!, indices.get(target)!));
+                }
+                continue;
+            }
+
+            work.pop();
+            if (work.length > 0) {
+                const parent = work[work.length - 1].node;
+                lowlinks.set(parent, Math.min(lowlinks.get(parent)!, lowlinks.get(frame.node)!));
+            }
+            if (lowlinks.get(frame.node) === indices.get(frame.node)) {
+                const component: string[] = [];
+                let member: string;
+                do {
+                    member = stack.pop()!;
+                    onStack.delete(member);
+                    component.push(member);
+                } while (member !== frame.node);
+                if (component.length > 1) components.push(component);
+            }
+        }
+    }
+
+    // 成分内で先頭のファイルから自身に戻る最短経路を循環として示す
+    return components.map(component => {
+        const members = new Set(component);
+        const start = component.sort()[0];
+        const previous = new Map<string, string>();
+        const queue = [start];
+        while (queue.length > 0) {
+            const node = queue.shift()!;
+            for (const target of edges.get(node) || []) {
+                if (!members.has(target)) continue;
+                if (target === start) {
+                    const cycle = [node];
+                    while (cycle[0] !== start) cycle.unshift(previous.get(cycle[0])!);
+                    return [...cycle, start];
+                }
+                if (!previous.has(target)) {
+                    previous.set(target, node);
+                    queue.push(target);
+                }
+            }
+        }
+        return [...component, start];
+    }).sort((a, b) => a.length - b.length || a[0].localeCompare(b[0]));
+}
+
+function limitDiagram(
+    nodes: string[],
+    edges: Array<{ from: string; to: string; count: number }>,
+    limit: number
+): { nodes: string[]; edges: Array<{ from: string; to: string; count: number }>; truncated: number } {
+    if (nodes.length <= limit) return { nodes, edges, truncated: 0 };
+
+    const degree = new Map<string, number>();
+    for (const edge of edges) {
+        degree.set(edge.from, (degree.get(edge.from) || 0) + edge.count);
+        degree.set(edge.to, (degree.get(edge.to) || 0) + edge.count);
+    }
+    const kept = new Set([...nodes].sort((a, b) => (degree.get(b) || 0) - (degree.get(a) || 0)).slice(0, limit));
+    return {
+        nodes: nodes.filter(node => kept.has(node)),
+        edges: edges.filter(edge => kept.has(edge.from) && kept.has(edge.to)),
+        truncated: nodes.length - kept.size,
+    };
+}
+
+function toMermaid(
+    nodes: string[],
+    edges: Array<{ from: string; to: string; count: number }>,
+    cyclic: Set<string>,
+    truncated: number,
+    weighted: boolean
+): string {
+    if (nodes.length === 0) return '';
+
+    const ids = new Map(nodes.map((node, index) => [node, `m${index}`]));
+    const lines = ['graph LR'];
+    if (truncated > 0) lines.push(`    %% 依存の少ない ${truncated} ノードを省略`);
+    for (const node of nodes) {
+        lines.push(`    ${ids.get(node)}["${node}"]`);
+    }
+    for (const edge of edges) {
+        const label = weighted && edge.count > 1 ? `|${edge.count}|` : '';
+        lines.push(`    ${ids.get(edge.from)} -->${label} ${ids.get(edge.to)}`);
+    }
+    const inCycle = nodes.filter(node => cyclic.has(node)).map(node => ids.get(node));
+    if (inCycle.length > 0) {
+        lines.push('    classDef cycle stroke:#d33,stroke-width:2px');
+        lines.push(`    class ${inCycle.join(',')} cycle`);
+    }
+    return lines.join('\n');
+}
+
+function toDot(
+    nodes: string[],
+    edges: Array<{ from: string; to: string; count: number }>,
+    cyclic: Set<string>,
+    weighted: boolean
+): string {
+    const quote = (value: string) => `"${value.replace(/"/g, '\\"')}"`;
+    const lines = ['digraph imports {', '    rankdir=LR;', '    node [shape=box];'];
+    for (const node of nodes) {
+        lines.push(`    ${quote(node)}${cyclic.has(node) ? ' [color=red]' : ''};`);
+    }
+    for (const edge of edges) {
+        lines.push(`    ${quote(edge.from)} -> ${quote(edge.to)}${weighted && edge.count > 1 ? ` [label="${edge.count}"]` : ''};`);
+    }
+    lines.push('}');
+    return lines.join('\n');
+}
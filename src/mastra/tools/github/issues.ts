@@ -0,0 +1,287 @@
+import { z } from 'zod';
+import { Octokit } from '@octokit/rest';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+// リポジトリの管理者として扱う author_association
+const MAINTAINER_ASSOCIATIONS = new Set(['OWNER', 'MEMBER', 'COLLABORATOR']);
+
+const itemMetricsSchema = z.object({
+    opened: z.number(),
+    // 期間内に作成され、現在も開いているもの
+    open: z.number(),
+    // 作成者以外（ボットを除く）からのコメントがないもの
+    unanswered: z.number(),
+    medianFirstResponseHours: z.number().nullable(),
+});
+
+export const issueHealthSchema = z.object({
+    repository: z.string(),
+    window: z.object({
+        since: z.string(),
+        until: z.string(),
+        days: z.number(),
+    }),
+    issues: itemMetricsSchema.extend({
+        closed: z.number(),
+        medianTimeToCloseHours: z.number().nullable(),
+    }),
+    pullRequests: itemMetricsSchema.extend({
+        merged: z.number(),
+        closedUnmerged: z.number(),
+        medianTimeToMergeHours: z.number().nullable(),
+    }),
+    // 期間に関係なく、一定期間更新のない開いたイシュー・プルリクエスト
+    stale: z.object({
+        thresholdDays: z.number(),
+        count: z.number(),
+        items: z.array(z.object({
+            number: z.number(),
+            kind: z.enum(['issue', 'pull-request']),
+            title: z.string(),
+            url: z.string(),
+            lastUpdated: z.string(),
+            daysSinceUpdate: z.number(),
+        })),
+    }),
+    labels: z.array(z.object({
+        name: z.string(),
+        issues: z.number(),
+        pullRequests: z.number(),
+    })),
+    // 期間内に作成されたプルリクエストの作成者の内訳
+    contributions: z.object({
+        maintainer: z.number(),
+        external: z.number(),
+        bots: z.number(),
+        // external / (maintainer + external)。プルリクエストがない場合は null
+        externalRatio: z.number().nullable(),
+    }),
+    // 取得件数の上限に達し、一部のみから集計した場合は true
+    truncated: z.boolean(),
+});
+
+export type IssueHealth = z.infer<typeof issueHealthSchema>;
+
+export interface IssueHealthOptions {
+    // 集計する期間（日数、既定は90日）
+    days?: number;
+    // 停滞とみなす未更新の日数（既定は90日）
+    staleDays?: number;
+    // 取得するイシュー・プルリクエスト・コメントそれぞれの上限
+    maxItems?: number;
+    // 停滞した項目として返す件数
+    limit?: number;
+    now?: Date;
+}
+
+interface WindowItem {
+    number: number;
+    kind: 'issue' | 'pull-request';
+    author: string | null;
+    maintainer: boolean;
+    bot: boolean;
+    createdAt: number;
+    closedAt: number | null;
+    mergedAt: number | null;
+    labels: string[];
+}
+
+/**
+ * GitHub API からイシューとプルリクエストを取得し、応答時間・クローズまでの時間・停滞・ラベル・外部からの貢献の割合を集計する。
+ * 初回応答はイシューのコメントとプルリクエストのレビューコメントから求める（コメントのない承認のみのレビューは含まない）。
+ */
+export async function analyzeIssueHealth(
+    octokit: Octokit,
+    owner: string,
+    repo: string,
+    options: IssueHealthOptions = {}
+): Promise<IssueHealth> {
+    const days = options.days ?? 90;
+    const staleDays = options.staleDays ?? 90;
+    const maxItems = options.maxItems ?? 1000;
+    const now = options.now ?? new Date();
+    const since = new Date(now.getTime() - days * DAY_MS);
+    let truncated = false;
+
+    // since は更新日時で絞り込むため、作成日時の降順に取得して期間より前に作成されたものが出た時点で止める
+    const items: WindowItem[] = [];
+    collect: for await (const { data } of octokit.paginate.iterator(octokit.issues.listForRepo, {
+        owner, repo, state: 'all', since: since.toISOString(), sort: 'created', direction: 'desc', per_page: 100,
+    })) {
+        for (const issue of data) {
+            const createdAt = Date.parse(issue.created_at);
+            if (createdAt < since.getTime()) break collect;
+            if (items.length >= maxItems) {
+                truncated = true;
+                break collect;
+            }
+            items.push({
+                number: issue.number,
+                kind: issue.pull_request ? 'pull-request' : 'issue',
+                author: issue.user?.login ?? null,
+                maintainer: MAINTAINER_ASSOCIATIONS.has(issue.author_association),
+                bot: issue.user?.type === 'Bot',
+                createdAt,
+                closedAt: issue.closed_at ? Date.parse(issue.closed_at) : null,
+                mergedAt: issue.pull_request?.merged_at ? Date.parse(issue.pull_request.merged_at) : null,
+                labels: issue.labels.map(label => typeof label === 'string' ? label : label.name || '').filter(Boolean),
+            });
+        }
+    }
+
+    // 作成者以外の人による最初のコメントの日時
+    const firstResponses = new Map<number, number>();
+    const authors = new Map(items.map(item => [item.number, item.author]));
+    const recordResponse = (number: number, login: string | undefined, type: string | undefined, createdAt: string) => {
+        if (!authors.has(number) || !login || type === 'Bot' || login === authors.get(number)) return;
+        const time = Date.parse(createdAt);
+        const current = firstResponses.get(number);
+        if (current === undefined || time < current) firstResponses.set(number, time);
+    };
+
+    if (items.length > 0) {
+        let comments = 0;
+        for await (const { data } of octokit.paginate.iterator(octokit.issues.listCommentsForRepo, {
+            owner, repo, since: since.toISOString(), sort: 'created', direction: 'asc', per_page: 100,
+        })) {
+            for (const comment of data) {
+                recordResponse(numberFromUrl(comment.issue_url), comment.user?.login, comment.user?.type, comment.created_at);
+            }
+            comments += data.length;
+            if (comments >= maxItems) {
+                truncated = true;
+                break;
+            }
+        }
+
+        if (items.some(item => item.kind === 'pull-request')) {
+            let reviewComments = 0;
+            for await (const { data } of octokit.paginate.iterator(octokit.pulls.listReviewCommentsForRepo, {
+                owner, repo, since: since.toISOString(), sort: 'created', direction: 'asc', per_page: 100,
+            })) {
+                for (const comment of data) {
+                    recordResponse(numberFromUrl(comment.pull_request_url), comment.user?.login, comment.user?.type, comment.created_at);
+                }
+                reviewComments += data.length;
+                if (reviewComments >= maxItems) {
+                    truncated = true;
+                    break;
+                }
+            }
+        }
+    }
+
+    const issues = items.filter(item => item.kind === 'issue');
+    const pullRequests = items.filter(item => item.kind === 'pull-request');
+    const itemMetrics = (group: WindowItem[]) => {
+        // ボットが作成したものは応答を期待しないため対象外とする
+        const humanItems = group.filter(item => !item.bot);
+        return {
+            opened: group.length,
+            open: group.filter(item => item.closedAt === null).length,
+            unanswered: humanItems.filter(item => !firstResponses.has(item.number)).length,
+            medianFirstResponseHours: medianHours(humanItems.flatMap(item => {
+                const response = firstResponses.get(item.number);
+                return response !== undefined ? [response - item.createdAt] : [];
+            })),
+        };
+    };
+
+    const closedIssues = issues.filter(item => item.closedAt !== null);
+    const mergedPullRequests = pullRequests.filter(item => item.mergedAt !== null);
+
+    const labelCounts = new Map<string, { name: string; issues: number; pullRequests: number }>();
+    for (const item of items) {
+        for (const name of item.labels) {
+            const entry = labelCounts.get(name) || { name, issues: 0, pullRequests: 0 };
+            if (item.kind === 'issue') entry.issues++;
+            else entry.pullRequests++;
+            labelCounts.set(name, entry);
+        }
+    }
+
+    const humanPullRequests = pullRequests.filter(item => !item.bot);
+    const maintainer = humanPullRequests.filter(item => item.maintainer).length;
+    const external = humanPullRequests.length - maintainer;
+
+    const stale = await collectStaleItems(octokit, owner, repo, now, staleDays, options.limit ?? 10, maxItems);
+
+    return {
+        repository: `${owner}/${repo}`,
+        window: { since: since.toISOString(), until: now.toISOString(), days },
+        issues: {
+            ...itemMetrics(issues),
+            closed: closedIssues.length,
+            medianTimeToCloseHours: medianHours(closedIssues.map(item => item.closedAt! - item.createdAt)),
+        },
+        pullRequests: {
+            ...itemMetrics(pullRequests),
+            merged: mergedPullRequests.length,
+            closedUnmerged: pullRequests.filter(item => item.closedAt !== null && item.mergedAt === null).length,
+            medianTimeToMergeHours: medianHours(mergedPullRequests.map(item => item.mergedAt! - item.createdAt)),
+        },
+        stale: { thresholdDays: staleDays, count: stale.count, items: stale.items },
+        labels: Array.from(labelCounts.values())
+            .sort((a, b) => (b.issues + b.pullRequests) - (a.issues + a.pullRequests) || a.name.localeCompare(b.name))
+            .slice(0, 20),
+        contributions: {
+            maintainer,
+            external,
+            bots: pullRequests.length - humanPullRequests.length,
+            externalRatio: humanPullRequests.length > 0 ? external / humanPullRequests.length : null,
+        },
+        truncated: truncated || stale.truncated,
+    };
+}
+
+/**
+ * 開いている項目を更新日時の昇順に取得し、しきい値より新しいものが出た時点で止める。
+ */
+async function collectStaleItems(
+    octokit: Octokit,
+    owner: string,
+    repo: string,
+    now: Date,
+    staleDays: number,
+    limit: number,
+    maxItems: number
+): Promise<{ count: number; items: IssueHealth['stale']['items']; truncated: boolean }> {
+    const cutoff = now.getTime() - staleDays * DAY_MS;
+    const items: IssueHealth['stale']['items'] = [];
+    let count = 0;
+
+    for await (const { data } of octokit.paginate.iterator(octokit.issues.listForRepo, {
+        owner, repo, state: 'open', sort: 'updated', direction: 'asc', per_page: 100,
+    })) {
+        for (const issue of data) {
+            const updatedAt = Date.parse(issue.updated_at);
+            if (updatedAt >= cutoff) return { count, items, truncated: false };
+            if (count >= maxItems) return { count, items, truncated: true };
+            count++;
+            if (items.length < limit) {
+                items.push({
+                    number: issue.number,
+                    kind: issue.pull_request ? 'pull-request' : 'issue',
+                    title: issue.title,
+                    url: issue.html_url,
+                    lastUpdated: issue.updated_at,
+                    daysSinceUpdate: Math.floor((now.getTime() - updatedAt) / DAY_MS),
+                });
+            }
+        }
+    }
+    return { count, items, truncated: false };
+}
+
+function numberFromUrl(url: string): number {
+    return Number(url.slice(url.lastIndexOf('/') + 1));
+}
+
+function medianHours(durations: number[]): number | null {
+    if (durations.length === 0) return null;
+    const sorted = [...durations].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    const median = sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+    return Math.round((median / HOUR_MS) * 10) / 10;
+}
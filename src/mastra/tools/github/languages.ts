@@ -0,0 +1,441 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { minimatch } from 'minimatch';
+import { z } from 'zod';
+import { countLines } from './linecount';
+
+export const languageTypeSchema = z.enum(['programming', 'markup', 'data', 'prose']);
+
+export const languageStatSchema = z.object({
+    type: languageTypeSchema,
+    files: z.number(),
+    lines: z.number(),
+    code: z.number(),
+    comment: z.number(),
+    blank: z.number(),
+    bytes: z.number(),
+});
+
+// ファイル単位の行数の内訳
+export const fileLineStatSchema = z.object({
+    path: z.string(),
+    language: z.string(),
+    code: z.number(),
+    comment: z.number(),
+    blank: z.number(),
+});
+
+// 言語統計から除外したファイル数（理由別）
+export const excludedFilesSchema = z.object({
+    vendored: z.number(),
+    generated: z.number(),
+    documentation: z.number(),
+    // 言語を特定できなかったファイル、または統計の対象外（data / prose）の言語
+    other: z.number(),
+});
+
+export type LanguageType = z.infer<typeof languageTypeSchema>;
+export type LanguageStat = z.infer<typeof languageStatSchema>;
+export type ExcludedFiles = z.infer<typeof excludedFilesSchema>;
+export type FileLineStat = z.infer<typeof fileLineStatSchema>;
+
+interface LanguageDefinition {
+    type: LanguageType;
+    extensions?: string[];
+    filenames?: string[];
+    // シバンで指定されるインタプリタ名
+    interpreters?: string[];
+}
+
+// GitHub Linguist の languages.yml を元にした主要言語の定義
+const LANGUAGES: Record<string, LanguageDefinition> = {
+    'TypeScript': { type: 'programming', extensions: ['.ts', '.mts', '.cts'], interpreters: ['deno', 'ts-node', 'tsx'] },
+    'TSX': { type: 'programming', extensions: ['.tsx'] },
+    'JavaScript': { type: 'programming', extensions: ['.js', '.mjs', '.cjs', '.jsx'], filenames: ['Jakefile'], interpreters: ['node', 'nodejs', 'bun'] },
+    'Python': { type: 'programming', extensions: ['.py', '.pyi', '.pyw'], filenames: ['SConstruct', 'SConscript'], interpreters: ['python', 'python2', 'python3'] },
+    'Go': { type: 'programming', extensions: ['.go'] },
+    'Rust': { type: 'programming', extensions: ['.rs'] },
+    'Java': { type: 'programming', extensions: ['.java'] },
+    'Kotlin': { type: 'programming', extensions: ['.kt', '.kts'] },
+    'Scala': { type: 'programming', extensions: ['.scala', '.sc'], interpreters: ['scala'] },
+    'Groovy': { type: 'programming', extensions: ['.groovy', '.gradle'], filenames: ['Jenkinsfile'], interpreters: ['groovy'] },
+    'Ruby': { type: 'programming', extensions: ['.rb', '.rake', '.gemspec', '.ru'], filenames: ['Gemfile', 'Rakefile', 'Guardfile', 'Podfile', 'Vagrantfile'], interpreters: ['ruby'] },
+    'PHP': { type: 'programming', extensions: ['.php', '.phtml'], interpreters: ['php'] },
+    'C': { type: 'programming', extensions: ['.c', '.h'] },
+    'C++': { type: 'programming', extensions: ['.cpp', '.cc', '.cxx', '.c++', '.hpp', '.hh', '.hxx', '.ino'] },
+    'C#': { type: 'programming', extensions: ['.cs', '.csx'] },
+    'Objective-C': { type: 'programming', extensions: ['.m'] },
+    'Objective-C++': { type: 'programming', extensions: ['.mm'] },
+    'Swift': { type: 'programming', extensions: ['.swift'] },
+    'Dart': { type: 'programming', extensions: ['.dart'] },
+    'Shell': { type: 'programming', extensions: ['.sh', '.bash', '.zsh', '.ksh'], filenames: ['.bashrc', '.zshrc', '.profile'], interpreters: ['sh', 'bash', 'zsh', 'ksh', 'dash', 'ash'] },
+    'PowerShell': { type: 'programming', extensions: ['.ps1', '.psm1', '.psd1'], interpreters: ['pwsh', 'powershell'] },
+    'Batchfile': { type: 'programming', extensions: ['.bat', '.cmd'] },
+    'Lua': { type: 'programming', extensions: ['.lua'], interpreters: ['lua'] },
+    'Perl': { type: 'programming', extensions: ['.pl', '.pm'], interpreters: ['perl'] },
+    'R': { type: 'programming', extensions: ['.r'], interpreters: ['Rscript'] },
+    'Elixir': { type: 'programming', extensions: ['.ex', '.exs'], interpreters: ['elixir'] },
+    'Erlang': { type: 'programming', extensions: ['.erl', '.hrl'], filenames: ['rebar.config'], interpreters: ['escript'] },
+    'Haskell': { type: 'programming', extensions: ['.hs', '.lhs'], interpreters: ['runhaskell'] },
+    'Clojure': { type: 'programming', extensions: ['.clj', '.cljs', '.cljc', '.edn'] },
+    'F#': { type: 'programming', extensions: ['.fs', '.fsi', '.fsx'] },
+    'OCaml': { type: 'programming', extensions: ['.ml', '.mli'], interpreters: ['ocaml'] },
+    'Julia': { type: 'programming', extensions: ['.jl'], interpreters: ['julia'] },
+    'Zig': { type: 'programming', extensions: ['.zig'] },
+    'Nim': { type: 'programming', extensions: ['.nim'] },
+    'Solidity': { type: 'programming', extensions: ['.sol'] },
+    'Vue': { type: 'programming', extensions: ['.vue'] },
+    'Svelte': { type: 'markup', extensions: ['.svelte'] },
+    'Astro': { type: 'markup', extensions: ['.astro'] },
+    'HCL': { type: 'programming', extensions: ['.tf', '.tfvars', '.hcl'] },
+    'Dockerfile': { type: 'programming', extensions: ['.dockerfile'], filenames: ['Dockerfile', 'Containerfile'] },
+    'Makefile': { type: 'programming', extensions: ['.mk', '.mak'], filenames: ['Makefile', 'GNUmakefile', 'makefile'], interpreters: ['make'] },
+    'CMake': { type: 'programming', extensions: ['.cmake'], filenames: ['CMakeLists.txt'] },
+    'HTML': { type: 'markup', extensions: ['.html', '.htm', '.xhtml'] },
+    'CSS': { type: 'markup', extensions: ['.css'] },
+    'SCSS': { type: 'markup', extensions: ['.scss'] },
+    'Sass': { type: 'markup', extensions: ['.sass'] },
+    'Less': { type: 'markup', extensions: ['.less'] },
+    'Handlebars': { type: 'markup', extensions: ['.hbs', '.handlebars'] },
+    'Pug': { type: 'markup', extensions: ['.pug'] },
+    'JSON': { type: 'data', extensions: ['.json', '.jsonc', '.json5', '.geojson', '.webmanifest'], filenames: ['.babelrc', '.eslintrc', '.prettierrc', 'composer.lock', 'Pipfile.lock'] },
+    'YAML': { type: 'data', extensions: ['.yml', '.yaml'], filenames: ['.clang-format'] },
+    'TOML': { type: 'data', extensions: ['.toml'], filenames: ['Cargo.lock', 'poetry.lock', 'Pipfile'] },
+    'XML': { type: 'data', extensions: ['.xml', '.xsd', '.xsl', '.plist', '.csproj', '.svg'] },
+    'INI': { type: 'data', extensions: ['.ini', '.cfg', '.properties'], filenames: ['.editorconfig', '.npmrc'] },
+    'CSV': { type: 'data', extensions: ['.csv', '.tsv'] },
+    'SQL': { type: 'data', extensions: ['.sql'] },
+    'GraphQL': { type: 'data', extensions: ['.graphql', '.gql'] },
+    'Protocol Buffer': { type: 'data', extensions: ['.proto'] },
+    'Ignore List': { type: 'data', filenames: ['.gitignore', '.dockerignore', '.npmignore', '.eslintignore', '.prettierignore'] },
+    'Git Attributes': { type: 'data', filenames: ['.gitattributes'] },
+    'Dotenv': { type: 'data', extensions: ['.env'], filenames: ['.env', '.env.example', '.env.local'] },
+    'Markdown': { type: 'prose', extensions: ['.md', '.markdown', '.mdx'] },
+    'reStructuredText': { type: 'prose', extensions: ['.rst'] },
+    'AsciiDoc': { type: 'prose', extensions: ['.adoc', '.asciidoc'] },
+    'Text': { type: 'prose', extensions: ['.txt'], filenames: ['LICENSE', 'COPYING', 'AUTHORS', 'NOTICE'] },
+};
+
+const EXTENSION_INDEX = new Map<string, string>();
+const FILENAME_INDEX = new Map<string, string>();
+const INTERPRETER_INDEX = new Map<string, string>();
+const LANGUAGE_NAMES = new Map<string, string>();
+for (const [name, definition] of Object.entries(LANGUAGES)) {
+    definition.extensions?.forEach(ext => EXTENSION_INDEX.set(ext, name));
+    definition.filenames?.forEach(filename => FILENAME_INDEX.set(filename, name));
+    definition.interpreters?.forEach(interpreter => INTERPRETER_INDEX.set(interpreter, name));
+    LANGUAGE_NAMES.set(name.toLowerCase(), name);
+}
+
+// Linguist の vendor.yml に相当する、サードパーティのコードとみなすパス
+const VENDORED_PATTERNS = [
+    /(^|\/)node_modules\//,
+    /(^|\/)bower_components\//,
+    /(^|\/)jspm_packages\//,
+    /(^|\/)vendor(ed)?\//,
+    /(^|\/)third[-_]?party\//,
+    /(^|\/)external\//,
+    /(^|\/)Godeps\//,
+    /(^|\/)Pods\//,
+    /(^|\/)Carthage\//,
+    /(^|\/)\.yarn\/(releases|plugins|sdks|cache)\//,
+    /(^|\/)\.?venv\//,
+    /(^|\/)site-packages\//,
+    /(^|\/)(jquery|bootstrap|modernizr|d3|angular|react|lodash|underscore)([.-][\w.-]*)?\.(js|css)$/i,
+];
+
+// ビルド成果物やツールが生成したファイルとみなすパス
+const GENERATED_PATTERNS = [
+    /(^|\/)(dist|build|out|coverage|target)\//,
+    /(^|\/)\.(next|nuxt|svelte-kit|turbo|parcel-cache|mastra)\//,
+    /(^|\/)__generated__\//,
+    /(^|\/)(package-lock\.json|npm-shrinkwrap\.json|yarn\.lock|pnpm-lock\.yaml|bun\.lockb?|composer\.lock|Cargo\.lock|Gemfile\.lock|poetry\.lock|Pipfile\.lock|go\.sum)$/,
+    /\.min\.(js|css|mjs)$/,
+    /\.(js|css)\.map$/,
+    /\.pb\.go$/,
+    /_pb2(_grpc)?\.py$/,
+    /\.pb\.(cc|h)$/,
+    /\.g\.dart$/,
+    /\.freezed\.dart$/,
+    /\.designer\.cs$/,
+    /\.generated\.\w+$/,
+];
+
+// ファイル先頭に置かれる生成物のマーカー
+const GENERATED_HEADER = /(code generated .* do not edit|@generated|auto-?generated|generated by|do not edit|this file was automatically generated)/i;
+
+const DOCUMENTATION_PATTERNS = [
+    /^docs?\//i,
+    /^documentation\//i,
+    /(^|\/)examples?\//i,
+    /(^|\/)samples?\//i,
+    /(^|\/)(README|CHANGELOG|CHANGES|CONTRIBUTING|LICENSE|COPYING|NOTICE|AUTHORS|HISTORY)(\.[^/]*)?$/i,
+];
+
+// 平均行長がこれを超えるJS/CSSはミニファイ済みとみなす（Linguist と同じ閾値）
+const MINIFIED_LINE_LENGTH = 110;
+
+// 生成物のマーカーを探す先頭の行数
+const HEADER_LINES = 5;
+
+export interface FileClassification {
+    // リポジトリルートからの相対パス
+    path: string;
+    language: string | null;
+    type: LanguageType | null;
+    vendored: boolean;
+    generated: boolean;
+    documentation: boolean;
+    // 言語統計に含めるか
+    detectable: boolean;
+    // 行数（code + comment + blank）
+    lines: number;
+    code: number;
+    comment: number;
+    blank: number;
+    bytes: number;
+}
+
+interface AttributeRule {
+    pattern: string;
+    attributes: Record<string, string | boolean>;
+}
+
+/**
+ * ファイル名・拡張子・シバンから言語を特定する。
+ */
+export function detectLanguage(filePath: string, content?: string): string | null {
+    const basename = path.basename(filePath);
+    const byName = FILENAME_INDEX.get(basename);
+    if (byName) return byName;
+
+    const ext = path.extname(basename).toLowerCase();
+    const byExtension = EXTENSION_INDEX.get(ext);
+    if (byExtension) return byExtension;
+
+    if (basename.startsWith('Dockerfile.')) return 'Dockerfile';
+
+    return content ? detectShebang(content) : null;
+}
+
+function detectShebang(content: string): string | null {
+    const match = content.match(/^#!\s*(\S+)(?:[ \t]+(\S+))?/);
+    if (!match) return null;
+
+    // "#!/usr/bin/env node" のような env 経由の指定はその引数をインタプリタとする
+    let interpreter = path.basename(match[1]);
+    if (interpreter === 'env' && match[2]) {
+        interpreter = match[2] === '-S' ? (content.match(/^#!\s*\S+\s+-S\s+(\S+)/)?.[1] || '') : match[2];
+        interpreter = path.basename(interpreter);
+    }
+    interpreter = interpreter.replace(/[\d.]+$/, '') || interpreter;
+
+    return INTERPRETER_INDEX.get(interpreter) || INTERPRETER_INDEX.get(path.basename(match[1])) || null;
+}
+
+export function isVendored(relativePath: string): boolean {
+    return VENDORED_PATTERNS.some(pattern => pattern.test(relativePath));
+}
+
+export function isGenerated(relativePath: string, content?: string): boolean {
+    if (GENERATED_PATTERNS.some(pattern => pattern.test(relativePath))) return true;
+    if (!content) return false;
+
+    // 本文中の文字列に反応しないよう、コメント行のみを対象にする
+    const header = content.split('\n', HEADER_LINES).filter(line => /^\s*(\/\/|\/?\*|#|--|<!--)/.test(line));
+    return header.some(line => GENERATED_HEADER.test(line)) || isMinified(relativePath, content);
+}
+
+export function isMinified(relativePath: string, content: string): boolean {
+    if (!/\.(js|mjs|cjs|css)$/i.test(relativePath)) return false;
+    const lines = content.split('\n');
+    return lines.length > 0 && content.length / lines.length > MINIFIED_LINE_LENGTH;
+}
+
+export function isDocumentation(relativePath: string): boolean {
+    return DOCUMENTATION_PATTERNS.some(pattern => pattern.test(relativePath));
+}
+
+/**
+ * ファイル群を言語ごとに分類し、vendored / generated / documentation の判定を付与する。
+ * .gitattributes の linguist-* 属性はヒューリスティックより優先する。
+ */
+export async function classifyFiles(files: string[], repoPath: string): Promise<FileClassification[]> {
+    const attributes = await loadGitAttributes(repoPath);
+    const results: FileClassification[] = [];
+
+    for (const file of files) {
+        const relativePath = path.relative(repoPath, file).split(path.sep).join('/');
+        let content: string;
+        try {
+            const buffer = await fs.readFile(file);
+            // NULバイトを含むものはバイナリとして扱い、統計に含めない
+            if (buffer.subarray(0, 8000).includes(0)) continue;
+            content = buffer.toString('utf-8');
+        } catch (error) {
+            console.error(`Error processing file ${file}:`, error);
+            continue;
+        }
+
+        const overrides = resolveAttributes(relativePath, attributes);
+        const overrideLanguage = typeof overrides['linguist-language'] === 'string'
+            ? LANGUAGE_NAMES.get(String(overrides['linguist-language']).toLowerCase()) || String(overrides['linguist-language'])
+            : null;
+        const language = overrideLanguage || detectLanguage(relativePath, content);
+        const type = language ? LANGUAGES[language]?.type || 'programming' : null;
+
+        const vendored = flag(overrides['linguist-vendored']) ?? isVendored(relativePath);
+        const generated = flag(overrides['linguist-generated']) ?? isGenerated(relativePath, content);
+        const documentation = flag(overrides['linguist-documentation']) ?? isDocumentation(relativePath);
+        // Linguist と同様に、既定では programming / markup のみを言語統計に含める
+        const detectable = flag(overrides['linguist-detectable']) ?? (type === 'programming' || type === 'markup');
+        const counts = countLines(content, language);
+
+        results.push({
+            path: relativePath,
+            language,
+            type,
+            vendored,
+            generated,
+            documentation,
+            detectable: detectable && language !== null,
+            lines: counts.code + counts.comment + counts.blank,
+            ...counts,
+            bytes: Buffer.byteLength(content),
+        });
+    }
+
+    return results;
+}
+
+/**
+ * 解析対象とするファイル（vendored・generated でないもの）か。
+ */
+export function isSourceFile(file: FileClassification): boolean {
+    return !file.vendored && !file.generated;
+}
+
+/**
+ * 分類結果から言語ごとのファイル数・行数（コード・コメント・空行）・バイト数を集計する。
+ * totalFiles / totalLines などの合計は vendored・generated を除いたファイルが対象。
+ */
+export function summarizeLanguages(files: FileClassification[]): {
+    totalFiles: number;
+    totalLines: number;
+    totalCode: number;
+    totalComment: number;
+    totalBlank: number;
+    languageStats: Record<string, LanguageStat>;
+    fileStats: FileLineStat[];
+    excludedFiles: ExcludedFiles;
+} {
+    const languageStats: Record<string, LanguageStat> = {};
+    const fileStats: FileLineStat[] = [];
+    const excludedFiles: ExcludedFiles = { vendored: 0, generated: 0, documentation: 0, other: 0 };
+    const totals = { files: 0, lines: 0, code: 0, comment: 0, blank: 0 };
+
+    for (const file of files) {
+        if (file.vendored) {
+            excludedFiles.vendored++;
+            continue;
+        }
+        if (file.generated) {
+            excludedFiles.generated++;
+            continue;
+        }
+
+        totals.files++;
+        totals.lines += file.lines;
+        totals.code += file.code;
+        totals.comment += file.comment;
+        totals.blank += file.blank;
+
+        if (file.language) {
+            fileStats.push({ path: file.path, language: file.language, code: file.code, comment: file.comment, blank: file.blank });
+        }
+
+        if (file.documentation) {
+            excludedFiles.documentation++;
+            continue;
+        }
+        if (!file.detectable || !file.language) {
+            excludedFiles.other++;
+            continue;
+        }
+
+        const stat = languageStats[file.language]
+            || { type: file.type || 'programming', files: 0, lines: 0, code: 0, comment: 0, blank: 0, bytes: 0 };
+        stat.files++;
+        stat.lines += file.lines;
+        stat.code += file.code;
+        stat.comment += file.comment;
+        stat.blank += file.blank;
+        stat.bytes += file.bytes;
+        languageStats[file.language] = stat;
+    }
+
+    // バイト数の多い順に並べる
+    const sorted = Object.fromEntries(
+        Object.entries(languageStats).sort(([, a], [, b]) => b.bytes - a.bytes)
+    );
+
+    return {
+        totalFiles: totals.files,
+        totalLines: totals.lines,
+        totalCode: totals.code,
+        totalComment: totals.comment,
+        totalBlank: totals.blank,
+        languageStats: sorted,
+        fileStats: fileStats.sort((a, b) => b.code - a.code),
+        excludedFiles,
+    };
+}
+
+async function loadGitAttributes(repoPath: string): Promise<AttributeRule[]> {
+    let content: string;
+    try {
+        content = await fs.readFile(path.join(repoPath, '.gitattributes'), 'utf-8');
+    } catch {
+        return [];
+    }
+
+    const rules: AttributeRule[] = [];
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('#')) continue;
+
+        const [pattern, ...tokens] = line.split(/\s+/);
+        const attributes: Record<string, string | boolean> = {};
+        for (const token of tokens) {
+            if (token.startsWith('-') || token.startsWith('!')) {
+                attributes[token.slice(1)] = false;
+            } else if (token.includes('=')) {
+                const [key, value] = token.split('=', 2);
+                attributes[key] = value === 'true' ? true : value === 'false' ? false : value;
+            } else {
+                attributes[token] = true;
+            }
+        }
+
+        // スラッシュを含まないパターンは任意の階層のファイル名に一致する
+        const normalized = pattern.includes('/') ? pattern.replace(/^\//, '') : `**/${pattern}`;
+        rules.push({ pattern: normalized.endsWith('/') ? `${normalized}**` : normalized, attributes });
+    }
+    return rules;
+}
+
+function resolveAttributes(relativePath: string, rules: AttributeRule[]): Record<string, string | boolean> {
+    const resolved: Record<string, string | boolean> = {};
+    // 後に書かれた規則ほど優先される
+    for (const rule of rules) {
+        if (minimatch(relativePath, rule.pattern, { dot: true }) || minimatch(relativePath, `${rule.pattern}/**`, { dot: true })) {
+            Object.assign(resolved, rule.attributes);
+        }
+    }
+    return resolved;
+}
+
+function flag(value: string | boolean | undefined): boolean | undefined {
+    if (value === undefined) return undefined;
+    return typeof value === 'boolean' ? value : value !== 'false';
+}
@@ -0,0 +1,406 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { z } from 'zod';
+import { analyzeManifests, asString, asTable } from './manifests';
+import { loadJsonConfig } from './config';
+import { computeScopes, loadLockfile } from './lockfile';
+import { parseToml } from './toml';
+
+export const licenseCategorySchema = z.enum([
+    'permissive',
+    'public-domain',
+    'weak-copyleft',
+    'strong-copyleft',
+    'network-copyleft',
+    'proprietary',
+    'unknown',
+]);
+
+export const licenseStatusSchema = z.enum(['allowed', 'review', 'denied', 'unknown']);
+
+export const licensePolicySchema = z.object({
+    allow: z.array(z.string()).default([]),
+    deny: z.array(z.string()).default([]),
+    review: z.array(z.string()).default([]),
+    // ポリシーに記載のないライセンスの扱い
+    unknown: licenseStatusSchema.default('review'),
+    // 評価から除外するパッケージ名
+    ignore: z.array(z.string()).default([]),
+    // プロジェクト自体のライセンス（LICENSE から検出できない場合や、社内向けに proprietary と明示する場合）
+    projectLicense: z.string().optional(),
+});
+
+export const licenseReportSchema = z.object({
+    project: z.object({
+        // SPDX識別子（検出できない場合は null）
+        license: z.string().nullable(),
+        category: licenseCategorySchema,
+        // 検出元（LICENSE ファイル・package.json・ポリシーなど）
+        source: z.string().nullable(),
+    }),
+    policy: z.object({
+        // 読み込んだポリシーファイル（既定のポリシーを使用した場合は null）
+        source: z.string().nullable(),
+    }),
+    dependencies: z.array(z.object({
+        name: z.string(),
+        version: z.string(),
+        scope: z.enum(['runtime', 'dev']),
+        license: z.string().nullable(),
+        category: licenseCategorySchema,
+        status: licenseStatusSchema,
+        source: z.enum(['lockfile', 'node_modules']).nullable(),
+    })),
+    summary: z.record(licenseStatusSchema, z.number()),
+    // ライセンスごとのパッケージ数
+    distribution: z.record(z.number()),
+    // プロジェクトのライセンスと両立しないランタイム依存
+    conflicts: z.array(z.object({
+        name: z.string(),
+        version: z.string(),
+        license: z.string(),
+        reason: z.string(),
+    })),
+});
+
+export type LicenseCategory = z.infer<typeof licenseCategorySchema>;
+export type LicenseStatus = z.infer<typeof licenseStatusSchema>;
+export type LicensePolicy = z.infer<typeof licensePolicySchema>;
+export type LicenseReport = z.infer<typeof licenseReportSchema>;
+
+export interface LicenseCheckOptions {
+    // ポリシーファイルのパス（省略時はリポジトリ・作業ディレクトリの .mastra-license.json）
+    policy?: string;
+}
+
+export interface ProjectLicense {
+    license: string | null;
+    source: string | null;
+}
+
+const POLICY_FILE = '.mastra-license.json';
+const LICENSE_FILES = ['LICENSE', 'LICENSE.md', 'LICENSE.txt', 'LICENCE', 'LICENCE.md', 'COPYING', 'COPYING.md', 'UNLICENSE'];
+
+// ポリシーファイルがない場合の既定値：寛容なライセンスのみ許可し、コピーレフトは要確認とする
+const DEFAULT_POLICY: LicensePolicy = {
+    allow: [
+        'MIT', 'ISC', '0BSD', 'BSD-2-Clause', 'BSD-3-Clause', 'Apache-2.0', 'Zlib',
+        'CC0-1.0', 'Unlicense', 'BlueOak-1.0.0', 'Python-2.0', 'CC-BY-4.0', 'BSL-1.0',
+    ],
+    deny: [],
+    review: ['LGPL-2.1', 'LGPL-3.0', 'MPL-2.0', 'EPL-2.0', 'GPL-2.0', 'GPL-3.0', 'AGPL-3.0'],
+    unknown: 'review',
+    ignore: [],
+};
+
+// LICENSE 本文から SPDX 識別子を判定するための特徴的な文言（判定順）
+const LICENSE_SIGNATURES: Array<[string, string[], string[]?]> = [
+    // GPL系は他のライセンス本文で言及されることがあるため、本文冒頭の版数と日付で判定する
+    ['AGPL-3.0', ['gnu affero general public license', 'version 3, 19 november 2007']],
+    ['LGPL-3.0', ['gnu lesser general public license', 'version 3, 29 june 2007']],
+    ['LGPL-2.1', ['gnu lesser general public license', 'version 2.1, february 1999']],
+    ['GPL-3.0', ['gnu general public license', 'version 3, 29 june 2007']],
+    ['GPL-2.0', ['gnu general public license', 'version 2, june 1991']],
+    ['Python-2.0', ['python software foundation license']],
+    ['Elastic-2.0', ['elastic license 2.0']],
+    ['BlueOak-1.0.0', ['blue oak model license']],
+    ['CC-BY-4.0', ['attribution 4.0 international']],
+    ['MPL-2.0', ['mozilla public license', '2.0']],
+    ['EPL-2.0', ['eclipse public license', '2.0']],
+    ['Apache-2.0', ['apache license', 'version 2.0']],
+    ['BSL-1.0', ['boost software license', 'version 1.0']],
+    ['Unlicense', ['free and unencumbered software released into the public domain']],
+    ['CC0-1.0', ['cc0 1.0 universal']],
+    ['MIT', ['permission is hereby granted, free of charge, to any person obtaining a copy']],
+    ['0BSD', ['permission to use, copy, modify, and/or distribute this software for any purpose with or without fee is hereby granted'], ['copyright notice and this permission notice appear in all copies']],
+    ['ISC', ['permission to use, copy, modify, and', 'distribute this software for any purpose with or without fee is hereby granted']],
+    ['BSD-3-Clause', ['redistribution and use in source and binary forms', 'neither the name']],
+    ['BSD-2-Clause', ['redistribution and use in source and binary forms']],
+];
+
+// SPDX 以外の表記ゆれ
+const LICENSE_ALIASES: Record<string, string> = {
+    'apache 2.0': 'Apache-2.0',
+    'apache-2': 'Apache-2.0',
+    'apache2': 'Apache-2.0',
+    'apache license 2.0': 'Apache-2.0',
+    'apache license, version 2.0': 'Apache-2.0',
+    'bsd': 'BSD-3-Clause',
+    'new bsd': 'BSD-3-Clause',
+    'simplified bsd': 'BSD-2-Clause',
+    'mit license': 'MIT',
+    'gplv2': 'GPL-2.0',
+    'gplv3': 'GPL-3.0',
+    'lgplv3': 'LGPL-3.0',
+    'public domain': 'Unlicense',
+    'wtfpl': 'WTFPL',
+};
+
+const CATEGORY_PATTERNS: Array<[RegExp, LicenseCategory]> = [
+    [/^(AGPL|SSPL)/i, 'network-copyleft'],
+    [/^(LGPL|MPL|EPL|CDDL|CPL)/i, 'weak-copyleft'],
+    [/^GPL/i, 'strong-copyleft'],
+    [/^(Unlicense|CC0|WTFPL)/i, 'public-domain'],
+    [/^(UNLICENSED|SEE LICENSE IN|proprietary|commercial|Elastic|BUSL)/i, 'proprietary'],
+    [/^(MIT|ISC|0BSD|BSD|Apache|Zlib|BlueOak|Python|CC-BY|BSL|Artistic|PSF)/i, 'permissive'],
+];
+
+const STATUS_RANK: Record<LicenseStatus, number> = { allowed: 0, review: 1, unknown: 2, denied: 3 };
+
+/**
+ * プロジェクトと依存パッケージのライセンスを特定し、許可・拒否・要確認のポリシーと照合する。
+ */
+export async function checkLicenses(repoPath: string, options: LicenseCheckOptions = {}): Promise<LicenseReport> {
+    const { policy, source: policySource } = await loadPolicy(repoPath, options.policy);
+    const detected = await detectProjectLicense(repoPath);
+    const project = policy.projectLicense
+        ? { license: normalizeLicense(policy.projectLicense), source: policySource }
+        : detected;
+    const projectCategory = project.license ? categorize(project.license) : 'proprietary';
+
+    const dependencies = (await collectDependencyLicenses(repoPath))
+        .filter(dependency => !policy.ignore.includes(dependency.name))
+        .map(dependency => ({
+            ...dependency,
+            category: dependency.license ? categorize(dependency.license) : 'unknown' as LicenseCategory,
+            status: dependency.license ? evaluateLicense(dependency.license, policy) : policy.unknown,
+        }))
+        .sort((a, b) => STATUS_RANK[b.status] - STATUS_RANK[a.status] || a.name.localeCompare(b.name));
+
+    const summary = { allowed: 0, review: 0, denied: 0, unknown: 0 };
+    const distribution: Record<string, number> = {};
+    for (const dependency of dependencies) {
+        summary[dependency.status]++;
+        const key = dependency.license || 'UNKNOWN';
+        distribution[key] = (distribution[key] || 0) + 1;
+    }
+
+    const conflicts = dependencies.flatMap(dependency => {
+        // 開発時のみの依存は配布物に含まれないため対象外とする
+        if (dependency.scope === 'dev' || !dependency.license) return [];
+        const reason = findConflict(project.license, projectCategory, dependency.license);
+        return reason ? [{ name: dependency.name, version: dependency.version, license: dependency.license!, reason }] : [];
+    });
+
+    return {
+        project: { ...project, category: projectCategory },
+        policy: { source: policySource },
+        dependencies,
+        summary,
+        distribution,
+        conflicts,
+    };
+}
+
+/**
+ * LICENSE ファイルの本文、またはマニフェストの license フィールドからプロジェクトのライセンスを特定する。
+ */
+export async function detectProjectLicense(repoPath: string): Promise<ProjectLicense> {
+    for (const fileName of LICENSE_FILES) {
+        let content: string;
+        try {
+            content = await fs.readFile(path.join(repoPath, fileName), 'utf-8');
+        } catch {
+            continue;
+        }
+        const license = identifyLicenseText(content);
+        if (license) return { license, source: fileName };
+    }
+
+    const manifestLicenses: Array<[string, (content: string) => unknown]> = [
+        ['package.json', content => JSON.parse(content).license],
+        ['composer.json', content => [JSON.parse(content).license].flat()[0]],
+        ['Cargo.toml', content => asString(asTable(parseToml(content).package)?.license)],
+        ['pyproject.toml', content => {
+            // license = "MIT" または license = { text = "MIT" }
+            const license = asTable(parseToml(content).project)?.license;
+            return asString(asTable(license)?.text) ?? asString(license);
+        }],
+    ];
+    for (const [fileName, extract] of manifestLicenses) {
+        try {
+            const license = extract(await fs.readFile(path.join(repoPath, fileName), 'utf-8'));
+            if (typeof license === 'string' && license.trim()) {
+                return { license: normalizeLicense(license), source: fileName };
+            }
+        } catch {
+            continue;
+        }
+    }
+
+    return { license: null, source: null };
+}
+
+/**
+ * ライセンス本文の特徴的な文言から SPDX 識別子を判定する。
+ */
+export function identifyLicenseText(content: string): string | null {
+    const text = content.toLowerCase().replace(/\s+/g, ' ');
+    for (const [spdx, required, excluded = []] of LICENSE_SIGNATURES) {
+        if (required.every(phrase => text.includes(phrase)) && !excluded.some(phrase => text.includes(phrase))) {
+            return spdx;
+        }
+    }
+    return null;
+}
+
+async function loadPolicy(repoPath: string, policyPath?: string): Promise<{ policy: LicensePolicy; source: string | null }> {
+    const loaded = await loadJsonConfig(
+        licensePolicySchema,
+        [path.join(repoPath, POLICY_FILE), path.join(process.cwd(), POLICY_FILE)],
+        policyPath,
+        'License policy'
+    );
+    if (!loaded) {
+        return { policy: DEFAULT_POLICY, source: null };
+    }
+
+    const policy = loaded.config;
+    return {
+        policy: {
+            ...policy,
+            allow: policy.allow.map(normalizeLicense),
+            deny: policy.deny.map(normalizeLicense),
+            review: policy.review.map(normalizeLicense),
+        },
+        source: loaded.source,
+    };
+}
+
+/**
+ * 依存パッケージのライセンスを、ロックファイルのメタデータまたは node_modules の package.json から取得する。
+ */
+async function collectDependencyLicenses(repoPath: string): Promise<Array<{
+    name: string;
+    version: string;
+    scope: 'runtime' | 'dev';
+    license: string | null;
+    source: 'lockfile' | 'node_modules' | null;
+}>> {
+    const lockfile = await loadLockfile(repoPath);
+    let packages: Array<{ name: string; version: string; scope: 'runtime' | 'dev'; license?: string; installPaths?: string[] }>;
+    if (lockfile?.resolved) {
+        const scopes = computeScopes(lockfile.resolved, lockfile.declared);
+        packages = Array.from(lockfile.resolved.packages.values())
+            .map(pkg => ({ ...pkg, scope: scopes.get(pkg.id) || 'dev' }));
+    } else {
+        packages = (await analyzeManifests(repoPath)).dependencies
+            .filter(dependency => dependency.ecosystem === 'npm')
+            .map(dependency => ({ name: dependency.name, version: '', scope: dependency.scope }));
+    }
+
+    return Promise.all(packages.map(async pkg => {
+        const { name, version, scope } = pkg;
+        if (pkg.license) {
+            return { name, version, scope, license: normalizeLicense(pkg.license), source: 'lockfile' as const };
+        }
+        const installed = await readInstalledPackage(repoPath, name, version, pkg.installPaths);
+        if (installed) {
+            return { name, version: installed.version, scope, license: installed.license, source: 'node_modules' as const };
+        }
+        return { name, version, scope, license: null, source: null };
+    }));
+}
+
+async function readInstalledPackage(
+    repoPath: string,
+    name: string,
+    version: string,
+    // ロックファイルに記録されたインストール先（入れ子の node_modules を含む）
+    installPaths: string[] = []
+): Promise<{ version: string; license: string | null } | null> {
+    const candidates = [
+        ...installPaths.map(installPath => path.join(repoPath, installPath, 'package.json')),
+        path.join(repoPath, 'node_modules', name, 'package.json'),
+        // pnpm の仮想ストア
+        path.join(repoPath, 'node_modules', '.pnpm', `${name.replace('/', '+')}@${version}`, 'node_modules', name, 'package.json'),
+    ];
+
+    for (const candidate of candidates) {
+        try {
+            const manifest = JSON.parse(await fs.readFile(candidate, 'utf-8'));
+            if (version && manifest.version !== version) continue;
+            const declared = declaredLicense(manifest);
+            return { version: manifest.version || version, license: declared ? normalizeLicense(declared) : null };
+        } catch {
+            continue;
+        }
+    }
+    return null;
+}
+
+/**
+ * package.json の license を返す。古い形式の license: { type } と licenses: [{ type }] にも対応する。
+ */
+function declaredLicense(manifest: { license?: unknown; licenses?: unknown }): string | undefined {
+    const typeOf = (value: unknown): string | undefined => {
+        if (typeof value === 'string') return value;
+        const type = typeof value === 'object' && value !== null ? (value as { type?: unknown }).type : undefined;
+        return typeof type === 'string' ? type : undefined;
+    };
+    const legacy = Array.isArray(manifest.licenses)
+        ? manifest.licenses.map(typeOf).filter((type): type is string => Boolean(type))
+        : [];
+    return typeOf(manifest.license) ?? (legacy.length > 0 ? legacy.join(' OR ') : undefined);
+}
+
+function normalizeLicense(license: string): string {
+    const trimmed = license.trim();
+    const alias = LICENSE_ALIASES[trimmed.toLowerCase()];
+    if (alias) return alias;
+    // "GPL-3.0-only" / "GPL-2.0+" などは基本の識別子として扱う
+    return trimmed.replace(/-(only|or-later)\b/g, '').replace(/\+(?=$|\s|\))/g, '');
+}
+
+function categorize(license: string): LicenseCategory {
+    // 複合式は最も制約の強い選択肢ではなく、最も緩い選択肢で分類する
+    const options = splitAlternatives(license);
+    const categories = options.map(option => {
+        const terms = option.split(/\s+AND\s+/i);
+        const termCategories = terms.map(term => CATEGORY_PATTERNS.find(([pattern]) => pattern.test(term))?.[1] || 'unknown');
+        return termCategories.sort((a, b) => categoryRank(b) - categoryRank(a))[0];
+    });
+    return categories.sort((a, b) => categoryRank(a) - categoryRank(b))[0] || 'unknown';
+}
+
+function categoryRank(category: LicenseCategory): number {
+    return ['public-domain', 'permissive', 'weak-copyleft', 'unknown', 'strong-copyleft', 'network-copyleft', 'proprietary'].indexOf(category);
+}
+
+// "(MIT OR Apache-2.0)" のような SPDX 式を選択肢ごとに分割する
+function splitAlternatives(expression: string): string[] {
+    return expression.replace(/[()]/g, '').split(/\s+OR\s+/i).map(option => option.trim()).filter(Boolean);
+}
+
+/**
+ * SPDX 式をポリシーと照合する。OR は最も有利な選択肢、AND は最も不利な条件で評価する。
+ */
+function evaluateLicense(license: string, policy: LicensePolicy): LicenseStatus {
+    const statusOf = (term: string): LicenseStatus => {
+        const id = normalizeLicense(term);
+        const matches = (list: string[]) => list.some(entry => entry.toLowerCase() === id.toLowerCase());
+        if (matches(policy.deny)) return 'denied';
+        if (matches(policy.allow)) return 'allowed';
+        if (matches(policy.review)) return 'review';
+        return policy.unknown;
+    };
+
+    const options = splitAlternatives(license).map(option => {
+        const statuses = option.split(/\s+AND\s+/i).map(statusOf);
+        return statuses.sort((a, b) => STATUS_RANK[b] - STATUS_RANK[a])[0];
+    });
+    return options.sort((a, b) => STATUS_RANK[a] - STATUS_RANK[b])[0] || policy.unknown;
+}
+
+function findConflict(projectLicense: string | null, projectCategory: LicenseCategory, license: string): string | null {
+    const category = categorize(license);
+    const projectLabel = projectLicense || 'proprietary';
+
+    if (category === 'network-copyleft' && projectCategory !== 'network-copyleft') {
+        return `${license} requires source disclosure for network use, which is incompatible with a ${projectLabel} project`;
+    }
+    if (category === 'strong-copyleft' && !['strong-copyleft', 'network-copyleft'].includes(projectCategory)) {
+        return `${license} requires derivative works to be distributed under the same license, which conflicts with a ${projectLabel} project`;
+    }
+    return null;
+}
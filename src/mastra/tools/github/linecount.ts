@@ -0,0 +1,225 @@
+import { z } from 'zod';
+
+export const lineCountsSchema = z.object({
+    code: z.number(),
+    comment: z.number(),
+    blank: z.number(),
+});
+
+export type LineCounts = z.infer<typeof lineCountsSchema>;
+
+interface CommentSyntax {
+    line: string[];
+    block: Array<[string, string]>;
+    // 文字列リテラルの区切り（長いものから順に照合する）
+    strings: string[];
+    // 行頭に置かれた三重引用符の文字列をコメント（docstring）として扱う
+    docstrings?: boolean;
+    // 行頭のマーカーで囲まれるブロックコメント（Ruby の =begin / =end など）
+    markers?: Array<[RegExp, RegExp]>;
+}
+
+const C_STYLE: CommentSyntax = { line: ['//'], block: [['/*', '*/']], strings: ['"', "'"] };
+const JS_STYLE: CommentSyntax = { line: ['//'], block: [['/*', '*/']], strings: ['`', '"', "'"] };
+const HASH_STYLE: CommentSyntax = { line: ['#'], block: [], strings: ['"', "'"] };
+const MARKUP_STYLE: CommentSyntax = { line: [], block: [['<!--', '-->']], strings: [] };
+const COMPONENT_STYLE: CommentSyntax = { line: ['//'], block: [['<!--', '-->'], ['/*', '*/']], strings: ['`', '"', "'"] };
+
+// cloc と同様に、言語ごとの行コメント・ブロックコメント・文字列リテラルの構文を定義する
+const COMMENT_SYNTAX: Record<string, CommentSyntax> = {
+    'TypeScript': JS_STYLE,
+    'TSX': JS_STYLE,
+    'JavaScript': JS_STYLE,
+    'Go': { line: ['//'], block: [['/*', '*/']], strings: ['`', '"'] },
+    'Rust': { line: ['//'], block: [['/*', '*/']], strings: ['"'] },
+    'Java': { line: ['//'], block: [['/*', '*/']], strings: ['"""', '"', "'"] },
+    'Kotlin': { line: ['//'], block: [['/*', '*/']], strings: ['"""', '"', "'"] },
+    'Scala': { line: ['//'], block: [['/*', '*/']], strings: ['"""', '"', "'"] },
+    'Groovy': { line: ['//'], block: [['/*', '*/']], strings: ["'''", '"""', '"', "'"] },
+    'C': C_STYLE,
+    'C++': C_STYLE,
+    'C#': C_STYLE,
+    'Objective-C': C_STYLE,
+    'Objective-C++': C_STYLE,
+    'Swift': { line: ['//'], block: [['/*', '*/']], strings: ['"""', '"'] },
+    'Dart': { line: ['//'], block: [['/*', '*/']], strings: ["'''", '"""', '"', "'"] },
+    'PHP': { line: ['//', '#'], block: [['/*', '*/']], strings: ['"', "'"] },
+    'Solidity': C_STYLE,
+    'Zig': { line: ['//'], block: [], strings: ['"'] },
+    'CSS': { line: [], block: [['/*', '*/']], strings: ['"', "'"] },
+    'SCSS': C_STYLE,
+    'Less': C_STYLE,
+    'Sass': { line: ['//'], block: [['/*', '*/']], strings: ['"', "'"] },
+    'Python': { line: ['#'], block: [], strings: ['"""', "'''", '"', "'"], docstrings: true },
+    'Ruby': { line: ['#'], block: [], strings: ['"', "'"], markers: [[/^=begin\b/, /^=end\b/]] },
+    'Perl': { line: ['#'], block: [], strings: ['"', "'"], markers: [[/^=[a-zA-Z]/, /^=cut\b/]] },
+    'Shell': { line: ['#'], block: [], strings: ['"', "'", '`'] },
+    'PowerShell': { line: ['#'], block: [['<#', '#>']], strings: ['"', "'"] },
+    'Batchfile': { line: ['::', 'REM ', 'rem '], block: [], strings: ['"'] },
+    'Elixir': { line: ['#'], block: [], strings: ['"""', '"'], docstrings: true },
+    'R': HASH_STYLE,
+    'Julia': { line: ['#'], block: [['#=', '=#']], strings: ['"""', '"'] },
+    'Nim': { line: ['#'], block: [['#[', ']#']], strings: ['"""', '"'] },
+    'Makefile': HASH_STYLE,
+    'Dockerfile': HASH_STYLE,
+    'CMake': { line: ['#'], block: [['#[[', ']]']], strings: ['"'] },
+    'HCL': { line: ['#', '//'], block: [['/*', '*/']], strings: ['"'] },
+    'YAML': HASH_STYLE,
+    'TOML': { line: ['#'], block: [], strings: ['"""', "'''", '"', "'"] },
+    'INI': { line: [';', '#'], block: [], strings: [] },
+    'Dotenv': { line: ['#'], block: [], strings: [] },
+    'Ignore List': { line: ['#'], block: [], strings: [] },
+    'Git Attributes': { line: ['#'], block: [], strings: [] },
+    'Lua': { line: ['--'], block: [['--[[', ']]']], strings: ['"', "'"] },
+    'SQL': { line: ['--'], block: [['/*', '*/']], strings: ["'", '"'] },
+    'Haskell': { line: ['--'], block: [['{-', '-}']], strings: ['"'] },
+    'Erlang': { line: ['%'], block: [], strings: ['"'] },
+    'Clojure': { line: [';'], block: [], strings: ['"'] },
+    'F#': { line: ['//'], block: [['(*', '*)']], strings: ['"""', '"'] },
+    'OCaml': { line: [], block: [['(*', '*)']], strings: ['"'] },
+    'GraphQL': { line: ['#'], block: [], strings: ['"""', '"'] },
+    'Protocol Buffer': C_STYLE,
+    'JSON': { line: ['//'], block: [['/*', '*/']], strings: ['"'] },
+    'HTML': MARKUP_STYLE,
+    'XML': MARKUP_STYLE,
+    'Markdown': MARKUP_STYLE,
+    'Handlebars': { line: [], block: [['{{!--', '--}}'], ['<!--', '-->']], strings: [] },
+    'Pug': { line: ['//'], block: [], strings: [] },
+    'Vue': COMPONENT_STYLE,
+    'Svelte': COMPONENT_STYLE,
+    'Astro': COMPONENT_STYLE,
+};
+
+/**
+ * 言語のコメント構文に従って、ファイルの各行をコード・コメント・空行に分類する。
+ * コードとコメントが混在する行はコード行として数える（cloc と同じ扱い）。
+ * コメント構文が未定義の言語は、空行以外をすべてコード行とみなす。
+ */
+export function countLines(content: string, language: string | null): LineCounts {
+    const counts: LineCounts = { code: 0, comment: 0, blank: 0 };
+    const lines = content.split(/\r?\n/);
+    // 末尾の改行の後ろは行として数えない
+    if (lines.length > 0 && lines[lines.length - 1] === '') lines.pop();
+
+    const syntax = language ? COMMENT_SYNTAX[language] : undefined;
+    if (!syntax) {
+        for (const line of lines) {
+            if (line.trim()) counts.code++;
+            else counts.blank++;
+        }
+        return counts;
+    }
+
+    const strings = [...syntax.strings].sort((a, b) => b.length - a.length);
+    let block: [string, string] | null = null;
+    let marker: RegExp | null = null;
+    let quote: string | null = null;
+    let quoteIsComment = false;
+
+    for (const line of lines) {
+        if (marker) {
+            counts.comment++;
+            if (marker.test(line)) marker = null;
+            continue;
+        }
+        if (!block && !quote) {
+            if (!line.trim()) {
+                counts.blank++;
+                continue;
+            }
+            const opened = syntax.markers?.find(([open]) => open.test(line));
+            if (opened) {
+                counts.comment++;
+                marker = opened[1];
+                continue;
+            }
+        }
+
+        let hasCode = false;
+        let hasComment = false;
+        let i = 0;
+
+        while (i < line.length) {
+            if (block) {
+                hasComment = true;
+                const end = line.indexOf(block[1], i);
+                if (end === -1) {
+                    i = line.length;
+                } else {
+                    i = end + block[1].length;
+                    block = null;
+                }
+                continue;
+            }
+
+            if (quote) {
+                if (quoteIsComment) hasComment = true;
+                else hasCode = true;
+                const end = findStringEnd(line, i, quote);
+                if (end === -1) {
+                    i = line.length;
+                } else {
+                    i = end + quote.length;
+                    quote = null;
+                }
+                continue;
+            }
+
+            const char = line[i];
+            if (char === ' ' || char === '\t') {
+                i++;
+                continue;
+            }
+
+            // Lua の --[[ のように行コメントで始まるブロックコメントがあるため、ブロックを先に照合する
+            const opening = syntax.block.find(([open]) => line.startsWith(open, i));
+            if (opening) {
+                block = opening;
+                hasComment = true;
+                i += opening[0].length;
+                continue;
+            }
+
+            if (syntax.line.some(start => line.startsWith(start, i))) {
+                hasComment = true;
+                break;
+            }
+
+            const delimiter = strings.find(candidate => line.startsWith(candidate, i));
+            if (delimiter) {
+                // 文の先頭に置かれた三重引用符の文字列は docstring とみなす
+                quoteIsComment = Boolean(syntax.docstrings && delimiter.length === 3 && !hasCode);
+                quote = delimiter;
+                i += delimiter.length;
+                if (quoteIsComment) hasComment = true;
+                else hasCode = true;
+                continue;
+            }
+
+            hasCode = true;
+            i++;
+        }
+
+        // 一重引用符の文字列は行継続（末尾の \）がない限り行をまたがない
+        if (quote && quote.length === 1 && quote !== '`' && !line.endsWith('\\')) {
+            quote = null;
+        }
+
+        if (hasCode) counts.code++;
+        else if (hasComment) counts.comment++;
+        else counts.blank++;
+    }
+
+    return counts;
+}
+
+function findStringEnd(line: string, from: number, quote: string): number {
+    for (let i = from; i < line.length; i++) {
+        if (line[i] === '\\') {
+            i++;
+            continue;
+        }
+        if (line.startsWith(quote, i)) return i;
+    }
+    return -1;
+}
@@ -0,0 +1,630 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { z } from 'zod';
+import { parse as parseYaml } from 'yaml';
+import { analyzeManifests } from './manifests';
+import { satisfies } from './semver';
+
+export const lockfileTypeSchema = z.enum(['package-lock', 'yarn-classic', 'yarn-berry', 'pnpm']);
+
+export const dependencyGraphSchema = z.object({
+    // 解決済みパッケージ（name@version 単位）
+    nodes: z.array(z.object({
+        id: z.string(),
+        name: z.string(),
+        version: z.string(),
+        scope: z.enum(['runtime', 'dev']),
+        // 直接依存を1とした最短の深さ
+        depth: z.number(),
+    })),
+    edges: z.array(z.object({
+        from: z.string(),
+        to: z.string(),
+    })),
+});
+
+export const lockfileAnalysisSchema = z.object({
+    // リポジトリルートからのロックファイルの相対パス（見つからない場合は null）
+    lockfile: z.string().nullable(),
+    type: lockfileTypeSchema.nullable(),
+    directCount: z.number(),
+    transitiveCount: z.number(),
+    totalPackages: z.number(),
+    maxDepth: z.number(),
+    // 複数バージョンが同時に解決されているパッケージ
+    duplicates: z.array(z.object({
+        name: z.string(),
+        versions: z.array(z.string()),
+    })),
+    // マニフェストの宣言範囲とロックされたバージョンの不一致
+    mismatches: z.array(z.object({
+        name: z.string(),
+        declared: z.string(),
+        // ロックファイルに存在しない場合は null
+        locked: z.string().nullable(),
+        scope: z.enum(['runtime', 'dev']),
+    })),
+    // 推移的依存を多く抱える直接依存
+    heaviestSubtrees: z.array(z.object({
+        id: z.string(),
+        name: z.string(),
+        version: z.string(),
+        subtreeSize: z.number(),
+    })),
+    graph: dependencyGraphSchema.optional(),
+    mermaid: z.string(),
+});
+
+export type LockfileType = z.infer<typeof lockfileTypeSchema>;
+export type DependencyGraph = z.infer<typeof dependencyGraphSchema>;
+export type LockfileAnalysis = z.infer<typeof lockfileAnalysisSchema>;
+
+export interface LockedPackage {
+    id: string;
+    name: string;
+    version: string;
+    // パッケージが宣言しているライセンス（ロックファイルに含まれる場合のみ）
+    license?: string;
+    // インストール先のパス（package-lock.json の lockfileVersion 2/3 のみ。例: node_modules/a/node_modules/b）
+    installPaths?: string[];
+    dependencies: string[];
+}
+
+export interface ResolvedLockfile {
+    type: LockfileType;
+    packages: Map<string, LockedPackage>;
+    // 直接依存の名前と解決先のパッケージID
+    roots: Map<string, string>;
+}
+
+export interface LockfileOptions {
+    // 結果にグラフ全体のJSONを含めるか
+    includeGraph?: boolean;
+    limit?: number;
+    // Mermaid図に含めるノード数の上限
+    mermaidNodeLimit?: number;
+}
+
+export interface DeclaredDependency {
+    name: string;
+    range: string;
+    scope: 'runtime' | 'dev';
+}
+
+// 探索するロックファイル（優先順）
+const LOCKFILES = ['package-lock.json', 'npm-shrinkwrap.json', 'pnpm-lock.yaml', 'yarn.lock'];
+
+const EMPTY_ANALYSIS: LockfileAnalysis = {
+    lockfile: null,
+    type: null,
+    directCount: 0,
+    transitiveCount: 0,
+    totalPackages: 0,
+    maxDepth: 0,
+    duplicates: [],
+    mismatches: [],
+    heaviestSubtrees: [],
+    mermaid: '',
+};
+
+/**
+ * ロックファイルから解決済みの依存グラフを構築し、推移的依存の規模・重複・宣言との不一致を解析する。
+ */
+export async function analyzeLockfile(repoPath: string, options: LockfileOptions = {}): Promise<LockfileAnalysis> {
+    const { includeGraph = false, limit = 10, mermaidNodeLimit = 40 } = options;
+
+    const loaded = await loadLockfile(repoPath);
+    if (!loaded) return { ...EMPTY_ANALYSIS };
+
+    const { fileName, resolved, declared } = loaded;
+    if (!resolved) return { ...EMPTY_ANALYSIS, lockfile: fileName };
+
+    const depths = computeDepths(resolved);
+    const scopes = computeScopes(resolved, declared);
+    const directIds = new Set(resolved.roots.values());
+
+    const byName = new Map<string, Set<string>>();
+    for (const id of depths.keys()) {
+        const pkg = resolved.packages.get(id)!;
+        if (!byName.has(pkg.name)) byName.set(pkg.name, new Set());
+        byName.get(pkg.name)!.add(pkg.version);
+    }
+    const duplicates = Array.from(byName.entries())
+        .filter(([, versions]) => versions.size > 1)
+        .map(([name, versions]) => ({ name, versions: Array.from(versions).sort() }))
+        .sort((a, b) => b.versions.length - a.versions.length || a.name.localeCompare(b.name));
+
+    const mismatches = declared.flatMap(dependency => {
+        const id = resolved.roots.get(dependency.name);
+        const locked = id ? resolved.packages.get(id)?.version ?? null : null;
+        if (locked && satisfies(locked, dependency.range) !== false) return [];
+        return [{ name: dependency.name, declared: dependency.range, locked, scope: dependency.scope }];
+    });
+
+    const heaviestSubtrees = Array.from(directIds)
+        .filter(id => resolved.packages.has(id))
+        .map(id => {
+            const pkg = resolved.packages.get(id)!;
+            return { id, name: pkg.name, version: pkg.version, subtreeSize: collectSubtree(resolved, id).size - 1 };
+        })
+        .sort((a, b) => b.subtreeSize - a.subtreeSize || a.name.localeCompare(b.name))
+        .slice(0, limit);
+
+    const graph = exportGraph(resolved, depths, scopes);
+
+    return {
+        lockfile: fileName,
+        type: resolved.type,
+        directCount: directIds.size,
+        transitiveCount: depths.size - directIds.size,
+        totalPackages: depths.size,
+        maxDepth: Math.max(0, ...depths.values()),
+        duplicates: duplicates.slice(0, limit),
+        mismatches,
+        heaviestSubtrees,
+        graph: includeGraph ? graph : undefined,
+        mermaid: toMermaid(resolved, heaviestSubtrees.map(subtree => subtree.id), mermaidNodeLimit),
+    };
+}
+
+/**
+ * リポジトリのロックファイルを探して解析する。ロックファイルがない場合は null を返す。
+ */
+export async function loadLockfile(repoPath: string): Promise<{
+    fileName: string;
+    resolved: ResolvedLockfile | null;
+    declared: DeclaredDependency[];
+} | null> {
+    const found = await findLockfile(repoPath);
+    if (!found) return null;
+
+    const declared = await readDeclaredDependencies(repoPath);
+    return { fileName: found.fileName, resolved: parseLockfile(found.fileName, found.content, declared), declared };
+}
+
+/**
+ * 直接依存から指定したパッケージに至る最短の依存パスを返す（到達できない場合は空配列）。
+ */
+export function findDependencyPath(resolved: ResolvedLockfile, targetId: string): string[] {
+    const parents = new Map<string, string | null>();
+    const queue: string[] = [];
+    for (const id of resolved.roots.values()) {
+        if (parents.has(id)) continue;
+        parents.set(id, null);
+        queue.push(id);
+    }
+
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        if (id === targetId) {
+            const pathIds: string[] = [];
+            for (let current: string | null = id; current; current = parents.get(current) ?? null) {
+                pathIds.unshift(current);
+            }
+            return pathIds;
+        }
+        for (const next of resolved.packages.get(id)?.dependencies || []) {
+            if (parents.has(next)) continue;
+            parents.set(next, id);
+            queue.push(next);
+        }
+    }
+    return [];
+}
+
+async function findLockfile(repoPath: string): Promise<{ fileName: string; content: string } | null> {
+    for (const fileName of LOCKFILES) {
+        try {
+            const content = await fs.readFile(path.join(repoPath, fileName), 'utf-8');
+            return { fileName, content };
+        } catch {
+            continue;
+        }
+    }
+    return null;
+}
+
+async function readDeclaredDependencies(repoPath: string): Promise<DeclaredDependency[]> {
+    const { dependencies } = await analyzeManifests(repoPath);
+    return dependencies
+        .filter(dependency => dependency.ecosystem === 'npm' && dependency.manifest === 'package.json')
+        .map(dependency => ({ name: dependency.name, range: dependency.version, scope: dependency.scope }));
+}
+
+/**
+ * ロックファイルの種類を判定して解析する。対応していない形式の場合は null を返す。
+ */
+export function parseLockfile(fileName: string, content: string, declared: DeclaredDependency[] = []): ResolvedLockfile | null {
+    try {
+        if (fileName.endsWith('.json')) return parsePackageLock(JSON.parse(content), declared);
+        if (fileName === 'pnpm-lock.yaml') return parsePnpmLock(parseYaml(content));
+        if (fileName === 'yarn.lock') {
+            return content.includes('__metadata:')
+                ? parseYarnBerry(parseYaml(content), declared)
+                : parseYarnClassic(content, declared);
+        }
+    } catch (error) {
+        console.error(`Error parsing lockfile ${fileName}:`, error);
+    }
+    return null;
+}
+
+function packageId(name: string, version: string): string {
+    return `${name}@${version}`;
+}
+
+function addPackage(packages: Map<string, LockedPackage>, name: string, version: string, license?: string): LockedPackage {
+    const id = packageId(name, version);
+    let pkg = packages.get(id);
+    if (!pkg) {
+        pkg = { id, name, version, license, dependencies: [] };
+        packages.set(id, pkg);
+    }
+    return pkg;
+}
+
+function addEdge(pkg: LockedPackage, target: string): void {
+    if (target !== pkg.id && !pkg.dependencies.includes(target)) {
+        pkg.dependencies.push(target);
+    }
+}
+
+// "name@range" の name 部分を取り出す（スコープ付きパッケージの @ を考慮）
+function splitDescriptor(descriptor: string): [name: string, range: string] {
+    const index = descriptor.indexOf('@', 1);
+    return index === -1 ? [descriptor, ''] : [descriptor.slice(0, index), descriptor.slice(index + 1)];
+}
+
+function declaredOrRootDependencies(root: Record<string, any> | undefined, declared: DeclaredDependency[]): Array<[string, string]> {
+    if (root) {
+        const fields = ['dependencies', 'devDependencies', 'optionalDependencies'];
+        const entries = fields.flatMap(field => Object.entries<string>(root[field] || {}));
+        if (entries.length > 0) return entries;
+    }
+    return declared.map(dependency => [dependency.name, dependency.range]);
+}
+
+// package-lock.json / npm-shrinkwrap.json
+function parsePackageLock(lock: any, declared: DeclaredDependency[]): ResolvedLockfile {
+    const packages = new Map<string, LockedPackage>();
+    const roots = new Map<string, string>();
+
+    if (lock.packages) {
+        // lockfileVersion 2/3: node_modules のパスをキーとするフラットな形式
+        const entries: Record<string, any> = lock.packages;
+        const resolveLink = (key: string) => {
+            const entry = entries[key];
+            return entry?.link && typeof entry.resolved === 'string' ? entry.resolved : key;
+        };
+        const nameOf = (key: string) => entries[key]?.name || key.slice(key.lastIndexOf('node_modules/') + 'node_modules/'.length);
+        const idOf = (key: string) => {
+            const target = resolveLink(key);
+            const entry = entries[target];
+            return entry?.version ? packageId(nameOf(key.includes('node_modules/') ? key : target), entry.version) : null;
+        };
+
+        // Node.js のモジュール解決と同様に、親ディレクトリの node_modules を順に探す
+        const lookup = (fromKey: string, name: string): string | null => {
+            let base = fromKey;
+            while (true) {
+                const candidate = base ? `${base}/node_modules/${name}` : `node_modules/${name}`;
+                if (entries[candidate]) return candidate;
+                if (!base) return null;
+                const index = base.lastIndexOf('/node_modules/');
+                base = index === -1 ? '' : base.slice(0, index);
+            }
+        };
+
+        for (const [key, entry] of Object.entries(entries)) {
+            if (!key.includes('node_modules/') || entry.link || !entry.version) continue;
+            const pkg = addPackage(packages, nameOf(key), entry.version, entry.license);
+            // 同じバージョンが複数の場所にインストールされる場合がある
+            pkg.installPaths = [...(pkg.installPaths || []), key];
+        }
+
+        for (const [key, entry] of Object.entries(entries)) {
+            if (key !== '' && (!key.includes('node_modules/') || entry.link)) continue;
+            const from = key === '' ? null : idOf(key);
+            const dependencyNames = Object.keys({
+                ...entry.dependencies,
+                ...entry.optionalDependencies,
+                ...(key === '' ? entry.devDependencies : {}),
+            });
+            for (const name of dependencyNames) {
+                const targetKey = lookup(key, name);
+                const target = targetKey ? idOf(targetKey) : null;
+                if (!target || !packages.has(target)) continue;
+                if (from) addEdge(packages.get(from)!, target);
+                else roots.set(name, target);
+            }
+        }
+    } else {
+        // lockfileVersion 1: dependencies がネストしたツリー形式
+        const walk = (tree: Record<string, any>, scopes: Array<Record<string, any>>) => {
+            for (const [name, entry] of Object.entries(tree)) {
+                if (!entry.version) continue;
+                const pkg = addPackage(packages, name, entry.version);
+                const chain = entry.dependencies ? [entry.dependencies, ...scopes] : scopes;
+                for (const dependencyName of Object.keys(entry.requires || {})) {
+                    const scope = chain.find(candidate => candidate[dependencyName]?.version);
+                    if (scope) addEdge(pkg, packageId(dependencyName, scope[dependencyName].version));
+                }
+                if (entry.dependencies) walk(entry.dependencies, chain);
+            }
+        };
+        const top: Record<string, any> = lock.dependencies || {};
+        walk(top, [top]);
+
+        for (const [name] of declaredOrRootDependencies(undefined, declared)) {
+            if (top[name]?.version) roots.set(name, packageId(name, top[name].version));
+        }
+    }
+
+    return { type: 'package-lock', packages, roots };
+}
+
+// yarn.lock（Yarn v1 の独自形式）
+function parseYarnClassic(content: string, declared: DeclaredDependency[]): ResolvedLockfile {
+    const packages = new Map<string, LockedPackage>();
+    const roots = new Map<string, string>();
+    const descriptors = new Map<string, string>();
+    const pending: Array<[LockedPackage, Array<[string, string]>]> = [];
+
+    const unquote = (value: string) => value.trim().replace(/^"(.*)"$/, '$1');
+    let current: { keys: string[]; version?: string; dependencies: Array<[string, string]> } | null = null;
+    let section: string | null = null;
+
+    const flush = () => {
+        if (current?.version) {
+            const [name] = splitDescriptor(current.keys[0]);
+            const pkg = addPackage(packages, name, current.version);
+            for (const key of current.keys) descriptors.set(key, pkg.id);
+            pending.push([pkg, current.dependencies]);
+        }
+        current = null;
+    };
+
+    for (const line of content.split(/\r?\n/)) {
+        if (line.trim() === '' || line.trimStart().startsWith('#')) continue;
+        const indent = line.length - line.trimStart().length;
+
+        if (indent === 0) {
+            flush();
+            const keys = line.replace(/:$/, '').split(',').map(unquote).filter(Boolean);
+            current = { keys, dependencies: [] };
+            section = null;
+        } else if (current && indent === 2) {
+            const match = line.trim().match(/^("?[^"\s]+"?)(?:\s+(.+))?$/);
+            if (!match) continue;
+            const key = unquote(match[1]).replace(/:$/, '');
+            section = match[2] === undefined ? key : null;
+            if (key === 'version' && match[2]) current.version = unquote(match[2]);
+        } else if (current && indent >= 4 && (section === 'dependencies' || section === 'optionalDependencies')) {
+            const match = line.trim().match(/^("?[^"\s]+"?)\s+(.+)$/);
+            if (match) current.dependencies.push([unquote(match[1]), unquote(match[2])]);
+        }
+    }
+    flush();
+
+    for (const [pkg, dependencies] of pending) {
+        for (const [name, range] of dependencies) {
+            const target = descriptors.get(`${name}@${range}`);
+            if (target) addEdge(pkg, target);
+        }
+    }
+
+    for (const [name, range] of declaredOrRootDependencies(undefined, declared)) {
+        const target = descriptors.get(`${name}@${range}`);
+        if (target) roots.set(name, target);
+    }
+
+    return { type: 'yarn-classic', packages, roots };
+}
+
+// yarn.lock（Yarn Berry の YAML 形式）
+function parseYarnBerry(lock: Record<string, any>, declared: DeclaredDependency[]): ResolvedLockfile {
+    const packages = new Map<string, LockedPackage>();
+    const roots = new Map<string, string>();
+    const descriptors = new Map<string, string>();
+    let rootEntry: Record<string, any> | undefined;
+
+    for (const [key, entry] of Object.entries(lock)) {
+        if (key === '__metadata' || !entry?.version) continue;
+        const keys = key.split(',').map(part => part.trim());
+        // ルートのワークスペース（workspace:.）は依存グラフの起点として扱う
+        if (keys.some(descriptor => descriptor.endsWith('@workspace:.'))) {
+            rootEntry = entry;
+            continue;
+        }
+        const [name] = splitDescriptor(keys[0]);
+        const pkg = addPackage(packages, name, String(entry.version));
+        for (const descriptor of keys) descriptors.set(descriptor, pkg.id);
+    }
+
+    const resolve = (name: string, range: string) =>
+        descriptors.get(`${name}@${range}`) ?? descriptors.get(`${name}@npm:${range}`);
+
+    for (const [key, entry] of Object.entries(lock)) {
+        if (key === '__metadata' || !entry?.version || entry === rootEntry) continue;
+        const pkg = packages.get(descriptors.get(key.split(',')[0].trim())!);
+        if (!pkg) continue;
+        for (const [name, range] of Object.entries<string>({ ...entry.dependencies, ...entry.optionalDependencies })) {
+            const target = resolve(name, String(range));
+            if (target) addEdge(pkg, target);
+        }
+    }
+
+    for (const [name, range] of declaredOrRootDependencies(rootEntry, declared)) {
+        const target = resolve(name, String(range));
+        if (target) roots.set(name, target);
+    }
+
+    return { type: 'yarn-berry', packages, roots };
+}
+
+// pnpm の依存の参照値（lockfileVersion 6 以降の importers では { specifier, version } の形式）
+type PnpmReference = string | { version?: string } | null;
+
+// pnpm-lock.yaml（lockfileVersion 5 / 6 / 9）
+function parsePnpmLock(lock: Record<string, any>): ResolvedLockfile {
+    const packages = new Map<string, LockedPackage>();
+    const roots = new Map<string, string>();
+    const major = Math.floor(Number(String(lock.lockfileVersion ?? '5').replace(/^'|'$/g, '')));
+
+    // パッケージキーから name と version を取り出す（peer 依存のサフィックスは除去）
+    const parseKey = (key: string): [string, string] | null => {
+        const trimmed = key.replace(/^\//, '').replace(/\(.*$/, '');
+        if (major < 6) {
+            const index = trimmed.lastIndexOf('/');
+            if (index <= 0) return null;
+            return [trimmed.slice(0, index), trimmed.slice(index + 1).replace(/_.*$/, '')];
+        }
+        const [name, version] = splitDescriptor(trimmed);
+        return version ? [name, version] : null;
+    };
+
+    // 依存の参照値（バージョン、または別名の場合はパッケージキー）を解決する
+    const resolveReference = (name: string, reference: PnpmReference): string | null => {
+        const value = String(typeof reference === 'string' ? reference : reference?.version);
+        if (value.startsWith('link:') || value.startsWith('file:') || value === 'undefined') return null;
+        const base = value.replace(/\(.*$/, '');
+        if (base.startsWith('/') || (major >= 9 && base.indexOf('@', 1) > 0)) {
+            const parsed = parseKey(base);
+            return parsed ? packageId(...parsed) : null;
+        }
+        return packageId(name, base.replace(/_.*$/, ''));
+    };
+
+    const entries: Record<string, any> = major >= 9 ? { ...lock.packages, ...lock.snapshots } : lock.packages || {};
+    for (const key of Object.keys(entries)) {
+        const parsed = parseKey(key);
+        if (parsed) addPackage(packages, ...parsed);
+    }
+
+    const dependencySource: Record<string, any> = major >= 9 ? lock.snapshots || lock.packages || {} : entries;
+    for (const [key, entry] of Object.entries(dependencySource)) {
+        const parsed = parseKey(key);
+        if (!parsed) continue;
+        const pkg = packages.get(packageId(...parsed))!;
+        for (const [name, reference] of Object.entries<PnpmReference>({ ...entry?.dependencies, ...entry?.optionalDependencies })) {
+            const target = resolveReference(name, reference);
+            if (target && packages.has(target)) addEdge(pkg, target);
+        }
+    }
+
+    const importer: Record<string, any> = lock.importers?.['.'] ?? lock;
+    for (const field of ['dependencies', 'devDependencies', 'optionalDependencies']) {
+        for (const [name, reference] of Object.entries<PnpmReference>(importer[field] || {})) {
+            const target = resolveReference(name, reference);
+            if (target && packages.has(target)) roots.set(name, target);
+        }
+    }
+
+    return { type: 'pnpm', packages, roots };
+}
+
+// 直接依存からの最短距離（到達できないパッケージは含まない）
+function computeDepths(resolved: ResolvedLockfile): Map<string, number> {
+    const depths = new Map<string, number>();
+    let frontier = Array.from(new Set(resolved.roots.values())).filter(id => resolved.packages.has(id));
+    frontier.forEach(id => depths.set(id, 1));
+
+    for (let depth = 2; frontier.length > 0; depth++) {
+        const next: string[] = [];
+        for (const id of frontier) {
+            for (const target of resolved.packages.get(id)?.dependencies || []) {
+                if (depths.has(target) || !resolved.packages.has(target)) continue;
+                depths.set(target, depth);
+                next.push(target);
+            }
+        }
+        frontier = next;
+    }
+    return depths;
+}
+
+// ランタイム依存から到達できるパッケージは runtime、それ以外は dev とする
+export function computeScopes(resolved: ResolvedLockfile, declared: DeclaredDependency[]): Map<string, 'runtime' | 'dev'> {
+    const devNames = new Set(declared.filter(dependency => dependency.scope === 'dev').map(dependency => dependency.name));
+    const runtime = new Set<string>();
+    for (const [name, id] of resolved.roots) {
+        if (devNames.has(name)) continue;
+        collectSubtree(resolved, id).forEach(reached => runtime.add(reached));
+    }
+
+    const scopes = new Map<string, 'runtime' | 'dev'>();
+    for (const id of resolved.packages.keys()) {
+        scopes.set(id, runtime.has(id) ? 'runtime' : 'dev');
+    }
+    return scopes;
+}
+
+function collectSubtree(resolved: ResolvedLockfile, rootId: string): Set<string> {
+    const visited = new Set<string>([rootId]);
+    const stack = [rootId];
+    while (stack.length > 0) {
+        for (const target of resolved.packages.get(stack.pop()!)?.dependencies || []) {
+            if (visited.has(target) || !resolved.packages.has(target)) continue;
+            visited.add(target);
+            stack.push(target);
+        }
+    }
+    return visited;
+}
+
+function exportGraph(
+    resolved: ResolvedLockfile,
+    depths: Map<string, number>,
+    scopes: Map<string, 'runtime' | 'dev'>
+): DependencyGraph {
+    const nodes = Array.from(depths.entries())
+        .map(([id, depth]) => {
+            const pkg = resolved.packages.get(id)!;
+            return { id, name: pkg.name, version: pkg.version, scope: scopes.get(id) || 'dev', depth };
+        })
+        .sort((a, b) => a.depth - b.depth || a.id.localeCompare(b.id));
+
+    const edges = nodes.flatMap(node =>
+        resolved.packages.get(node.id)!.dependencies
+            .filter(target => depths.has(target))
+            .map(target => ({ from: node.id, to: target }))
+    );
+
+    return { nodes, edges };
+}
+
+/**
+ * 指定した直接依存を起点に、幅優先でノード数の上限までをMermaidのグラフとして出力する。
+ */
+function toMermaid(resolved: ResolvedLockfile, rootIds: string[], nodeLimit: number): string {
+    if (rootIds.length === 0) return '';
+
+    const aliases = new Map<string, string>();
+    const alias = (id: string) => {
+        if (!aliases.has(id)) aliases.set(id, `n${aliases.size}`);
+        return aliases.get(id)!;
+    };
+
+    const lines = ['graph LR', '    root((project))'];
+    const queue: string[] = [];
+    for (const id of rootIds) {
+        lines.push(`    root --> ${alias(id)}["${id}"]`);
+        queue.push(id);
+    }
+
+    const expanded = new Set<string>();
+    while (queue.length > 0 && aliases.size < nodeLimit) {
+        const id = queue.shift()!;
+        if (expanded.has(id)) continue;
+        expanded.add(id);
+        for (const target of resolved.packages.get(id)?.dependencies || []) {
+            if (!resolved.packages.has(target)) continue;
+            const isNew = !aliases.has(target);
+            if (isNew && aliases.size >= nodeLimit) break;
+            lines.push(`    ${alias(id)} --> ${alias(target)}${isNew ? `["${target}"]` : ''}`);
+            if (isNew) queue.push(target);
+        }
+    }
+
+    return lines.join('\n');
+}
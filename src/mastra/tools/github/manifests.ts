@@ -0,0 +1,509 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import fg from 'fast-glob';
+import { z } from 'zod';
+import { parseToml, TomlTable, TomlValue } from './toml';
+
+export const ecosystemSchema = z.enum(['npm', 'pypi', 'go', 'cargo', 'maven', 'rubygems', 'composer']);
+
+export const packageManagerSchema = z.enum([
+    'npm', 'yarn', 'pnpm', 'bun',
+    'pip', 'poetry', 'pipenv', 'uv',
+    'go',
+    'cargo',
+    'maven', 'gradle',
+    'bundler',
+    'composer',
+]);
+
+// 全エコシステム共通の依存関係モデル
+export const dependencySchema = z.object({
+    ecosystem: ecosystemSchema,
+    name: z.string(),
+    // バージョン制約（指定がない場合は空文字）
+    version: z.string(),
+    scope: z.enum(['runtime', 'dev']),
+    // リポジトリルートからのマニフェストの相対パス
+    manifest: z.string(),
+});
+
+export type Ecosystem = z.infer<typeof ecosystemSchema>;
+export type PackageManager = z.infer<typeof packageManagerSchema>;
+export type Dependency = z.infer<typeof dependencySchema>;
+
+export interface ProjectMetadata {
+    name?: string;
+    version?: string;
+    description?: string;
+}
+
+export interface ManifestAnalysis {
+    manifests: string[];
+    dependencies: Dependency[];
+    packageManagers: PackageManager[];
+    ecosystems: Ecosystem[];
+    // 最初に見つかったマニフェストのプロジェクト情報
+    project: ProjectMetadata;
+}
+
+interface ParsedManifest {
+    dependencies: Dependency[];
+    project: ProjectMetadata;
+}
+
+// ルートで探索するマニフェスト（優先順）
+const MANIFEST_PATTERNS = [
+    'package.json',
+    'pyproject.toml',
+    'Pipfile',
+    'requirements*.txt',
+    'requirements/*.txt',
+    'go.mod',
+    'Cargo.toml',
+    'pom.xml',
+    'build.gradle',
+    'build.gradle.kts',
+    'Gemfile',
+    'composer.json',
+];
+
+// ロックファイル・マニフェストからパッケージマネージャーを判定する
+const PACKAGE_MANAGER_MARKERS: Array<[string, PackageManager]> = [
+    ['yarn.lock', 'yarn'],
+    ['pnpm-lock.yaml', 'pnpm'],
+    ['bun.lockb', 'bun'],
+    ['bun.lock', 'bun'],
+    ['package-lock.json', 'npm'],
+    ['poetry.lock', 'poetry'],
+    ['uv.lock', 'uv'],
+    ['Pipfile', 'pipenv'],
+    ['go.mod', 'go'],
+    ['Cargo.toml', 'cargo'],
+    ['pom.xml', 'maven'],
+    ['build.gradle', 'gradle'],
+    ['build.gradle.kts', 'gradle'],
+    ['Gemfile', 'bundler'],
+    ['composer.json', 'composer'],
+];
+
+const DEV_GROUP_PATTERN = /^(dev|develop|development|test|tests|testing|lint|docs?|typing|build)$/i;
+
+/**
+ * ディレクトリ直下のマニフェストを解析し、エコシステム共通の依存関係モデルに正規化する。
+ */
+export async function analyzeManifests(dir: string, repoPath: string = dir): Promise<ManifestAnalysis> {
+    const manifests = await fg(MANIFEST_PATTERNS, { cwd: dir, onlyFiles: true, dot: false });
+    const ordered = manifests.sort((a, b) => manifestPriority(a) - manifestPriority(b));
+
+    const dependencies: Dependency[] = [];
+    let project: ProjectMetadata = {};
+    const relativeManifests: string[] = [];
+
+    for (const manifest of ordered) {
+        const absolutePath = path.join(dir, manifest);
+        const relativePath = path.relative(repoPath, absolutePath) || manifest;
+        try {
+            const content = await fs.readFile(absolutePath, 'utf-8');
+            const parsed = parseManifest(path.basename(manifest), content, relativePath);
+            if (!parsed) continue;
+
+            relativeManifests.push(relativePath);
+            dependencies.push(...parsed.dependencies);
+            if (!project.name && parsed.project.name) {
+                project = parsed.project;
+            }
+        } catch (error) {
+            console.warn(`Failed to parse manifest ${relativePath}:`, error instanceof Error ? error.message : error);
+        }
+    }
+
+    const packageManagers: PackageManager[] = [];
+    for (const [marker, manager] of PACKAGE_MANAGER_MARKERS) {
+        if (packageManagers.includes(manager)) continue;
+        if (await fs.access(path.join(dir, marker)).then(() => true).catch(() => false)) {
+            packageManagers.push(manager);
+        }
+    }
+    // ロックファイルがない場合の既定値
+    if (relativeManifests.some(m => m.endsWith('package.json')) && !packageManagers.some(m => ['npm', 'yarn', 'pnpm', 'bun'].includes(m))) {
+        packageManagers.unshift('npm');
+    }
+    if (dependencies.some(d => d.ecosystem === 'pypi') && !packageManagers.some(m => ['poetry', 'uv', 'pipenv'].includes(m))) {
+        packageManagers.push('pip');
+    }
+
+    return {
+        manifests: relativeManifests,
+        dependencies,
+        packageManagers,
+        ecosystems: [...new Set(dependencies.map(d => d.ecosystem))],
+        project,
+    };
+}
+
+/**
+ * ファイル名に応じてマニフェストを解析する。対応していないファイルの場合は null を返す。
+ */
+export function parseManifest(fileName: string, content: string, manifest: string): ParsedManifest | null {
+    if (fileName === 'package.json') return parsePackageJson(content, manifest);
+    if (fileName === 'pyproject.toml') return parsePyproject(content, manifest);
+    if (fileName === 'Pipfile') return parsePipfile(content, manifest);
+    if (/^requirements.*\.txt$/.test(fileName) || manifest.includes('requirements/')) return parseRequirements(content, manifest);
+    if (fileName === 'go.mod') return parseGoMod(content, manifest);
+    if (fileName === 'Cargo.toml') return parseCargoToml(content, manifest);
+    if (fileName === 'pom.xml') return parsePom(content, manifest);
+    if (fileName === 'build.gradle' || fileName === 'build.gradle.kts') return parseGradle(content, manifest);
+    if (fileName === 'Gemfile') return parseGemfile(content, manifest);
+    if (fileName === 'composer.json') return parseComposerJson(content, manifest);
+    return null;
+}
+
+function manifestPriority(manifest: string): number {
+    const index = MANIFEST_PATTERNS.findIndex(pattern =>
+        new RegExp(`^${pattern.replace(/\./g, '\\.').replace(/\*/g, '[^/]*')}$`).test(manifest));
+    return index === -1 ? MANIFEST_PATTERNS.length : index;
+}
+
+function parsePackageJson(content: string, manifest: string): ParsedManifest {
+    const json = JSON.parse(content);
+    const collect = (section: unknown, scope: Dependency['scope']) =>
+        Object.entries((section as Record<string, string>) || {}).map(([name, version]) => ({
+            ecosystem: 'npm' as const,
+            name,
+            version: String(version),
+            scope,
+            manifest,
+        }));
+
+    return {
+        dependencies: [
+            ...collect(json.dependencies, 'runtime'),
+            ...collect(json.optionalDependencies, 'runtime'),
+            ...collect(json.peerDependencies, 'runtime'),
+            ...collect(json.devDependencies, 'dev'),
+        ],
+        project: { name: json.name, version: json.version, description: json.description },
+    };
+}
+
+function parsePyproject(content: string, manifest: string): ParsedManifest {
+    const toml = parseToml(content);
+    const dependencies: Dependency[] = [];
+
+    // PEP 621
+    const projectTable = asTable(toml.project);
+    for (const requirement of asStringArray(projectTable?.dependencies)) {
+        const parsed = parsePep508(requirement);
+        if (parsed) dependencies.push({ ecosystem: 'pypi', ...parsed, scope: 'runtime', manifest });
+    }
+    for (const [group, requirements] of Object.entries(asTable(projectTable?.['optional-dependencies']) || {})) {
+        for (const requirement of asStringArray(requirements)) {
+            const parsed = parsePep508(requirement);
+            const scope = DEV_GROUP_PATTERN.test(group) ? 'dev' : 'runtime';
+            if (parsed) dependencies.push({ ecosystem: 'pypi', ...parsed, scope, manifest });
+        }
+    }
+
+    // PEP 735
+    for (const requirements of Object.values(asTable(toml['dependency-groups']) || {})) {
+        for (const requirement of asStringArray(requirements)) {
+            const parsed = parsePep508(requirement);
+            if (parsed) dependencies.push({ ecosystem: 'pypi', ...parsed, scope: 'dev', manifest });
+        }
+    }
+
+    // Poetry
+    const poetry = asTable(asTable(toml.tool)?.poetry);
+    const collectPoetry = (table: TomlTable | undefined, scope: Dependency['scope']) => {
+        for (const [name, spec] of Object.entries(table || {})) {
+            if (name.toLowerCase() === 'python') continue;
+            dependencies.push({ ecosystem: 'pypi', name, version: versionFromSpec(spec), scope, manifest });
+        }
+    };
+    collectPoetry(asTable(poetry?.dependencies), 'runtime');
+    collectPoetry(asTable(poetry?.['dev-dependencies']), 'dev');
+    for (const [group, table] of Object.entries(asTable(poetry?.group) || {})) {
+        collectPoetry(asTable(asTable(table)?.dependencies), group === 'main' ? 'runtime' : 'dev');
+    }
+
+    return {
+        dependencies,
+        project: {
+            name: asString(projectTable?.name) || asString(poetry?.name),
+            version: asString(projectTable?.version) || asString(poetry?.version),
+            description: asString(projectTable?.description) || asString(poetry?.description),
+        },
+    };
+}
+
+function parsePipfile(content: string, manifest: string): ParsedManifest {
+    const toml = parseToml(content);
+    const collect = (table: TomlValue | undefined, scope: Dependency['scope']) =>
+        Object.entries(asTable(table) || {}).map(([name, spec]) => ({
+            ecosystem: 'pypi' as const,
+            name,
+            version: versionFromSpec(spec),
+            scope,
+            manifest,
+        }));
+
+    return {
+        dependencies: [...collect(toml.packages, 'runtime'), ...collect(toml['dev-packages'], 'dev')],
+        project: {},
+    };
+}
+
+function parseRequirements(content: string, manifest: string): ParsedManifest {
+    const scope = /dev|test|lint|doc/i.test(path.basename(manifest)) ? 'dev' : 'runtime';
+    const dependencies: Dependency[] = [];
+
+    // 行末の \ で続く行（--hash の指定など）は1行にまとめる
+    for (const rawLine of content.replace(/\\\r?\n/g, ' ').split('\n')) {
+        const requirement = rawLine.replace(/\s+#.*$/, '').trim();
+        // オプション（-r, -e, --index-url など）やコメントは対象外
+        if (!requirement || requirement.startsWith('#') || requirement.startsWith('-')) continue;
+        // 要件のあとに続くオプション（--hash=... など）は除く
+        const line = requirement.replace(/\s+--[A-Za-z][\w-]*(?:=\S*)?/g, '').trim();
+        // 名前のないURL・ローカルパス指定は解析できないため対象外
+        if (/^[a-z+]+:\/\//i.test(line) || /^[./]/.test(line)) continue;
+
+        const parsed = parsePep508(line);
+        if (parsed) dependencies.push({ ecosystem: 'pypi', ...parsed, scope, manifest });
+    }
+
+    return { dependencies, project: {} };
+}
+
+function parsePep508(requirement: string): { name: string; version: string } | null {
+    const match = requirement.trim().match(/^([A-Za-z0-9][A-Za-z0-9._-]*)\s*(\[[^\]]*\])?\s*(@\s*\S+|[^;]*)?/);
+    if (!match) return null;
+
+    const version = (match[3] || '').trim().replace(/^\((.*)\)$/, '$1');
+    return { name: match[1], version: version.startsWith('@') ? version.slice(1).trim() : version };
+}
+
+function parseGoMod(content: string, manifest: string): ParsedManifest {
+    const dependencies: Dependency[] = [];
+    const moduleName = content.match(/^module\s+(\S+)/m)?.[1];
+
+    const addRequirement = (line: string) => {
+        const match = line.replace(/\/\/.*$/, '').trim().match(/^(\S+)\s+(\S+)$/);
+        if (match) {
+            dependencies.push({ ecosystem: 'go', name: match[1], version: match[2], scope: 'runtime', manifest });
+        }
+    };
+
+    let inRequireBlock = false;
+    for (const rawLine of content.split('\n')) {
+        const line = rawLine.trim();
+        if (inRequireBlock) {
+            if (line.startsWith(')')) inRequireBlock = false;
+            else addRequirement(line);
+        } else if (/^require\s*\($/.test(line)) {
+            inRequireBlock = true;
+        } else if (line.startsWith('require ')) {
+            addRequirement(line.slice('require '.length));
+        }
+    }
+
+    return { dependencies, project: { name: moduleName } };
+}
+
+function parseCargoToml(content: string, manifest: string): ParsedManifest {
+    const toml = parseToml(content);
+    const dependencies: Dependency[] = [];
+
+    const collect = (tables: TomlTable | undefined) => {
+        const sections: Array<[string, Dependency['scope']]> = [
+            ['dependencies', 'runtime'],
+            ['dev-dependencies', 'dev'],
+            ['build-dependencies', 'dev'],
+        ];
+        for (const [section, scope] of sections) {
+            for (const [name, spec] of Object.entries(asTable(tables?.[section]) || {})) {
+                const packageName = asString(asTable(spec)?.package) || name;
+                dependencies.push({ ecosystem: 'cargo', name: packageName, version: versionFromSpec(spec), scope, manifest });
+            }
+        }
+    };
+
+    collect(toml);
+    // プラットフォーム固有の依存関係（[target.'cfg(...)'.dependencies]）
+    for (const target of Object.values(asTable(toml.target) || {})) {
+        collect(asTable(target));
+    }
+
+    const packageTable = asTable(toml.package);
+    return {
+        dependencies,
+        project: {
+            name: asString(packageTable?.name),
+            version: asString(packageTable?.version),
+            description: asString(packageTable?.description),
+        },
+    };
+}
+
+function parsePom(content: string, manifest: string): ParsedManifest {
+    const xml = content.replace(/<!--[\s\S]*?-->/g, '');
+    const properties: Record<string, string> = {};
+    const propertiesBlock = xml.match(/<properties>([\s\S]*?)<\/properties>/)?.[1] || '';
+    for (const match of propertiesBlock.matchAll(/<([\w.-]+)>([^<]*)<\/\1>/g)) {
+        properties[match[1]] = match[2].trim();
+    }
+
+    const resolve = (value: string | undefined) =>
+        (value || '').replace(/\$\{([^}]+)\}/g, (placeholder, key) => properties[key] ?? placeholder);
+    const tag = (block: string, name: string) => block.match(new RegExp(`<${name}>([^<]*)</${name}>`))?.[1]?.trim();
+
+    // dependencyManagement とプラグインの依存関係は実際の依存関係ではないため除外
+    const body = xml
+        .replace(/<dependencyManagement>[\s\S]*?<\/dependencyManagement>/g, '')
+        .replace(/<build>[\s\S]*?<\/build>/g, '')
+        .replace(/<parent>[\s\S]*?<\/parent>/g, '');
+
+    const dependencies: Dependency[] = [];
+    for (const match of body.matchAll(/<dependency>([\s\S]*?)<\/dependency>/g)) {
+        const block = match[1];
+        const groupId = resolve(tag(block, 'groupId'));
+        const artifactId = resolve(tag(block, 'artifactId'));
+        if (!artifactId) continue;
+
+        dependencies.push({
+            ecosystem: 'maven',
+            name: groupId ? `${groupId}:${artifactId}` : artifactId,
+            version: resolve(tag(block, 'version')),
+            scope: tag(block, 'scope') === 'test' ? 'dev' : 'runtime',
+            manifest,
+        });
+    }
+
+    const projectBody = body.replace(/<dependencies>[\s\S]*?<\/dependencies>/g, '');
+    return {
+        dependencies,
+        project: {
+            name: tag(projectBody, 'artifactId'),
+            version: resolve(tag(projectBody, 'version')) || undefined,
+            description: tag(projectBody, 'description'),
+        },
+    };
+}
+
+function parseGradle(content: string, manifest: string): ParsedManifest {
+    const dependencies: Dependency[] = [];
+    const configurationPattern = /^(implementation|api|compile|compileOnly|runtimeOnly|runtime|kapt|ksp|annotationProcessor|\w+Implementation|\w+CompileOnly|\w+RuntimeOnly|\w+Api|testCompile|testRuntime)$/;
+
+    for (const rawLine of content.split('\n')) {
+        const line = rawLine.replace(/\/\/.*$/, '').trim();
+        const match = line.match(/^(\w+)\s*\(?\s*(?:platform\()?\s*['"]([^'"]+)['"]/);
+        const mapMatch = line.match(/^(\w+)\s*\(?\s*group\s*[:=]\s*['"]([^'"]+)['"]\s*,\s*name\s*[:=]\s*['"]([^'"]+)['"](?:\s*,\s*version\s*[:=]\s*['"]([^'"]+)['"])?/);
+
+        let configuration: string;
+        let name: string;
+        let version: string;
+        if (mapMatch) {
+            configuration = mapMatch[1];
+            name = `${mapMatch[2]}:${mapMatch[3]}`;
+            version = mapMatch[4] || '';
+        } else if (match) {
+            configuration = match[1];
+            const [group, artifact, coordinateVersion] = match[2].split(':');
+            if (!artifact) continue;
+            name = `${group}:${artifact}`;
+            version = coordinateVersion || '';
+        } else {
+            continue;
+        }
+
+        if (!configurationPattern.test(configuration)) continue;
+
+        dependencies.push({
+            ecosystem: 'maven',
+            name,
+            version,
+            scope: /^(test|androidTest)/.test(configuration) ? 'dev' : 'runtime',
+            manifest,
+        });
+    }
+
+    return { dependencies, project: {} };
+}
+
+function parseGemfile(content: string, manifest: string): ParsedManifest {
+    const dependencies: Dependency[] = [];
+    // do ... end ブロックごとに開発用グループかどうかを保持する
+    const blocks: boolean[] = [];
+
+    for (const rawLine of content.split('\n')) {
+        const line = rawLine.replace(/#.*$/, '').trim();
+        if (!line) continue;
+
+        if (/\bdo(\s*\|[^|]*\|)?$/.test(line)) {
+            const groupMatch = line.match(/^group\s+(.*?)\s+do/);
+            const isDevGroup = !!groupMatch && groupMatch[1].split(',').every(group => /:?(development|test)\b/.test(group.trim()));
+            blocks.push(isDevGroup || blocks.some(Boolean));
+            continue;
+        }
+        if (line === 'end') {
+            blocks.pop();
+            continue;
+        }
+
+        const gemMatch = line.match(/^gem\s+['"]([^'"]+)['"](.*)$/);
+        if (!gemMatch) continue;
+
+        const options = gemMatch[2];
+        const versions = [...options.matchAll(/['"]([~<>=!]*\s*\d[^'"]*)['"]/g)].map(match => match[1]);
+        const inlineDev = /groups?:\s*\[?\s*:(development|test)/.test(options);
+
+        dependencies.push({
+            ecosystem: 'rubygems',
+            name: gemMatch[1],
+            version: versions.join(', '),
+            scope: inlineDev || blocks.some(Boolean) ? 'dev' : 'runtime',
+            manifest,
+        });
+    }
+
+    return { dependencies, project: {} };
+}
+
+function parseComposerJson(content: string, manifest: string): ParsedManifest {
+    const json = JSON.parse(content);
+    // PHP本体と拡張モジュールはパッケージではないため除外
+    const isPackage = (name: string) => name.includes('/');
+    const collect = (section: unknown, scope: Dependency['scope']) =>
+        Object.entries((section as Record<string, string>) || {})
+            .filter(([name]) => isPackage(name))
+            .map(([name, version]) => ({
+                ecosystem: 'composer' as const,
+                name,
+                version: String(version),
+                scope,
+                manifest,
+            }));
+
+    return {
+        dependencies: [...collect(json.require, 'runtime'), ...collect(json['require-dev'], 'dev')],
+        project: { name: json.name, version: json.version, description: json.description },
+    };
+}
+
+function versionFromSpec(spec: TomlValue): string {
+    if (typeof spec === 'string') return spec === '*' ? '' : spec;
+    const table = asTable(spec);
+    if (!table) return '';
+    return asString(table.version) || asString(table.git) || asString(table.path) || '';
+}
+
+export function asTable(value: TomlValue | undefined): TomlTable | undefined {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : undefined;
+}
+
+export function asString(value: TomlValue | undefined): string | undefined {
+    return typeof value === 'string' ? value : undefined;
+}
+
+function asStringArray(value: TomlValue | undefined): string[] {
+    return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
@@ -0,0 +1,171 @@
+import { collectPages, requestJson, resolveFetch, resolveToken, withQuery } from './http';
+import { GitHostingProvider, HostedIssue, ListIssuesOptions, ProviderFactory, ProviderOptions, RepositoryCoordinates } from './model';
+
+const TOKEN_ENV_VARIABLES = ['BITBUCKET_TOKEN'];
+const OPEN_ISSUE_STATES = ['new', 'open'];
+
+interface Page<T> {
+    values: T[];
+    next?: string;
+}
+
+/**
+ * Bitbucket Cloud。リリースの仕組みがないため、リリースは返さずタグのみを返す。
+ * Bitbucket Server / Data Center は API が異なるため対象外。
+ */
+export const bitbucketProvider: ProviderFactory = {
+    kind: 'bitbucket',
+    hosts: ['bitbucket.org'],
+    create: createBitbucketProvider,
+};
+
+function createBitbucketProvider(options: ProviderOptions): GitHostingProvider {
+    const host = options.host;
+    const apiBaseUrl = (options.apiBaseUrl || 'https://api.bitbucket.org/2.0').replace(/\/+$/, '');
+    const fetchImpl = resolveFetch(options.fetch);
+    const headers = authorizationHeaders(options);
+
+    // owner はワークスペース、repo はリポジトリのスラッグ
+    const repoUrl = ({ owner, repo }: RepositoryCoordinates) => `${apiBaseUrl}/repositories/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+    const list = <T>(url: string, limit: number) =>
+        collectPages<T, Page<T>>(fetchImpl, url, headers, limit, ({ data }) => ({
+            items: data.values || [],
+            next: data.next ?? null,
+        }));
+
+    // Bitbucket のクエリ言語（BBQL）で更新日時と状態を絞り込む
+    const buildQuery = (conditions: Array<string | null>) => conditions.filter(Boolean).join(' AND ') || undefined;
+    const updatedSince = (listOptions: ListIssuesOptions) =>
+        listOptions.since ? `updated_on >= ${listOptions.since.toISOString()}` : null;
+
+    return {
+        kind: 'bitbucket',
+        host,
+        apiBaseUrl,
+        cloneUrls: ({ owner, repo }) => ({
+            https: `https://${host}/${owner}/${repo}.git`,
+            ssh: `git@${host}:${owner}/${repo}.git`,
+        }),
+
+        async getRepository(repository) {
+            const { data } = await requestJson<any>(fetchImpl, repoUrl(repository), headers);
+            // 認証したユーザーでは https の URL にユーザー名が含まれるため除く
+            const clone = (name: string): string | undefined => (data.links?.clone || [])
+                .find((link: any) => link.name === name)?.href
+                ?.replace(/^(https:\/\/)[^@/]+@/, '$1');
+
+            return {
+                provider: 'bitbucket',
+                name: data.name,
+                fullName: data.full_name,
+                description: data.description || null,
+                defaultBranch: data.mainbranch?.name ?? '',
+                // スター数・フォーク数・未解決のイシュー数は API が返さない
+                stars: null,
+                forks: null,
+                openIssues: null,
+                language: data.language || null,
+                topics: [],
+                lastUpdated: data.updated_on,
+                watchers: null,
+                createdAt: data.created_on,
+                lastPushed: null,
+                license: null,
+                homepage: data.website || null,
+                archived: false,
+                fork: Boolean(data.parent),
+                visibility: data.is_private ? 'private' : 'public',
+                webUrl: data.links?.html?.href ?? `https://${host}/${repository.owner}/${repository.repo}`,
+                cloneUrls: {
+                    https: clone('https') ?? `https://${host}/${repository.owner}/${repository.repo}.git`,
+                    ssh: clone('ssh') ?? `git@${host}:${repository.owner}/${repository.repo}.git`,
+                },
+                latestRelease: null,
+            };
+        },
+
+        async listIssues(repository, listOptions = {}) {
+            const state = listOptions.state || 'open';
+            const states = OPEN_ISSUE_STATES.map(value => `state = "${value}"`).join(' OR ');
+            const items = await list<any>(withQuery(`${repoUrl(repository)}/issues`, {
+                q: buildQuery([
+                    state === 'all' ? null : state === 'open' ? `(${states})` : `NOT (${states})`,
+                    updatedSince(listOptions),
+                ]),
+                sort: '-updated_on',
+                pagelen: 50,
+            }), listOptions.limit ?? 100);
+
+            return items.map((item): HostedIssue => ({
+                number: item.id,
+                kind: 'issue',
+                title: item.title,
+                state: OPEN_ISSUE_STATES.includes(item.state) ? 'open' : 'closed',
+                author: item.reporter?.nickname ?? item.reporter?.display_name ?? null,
+                // ラベルの代わりに種類（bug など）を使う
+                labels: [item.kind, item.component?.name].filter(Boolean),
+                url: item.links?.html?.href ?? '',
+                createdAt: item.created_on,
+                updatedAt: item.updated_on,
+                // クローズの日時は返されない
+                closedAt: null,
+                mergedAt: null,
+                comments: null,
+            }));
+        },
+
+        async listPullRequests(repository, listOptions = {}) {
+            const state = listOptions.state || 'open';
+            // state は複数指定できる（指定しない場合は OPEN のみ）
+            const url = new URL(withQuery(`${repoUrl(repository)}/pullrequests`, {
+                q: buildQuery([updatedSince(listOptions)]),
+                sort: '-updated_on',
+                pagelen: 50,
+            }));
+            const states = state === 'open' ? ['OPEN'] : state === 'closed' ? ['MERGED', 'DECLINED', 'SUPERSEDED'] : ['OPEN', 'MERGED', 'DECLINED', 'SUPERSEDED'];
+            states.forEach(value => url.searchParams.append('state', value));
+
+            const items = await list<any>(url.toString(), listOptions.limit ?? 100);
+            return items.map((item): HostedIssue => ({
+                number: item.id,
+                kind: 'pull-request',
+                title: item.title,
+                state: item.state === 'OPEN' ? 'open' : item.state === 'MERGED' ? 'merged' : 'closed',
+                author: item.author?.nickname ?? item.author?.display_name ?? null,
+                labels: [],
+                url: item.links?.html?.href ?? '',
+                createdAt: item.created_on,
+                updatedAt: item.updated_on,
+                // クローズ・マージの日時は返されないため、最終更新日時で代用する
+                closedAt: item.state === 'OPEN' ? null : item.updated_on,
+                mergedAt: item.state === 'MERGED' ? item.updated_on : null,
+                comments: item.comment_count ?? null,
+            }));
+        },
+
+        async listReleases() {
+            return [];
+        },
+
+        async listTags(repository, listOptions = {}) {
+            const tags = await list<any>(withQuery(`${repoUrl(repository)}/refs/tags`, { sort: '-target.date', pagelen: 100 }), listOptions.limit ?? 1000);
+            return tags.map(tag => tag.name);
+        },
+    };
+}
+
+/**
+ * アクセストークン（Bearer）を優先し、なければユーザー名とアプリパスワードの Basic 認証を使う。
+ */
+function authorizationHeaders(options: ProviderOptions): Record<string, string> {
+    const token = resolveToken(options, TOKEN_ENV_VARIABLES);
+    if (token) {
+        return { authorization: `Bearer ${token}` };
+    }
+    const username = process.env.BITBUCKET_USERNAME?.trim();
+    const password = process.env.BITBUCKET_APP_PASSWORD?.trim();
+    if (options.token === undefined && username && password) {
+        return { authorization: `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}` };
+    }
+    return {};
+}
@@ -0,0 +1,139 @@
+import { ProviderRequestError, collectPages, nextLink, requestJson, resolveFetch, resolveToken, withQuery } from './http';
+import { GitHostingProvider, HostedIssue, ProviderFactory, ProviderOptions, RepositoryCoordinates } from './model';
+
+const TOKEN_ENV_VARIABLES = ['GITEA_TOKEN', 'FORGEJO_TOKEN'];
+// Gitea の1ページの最大件数（サーバーの設定で小さくなっている場合がある）
+const PAGE_SIZE = 50;
+
+/**
+ * Gitea と互換の Forgejo（gitea.com・Codeberg とセルフホスト）。
+ */
+export const giteaProvider: ProviderFactory = {
+    kind: 'gitea',
+    hosts: ['gitea.com', 'codeberg.org'],
+    create: createGiteaProvider,
+};
+
+function createGiteaProvider(options: ProviderOptions): GitHostingProvider {
+    const host = options.host;
+    const apiBaseUrl = (options.apiBaseUrl || `https://${host}/api/v1`).replace(/\/+$/, '');
+    const fetchImpl = resolveFetch(options.fetch);
+    const token = resolveToken(options, TOKEN_ENV_VARIABLES);
+    const headers: Record<string, string> = token ? { authorization: `token ${token}` } : {};
+
+    const repoUrl = ({ owner, repo }: RepositoryCoordinates) => `${apiBaseUrl}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+    const list = <T>(url: string, limit: number) =>
+        collectPages<T, T[]>(fetchImpl, url, headers, limit, ({ data, headers: responseHeaders }) => ({
+            items: data,
+            next: nextLink(responseHeaders),
+        }));
+
+    const toIssue = (item: any, kind: HostedIssue['kind']): HostedIssue => {
+        const mergedAt = item.merged_at ?? item.pull_request?.merged_at ?? null;
+        return {
+            number: item.number,
+            kind,
+            title: item.title,
+            state: mergedAt ? 'merged' : item.state === 'closed' ? 'closed' : 'open',
+            author: item.user?.login ?? null,
+            labels: (item.labels || []).map((label: any) => label.name).filter(Boolean),
+            url: item.html_url,
+            createdAt: item.created_at,
+            updatedAt: item.updated_at,
+            closedAt: item.closed_at ?? null,
+            mergedAt,
+            comments: item.comments ?? null,
+        };
+    };
+
+    return {
+        kind: 'gitea',
+        host,
+        apiBaseUrl,
+        cloneUrls: ({ owner, repo }) => ({
+            https: `https://${host}/${owner}/${repo}.git`,
+            ssh: `git@${host}:${owner}/${repo}.git`,
+        }),
+
+        async getRepository(repository) {
+            const url = repoUrl(repository);
+            const { data } = await requestJson<any>(fetchImpl, url, headers);
+            const latest = await requestJson<any>(fetchImpl, `${url}/releases/latest`, headers)
+                .then(({ data: release }) => release)
+                .catch(error => {
+                    if (error instanceof ProviderRequestError && error.status === 404) return null;
+                    throw error;
+                });
+
+            return {
+                provider: 'gitea',
+                name: data.name,
+                fullName: data.full_name,
+                description: data.description || null,
+                defaultBranch: data.default_branch ?? '',
+                stars: data.stars_count ?? null,
+                forks: data.forks_count ?? null,
+                openIssues: data.open_issues_count ?? null,
+                language: data.language || null,
+                topics: data.topics || [],
+                lastUpdated: data.updated_at,
+                watchers: data.watchers_count ?? null,
+                createdAt: data.created_at,
+                // Gitea はプッシュの日時を返さない
+                lastPushed: null,
+                // licenses は Gitea 1.22 以降のみ
+                license: data.licenses?.[0] ?? null,
+                homepage: data.website || null,
+                archived: Boolean(data.archived),
+                fork: Boolean(data.fork),
+                visibility: data.private ? 'private' : data.internal ? 'internal' : 'public',
+                webUrl: data.html_url,
+                cloneUrls: { https: data.clone_url, ssh: data.ssh_url },
+                latestRelease: latest ? { tag: latest.tag_name, name: latest.name || latest.tag_name, publishedAt: latest.published_at ?? null } : null,
+            };
+        },
+
+        async listIssues(repository, listOptions = {}) {
+            const items = await list<any>(withQuery(`${repoUrl(repository)}/issues`, {
+                type: 'issues',
+                state: listOptions.state || 'open',
+                since: listOptions.since?.toISOString(),
+                limit: PAGE_SIZE,
+            }), listOptions.limit ?? 100);
+            return items.map(item => toIssue(item, 'issue'));
+        },
+
+        async listPullRequests(repository, listOptions = {}) {
+            const limit = listOptions.limit ?? 100;
+            // since に対応していないため、更新日時の降順に取得して期間外のものを除く
+            const since = listOptions.since?.getTime();
+            const items = await collectPages<any, any[]>(fetchImpl, withQuery(`${repoUrl(repository)}/pulls`, {
+                state: listOptions.state || 'open',
+                sort: 'recentupdate',
+                limit: PAGE_SIZE,
+            }), headers, limit, ({ data, headers: responseHeaders }) => {
+                const recent = since === undefined ? data : data.filter(item => Date.parse(item.updated_at) >= since);
+                return { items: recent, next: recent.length < data.length ? null : nextLink(responseHeaders) };
+            });
+            return items.map(item => toIssue(item, 'pull-request'));
+        },
+
+        async listReleases(repository, listOptions = {}) {
+            const releases = await list<any>(withQuery(`${repoUrl(repository)}/releases`, { limit: PAGE_SIZE }), listOptions.limit ?? 100);
+            return releases
+                .filter(release => !release.draft)
+                .map(release => ({
+                    tag: release.tag_name,
+                    name: release.name || release.tag_name,
+                    publishedAt: release.published_at ?? release.created_at ?? null,
+                    prerelease: Boolean(release.prerelease),
+                    url: release.html_url ?? null,
+                }));
+        },
+
+        async listTags(repository, listOptions = {}) {
+            const tags = await list<any>(withQuery(`${repoUrl(repository)}/tags`, { limit: PAGE_SIZE }), listOptions.limit ?? 1000);
+            return tags.map(tag => tag.name);
+        },
+    };
+}
@@ -0,0 +1,196 @@
+import { createGitHubClient, getGitHubClient, GitHubClient } from '../client';
+import { resolveFetch } from './http';
+import { GitHostingProvider, HostedIssue, ProviderFactory, ProviderOptions, RepositoryCoordinates } from './model';
+
+const DEFAULT_HOST = 'github.com';
+
+/**
+ * GitHub（github.com と GitHub Enterprise Server）。API の呼び出しは共有の GitHub クライアントを通す。
+ */
+export const githubProvider: ProviderFactory = {
+    kind: 'github',
+    hosts: [DEFAULT_HOST],
+    create: createGitHubProvider,
+};
+
+/**
+ * ホスト（GitHub Enterprise Server を含む）に対応する GitHub クライアントを返す。
+ * github.com で差し替えがない場合は、ETag のキャッシュとレート制限の状態を他のツールと共有する。
+ */
+export function getGitHubClientForHost(options: ProviderOptions): Promise<GitHubClient> {
+    const fetchImpl = resolveFetch(options.fetch);
+    const token = options.token !== undefined ? options.token : (options.tokenEnv ? process.env[options.tokenEnv]?.trim() : undefined);
+    const shared = options.host === DEFAULT_HOST && !options.apiBaseUrl && token === undefined && fetchImpl === fetch;
+    return shared ? getGitHubClient() : createGitHubClient({ baseUrl: resolveApiBaseUrl(options), token, fetch: fetchImpl });
+}
+
+function createGitHubProvider(options: ProviderOptions): GitHostingProvider {
+    const host = options.host;
+    const apiBaseUrl = resolveApiBaseUrl(options);
+
+    let client: Promise<GitHubClient> | null = null;
+    const octokit = async () => {
+        client = client || getGitHubClientForHost(options);
+        return (await client).octokit;
+    };
+
+    const cloneUrls = ({ owner, repo }: RepositoryCoordinates) => ({
+        https: `https://${host}/${owner}/${repo}.git`,
+        ssh: `git@${host}:${owner}/${repo}.git`,
+    });
+
+    return {
+        kind: 'github',
+        host,
+        apiBaseUrl,
+        cloneUrls,
+
+        async getRepository(repository) {
+            const api = await octokit();
+            const { data } = await api.repos.get({ owner: repository.owner, repo: repository.repo });
+            const latestRelease = await api.repos.getLatestRelease({ owner: repository.owner, repo: repository.repo })
+                .then(({ data: release }) => ({ tag: release.tag_name, name: release.name || release.tag_name, publishedAt: release.published_at }))
+                .catch((error: any) => {
+                    if (error?.status === 404) return null;
+                    throw error;
+                });
+
+            return {
+                provider: 'github',
+                name: data.name,
+                fullName: data.full_name,
+                description: data.description,
+                defaultBranch: data.default_branch,
+                stars: data.stargazers_count,
+                forks: data.forks_count,
+                openIssues: data.open_issues_count,
+                language: data.language,
+                topics: data.topics || [],
+                lastUpdated: data.updated_at,
+                watchers: data.subscribers_count ?? data.watchers_count,
+                createdAt: data.created_at,
+                lastPushed: data.pushed_at || null,
+                license: data.license?.spdx_id && data.license.spdx_id !== 'NOASSERTION' ? data.license.spdx_id : null,
+                homepage: data.homepage || null,
+                archived: data.archived,
+                fork: data.fork,
+                visibility: data.visibility ?? null,
+                webUrl: data.html_url,
+                cloneUrls: { https: data.clone_url, ssh: data.ssh_url },
+                latestRelease,
+            };
+        },
+
+        async listIssues(repository, listOptions = {}) {
+            const api = await octokit();
+            const limit = listOptions.limit ?? 100;
+            const issues: HostedIssue[] = [];
+            // イシューの一覧にはプルリクエストも含まれるため除く
+            for await (const { data } of api.paginate.iterator(api.issues.listForRepo, {
+                owner: repository.owner,
+                repo: repository.repo,
+                state: listOptions.state || 'open',
+                since: listOptions.since?.toISOString(),
+                per_page: 100,
+            })) {
+                for (const issue of data) {
+                    if (issue.pull_request) continue;
+                    issues.push({
+                        number: issue.number,
+                        kind: 'issue',
+                        title: issue.title,
+                        state: issue.state === 'closed' ? 'closed' : 'open',
+                        author: issue.user?.login ?? null,
+                        labels: issue.labels.map(label => typeof label === 'string' ? label : label.name || '').filter(Boolean),
+                        url: issue.html_url,
+                        createdAt: issue.created_at,
+                        updatedAt: issue.updated_at,
+                        closedAt: issue.closed_at,
+                        mergedAt: null,
+                        comments: issue.comments,
+                    });
+                    if (issues.length >= limit) return issues;
+                }
+            }
+            return issues;
+        },
+
+        async listPullRequests(repository, listOptions = {}) {
+            const api = await octokit();
+            const limit = listOptions.limit ?? 100;
+            const pullRequests: HostedIssue[] = [];
+            // since に対応していないため、更新日時の降順に取得して古いものが出た時点で止める
+            for await (const { data } of api.paginate.iterator(api.pulls.list, {
+                owner: repository.owner,
+                repo: repository.repo,
+                state: listOptions.state || 'open',
+                sort: 'updated',
+                direction: 'desc',
+                per_page: 100,
+            })) {
+                for (const pull of data) {
+                    if (listOptions.since && Date.parse(pull.updated_at) < listOptions.since.getTime()) return pullRequests;
+                    pullRequests.push({
+                        number: pull.number,
+                        kind: 'pull-request',
+                        title: pull.title,
+                        state: pull.merged_at ? 'merged' : pull.state === 'closed' ? 'closed' : 'open',
+                        author: pull.user?.login ?? null,
+                        labels: pull.labels.map(label => label.name).filter(Boolean),
+                        url: pull.html_url,
+                        createdAt: pull.created_at,
+                        updatedAt: pull.updated_at,
+                        closedAt: pull.closed_at,
+                        mergedAt: pull.merged_at,
+                        comments: null,
+                    });
+                    if (pullRequests.length >= limit) return pullRequests;
+                }
+            }
+            return pullRequests;
+        },
+
+        async listReleases(repository, listOptions = {}) {
+            const api = await octokit();
+            const limit = listOptions.limit ?? 100;
+            const releases = [];
+            for await (const { data } of api.paginate.iterator(api.repos.listReleases, {
+                owner: repository.owner,
+                repo: repository.repo,
+                per_page: 100,
+            })) {
+                for (const release of data) {
+                    if (release.draft) continue;
+                    releases.push({
+                        tag: release.tag_name,
+                        name: release.name || release.tag_name,
+                        publishedAt: release.published_at || release.created_at,
+                        prerelease: release.prerelease,
+                        url: release.html_url,
+                    });
+                }
+                if (releases.length >= limit) break;
+            }
+            return releases.slice(0, limit);
+        },
+
+        async listTags(repository, listOptions = {}) {
+            const api = await octokit();
+            const limit = listOptions.limit ?? 1000;
+            const tags: string[] = [];
+            for await (const { data } of api.paginate.iterator(api.repos.listTags, {
+                owner: repository.owner,
+                repo: repository.repo,
+                per_page: 100,
+            })) {
+                tags.push(...data.map(tag => tag.name));
+                if (tags.length >= limit) break;
+            }
+            return tags.slice(0, limit);
+        },
+    };
+}
+
+function resolveApiBaseUrl(options: ProviderOptions): string {
+    return (options.apiBaseUrl || (options.host === DEFAULT_HOST ? 'https://api.github.com' : `https://${options.host}/api/v3`)).replace(/\/+$/, '');
+}
@@ -0,0 +1,150 @@
+import { parseVersion } from '../semver';
+import { ProviderRequestError, collectPages, nextLink, requestJson, resolveFetch, resolveToken, withQuery } from './http';
+import { GitHostingProvider, HostedIssue, ListIssuesOptions, ProviderFactory, ProviderOptions, RepositoryCoordinates } from './model';
+
+const TOKEN_ENV_VARIABLES = ['GITLAB_TOKEN'];
+
+// GitLab のライセンスのキー（小文字）と SPDX 識別子の表記が異なるもの
+const LICENSE_KEYS: Record<string, string> = {
+    'mit': 'MIT',
+    'isc': 'ISC',
+    'unlicense': 'Unlicense',
+    'apache-2.0': 'Apache-2.0',
+    'mpl-2.0': 'MPL-2.0',
+    'bsd-2-clause': 'BSD-2-Clause',
+    'bsd-3-clause': 'BSD-3-Clause',
+    'epl-2.0': 'EPL-2.0',
+    'cc0-1.0': 'CC0-1.0',
+};
+
+/**
+ * GitLab（gitlab.com とセルフホスト）。マージリクエストはプルリクエストとして扱う。
+ */
+export const gitlabProvider: ProviderFactory = {
+    kind: 'gitlab',
+    hosts: ['gitlab.com'],
+    create: createGitLabProvider,
+};
+
+function createGitLabProvider(options: ProviderOptions): GitHostingProvider {
+    const host = options.host;
+    const apiBaseUrl = (options.apiBaseUrl || `https://${host}/api/v4`).replace(/\/+$/, '');
+    const fetchImpl = resolveFetch(options.fetch);
+    const token = resolveToken(options, TOKEN_ENV_VARIABLES);
+    const headers: Record<string, string> = token ? { 'private-token': token } : {};
+
+    // プロジェクトはサブグループを含むパスを URL エンコードして指定する
+    const projectUrl = ({ owner, repo }: RepositoryCoordinates) => `${apiBaseUrl}/projects/${encodeURIComponent(`${owner}/${repo}`)}`;
+    const list = <T>(url: string, limit: number) =>
+        collectPages<T, T[]>(fetchImpl, url, headers, limit, ({ data, headers: responseHeaders }) => ({
+            items: data,
+            next: nextLink(responseHeaders),
+        }));
+
+    const listItems = async (repository: RepositoryCoordinates, kind: HostedIssue['kind'], listOptions: ListIssuesOptions) => {
+        const state = listOptions.state || 'open';
+        // GitLab の closed にはマージ済みが含まれないため、closed の場合は全件から開いているものを除く
+        const url = withQuery(`${projectUrl(repository)}/${kind === 'issue' ? 'issues' : 'merge_requests'}`, {
+            state: state === 'open' ? 'opened' : undefined,
+            updated_after: listOptions.since?.toISOString(),
+            order_by: 'updated_at',
+            sort: 'desc',
+            per_page: 100,
+        });
+        const items = await collectPages<any, any[]>(fetchImpl, url, headers, listOptions.limit ?? 100, ({ data, headers: responseHeaders }) => ({
+            items: state === 'closed' ? data.filter(item => item.state !== 'opened') : data,
+            next: nextLink(responseHeaders),
+        }));
+
+        return items.map((item): HostedIssue => ({
+            number: item.iid,
+            kind,
+            title: item.title,
+            state: item.state === 'merged' ? 'merged' : item.state === 'opened' ? 'open' : 'closed',
+            author: item.author?.username ?? null,
+            labels: item.labels || [],
+            url: item.web_url,
+            createdAt: item.created_at,
+            updatedAt: item.updated_at,
+            closedAt: item.closed_at ?? item.merged_at ?? null,
+            mergedAt: item.merged_at ?? null,
+            comments: item.user_notes_count ?? null,
+        }));
+    };
+
+    return {
+        kind: 'gitlab',
+        host,
+        apiBaseUrl,
+        cloneUrls: ({ owner, repo }) => ({
+            https: `https://${host}/${owner}/${repo}.git`,
+            ssh: `git@${host}:${owner}/${repo}.git`,
+        }),
+
+        async getRepository(repository) {
+            const url = projectUrl(repository);
+            const { data } = await requestJson<any>(fetchImpl, withQuery(url, { license: 'true' }), headers);
+            // 言語の割合（%）のうち最も大きいものを主な言語とする
+            const languages = await requestJson<Record<string, number>>(fetchImpl, `${url}/languages`, headers)
+                .then(({ data: entries }) => entries)
+                .catch(() => ({}));
+            const language = Object.entries(languages).sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+            // リリースが無効なプロジェクトでは 403 になる
+            const latest = await requestJson<any[]>(fetchImpl, withQuery(`${url}/releases`, { per_page: 1 }), headers)
+                .then(({ data: releases }) => releases[0] ?? null)
+                .catch(error => {
+                    if (error instanceof ProviderRequestError && (error.status === 403 || error.status === 404)) return null;
+                    throw error;
+                });
+
+            return {
+                provider: 'gitlab',
+                name: data.name,
+                fullName: data.path_with_namespace,
+                description: data.description || null,
+                // 空のリポジトリでは既定のブランチがない
+                defaultBranch: data.default_branch ?? '',
+                stars: data.star_count ?? null,
+                forks: data.forks_count ?? null,
+                // イシューが無効なプロジェクトでは返されない
+                openIssues: data.open_issues_count ?? null,
+                language,
+                topics: data.topics || data.tag_list || [],
+                lastUpdated: data.updated_at ?? data.last_activity_at,
+                watchers: null,
+                createdAt: data.created_at,
+                // GitLab はプッシュの日時を返さない
+                lastPushed: null,
+                license: data.license?.key ? LICENSE_KEYS[data.license.key] || data.license.key.toUpperCase() : null,
+                homepage: null,
+                archived: Boolean(data.archived),
+                fork: Boolean(data.forked_from_project),
+                visibility: data.visibility ?? null,
+                webUrl: data.web_url,
+                cloneUrls: { https: data.http_url_to_repo, ssh: data.ssh_url_to_repo },
+                latestRelease: latest ? { tag: latest.tag_name, name: latest.name || latest.tag_name, publishedAt: latest.released_at ?? null } : null,
+            };
+        },
+
+        listIssues: (repository, listOptions = {}) => listItems(repository, 'issue', listOptions),
+
+        listPullRequests: (repository, listOptions = {}) => listItems(repository, 'pull-request', listOptions),
+
+        async listReleases(repository, listOptions = {}) {
+            const releases = await list<any>(withQuery(`${projectUrl(repository)}/releases`, { per_page: 100 }), listOptions.limit ?? 100);
+            // GitLab にはプレリリースの区別がないため、タグのバージョンから判定する
+            return releases.map(release => ({
+                tag: release.tag_name,
+                name: release.name || release.tag_name,
+                publishedAt: release.released_at ?? release.created_at ?? null,
+                prerelease: (parseVersion(release.tag_name)?.prerelease.length ?? 0) > 0,
+                url: release._links?.self ?? null,
+            }));
+        },
+
+        async listTags(repository, listOptions = {}) {
+            const tags = await list<any>(withQuery(`${projectUrl(repository)}/repository/tags`, { per_page: 100 }), listOptions.limit ?? 1000);
+            return tags.map(tag => tag.name);
+        },
+    };
+}
@@ -0,0 +1,211 @@
+import * as fs from 'fs/promises';
+
+// 記録するレスポンスヘッダー（ページングとキャッシュに使うもののみ）
+const RECORDED_HEADERS = ['content-type', 'link', 'etag', 'last-modified', 'x-next-page', 'x-total', 'x-total-count'];
+
+const recordings = new Map<string, HttpFixture[]>();
+const writes = new Map<string, Promise<void>>();
+
+export class ProviderRequestError extends Error {
+    constructor(message: string, readonly status: number, readonly url: string) {
+        super(message);
+        this.name = 'ProviderRequestError';
+    }
+}
+
+export interface HttpFixture {
+    request: { method: string; url: string };
+    response: {
+        status: number;
+        headers: Record<string, string>;
+        // JSON の場合は解析済みの値、それ以外は文字列
+        body: unknown;
+    };
+}
+
+export interface JsonResponse<T> {
+    data: T;
+    headers: Headers;
+}
+
+/**
+ * JSON を返す API を呼び出す。2xx 以外は ProviderRequestError にする（status で 404 などを判別できる）。
+ */
+export async function requestJson<T>(
+    fetchImpl: typeof fetch,
+    url: string,
+    headers: Record<string, string> = {}
+): Promise<JsonResponse<T>> {
+    const response = await fetchImpl(url, { headers: { accept: 'application/json', ...headers } });
+    const text = await response.text();
+
+    if (!response.ok) {
+        let detail = '';
+        try {
+            const body = JSON.parse(text);
+            detail = body?.message || body?.error?.message || body?.error || '';
+        } catch {
+            detail = text.slice(0, 200);
+        }
+        throw new ProviderRequestError(
+            `${response.status} ${response.statusText || 'Request failed'} (GET ${url})${detail ? `: ${typeof detail === 'string' ? detail : JSON.stringify(detail)}` : ''}`,
+            response.status,
+            url
+        );
+    }
+
+    return { data: (text ? JSON.parse(text) : null) as T, headers: response.headers };
+}
+
+/**
+ * readPage が返す次のページの URL をたどり、上限までの要素を集める。
+ */
+export async function collectPages<T, P>(
+    fetchImpl: typeof fetch,
+    firstUrl: string,
+    headers: Record<string, string>,
+    limit: number,
+    readPage: (response: JsonResponse<P>) => { items: T[]; next: string | null }
+): Promise<T[]> {
+    const items: T[] = [];
+    let url: string | null = firstUrl;
+    while (url && items.length < limit) {
+        const page = readPage(await requestJson<P>(fetchImpl, url, headers));
+        items.push(...page.items);
+        url = page.next;
+    }
+    return items.slice(0, limit);
+}
+
+/**
+ * Link ヘッダー（RFC 8288）から rel="next" の URL を取り出す。
+ */
+export function nextLink(headers: Headers): string | null {
+    const link = headers.get('link');
+    if (!link) return null;
+    for (const part of link.split(',')) {
+        const match = part.match(/<([^>]+)>\s*;\s*rel="?next"?/);
+        if (match) return match[1];
+    }
+    return null;
+}
+
+export function withQuery(url: string, query: Record<string, string | number | undefined>): string {
+    const parsed = new URL(url);
+    for (const [key, value] of Object.entries(query)) {
+        if (value !== undefined) parsed.searchParams.set(key, String(value));
+    }
+    return parsed.toString();
+}
+
+/**
+ * 記録したフィクスチャ（配列またはファイルのパス）を再生する fetch を作成する。
+ * 同じリクエストが複数記録されている場合は記録順に返し、記録されていないリクエストはネットワークに出さずにエラーにする。
+ */
+export function createFixtureFetch(fixtures: HttpFixture[] | string): typeof fetch {
+    let queues: Promise<Map<string, HttpFixture[]>> | null = null;
+    const load = async () => {
+        const entries: HttpFixture[] = typeof fixtures === 'string'
+            ? JSON.parse(await fs.readFile(fixtures, 'utf-8'))
+            : fixtures;
+        const map = new Map<string, HttpFixture[]>();
+        for (const fixture of entries) {
+            const key = fixtureKey(fixture.request.method, fixture.request.url);
+            map.set(key, [...(map.get(key) || []), fixture]);
+        }
+        return map;
+    };
+
+    return (async (input: string | URL | Request, init?: RequestInit) => {
+        const { method, url } = describeRequest(input, init);
+        queues = queues || load();
+        const queue = (await queues).get(fixtureKey(method, url));
+        if (!queue || queue.length === 0) {
+            throw new Error(`No recorded fixture for ${method} ${url}`);
+        }
+        // 最後の1件は繰り返し返す（ページの再取得などに備える）
+        const fixture = queue.length > 1 ? queue.shift()! : queue[0];
+        const { status, headers, body } = fixture.response;
+        const text = typeof body === 'string' ? body : JSON.stringify(body);
+        return new Response(status === 204 || status === 304 ? null : text, { status, headers });
+    }) as typeof fetch;
+}
+
+/**
+ * 実際のリクエストを行い、レスポンスをフィクスチャのファイルに追記する fetch を作成する。
+ * 認証ヘッダーや Cookie は記録しない。
+ */
+export function createRecordingFetch(file: string, inner: typeof fetch = fetch): typeof fetch {
+    // 同じファイルに記録する複数のクライアントで記録を共有する
+    const recorded = recordings.get(file) || [];
+    recordings.set(file, recorded);
+
+    return (async (input: string | URL | Request, init?: RequestInit) => {
+        const { method, url } = describeRequest(input, init);
+        const response = await inner(input, init);
+        const text = await response.clone().text();
+
+        const headers: Record<string, string> = {};
+        for (const name of RECORDED_HEADERS) {
+            const value = response.headers.get(name);
+            if (value !== null) headers[name] = value;
+        }
+        let body: unknown = text;
+        if ((headers['content-type'] || '').includes('json') && text) {
+            try {
+                body = JSON.parse(text);
+            } catch {
+                // JSON として解析できない場合は文字列のまま記録する
+            }
+        }
+        recorded.push({ request: { method, url }, response: { status: response.status, headers, body } });
+
+        // 並行したリクエストで書き込みが前後しないよう直列化する
+        const previous = writes.get(file) || Promise.resolve();
+        const writing = previous.then(() => fs.writeFile(file, JSON.stringify(recorded, null, 2), 'utf-8'));
+        writes.set(file, writing);
+        await writing;
+        return response;
+    }) as typeof fetch;
+}
+
+/**
+ * 環境変数に応じて HTTP の実装を選ぶ。
+ * - MASTRA_PROVIDER_FIXTURES: 記録したフィクスチャを再生する（ネットワークに出ない）
+ * - MASTRA_PROVIDER_RECORD: 実際のレスポンスを記録する
+ */
+export function resolveFetch(override?: typeof fetch): typeof fetch {
+    if (override) return override;
+    if (process.env.MASTRA_PROVIDER_FIXTURES) {
+        return createFixtureFetch(process.env.MASTRA_PROVIDER_FIXTURES);
+    }
+    if (process.env.MASTRA_PROVIDER_RECORD) {
+        return createRecordingFetch(process.env.MASTRA_PROVIDER_RECORD);
+    }
+    return fetch;
+}
+
+/**
+ * トークンを明示の指定、設定された環境変数、サービスごとの既定の環境変数の順に探す。
+ */
+export function resolveToken(options: { token?: string | null; tokenEnv?: string }, variables: string[]): string | null {
+    if (options.token !== undefined) return options.token;
+    for (const variable of options.tokenEnv ? [options.tokenEnv, ...variables] : variables) {
+        const value = process.env[variable]?.trim();
+        if (value) return value;
+    }
+    return null;
+}
+
+function describeRequest(input: string | URL | Request, init?: RequestInit): { method: string; url: string } {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
+    const method = (init?.method || (typeof input === 'object' && 'method' in input ? input.method : 'GET')).toUpperCase();
+    return { method, url };
+}
+
+function fixtureKey(method: string, url: string): string {
+    // クエリの順序の違いは同じリクエストとして扱う
+    const parsed = new URL(url);
+    parsed.searchParams.sort();
+    return `${method.toUpperCase()} ${parsed.toString()}`;
+}
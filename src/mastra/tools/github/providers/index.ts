@@ -0,0 +1,211 @@
+import * as path from 'path';
+import { z } from 'zod';
+import { loadJsonConfig } from '../config';
+import { GitHubClient } from '../client';
+import { GitHostingProvider, PROVIDER_NAMES, ProviderFactory, ProviderKind, ProviderOptions, providerKindSchema } from './model';
+import { getGitHubClientForHost, githubProvider } from './github';
+import { gitlabProvider } from './gitlab';
+import { giteaProvider } from './gitea';
+import { bitbucketProvider } from './bitbucket';
+
+export * from './model';
+export { ProviderRequestError, createFixtureFetch, createRecordingFetch } from './http';
+export type { HttpFixture } from './http';
+
+const CONFIG_FILE = '.mastra-providers.json';
+
+// ホスト名から推定する場合の規則（gitlab.example.com など）
+const HOST_PATTERNS: Array<[RegExp, ProviderKind]> = [
+    [/^github\./i, 'github'],
+    [/^gitlab\./i, 'gitlab'],
+    [/^(gitea|forgejo)\./i, 'gitea'],
+];
+
+export const providerConfigSchema = z.object({
+    // ホスト名（ポートを含む）ごとの設定。セルフホストのサービスを URL から判定するために使う
+    hosts: z.record(z.object({
+        kind: providerKindSchema,
+        apiBaseUrl: z.string().url().optional(),
+        // トークンを読み込む環境変数名（ホストごとに別のトークンを使う場合）
+        tokenEnv: z.string().optional(),
+    }).strict()).default({}),
+}).strict();
+
+export type ProviderConfig = z.infer<typeof providerConfigSchema>;
+
+export interface HostedRepository {
+    kind: ProviderKind;
+    host: string;
+    owner: string;
+    repo: string;
+    // 設定ファイルで指定された場合のみ
+    apiBaseUrl: string | null;
+    tokenEnv: string | null;
+}
+
+const providers = new Map<ProviderKind, ProviderFactory>();
+
+/**
+ * プロバイダーを登録する。同じ種類のプロバイダーがある場合は置き換える。
+ */
+export function registerProvider(factory: ProviderFactory): void {
+    providers.set(factory.kind, factory);
+}
+
+export function listProviderKinds(): ProviderKind[] {
+    return Array.from(providers.keys());
+}
+
+export function getProviderFactory(kind: string): ProviderFactory {
+    const factory = providers.get(kind as ProviderKind);
+    if (!factory) {
+        throw new Error(`Unknown provider: ${kind} (available: ${listProviderKinds().join(', ')})`);
+    }
+    return factory;
+}
+
+/**
+ * リポジトリの URL（https・ssh・scp 形式）からホスティングサービスとリポジトリを判定する。
+ * provider を指定した場合はホスト名に関係なくそのサービスとして扱う。判定できない場合は null を返す。
+ */
+export async function detectProvider(
+    url: string,
+    options: { provider?: ProviderKind; config?: string } = {}
+): Promise<HostedRepository | null> {
+    const parsed = parseRepositoryUrl(url);
+    if (!parsed) return null;
+
+    const { config } = await loadProviderConfig(options.config);
+    const hostConfig = config.hosts[parsed.host];
+    const kind = options.provider || hostConfig?.kind || kindFromHost(parsed.host);
+    if (!kind) return null;
+
+    // GitLab のみサブグループを持つ。それ以外は先頭の2階層を所有者とリポジトリとする
+    const segments = kind === 'gitlab' ? parsed.segments : parsed.segments.slice(0, 2);
+    if (segments.length < 2) return null;
+
+    return {
+        kind,
+        host: parsed.host,
+        owner: segments.slice(0, -1).join('/'),
+        repo: segments[segments.length - 1],
+        apiBaseUrl: hostConfig?.apiBaseUrl ?? null,
+        tokenEnv: hostConfig?.tokenEnv ?? null,
+    };
+}
+
+/**
+ * URL、または所有者・リポジトリ名（とサービスの種類・ホスト）からリポジトリを特定する。
+ */
+export async function resolveHostedRepository(input: {
+    repoUrl?: string;
+    owner?: string;
+    repo?: string;
+    provider?: ProviderKind;
+    host?: string;
+}): Promise<HostedRepository> {
+    if (input.repoUrl) {
+        const detected = await detectProvider(input.repoUrl, { provider: input.provider });
+        if (!detected) {
+            throw new Error(`Could not detect the hosting provider from ${input.repoUrl} (set provider or add the host to ${CONFIG_FILE})`);
+        }
+        return detected;
+    }
+    if (!input.owner || !input.repo) {
+        throw new Error('Either repoUrl or both owner and repo are required');
+    }
+
+    const { config } = await loadProviderConfig();
+    const kind = input.provider || (input.host ? config.hosts[input.host]?.kind || kindFromHost(input.host) : null) || 'github';
+    const host = input.host || getProviderFactory(kind).hosts[0];
+    const hostConfig = config.hosts[host];
+    return {
+        kind,
+        host,
+        owner: input.owner,
+        repo: input.repo,
+        apiBaseUrl: hostConfig?.apiBaseUrl ?? null,
+        tokenEnv: hostConfig?.tokenEnv ?? null,
+    };
+}
+
+export function createProvider(
+    repository: Pick<HostedRepository, 'kind' | 'host' | 'apiBaseUrl' | 'tokenEnv'>,
+    options: Pick<ProviderOptions, 'token' | 'fetch'> = {}
+): GitHostingProvider {
+    return getProviderFactory(repository.kind).create({
+        host: repository.host,
+        apiBaseUrl: repository.apiBaseUrl ?? undefined,
+        tokenEnv: repository.tokenEnv ?? undefined,
+        ...options,
+    });
+}
+
+/**
+ * GitHub のリポジトリ（GitHub Enterprise Server を含む）の API クライアントを返す。
+ * API の URL とトークンの環境変数は、既定の api.github.com ではなく検出したリポジトリのホストの設定
+ * （.mastra-providers.json）に従うため、GitHub の API を呼び出す箇所はこのクライアントを使う。
+ */
+export async function getHostedGitHubClient(
+    repository: Pick<HostedRepository, 'kind' | 'host' | 'apiBaseUrl' | 'tokenEnv'>
+): Promise<GitHubClient> {
+    if (repository.kind !== 'github') {
+        throw new Error(`The GitHub API is not available for ${PROVIDER_NAMES[repository.kind]} repositories`);
+    }
+    return getGitHubClientForHost({
+        host: repository.host,
+        apiBaseUrl: repository.apiBaseUrl ?? undefined,
+        tokenEnv: repository.tokenEnv ?? undefined,
+    });
+}
+
+export async function loadProviderConfig(configPath?: string): Promise<{ config: ProviderConfig; source: string | null }> {
+    const loaded = await loadJsonConfig(providerConfigSchema, [path.join(process.cwd(), CONFIG_FILE)], configPath, 'Provider config');
+    return loaded ?? { config: { hosts: {} }, source: null };
+}
+
+/**
+ * URL をホスト名とパスの階層に分解する。ssh の場合はポートを除く（ウェブのホストと一致させる）。
+ */
+function parseRepositoryUrl(url: string): { host: string; segments: string[] } | null {
+    const trimmed = url.trim();
+    let host: string;
+    let pathname: string;
+
+    const scp = trimmed.match(/^(?:[^@/\s]+@)?([^:/\s]+):(?!\/\/)(.+)$/);
+    if (scp && !/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed)) {
+        host = scp[1];
+        pathname = scp[2];
+    } else {
+        let parsed: URL;
+        try {
+            parsed = new URL(trimmed);
+        } catch {
+            return null;
+        }
+        if (!['http:', 'https:', 'ssh:', 'git:'].includes(parsed.protocol)) return null;
+        host = parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.host : parsed.hostname;
+        pathname = decodeURIComponent(parsed.pathname);
+    }
+
+    const segments = pathname.replace(/[?#].*$/, '').split('/').filter(Boolean);
+    // GitLab のウェブの URL（/group/repo/-/tree/main など）は "-" より前がリポジトリ
+    const end = segments.indexOf('-');
+    const repoSegments = end >= 0 ? segments.slice(0, end) : segments;
+    if (repoSegments.length > 0) {
+        repoSegments[repoSegments.length - 1] = repoSegments[repoSegments.length - 1].replace(/\.git$/, '');
+    }
+    return { host: host.toLowerCase(), segments: repoSegments };
+}
+
+function kindFromHost(host: string): ProviderKind | null {
+    for (const factory of providers.values()) {
+        if (factory.hosts.includes(host)) return factory.kind;
+    }
+    return HOST_PATTERNS.find(([pattern]) => pattern.test(host))?.[1] ?? null;
+}
+
+registerProvider(githubProvider);
+registerProvider(gitlabProvider);
+registerProvider(giteaProvider);
+registerProvider(bitbucketProvider);
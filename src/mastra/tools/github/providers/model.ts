@@ -0,0 +1,126 @@
+import { z } from 'zod';
+
+export const providerKindSchema = z.enum(['github', 'gitlab', 'gitea', 'bitbucket']);
+
+// レポートや理由の文言に使う表示名
+export const PROVIDER_NAMES: Record<z.infer<typeof providerKindSchema>, string> = {
+    github: 'GitHub',
+    gitlab: 'GitLab',
+    gitea: 'Gitea',
+    bitbucket: 'Bitbucket',
+};
+
+export const cloneUrlsSchema = z.object({
+    https: z.string(),
+    ssh: z.string(),
+});
+
+export const repositoryInfoSchema = z.object({
+    provider: providerKindSchema,
+    name: z.string(),
+    fullName: z.string(),
+    description: z.string().nullable(),
+    defaultBranch: z.string(),
+    // ホスティングサービスが提供しない値は null（Bitbucket のスター数など）
+    stars: z.number().nullable(),
+    forks: z.number().nullable(),
+    openIssues: z.number().nullable(),
+    language: z.string().nullable(),
+    topics: z.array(z.string()),
+    lastUpdated: z.string(),
+    watchers: z.number().nullable(),
+    createdAt: z.string(),
+    // 最後にプッシュされた日時（リポジトリの設定変更は含まない）
+    lastPushed: z.string().nullable(),
+    license: z.string().nullable(),
+    homepage: z.string().nullable(),
+    archived: z.boolean(),
+    fork: z.boolean(),
+    visibility: z.string().nullable(),
+    webUrl: z.string(),
+    cloneUrls: cloneUrlsSchema,
+    // リリースがない場合は null
+    latestRelease: z.object({
+        tag: z.string(),
+        name: z.string(),
+        publishedAt: z.string().nullable(),
+    }).nullable(),
+});
+
+// イシューとプルリクエスト（GitLab のマージリクエストを含む）の共通形式
+export const hostedIssueSchema = z.object({
+    number: z.number(),
+    kind: z.enum(['issue', 'pull-request']),
+    title: z.string(),
+    state: z.enum(['open', 'closed', 'merged']),
+    author: z.string().nullable(),
+    labels: z.array(z.string()),
+    url: z.string(),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+    closedAt: z.string().nullable(),
+    mergedAt: z.string().nullable(),
+    // コメント数を返さない API の場合は null
+    comments: z.number().nullable(),
+});
+
+export const hostedReleaseSchema = z.object({
+    tag: z.string(),
+    name: z.string(),
+    publishedAt: z.string().nullable(),
+    prerelease: z.boolean(),
+    url: z.string().nullable(),
+});
+
+export type ProviderKind = z.infer<typeof providerKindSchema>;
+export type CloneUrls = z.infer<typeof cloneUrlsSchema>;
+export type RepositoryInfo = z.infer<typeof repositoryInfoSchema>;
+export type HostedIssue = z.infer<typeof hostedIssueSchema>;
+export type HostedRelease = z.infer<typeof hostedReleaseSchema>;
+
+export interface RepositoryCoordinates {
+    // GitLab ではサブグループを含む（group/subgroup）
+    owner: string;
+    repo: string;
+}
+
+export interface ListIssuesOptions {
+    state?: 'open' | 'closed' | 'all';
+    // 指定した日時以降に更新されたもののみ
+    since?: Date;
+    // 取得する件数の上限（既定は100件）
+    limit?: number;
+}
+
+export interface GitHostingProvider {
+    kind: ProviderKind;
+    // ウェブのホスト名（ポートを含む場合がある）
+    host: string;
+    apiBaseUrl: string;
+    getRepository(repository: RepositoryCoordinates): Promise<RepositoryInfo>;
+    listIssues(repository: RepositoryCoordinates, options?: ListIssuesOptions): Promise<HostedIssue[]>;
+    listPullRequests(repository: RepositoryCoordinates, options?: ListIssuesOptions): Promise<HostedIssue[]>;
+    // 新しい順。リリースの仕組みがないサービスでは空配列
+    listReleases(repository: RepositoryCoordinates, options?: { limit?: number }): Promise<HostedRelease[]>;
+    listTags(repository: RepositoryCoordinates, options?: { limit?: number }): Promise<string[]>;
+    cloneUrls(repository: RepositoryCoordinates): CloneUrls;
+}
+
+export interface ProviderOptions {
+    host: string;
+    // 省略時はホストから既定の API の URL を求める
+    apiBaseUrl?: string;
+    // 省略時は環境変数から探す。null の場合は認証しない
+    token?: string | null;
+    // トークンを読み込む環境変数名（既定の環境変数より優先する）
+    tokenEnv?: string;
+    // HTTP の実装（記録したフィクスチャの再生に差し替えられる）
+    fetch?: typeof fetch;
+}
+
+export interface ProviderFactory {
+    kind: ProviderKind;
+    // URL から自動判定するホスト（セルフホストは設定ファイルで追加する）
+    hosts: string[];
+    create(options: ProviderOptions): GitHostingProvider;
+}
@@ -0,0 +1,327 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { minimatch } from 'minimatch';
+import { z } from 'zod';
+import { aggregateComplexity, FileComplexity } from './complexity';
+import { loadJsonConfig } from './config';
+import { DeadCodeReport } from './deadcode';
+import { DuplicationReport } from './duplication';
+import { LicenseReport } from './licenses';
+import { SecretReport } from './secrets';
+import { VulnerabilityReport } from './vulnerabilities';
+import { analyzeCode, measureFileQuality } from './utils';
+
+const CONFIG_FILE = '.mastra-quality.json';
+
+// warn を超えると警告、fail を超えると不合格（下限の指標では下回った場合）
+export const qualityThresholdSchema = z.object({
+    warn: z.number().optional(),
+    fail: z.number().optional(),
+}).strict().refine(threshold => threshold.warn !== undefined || threshold.fail !== undefined, {
+    message: 'A gate needs at least one of "warn" or "fail"',
+});
+
+// null を指定するとその指標のゲートを無効にする
+const gate = () => qualityThresholdSchema.nullable().optional();
+
+// パスごとに上書きできる指標（対象ファイルのみで算出し直す）
+export const pathQualityGatesSchema = z.object({
+    averageCyclomatic: gate(),
+    maxCyclomatic: gate(),
+    averageCognitive: gate(),
+    maxCognitive: gate(),
+    maintainability: gate(),
+    documentation: gate(),
+}).strict();
+
+// リポジトリ全体でのみ評価する指標
+export const qualityGatesSchema = pathQualityGatesSchema.extend({
+    duplication: gate(),
+    dependencies: gate(),
+    vulnerabilities: gate(),
+    criticalVulnerabilities: gate(),
+    highVulnerabilities: gate(),
+    secrets: gate(),
+    deniedLicenses: gate(),
+    unknownLicenses: gate(),
+    licenseConflicts: gate(),
+    deadFiles: gate(),
+    unusedExports: gate(),
+}).strict();
+
+export const qualityConfigSchema = z.object({
+    gates: qualityGatesSchema.default({}),
+    // 先に一致した上書きが優先され、一致したファイルは他のスコープの評価から除かれる
+    overrides: z.array(z.object({
+        paths: z.array(z.string()).min(1),
+        gates: pathQualityGatesSchema,
+    })).default([]),
+}).strict();
+
+export const gateStatusSchema = z.enum(['passed', 'warning', 'failed']);
+
+export const gateEvaluationSchema = z.object({
+    gate: z.string(),
+    // repository: リポジトリ全体、それ以外は上書きのパターン（上書きに一致しなかったファイルは "*"）
+    scope: z.string(),
+    // 評価したファイル数（リポジトリ全体の指標は null）
+    files: z.number().nullable(),
+    value: z.number(),
+    direction: z.enum(['max', 'min']),
+    warn: z.number().nullable(),
+    fail: z.number().nullable(),
+    status: gateStatusSchema,
+    reason: z.string(),
+});
+
+export const qualityGateReportSchema = z.object({
+    config: z.object({
+        // 読み込んだ設定ファイル（既定のゲートのみの場合は null）
+        source: z.string().nullable(),
+    }),
+    status: gateStatusSchema,
+    // 不合格のゲートが1つもなければ true（警告は合否に影響しない）
+    passed: z.boolean(),
+    gates: z.array(gateEvaluationSchema),
+    counts: z.object({
+        passed: z.number(),
+        warning: z.number(),
+        failed: z.number(),
+    }),
+});
+
+export type QualityThreshold = z.infer<typeof qualityThresholdSchema>;
+export type QualityGates = z.infer<typeof qualityGatesSchema>;
+export type QualityConfig = z.infer<typeof qualityConfigSchema>;
+export type GateStatus = z.infer<typeof gateStatusSchema>;
+export type GateEvaluation = z.infer<typeof gateEvaluationSchema>;
+export type QualityGateReport = z.infer<typeof qualityGateReportSchema>;
+
+type PathGate = keyof z.infer<typeof pathQualityGatesSchema>;
+type QualityGate = keyof QualityGates;
+
+export interface QualityGateInputs {
+    analysis: Awaited<ReturnType<typeof analyzeCode>>;
+    vulnerabilities: VulnerabilityReport;
+    secrets: SecretReport;
+    licenses: LicenseReport;
+    duplication: DuplicationReport;
+    deadCode: DeadCodeReport;
+}
+
+export interface QualityGateOptions {
+    // 設定ファイルのパス（省略時は .mastra-quality.json を探す）
+    config?: string;
+}
+
+// 以前のレポートで固定されていた閾値を既定のゲートとする
+export const DEFAULT_QUALITY_GATES: QualityGates = {
+    averageCyclomatic: { warn: 5, fail: 10 },
+    maintainability: { warn: 0.8, fail: 0.6 },
+    documentation: { warn: 0.3, fail: 0.1 },
+};
+
+// 値が小さいほど良い指標は max、大きいほど良い指標は min
+const LOWER_BOUND_GATES: QualityGate[] = ['maintainability', 'documentation'];
+const PATH_GATES: PathGate[] = Object.keys(pathQualityGatesSchema.shape) as PathGate[];
+const REPOSITORY_GATES = (Object.keys(qualityGatesSchema.shape) as QualityGate[])
+    .filter(name => !(PATH_GATES as QualityGate[]).includes(name));
+
+// 割合として表示する指標
+const RATIO_GATES: QualityGate[] = ['maintainability', 'documentation', 'duplication'];
+
+/**
+ * 解析結果を品質ゲートで評価し、ゲートごとの合否と理由を返す。
+ * パスごとの上書きがある場合、複雑度・保守性・ドキュメント化率は上書きの対象ファイルごとに算出し直す。
+ */
+export async function evaluateQualityGates(
+    repoPath: string,
+    inputs: QualityGateInputs,
+    options: QualityGateOptions = {}
+): Promise<QualityGateReport> {
+    const { config, source } = await loadQualityConfig(repoPath, options.config);
+    const gates: QualityGates = { ...DEFAULT_QUALITY_GATES, ...config.gates };
+    const evaluations: GateEvaluation[] = [];
+
+    const repositoryMetrics = collectRepositoryMetrics(inputs);
+    for (const name of REPOSITORY_GATES) {
+        const threshold = gates[name];
+        if (!threshold) continue;
+        evaluations.push(evaluateGate(name, 'repository', null, repositoryMetrics[name], threshold));
+    }
+
+    if (config.overrides.length === 0) {
+        // 上書きがなければレポートと同じ集計値をそのまま使う
+        const { analysis } = inputs;
+        const metrics: Record<PathGate, number> = {
+            averageCyclomatic: analysis.analysis.complexity.averageCyclomatic,
+            maxCyclomatic: analysis.analysis.complexity.maxCyclomatic,
+            averageCognitive: analysis.analysis.complexity.averageCognitive,
+            maxCognitive: analysis.analysis.complexity.maxCognitive,
+            maintainability: analysis.analysis.maintainability,
+            documentation: analysis.analysis.documentation,
+        };
+        for (const name of PATH_GATES) {
+            const threshold = gates[name];
+            if (!threshold) continue;
+            evaluations.push(evaluateGate(name, 'repository', analysis.codeMetrics.fileStats.length, metrics[name], threshold));
+        }
+    } else {
+        const scopes = assignScopes(inputs.analysis.codeMetrics.fileStats.map(file => file.path), config.overrides);
+        for (const scope of scopes) {
+            if (scope.files.length === 0) continue;
+            const scopeGates = { ...gates, ...scope.gates };
+            const metrics = await collectPathMetrics(repoPath, scope.files, inputs);
+            for (const name of PATH_GATES) {
+                const threshold = scopeGates[name];
+                if (!threshold) continue;
+                evaluations.push(evaluateGate(name, scope.label, scope.files.length, metrics[name], threshold));
+            }
+        }
+    }
+
+    const counts = {
+        passed: evaluations.filter(evaluation => evaluation.status === 'passed').length,
+        warning: evaluations.filter(evaluation => evaluation.status === 'warning').length,
+        failed: evaluations.filter(evaluation => evaluation.status === 'failed').length,
+    };
+
+    return {
+        config: { source },
+        status: counts.failed > 0 ? 'failed' : counts.warning > 0 ? 'warning' : 'passed',
+        passed: counts.failed === 0,
+        gates: evaluations,
+        counts,
+    };
+}
+
+function collectRepositoryMetrics(inputs: QualityGateInputs): Record<QualityGate, number> {
+    const { analysis, vulnerabilities, secrets, licenses, duplication, deadCode } = inputs;
+    const { complexity } = analysis.analysis;
+
+    return {
+        averageCyclomatic: complexity.averageCyclomatic,
+        maxCyclomatic: complexity.maxCyclomatic,
+        averageCognitive: complexity.averageCognitive,
+        maxCognitive: complexity.maxCognitive,
+        maintainability: analysis.analysis.maintainability,
+        documentation: analysis.analysis.documentation,
+        duplication: duplication.percentage,
+        dependencies: analysis.dependencies.length,
+        vulnerabilities: vulnerabilities.findings.length,
+        criticalVulnerabilities: vulnerabilities.counts.critical ?? 0,
+        highVulnerabilities: vulnerabilities.counts.high ?? 0,
+        secrets: secrets.counts.total,
+        deniedLicenses: licenses.summary.denied ?? 0,
+        unknownLicenses: licenses.dependencies.filter(dep => dep.license === null).length,
+        licenseConflicts: licenses.conflicts.length,
+        deadFiles: deadCode.counts.deadFiles,
+        unusedExports: deadCode.counts.unusedExports,
+    };
+}
+
+/**
+ * ファイルを最初に一致した上書きに割り当てる。どの上書きにも一致しないファイルは "*" に残す。
+ */
+function assignScopes(
+    files: string[],
+    overrides: QualityConfig['overrides']
+): Array<{ label: string; gates: QualityConfig['overrides'][number]['gates']; files: string[] }> {
+    const scopes = overrides.map(override => ({ label: override.paths.join(', '), gates: override.gates, files: [] as string[] }));
+    const rest = { label: '*', gates: {}, files: [] as string[] };
+
+    for (const file of files) {
+        const index = overrides.findIndex(override => override.paths.some(pattern => minimatch(file, pattern, { dot: true })));
+        (index >= 0 ? scopes[index] : rest).files.push(file);
+    }
+    return [rest, ...scopes];
+}
+
+async function collectPathMetrics(repoPath: string, files: string[], inputs: QualityGateInputs): Promise<Record<PathGate, number>> {
+    const { languageStats, fileStats } = inputs.analysis.codeMetrics;
+    const included = new Set(files);
+    const complexities: FileComplexity[] = [];
+    let totalMaintainability = 0;
+    let measured = 0;
+
+    for (const file of files) {
+        let content: string;
+        try {
+            content = await fs.readFile(path.join(repoPath, file), 'utf-8');
+        } catch {
+            continue;
+        }
+        const quality = measureFileQuality(content, file);
+        if (quality.complexity) complexities.push(quality.complexity);
+        totalMaintainability += quality.maintainability;
+        measured++;
+    }
+
+    // ドキュメント化率はリポジトリ全体と同じく、プログラミング言語のファイルのみで算出する
+    const programming = fileStats.filter(file => included.has(file.path) && languageStats[file.language]?.type === 'programming');
+    const code = programming.reduce((sum, file) => sum + file.code, 0);
+    const comment = programming.reduce((sum, file) => sum + file.comment, 0);
+    const complexity = aggregateComplexity(complexities, 0);
+
+    return {
+        averageCyclomatic: complexity.averageCyclomatic,
+        maxCyclomatic: complexity.maxCyclomatic,
+        averageCognitive: complexity.averageCognitive,
+        maxCognitive: complexity.maxCognitive,
+        maintainability: measured > 0 ? totalMaintainability / measured : 0,
+        documentation: code + comment > 0 ? comment / (code + comment) : 0,
+    };
+}
+
+function evaluateGate(
+    name: QualityGate,
+    scope: string,
+    files: number | null,
+    value: number,
+    threshold: QualityThreshold
+): GateEvaluation {
+    const direction = LOWER_BOUND_GATES.includes(name) ? 'min' : 'max';
+    const exceeds = (limit: number | undefined) =>
+        limit !== undefined && (direction === 'max' ? value > limit : value < limit);
+    const status: GateStatus = exceeds(threshold.fail) ? 'failed' : exceeds(threshold.warn) ? 'warning' : 'passed';
+
+    const format = (number: number) => RATIO_GATES.includes(name)
+        ? `${(number * 100).toFixed(1)}%`
+        : Number.isInteger(number) ? String(number) : number.toFixed(2);
+    const relation = direction === 'max' ? 'above' : 'below';
+    const limits = [
+        threshold.warn !== undefined ? `warning ${relation} ${format(threshold.warn)}` : null,
+        threshold.fail !== undefined ? `failure ${relation} ${format(threshold.fail)}` : null,
+    ].filter(Boolean).join(', ');
+
+    let reason: string;
+    if (status === 'failed') {
+        reason = `${name} is ${format(value)}, ${relation} the failure threshold of ${format(threshold.fail!)}`;
+    } else if (status === 'warning') {
+        reason = `${name} is ${format(value)}, ${relation} the warning threshold of ${format(threshold.warn!)}`;
+    } else {
+        reason = `${name} is ${format(value)} (${limits})`;
+    }
+
+    return {
+        gate: name,
+        scope,
+        files,
+        value,
+        direction,
+        warn: threshold.warn ?? null,
+        fail: threshold.fail ?? null,
+        status,
+        reason,
+    };
+}
+
+async function loadQualityConfig(repoPath: string, configPath?: string): Promise<{ config: QualityConfig; source: string | null }> {
+    const loaded = await loadJsonConfig(
+        qualityConfigSchema,
+        [path.join(repoPath, CONFIG_FILE), path.join(process.cwd(), CONFIG_FILE)],
+        configPath,
+        'Quality gate config'
+    );
+    return loaded ?? { config: qualityConfigSchema.parse({}), source: null };
+}
@@ -0,0 +1,475 @@
+import * as path from 'path';
+import { simpleGit } from 'simple-git';
+import { z } from 'zod';
+import { Octokit } from '@octokit/rest';
+import { NEW_FUNCTION_COGNITIVE, NEW_FUNCTION_CYCLOMATIC, indexFunctions } from './compare';
+import { isComplexitySupported } from './complexity';
+import { detectLanguage } from './languages';
+import { dependencySchema, parseManifest } from './manifests';
+import { scanSecrets, secretSeveritySchema } from './secrets';
+import { measureFileQuality } from './utils';
+
+// 保守性指数がこれ以上下がったファイルにコメントする
+const MAINTAINABILITY_DROP = 0.1;
+
+const metricDeltaSchema = z.object({
+    base: z.number(),
+    head: z.number(),
+    delta: z.number(),
+});
+
+export const changedFileSchema = z.object({
+    file: z.string(),
+    status: z.enum(['added', 'modified', 'deleted', 'renamed']),
+    previousFile: z.string().nullable(),
+    language: z.string().nullable(),
+    added: z.number(),
+    deleted: z.number(),
+    // head 側で追加・変更された行の範囲（削除のみのハンクは含まない）
+    hunks: z.array(z.object({
+        start: z.number(),
+        end: z.number(),
+    })),
+    // 解析できないファイル（バイナリ・削除されたファイルなど）は null
+    maintainability: metricDeltaSchema.nullable(),
+});
+
+export const reviewCommentSchema = z.object({
+    path: z.string(),
+    // head 側の行番号。差分で追加・変更された行のみを指す
+    line: z.number(),
+    severity: z.enum(['error', 'warning', 'info']),
+    category: z.enum(['complexity', 'secret', 'dependency', 'metrics', 'review']),
+    body: z.string(),
+    // analyzer: 解析結果から生成、agent: githubAgent が作成
+    source: z.enum(['analyzer', 'agent']),
+});
+
+export const changeAnalysisSchema = z.object({
+    base: z.object({ ref: z.string(), commit: z.string() }),
+    head: z.object({ ref: z.string(), commit: z.string() }),
+    // 差分の起点（base と head の分岐点）
+    mergeBase: z.string(),
+    files: z.array(changedFileSchema),
+    totals: z.object({
+        files: z.number(),
+        added: z.number(),
+        deleted: z.number(),
+    }),
+    // 変更された行を含む関数のうち、複雑度が上がったものと閾値を超える新しい関数
+    complexity: z.array(z.object({
+        name: z.string(),
+        file: z.string(),
+        line: z.number(),
+        endLine: z.number(),
+        cyclomatic: metricDeltaSchema,
+        cognitive: metricDeltaSchema,
+        isNew: z.boolean(),
+    })),
+    dependencies: z.object({
+        added: z.array(dependencySchema),
+        removed: z.array(dependencySchema),
+        changed: z.array(z.object({
+            name: z.string(),
+            ecosystem: z.string(),
+            scope: z.enum(['runtime', 'dev']),
+            manifest: z.string(),
+            from: z.string(),
+            to: z.string(),
+        })),
+    }),
+    // 追加・変更された行で検出した認証情報（値は伏せ字）
+    secrets: z.array(z.object({
+        rule: z.string(),
+        description: z.string(),
+        severity: secretSeveritySchema,
+        file: z.string(),
+        line: z.number(),
+        redacted: z.string(),
+    })),
+    comments: z.array(reviewCommentSchema),
+    // 差分の行に対応付けられない指摘（依存関係の削除など）
+    notes: z.array(z.string()),
+});
+
+export type ChangedFile = z.infer<typeof changedFileSchema>;
+export type ReviewComment = z.infer<typeof reviewCommentSchema>;
+export type ChangeAnalysis = z.infer<typeof changeAnalysisSchema>;
+
+export interface ChangeAnalysisOptions {
+    base: { ref: string; commit: string };
+    head: { ref: string; commit: string };
+    secretAllowlist?: string;
+}
+
+/**
+ * head のチェックアウトで base の ref を解決する。ローカルにない場合は origin から取得する。
+ * 差分はプルリクエストと同じく、base と head の分岐点から求める。
+ */
+export async function resolveDiffBase(repoPath: string, baseRef: string, headCommit: string): Promise<{ commit: string; mergeBase: string }> {
+    const git = simpleGit(repoPath);
+    const candidates = [baseRef, `origin/${baseRef}`];
+    let commit = '';
+    for (const candidate of candidates) {
+        commit = (await git.revparse(['--verify', '--quiet', `${candidate}^{commit}`]).catch(() => '')).trim();
+        if (commit) break;
+    }
+    if (!commit) {
+        await git.fetch(['origin', baseRef]);
+        commit = (await git.revparse(['FETCH_HEAD^{commit}'])).trim();
+    }
+
+    const mergeBase = (await git.raw(['merge-base', commit, headCommit]).catch(() => '')).trim();
+    if (!mergeBase) {
+        throw new Error(`No common ancestor between ${baseRef} and ${headCommit}`);
+    }
+    return { commit, mergeBase };
+}
+
+/**
+ * 分岐点から head までの変更を、変更されたファイルと行に限定して解析する。
+ * 複雑度・保守性・依存関係は分岐点のファイルと比較し、認証情報は追加された行のみを対象にする。
+ */
+export async function analyzeChanges(repoPath: string, mergeBase: string, options: ChangeAnalysisOptions): Promise<ChangeAnalysis> {
+    const git = simpleGit(repoPath);
+    const files = await readChangedFiles(repoPath, mergeBase, options.head.commit);
+    const readAt = (commit: string, file: string) => git.show([`${commit}:${file}`]).catch(() => null);
+
+    const comments: ReviewComment[] = [];
+    const notes: string[] = [];
+    const complexity: ChangeAnalysis['complexity'] = [];
+    const dependencies: ChangeAnalysis['dependencies'] = { added: [], removed: [], changed: [] };
+
+    for (const change of files) {
+        if (change.status === 'deleted') continue;
+        const head = await readAt(options.head.commit, change.file);
+        if (head === null) continue;
+        const baseFile = change.previousFile ?? change.file;
+        const base = change.status === 'added' ? null : await readAt(mergeBase, baseFile);
+        const contents: ChangedContents = { change, baseFile, base, head };
+
+        comments.push(...reviewMaintainability(contents));
+        const functions = reviewFunctionComplexity(contents);
+        complexity.push(...functions.complexity);
+        comments.push(...functions.comments);
+        const manifest = reviewManifestChanges(contents, dependencies);
+        comments.push(...manifest.comments);
+        notes.push(...manifest.notes);
+    }
+
+    const secrets = await scanChangedLines(repoPath, files, options.secretAllowlist);
+    comments.push(...secrets.comments);
+
+    return {
+        base: options.base,
+        head: options.head,
+        mergeBase,
+        files,
+        totals: {
+            files: files.length,
+            added: files.reduce((sum, change) => sum + change.added, 0),
+            deleted: files.reduce((sum, change) => sum + change.deleted, 0),
+        },
+        complexity,
+        dependencies,
+        secrets: secrets.findings,
+        comments: sortComments(comments),
+        notes,
+    };
+}
+
+interface ChangedContents {
+    change: ChangedFile;
+    // 分岐点でのファイル名（名前が変更された場合は変更前の名前）
+    baseFile: string;
+    // 追加されたファイルでは null
+    base: string | null;
+    head: string;
+}
+
+/**
+ * ファイルの保守性指数を比較して change.maintainability に記録し、大きく下がった場合はコメントする。
+ */
+function reviewMaintainability({ change, baseFile, base, head }: ChangedContents): ReviewComment[] {
+    if (!change.language) return [];
+
+    const headQuality = measureFileQuality(head, change.file).maintainability;
+    const baseQuality = base !== null ? measureFileQuality(base, baseFile).maintainability : headQuality;
+    change.maintainability = { base: baseQuality, head: headQuality, delta: headQuality - baseQuality };
+
+    const line = change.hunks[0]?.start;
+    if (base === null || baseQuality - headQuality < MAINTAINABILITY_DROP || line === undefined) return [];
+    return [{
+        path: change.file,
+        line,
+        severity: 'info',
+        category: 'metrics',
+        body: `Maintainability index of this file dropped from ${formatPercentage(baseQuality)} to ${formatPercentage(headQuality)}.`,
+        source: 'analyzer',
+    }];
+}
+
+/**
+ * 変更された行を含む関数のうち、複雑度が上がったものと閾値を超える新しい関数を集める。
+ * 閾値に達していない小さな増加はコメントせず、集計のみに含める。
+ */
+function reviewFunctionComplexity({ change, baseFile, base, head }: ChangedContents): {
+    complexity: ChangeAnalysis['complexity'];
+    comments: ReviewComment[];
+} {
+    const complexity: ChangeAnalysis['complexity'] = [];
+    const comments: ReviewComment[] = [];
+    if (!isComplexitySupported(change.file)) return { complexity, comments };
+
+    const baseFunctions = base !== null ? indexFunctions(base, baseFile) : new Map();
+    for (const [key, fn] of indexFunctions(head, change.file)) {
+        const endLine = fn.line + fn.length - 1;
+        const anchor = firstChangedLine(change, fn.line, endLine);
+        if (anchor === null) continue;
+
+        const previous = baseFunctions.get(key);
+        const overThreshold = fn.cyclomatic >= NEW_FUNCTION_CYCLOMATIC || fn.cognitive >= NEW_FUNCTION_COGNITIVE;
+        const regressed = previous
+            ? fn.cyclomatic > previous.cyclomatic || fn.cognitive > previous.cognitive
+            : overThreshold;
+        if (!regressed) continue;
+
+        complexity.push({
+            name: fn.name,
+            file: change.file,
+            line: fn.line,
+            endLine,
+            cyclomatic: delta(previous?.cyclomatic ?? 0, fn.cyclomatic),
+            cognitive: delta(previous?.cognitive ?? 0, fn.cognitive),
+            isNew: !previous,
+        });
+        if (!overThreshold) continue;
+
+        comments.push({
+            path: change.file,
+            line: anchor,
+            severity: 'warning',
+            category: 'complexity',
+            body: previous
+                ? `\`${fn.name}\` became more complex: cyclomatic ${previous.cyclomatic} → ${fn.cyclomatic}, cognitive ${previous.cognitive} → ${fn.cognitive}. Consider extracting parts of it.`
+                : `New function \`${fn.name}\` has cyclomatic complexity ${fn.cyclomatic} and cognitive complexity ${fn.cognitive}. Consider splitting it up.`,
+            source: 'analyzer',
+        });
+    }
+    return { complexity, comments };
+}
+
+/**
+ * マニフェストの依存関係を分岐点と比較し、dependencies に追加・変更・削除を記録する。
+ * 差分の行に対応付けられない指摘（削除など）は notes に残す。
+ */
+function reviewManifestChanges(
+    { change, baseFile, base, head }: ChangedContents,
+    dependencies: ChangeAnalysis['dependencies']
+): { comments: ReviewComment[]; notes: string[] } {
+    const comments: ReviewComment[] = [];
+    const notes: string[] = [];
+    const headManifest = parseManifest(path.basename(change.file), head, change.file);
+    if (!headManifest) return { comments, notes };
+
+    const baseManifest = base !== null ? parseManifest(path.basename(baseFile), base, change.file) : null;
+    const key = (dep: { name: string; scope: string }) => `${dep.scope}:${dep.name}`;
+    const before = new Map((baseManifest?.dependencies || []).map(dep => [key(dep), dep]));
+    const after = new Map(headManifest.dependencies.map(dep => [key(dep), dep]));
+    const headLines = head.split('\n');
+
+    for (const [name, dep] of after) {
+        const previous = before.get(name);
+        if (previous && previous.version === dep.version) continue;
+        if (previous) {
+            dependencies.changed.push({ name: dep.name, ecosystem: dep.ecosystem, scope: dep.scope, manifest: dep.manifest, from: previous.version, to: dep.version });
+        } else {
+            dependencies.added.push(dep);
+        }
+
+        const body = previous
+            ? `${dep.scope === 'dev' ? 'Dev dependency' : 'Dependency'} \`${dep.name}\` changed from ${previous.version || '*'} to ${dep.version || '*'}.`
+            : `New ${dep.scope === 'dev' ? 'dev ' : ''}dependency \`${dep.name}\`${dep.version ? `@${dep.version}` : ''} (${dep.ecosystem}). Check its license, maintenance status and known vulnerabilities.`;
+        const line = findChangedLine(change, headLines, dep.name);
+        if (line !== null) {
+            comments.push({ path: change.file, line, severity: 'info', category: 'dependency', body, source: 'analyzer' });
+        } else {
+            notes.push(`${change.file}: ${body}`);
+        }
+    }
+    for (const [name, dep] of before) {
+        if (after.has(name)) continue;
+        dependencies.removed.push(dep);
+        notes.push(`${change.file}: Removed ${dep.scope === 'dev' ? 'dev ' : ''}dependency \`${dep.name}\`.`);
+    }
+    return { comments, notes };
+}
+
+/**
+ * 変更されたファイルを検査し、追加・変更された行で検出した認証情報のみを返す。
+ */
+async function scanChangedLines(repoPath: string, files: ChangedFile[], allowlist?: string): Promise<{
+    findings: ChangeAnalysis['secrets'];
+    comments: ReviewComment[];
+}> {
+    const scanned = await scanSecrets(repoPath, {
+        allowlist,
+        history: false,
+        files: files.filter(change => change.status !== 'deleted').map(change => change.file),
+        limit: Number.MAX_SAFE_INTEGER,
+    });
+    const findings = scanned.findings
+        .filter(finding => isChangedLine(files, finding.file, finding.line))
+        .map(finding => ({
+            rule: finding.rule,
+            description: finding.description,
+            severity: finding.severity,
+            file: finding.file,
+            line: finding.line,
+            redacted: finding.redacted,
+        }));
+
+    return {
+        findings,
+        comments: findings.map((secret): ReviewComment => ({
+            path: secret.file,
+            line: secret.line,
+            severity: 'error',
+            category: 'secret',
+            body: `Possible ${secret.description} committed (\`${secret.redacted}\`). Remove it from the change and rotate the credential.`,
+            source: 'analyzer',
+        })),
+    };
+}
+
+/**
+ * git diff（前後の行なし）から、変更されたファイルと head 側で追加・変更された行の範囲を求める。
+ */
+export async function readChangedFiles(repoPath: string, from: string, to: string): Promise<ChangedFile[]> {
+    const diff = await simpleGit(repoPath).raw(['diff', '--unified=0', '--no-color', '--no-ext-diff', '-M', from, to]);
+    const files: ChangedFile[] = [];
+    let current: ChangedFile | null = null;
+
+    for (const line of diff.split('\n')) {
+        const header = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+        if (header) {
+            current = {
+                file: header[2],
+                status: 'modified',
+                previousFile: null,
+                language: null,
+                added: 0,
+                deleted: 0,
+                hunks: [],
+                maintainability: null,
+            };
+            files.push(current);
+            continue;
+        }
+        if (!current) continue;
+
+        if (line.startsWith('new file mode')) current.status = 'added';
+        else if (line.startsWith('deleted file mode')) current.status = 'deleted';
+        else if (line.startsWith('rename from ')) {
+            current.status = 'renamed';
+            current.previousFile = line.slice('rename from '.length);
+        } else if (line.startsWith('rename to ')) current.file = line.slice('rename to '.length);
+        else if (line.startsWith('+++ b/')) current.file = line.slice('+++ b/'.length);
+        else {
+            const hunk = line.match(/^@@ -\d+(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+            if (hunk) {
+                const deleted = hunk[1] === undefined ? 1 : Number(hunk[1]);
+                const start = Number(hunk[2]);
+                const added = hunk[3] === undefined ? 1 : Number(hunk[3]);
+                current.added += added;
+                current.deleted += deleted;
+                if (added > 0) current.hunks.push({ start, end: start + added - 1 });
+            }
+        }
+    }
+
+    for (const change of files) {
+        change.language = change.status === 'deleted' ? null : detectLanguage(change.file);
+    }
+    return files;
+}
+
+/**
+ * レビュー用に差分の本文を返す。行番号を読み取れるよう前後3行を含め、上限を超える部分は省く。
+ */
+export async function readPatch(repoPath: string, from: string, to: string, maxLength: number = 60000): Promise<{ patch: string; truncated: boolean }> {
+    const patch = await simpleGit(repoPath).raw(['diff', '--unified=3', '--no-color', '--no-ext-diff', '-M', from, to]);
+    if (patch.length <= maxLength) {
+        return { patch, truncated: false };
+    }
+    // ハンクの途中で切らないよう、上限より前の最後のファイルの区切りで切る
+    const cut = patch.lastIndexOf('\ndiff --git ', maxLength);
+    return { patch: patch.slice(0, cut > 0 ? cut + 1 : maxLength), truncated: true };
+}
+
+/**
+ * 行が差分で追加・変更された行かどうか。GitHub のレビューコメントはこれらの行にのみ付けられる。
+ */
+export function isChangedLine(files: ChangedFile[], file: string, line: number): boolean {
+    const change = files.find(entry => entry.file === file);
+    return !!change && change.hunks.some(hunk => line >= hunk.start && line <= hunk.end);
+}
+
+export function sortComments(comments: ReviewComment[]): ReviewComment[] {
+    const order = { error: 0, warning: 1, info: 2 };
+    return [...comments].sort((a, b) =>
+        a.path.localeCompare(b.path) || a.line - b.line || order[a.severity] - order[b.severity]);
+}
+
+export interface PostReviewOptions {
+    owner: string;
+    repo: string;
+    pullNumber: number;
+    // レビュー対象の head のコミット（コメントの行番号はこのコミットの内容に対応する）
+    commit: string;
+    body: string;
+    comments: ReviewComment[];
+}
+
+/**
+ * 行に紐づくコメントをまとめて1つのレビューとして投稿する。承認・変更要求はせずコメントのみとする。
+ */
+export async function postReview(octokit: Octokit, options: PostReviewOptions): Promise<{ id: number; url: string }> {
+    const { data } = await octokit.pulls.createReview({
+        owner: options.owner,
+        repo: options.repo,
+        pull_number: options.pullNumber,
+        commit_id: options.commit,
+        event: 'COMMENT',
+        body: options.body,
+        comments: options.comments.map(comment => ({
+            path: comment.path,
+            line: comment.line,
+            side: 'RIGHT',
+            body: comment.body,
+        })),
+    });
+    return { id: data.id, url: data.html_url };
+}
+
+function firstChangedLine(change: ChangedFile, start: number, end: number): number | null {
+    const hunk = change.hunks.find(entry => entry.end >= start && entry.start <= end);
+    return hunk ? Math.max(hunk.start, start) : null;
+}
+
+function findChangedLine(change: ChangedFile, lines: string[], text: string): number | null {
+    for (const hunk of change.hunks) {
+        for (let line = hunk.start; line <= hunk.end; line++) {
+            if (lines[line - 1]?.includes(text)) return line;
+        }
+    }
+    return null;
+}
+
+function delta(base: number, head: number): z.infer<typeof metricDeltaSchema> {
+    return { base, head, delta: head - base };
+}
+
+function formatPercentage(value: number): string {
+    return `${(value * 100).toFixed(1)}%`;
+}
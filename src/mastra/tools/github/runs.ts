@@ -0,0 +1,226 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { simpleGit } from 'simple-git';
+import { z } from 'zod';
+import { analyzeCode } from './utils';
+
+export const runMetricsSchema = z.object({
+    files: z.number(),
+    code: z.number(),
+    comment: z.number(),
+    functions: z.number(),
+    averageCyclomatic: z.number(),
+    maxCyclomatic: z.number(),
+    averageCognitive: z.number(),
+    maintainability: z.number(),
+    documentation: z.number(),
+    dependencies: z.number(),
+    // 重複率（解析していない場合は null）
+    duplication: z.number().nullable(),
+});
+
+export const analysisRunSchema = z.object({
+    id: z.string(),
+    repository: z.object({
+        name: z.string(),
+        location: z.string(),
+    }),
+    commit: z.string(),
+    // コミットの日時（作業ディレクトリが git リポジトリでない場合は null）
+    committedAt: z.string().nullable(),
+    timestamp: z.string(),
+    // workflow: github-workflow の実行結果、history: トレンド分析で過去のコミットを解析した結果
+    origin: z.enum(['workflow', 'history']),
+    metrics: runMetricsSchema,
+    languages: z.record(z.number()),
+    dependencies: z.array(z.object({
+        name: z.string(),
+        version: z.string(),
+        ecosystem: z.string(),
+        scope: z.enum(['runtime', 'dev']),
+    })),
+    // 値そのものは保存せず、スキャナーごとの指摘の識別子と深刻度のみを保存する
+    findings: z.array(z.object({
+        scanner: z.string(),
+        id: z.string(),
+        severity: z.string(),
+    })),
+});
+
+// トレンド分析で解析できなかったコミット（解析対象のファイルがない、worktree を作成できないなど）
+export const skippedCommitSchema = z.object({
+    commit: z.string(),
+    reason: z.string(),
+});
+
+export type RunMetrics = z.infer<typeof runMetricsSchema>;
+export type AnalysisRun = z.infer<typeof analysisRunSchema>;
+export type SkippedCommit = z.infer<typeof skippedCommitSchema>;
+
+interface RunInput {
+    repository: AnalysisRun['repository'];
+    repoPath: string;
+    commit: string;
+    origin: AnalysisRun['origin'];
+    analysis: Awaited<ReturnType<typeof analyzeCode>>;
+    duplication?: number | null;
+    findings?: AnalysisRun['findings'];
+}
+
+export const getRunsDir = () => {
+    return path.join(process.cwd(), '.mastra', 'runs');
+};
+
+/**
+ * コード解析の結果から、保存用の解析結果を組み立てる。
+ */
+export async function createAnalysisRun(input: RunInput): Promise<AnalysisRun> {
+    const { analysis } = input;
+    const { complexity } = analysis.analysis;
+    const timestamp = new Date().toISOString();
+
+    return {
+        id: createHash('md5').update(`${input.repository.location}\u0000${input.commit}\u0000${timestamp}`).digest('hex').slice(0, 12),
+        repository: input.repository,
+        commit: input.commit,
+        committedAt: await readCommitDate(input.repoPath, input.commit),
+        timestamp,
+        origin: input.origin,
+        metrics: {
+            files: analysis.codeMetrics.totalFiles,
+            code: analysis.codeMetrics.totalCode,
+            comment: analysis.codeMetrics.totalComment,
+            functions: complexity.functionCount,
+            averageCyclomatic: complexity.averageCyclomatic,
+            maxCyclomatic: complexity.maxCyclomatic,
+            averageCognitive: complexity.averageCognitive,
+            maintainability: analysis.analysis.maintainability,
+            documentation: analysis.analysis.documentation,
+            dependencies: analysis.dependencies.length,
+            duplication: input.duplication ?? null,
+        },
+        languages: Object.fromEntries(Object.entries(analysis.codeMetrics.languageStats).map(([language, stat]) => [language, stat.code])),
+        dependencies: analysis.dependencies.map(dep => ({
+            name: dep.name,
+            version: dep.version,
+            ecosystem: dep.ecosystem,
+            scope: dep.scope,
+        })),
+        findings: input.findings || [],
+    };
+}
+
+/**
+ * リポジトリごとにディレクトリを分けて、解析結果を1回ごとに JSON ファイルとして保存する。
+ */
+export async function saveAnalysisRun(run: AnalysisRun): Promise<string> {
+    const directory = getRepositoryRunsDir(run.repository.location);
+    await fs.mkdir(directory, { recursive: true });
+
+    const file = path.join(directory, `${run.timestamp.replace(/[:.]/g, '-')}-${run.commit.slice(0, 7) || 'nocommit'}.json`);
+    await fs.writeFile(file, JSON.stringify(run, null, 2), 'utf-8');
+    return file;
+}
+
+/**
+ * 保存済みの解析結果を古い順に返す。読み込めないファイルは無視する。
+ */
+export async function loadAnalysisRuns(location: string): Promise<AnalysisRun[]> {
+    const directory = getRepositoryRunsDir(location);
+    let entries: string[];
+    try {
+        entries = await fs.readdir(directory);
+    } catch {
+        return [];
+    }
+
+    const runs: AnalysisRun[] = [];
+    for (const entry of entries.filter(name => name.endsWith('.json'))) {
+        try {
+            const parsed = analysisRunSchema.safeParse(JSON.parse(await fs.readFile(path.join(directory, entry), 'utf-8')));
+            if (parsed.success) runs.push(parsed.data);
+        } catch {
+            // 壊れたファイルは対象外
+        }
+    }
+    return runs.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+/**
+ * 第一親をたどった履歴から等間隔にコミットを選び、それぞれの時点のコードを解析する。
+ * 解析済みのコミットは保存済みの結果を再利用し、新たに解析した結果は origin: history として保存する。
+ * 解析・保存に失敗したコミットは結果に含めず、理由とともに skipped に返す。
+ */
+export async function collectHistoricalRuns(
+    repoPath: string,
+    repository: AnalysisRun['repository'],
+    { commits = 10, ref = 'HEAD' }: { commits?: number; ref?: string } = {}
+): Promise<{ runs: AnalysisRun[]; skipped: SkippedCommit[] }> {
+    const git = simpleGit(repoPath);
+    const history = (await git.raw(['rev-list', '--first-parent', ref]))
+        .split('\n')
+        .map(line => line.trim())
+        .filter(Boolean)
+        .reverse();
+
+    const stored = new Map(
+        (await loadAnalysisRuns(repository.location))
+            .filter(run => run.origin === 'history')
+            .map(run => [run.commit, run])
+    );
+
+    const runs: AnalysisRun[] = [];
+    const skipped: SkippedCommit[] = [];
+    for (const commit of sampleEvenly(history, commits)) {
+        const cached = stored.get(commit);
+        if (cached) {
+            runs.push(cached);
+            continue;
+        }
+
+        // 作業ディレクトリを変更しないよう、一時的な worktree に展開して解析する
+        const worktree = await fs.mkdtemp(path.join(os.tmpdir(), 'mastra-trend-'));
+        try {
+            await git.raw(['worktree', 'add', '--detach', worktree, commit]);
+            const analysis = await analyzeCode(worktree);
+            const run = await createAnalysisRun({ repository, repoPath, commit, origin: 'history', analysis });
+            await saveAnalysisRun(run);
+            runs.push(run);
+        } catch (error) {
+            skipped.push({ commit, reason: error instanceof Error ? error.message : String(error) });
+        } finally {
+            await git.raw(['worktree', 'remove', '--force', worktree]).catch(() => undefined);
+            await fs.rm(worktree, { recursive: true, force: true });
+        }
+    }
+    return { runs, skipped };
+}
+
+function sampleEvenly<T>(items: T[], count: number): T[] {
+    if (count <= 0 || items.length === 0) return [];
+    if (items.length <= count) return items;
+    if (count === 1) return [items[items.length - 1]];
+
+    // 最初と最後のコミットは必ず含める
+    const indices = new Set<number>();
+    for (let i = 0; i < count; i++) {
+        indices.add(Math.round((i * (items.length - 1)) / (count - 1)));
+    }
+    return Array.from(indices).sort((a, b) => a - b).map(index => items[index]);
+}
+
+async function readCommitDate(repoPath: string, commit: string): Promise<string | null> {
+    if (!commit) return null;
+    try {
+        const date = await simpleGit(repoPath).raw(['show', '-s', '--format=%cI', commit]);
+        return date.trim() || null;
+    } catch {
+        return null;
+    }
+}
+
+function getRepositoryRunsDir(location: string): string {
+    return path.join(getRunsDir(), createHash('md5').update(location).digest('hex'));
+}
@@ -0,0 +1,484 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import fg from 'fast-glob';
+import { simpleGit } from 'simple-git';
+import { minimatch } from 'minimatch';
+import { z } from 'zod';
+import { filterIgnoredFiles } from './gitignore';
+import { loadJsonConfig } from './config';
+
+export const secretSeveritySchema = z.enum(['critical', 'high', 'medium']);
+
+export const secretAllowlistSchema = z.object({
+    // 検査から除外するファイル（glob）
+    paths: z.array(z.string()).default([]),
+    // 無効にするルールのID
+    rules: z.array(z.string()).default([]),
+    // 誤検知として扱う検出結果のフィンガープリント
+    fingerprints: z.array(z.string()).default([]),
+    // 一致した値がこの正規表現に当てはまる場合は除外する（ダミー値など）
+    patterns: z.array(z.string().refine(isValidPattern, pattern => ({ message: `Invalid regular expression: ${pattern}` }))).default([]),
+    // 検査から除外するコミット（先頭一致）
+    commits: z.array(z.string()).default([]),
+});
+
+export const secretFindingSchema = z.object({
+    rule: z.string(),
+    description: z.string(),
+    severity: secretSeveritySchema,
+    file: z.string(),
+    line: z.number(),
+    // 先頭の数文字以外を伏せた値（検出した値そのものはどこにも出力しない）
+    redacted: z.string(),
+    // 値の SHA-256 の先頭16文字。許可リストへの登録に使う
+    fingerprint: z.string(),
+    // tree: 現在のファイルに残っている、history: 履歴にのみ残っている
+    source: z.enum(['tree', 'history']),
+    // 値を追加したコミット（履歴を検査しなかった場合は null）
+    commit: z.string().nullable(),
+    author: z.string().nullable(),
+    date: z.string().nullable(),
+});
+
+export const secretReportSchema = z.object({
+    allowlist: z.object({
+        // 読み込んだ許可リストのファイル（ない場合は null）
+        source: z.string().nullable(),
+    }),
+    scannedFiles: z.number(),
+    scannedCommits: z.number(),
+    findings: z.array(secretFindingSchema),
+    counts: z.object({
+        critical: z.number(),
+        high: z.number(),
+        medium: z.number(),
+        total: z.number(),
+    }),
+    // 許可リスト・インラインの除外指定で除外した件数
+    suppressed: z.number(),
+});
+
+export type SecretSeverity = z.infer<typeof secretSeveritySchema>;
+export type SecretAllowlist = z.infer<typeof secretAllowlistSchema>;
+export type SecretFinding = z.infer<typeof secretFindingSchema>;
+export type SecretReport = z.infer<typeof secretReportSchema>;
+
+export interface SecretScanOptions {
+    // 許可リストのパス（省略時は作業ディレクトリの .mastra-secrets.json）。
+    // 解析対象のリポジトリが自身の検出結果を隠せないよう、リポジトリ内の許可リストは読み込まない
+    allowlist?: string;
+    // git の履歴（各コミットで追加された行）も検査するか
+    history?: boolean;
+    // 履歴を検査するコミット数の上限（新しい順）
+    maxCommits?: number;
+    // 指定した場合は作業ツリーのうちこれらのファイル（リポジトリルートからの相対パス）のみを検査する
+    files?: string[];
+    limit?: number;
+}
+
+interface SecretRule {
+    id: string;
+    description: string;
+    severity: SecretSeverity;
+    // 値は secret という名前のグループ、なければ一致全体
+    pattern: RegExp;
+    // この値以上のシャノンエントロピーを持つ場合のみ検出する
+    minEntropy?: number;
+}
+
+interface Match {
+    rule: SecretRule;
+    value: string;
+    line: number;
+}
+
+const ALLOWLIST_FILE = '.mastra-secrets.json';
+const MAX_FILE_SIZE = 1024 * 1024;
+const DEFAULT_MAX_COMMITS = 1000;
+const DEFAULT_LIMIT = 100;
+
+// 行末のコメントで個別に除外する（gitleaks・detect-secrets と同じ書式）
+const INLINE_ALLOW = /gitleaks:allow|pragma: allowlist secret|mastra:allow-secret/;
+
+// 明らかなダミー値・プレースホルダー
+const PLACEHOLDER = /^(x+|\*+|\.+|<.*>|\$\{.*\}|\{\{.*\}\}|%.*%|(your|my|some)[_-]?\w*|.*(example|sample|dummy|placeholder|changeme|redacted|xxxx).*)$/i;
+
+const RULES: SecretRule[] = [
+    {
+        id: 'private-key',
+        description: 'Private Key',
+        severity: 'critical',
+        // ヘッダーから対応する END までのブロック全体（END がない場合は続く Base64 の行まで）。
+        // 鍵の本体が他のルールに一致しても鍵全体を検出するよう、最初に並べる
+        pattern: /(?<secret>-----BEGIN ((?:[A-Z]+ )*)PRIVATE KEY( BLOCK)?-----(?:(?:(?!-----BEGIN )[\s\S])*?-----END \1PRIVATE KEY\2-----|(?:(?:\r?\n|\\n)[A-Za-z0-9+/=]{16,})*))/g,
+    },
+    {
+        id: 'aws-access-key-id',
+        description: 'AWS Access Key ID',
+        severity: 'critical',
+        pattern: /\b(?<secret>(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16})\b/g,
+    },
+    {
+        id: 'aws-secret-access-key',
+        description: 'AWS Secret Access Key',
+        severity: 'critical',
+        pattern: /aws[\w.-]{0,20}(?:secret|private)[\w.-]{0,20}\s*[:=]>?\s*['"]?(?<secret>[A-Za-z0-9/+=]{40})\b/gi,
+    },
+    {
+        id: 'github-token',
+        description: 'GitHub Token',
+        severity: 'critical',
+        pattern: /\b(?<secret>gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{82})\b/g,
+    },
+    {
+        id: 'gitlab-token',
+        description: 'GitLab Personal Access Token',
+        severity: 'critical',
+        pattern: /\b(?<secret>glpat-[A-Za-z0-9_-]{20})\b/g,
+    },
+    {
+        id: 'slack-token',
+        description: 'Slack Token',
+        severity: 'high',
+        pattern: /\b(?<secret>xox[abposr]-(?:\d+-)?[A-Za-z0-9-]{10,})\b/g,
+    },
+    {
+        id: 'slack-webhook',
+        description: 'Slack Incoming Webhook',
+        severity: 'high',
+        pattern: /(?<secret>https:\/\/hooks\.slack\.com\/(?:services|workflows)\/[A-Za-z0-9+/]{20,})/g,
+    },
+    {
+        id: 'jwt',
+        description: 'JSON Web Token',
+        severity: 'high',
+        pattern: /\b(?<secret>eyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,})/g,
+    },
+    {
+        id: 'google-api-key',
+        description: 'Google API Key',
+        severity: 'high',
+        pattern: /\b(?<secret>AIza[0-9A-Za-z_-]{35})\b/g,
+    },
+    {
+        id: 'stripe-secret-key',
+        description: 'Stripe Secret Key',
+        severity: 'critical',
+        pattern: /\b(?<secret>(?:sk|rk)_live_[0-9A-Za-z]{24,})\b/g,
+    },
+    {
+        id: 'npm-token',
+        description: 'npm Access Token',
+        severity: 'high',
+        pattern: /\b(?<secret>npm_[A-Za-z0-9]{36})\b/g,
+    },
+    {
+        id: 'generic-secret',
+        description: 'High-entropy string assigned to a secret-like name',
+        severity: 'medium',
+        pattern: /(?:api[_-]?key|secret|token|passw(?:or)?d|pwd|credentials?|auth[_-]?key|private[_-]?key|access[_-]?key)[\w.-]*['"]?\s*(?::|=>?|:=)\s*['"`](?<secret>[^'"`\s]{16,})['"`]/gi,
+        minEntropy: 3.5,
+    },
+];
+
+/**
+ * 作業ツリーのファイルと git の履歴で追加された行から、認証情報と思われる文字列を検出する。
+ * 検出した値は伏せ字とフィンガープリントのみを返し、値そのものは結果に含めない。
+ */
+export async function scanSecrets(repoPath: string, options: SecretScanOptions = {}): Promise<SecretReport> {
+    const { allowlist, source } = await loadAllowlist(options.allowlist);
+    const allowedValues = allowlist.patterns.map(pattern => new RegExp(pattern));
+    const rules = RULES.filter(rule => !allowlist.rules.includes(rule.id));
+    // 作業ディレクトリのリポジトリを解析する場合は、読み込んだ許可リスト自体を検査しない
+    const allowlistFile = source ? path.relative(repoPath, source).split(path.sep).join('/') : null;
+    const isAllowedPath = (file: string) => file === allowlistFile
+        || allowlist.paths.some(pattern => minimatch(file, pattern, { dot: true }));
+
+    // 作業ツリーと履歴の両方に現れる値を二重に数えないよう、値とファイルの組で記録する
+    const suppressed = new Set<string>();
+    const accept = (match: Match, file: string, lineText: string) => {
+        if (INLINE_ALLOW.test(lineText)
+            || allowlist.fingerprints.includes(fingerprint(match.value))
+            || allowedValues.some(pattern => pattern.test(match.value))) {
+            suppressed.add(`${fingerprint(match.value)}:${file}`);
+            return false;
+        }
+        return true;
+    };
+
+    // 作業ツリー
+    const listed = await fg('**/*', {
+        cwd: repoPath,
+        absolute: true,
+        onlyFiles: true,
+        dot: true,
+        ignore: ['**/.git/**', '**/node_modules/**'],
+    });
+    const only = options.files ? new Set(options.files) : null;
+    const files = (await filterIgnoredFiles(repoPath, listed))
+        .map(file => path.relative(repoPath, file).split(path.sep).join('/'))
+        .filter(file => !only || only.has(file));
+
+    const findings = new Map<string, SecretFinding>();
+    let scannedFiles = 0;
+    for (const file of files) {
+        if (isAllowedPath(file)) continue;
+        const content = await readTextFile(path.join(repoPath, file));
+        if (content === null) continue;
+        scannedFiles++;
+
+        const lines = content.split(/\r?\n/);
+        for (const match of findSecrets(content, rules)) {
+            if (!accept(match, file, lines[match.line - 1] || '')) continue;
+            const key = `${fingerprint(match.value)}:${file}`;
+            if (!findings.has(key)) findings.set(key, toFinding(match, file, 'tree'));
+        }
+    }
+
+    // 履歴：各コミットで追加された行のみを検査する
+    let scannedCommits = 0;
+    if (options.history !== false) {
+        const commits = await readHistory(repoPath, options.maxCommits ?? DEFAULT_MAX_COMMITS);
+        scannedCommits = commits.length;
+        // git log は新しい順のため、古いコミットから処理して値を最初に追加したコミットを記録する
+        for (const commit of commits.reverse()) {
+            if (allowlist.commits.some(sha => commit.sha.startsWith(sha))) continue;
+            for (const hunk of commit.hunks) {
+                if (isAllowedPath(hunk.file)) continue;
+                for (const match of findSecrets(hunk.lines.map(line => line.text).join('\n'), rules)) {
+                    const added = hunk.lines[match.line - 1];
+                    if (!added || !accept(match, hunk.file, added.text)) continue;
+                    const key = `${fingerprint(match.value)}:${hunk.file}`;
+                    const existing = findings.get(key);
+                    if (existing) {
+                        if (existing.commit === null) {
+                            Object.assign(existing, { commit: commit.sha, author: commit.author, date: commit.date });
+                        }
+                        continue;
+                    }
+                    findings.set(key, {
+                        ...toFinding({ ...match, line: added.line }, hunk.file, 'history'),
+                        commit: commit.sha,
+                        author: commit.author,
+                        date: commit.date,
+                    });
+                }
+            }
+        }
+    }
+
+    const severityOrder: SecretSeverity[] = ['critical', 'high', 'medium'];
+    const sorted = Array.from(findings.values()).sort((a, b) =>
+        severityOrder.indexOf(a.severity) - severityOrder.indexOf(b.severity)
+        || (a.source === b.source ? 0 : a.source === 'tree' ? -1 : 1)
+        || a.file.localeCompare(b.file)
+        || a.line - b.line);
+
+    return {
+        allowlist: { source },
+        scannedFiles,
+        scannedCommits,
+        findings: sorted.slice(0, options.limit ?? DEFAULT_LIMIT),
+        counts: {
+            critical: sorted.filter(finding => finding.severity === 'critical').length,
+            high: sorted.filter(finding => finding.severity === 'high').length,
+            medium: sorted.filter(finding => finding.severity === 'medium').length,
+            total: sorted.length,
+        },
+        suppressed: suppressed.size,
+    };
+}
+
+/**
+ * テキスト中の認証情報と思われる文字列を伏せ字に置き換える。
+ * レポートや LLM に渡すプロンプトに、README などから値が紛れ込まないようにするために使う。
+ */
+export function redactSecrets(text: string): string {
+    let redacted = text;
+    for (const match of findSecrets(text, RULES)) {
+        const replacement = match.rule.id === 'private-key' ? maskPrivateKey(match.value) : redactValue(match.value, match.rule);
+        redacted = redacted.split(match.value).join(replacement);
+    }
+    return redacted;
+}
+
+function findSecrets(content: string, rules: SecretRule[]): Match[] {
+    const matches: Match[] = [];
+    const lineStarts = [0];
+    for (let i = 0; i < content.length; i++) {
+        if (content[i] === '\n') lineStarts.push(i + 1);
+    }
+    const lineOf = (offset: number) => {
+        let low = 0;
+        let high = lineStarts.length - 1;
+        while (low < high) {
+            const middle = (low + high + 1) >> 1;
+            if (lineStarts[middle] <= offset) low = middle;
+            else high = middle - 1;
+        }
+        return low + 1;
+    };
+
+    const seen = new Set<string>();
+    for (const rule of rules) {
+        for (const match of content.matchAll(rule.pattern)) {
+            const value = match.groups?.secret ?? match[0];
+            if (PLACEHOLDER.test(value)) continue;
+            if (rule.minEntropy !== undefined && (shannonEntropy(value) < rule.minEntropy || !/\d/.test(value))) continue;
+            // 同じ値を複数のルールで重複して報告しない（ルールは具体的なものから順に並べている）
+            const offset = match.index! + match[0].indexOf(value);
+            const key = `${offset}:${value}`;
+            if (seen.has(key) || matches.some(other => other.value.includes(value) || value.includes(other.value))) continue;
+            seen.add(key);
+            matches.push({ rule, value, line: lineOf(offset) });
+        }
+    }
+    return matches;
+}
+
+function toFinding(match: Match, file: string, source: SecretFinding['source']): SecretFinding {
+    return {
+        rule: match.rule.id,
+        description: match.rule.description,
+        severity: match.rule.severity,
+        file,
+        line: match.line,
+        redacted: redactValue(match.value, match.rule),
+        fingerprint: fingerprint(match.value),
+        source,
+        commit: null,
+        author: null,
+        date: null,
+    };
+}
+
+function redactValue(value: string, rule: SecretRule): string {
+    // 秘密鍵はヘッダーのみを表示する（ヘッダーは値そのものではない）
+    if (rule.id === 'private-key') return privateKeyHeader(value);
+    const visible = value.length >= 16 ? 4 : 0;
+    return `${value.slice(0, visible)}${'*'.repeat(8)}`;
+}
+
+/**
+ * 秘密鍵のブロックをヘッダーと伏せ字（と END の行）に置き換える。
+ */
+function maskPrivateKey(value: string): string {
+    const footer = value.match(/-----END [A-Z ]*PRIVATE KEY(?: BLOCK)?-----$/)?.[0];
+    // JSON の文字列に埋め込まれている場合は改行がエスケープされている
+    const separator = value.includes('\n') || !value.includes('\\n') ? '\n' : '\\n';
+    return [privateKeyHeader(value), '*'.repeat(8), footer].filter(Boolean).join(separator);
+}
+
+function privateKeyHeader(value: string): string {
+    return value.match(/^-----BEGIN [A-Z ]*PRIVATE KEY(?: BLOCK)?-----/)![0];
+}
+
+function fingerprint(value: string): string {
+    return createHash('sha256').update(value).digest('hex').slice(0, 16);
+}
+
+function shannonEntropy(value: string): number {
+    const counts = new Map<string, number>();
+    for (const char of value) counts.set(char, (counts.get(char) || 0) + 1);
+    let entropy = 0;
+    for (const count of counts.values()) {
+        const p = count / value.length;
+        entropy -= p * Math.log2(p);
+    }
+    return entropy;
+}
+
+async function readTextFile(filePath: string): Promise<string | null> {
+    try {
+        const stat = await fs.stat(filePath);
+        if (stat.size > MAX_FILE_SIZE) return null;
+        const buffer = await fs.readFile(filePath);
+        // NUL を含むファイルはバイナリとみなす
+        if (buffer.subarray(0, 8000).includes(0)) return null;
+        return buffer.toString('utf-8');
+    } catch {
+        return null;
+    }
+}
+
+interface HistoryCommit {
+    sha: string;
+    author: string;
+    date: string;
+    hunks: Array<{ file: string; lines: Array<{ line: number; text: string }> }>;
+}
+
+/**
+ * git log -p から、各コミットでファイルに追加された行とその行番号を取り出す。
+ */
+async function readHistory(repoPath: string, maxCommits: number): Promise<HistoryCommit[]> {
+    const git = simpleGit(repoPath);
+    const isRepo = await git.checkIsRepo().catch(() => false);
+    if (!isRepo) return [];
+
+    let log: string;
+    try {
+        log = await git.raw([
+            'log',
+            '-p',
+            '--no-color',
+            '--no-renames',
+            '--unified=0',
+            `--max-count=${maxCommits}`,
+            '--format=%x1e%H%x1f%aN%x1f%aI',
+        ]);
+    } catch {
+        // コミットが1つもないリポジトリなど
+        return [];
+    }
+
+    const commits: HistoryCommit[] = [];
+    for (const block of log.split('\x1e')) {
+        const lines = block.split('\n');
+        const header = lines.shift();
+        if (!header?.trim()) continue;
+        const [sha, author, date] = header.split('\x1f');
+        const commit: HistoryCommit = { sha, author, date, hunks: [] };
+
+        let current: HistoryCommit['hunks'][number] | null = null;
+        let lineNumber = 0;
+        // diff --git から最初の @@ までがファイルのヘッダー（追加した行が "++ " で始まる場合と区別する）
+        let inFileHeader = false;
+        for (const line of lines) {
+            if (line.startsWith('diff --git ')) {
+                current = null;
+                inFileHeader = true;
+            } else if (inFileHeader && line.startsWith('+++ ')) {
+                const file = line.slice(4);
+                current = file === '/dev/null' ? null : { file: file.replace(/^b\//, ''), lines: [] };
+                if (current) commit.hunks.push(current);
+            } else if (line.startsWith('@@')) {
+                inFileHeader = false;
+                const match = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+                lineNumber = match ? Number(match[1]) : 0;
+            } else if (current && !inFileHeader && line.startsWith('+')) {
+                current.lines.push({ line: lineNumber, text: line.slice(1) });
+                lineNumber++;
+            }
+        }
+        commits.push(commit);
+    }
+    return commits;
+}
+
+async function loadAllowlist(allowlistPath?: string): Promise<{ allowlist: SecretAllowlist; source: string | null }> {
+    const loaded = await loadJsonConfig(secretAllowlistSchema, [path.join(process.cwd(), ALLOWLIST_FILE)], allowlistPath, 'Secret allowlist');
+    return loaded
+        ? { allowlist: loaded.config, source: loaded.source }
+        : { allowlist: secretAllowlistSchema.parse({}), source: null };
+}
+
+function isValidPattern(pattern: string): boolean {
+    try {
+        new RegExp(pattern);
+        return true;
+    } catch {
+        return false;
+    }
+}
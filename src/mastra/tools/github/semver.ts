@@ -0,0 +1,175 @@
+// 依存関係の解析に必要な範囲でのセマンティックバージョニングの比較
+// npmの範囲指定（^, ~, x-range, ハイフン範囲, ||）に対応する。
+
+interface ParsedVersion {
+    major: number;
+    minor: number;
+    patch: number;
+    prerelease: string[];
+}
+
+const VERSION_PATTERN = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+export function parseVersion(version: string): ParsedVersion | null {
+    const match = version.trim().match(VERSION_PATTERN);
+    if (!match) return null;
+    return {
+        major: Number(match[1]),
+        minor: Number(match[2] ?? 0),
+        patch: Number(match[3] ?? 0),
+        prerelease: match[4] ? match[4].split('.') : [],
+    };
+}
+
+export function isValidVersion(version: string): boolean {
+    return /^v?\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?$/.test(version.trim());
+}
+
+/**
+ * 2つのバージョンを比較する（a < b なら負、a > b なら正）。解析できない場合は文字列として比較する。
+ */
+export function compareVersions(a: string, b: string): number {
+    const left = parseVersion(a);
+    const right = parseVersion(b);
+    if (!left || !right) return a.localeCompare(b, undefined, { numeric: true });
+
+    const diff = left.major - right.major || left.minor - right.minor || left.patch - right.patch;
+    if (diff !== 0) return diff;
+
+    // プレリリースなしの方が新しい
+    if (left.prerelease.length === 0 || right.prerelease.length === 0) {
+        return right.prerelease.length - left.prerelease.length;
+    }
+
+    for (let i = 0; i < Math.max(left.prerelease.length, right.prerelease.length); i++) {
+        const l = left.prerelease[i];
+        const r = right.prerelease[i];
+        if (l === undefined) return -1;
+        if (r === undefined) return 1;
+        const ln = /^\d+$/.test(l) ? Number(l) : NaN;
+        const rn = /^\d+$/.test(r) ? Number(r) : NaN;
+        if (!Number.isNaN(ln) && !Number.isNaN(rn)) {
+            if (ln !== rn) return ln - rn;
+        } else if (l !== r) {
+            return Number.isNaN(ln) ? (Number.isNaN(rn) ? l.localeCompare(r) : 1) : -1;
+        }
+    }
+    return 0;
+}
+
+/**
+ * バージョンがnpm形式の範囲指定を満たすかを判定する。
+ * 解析できない範囲（タグ名・URL・workspace: など）の場合は null を返す。
+ */
+export function satisfies(version: string, range: string): boolean | null {
+    if (!parseVersion(version)) return null;
+
+    const normalized = range.trim().replace(/^npm:(?:[^@]+@)?/, '');
+    if (normalized === '' || normalized === '*' || normalized === 'latest' || normalized === 'x') return true;
+
+    const alternatives = normalized.split('||').map(part => part.trim());
+    let parsedAny = false;
+    for (const alternative of alternatives) {
+        const comparators = toComparators(alternative);
+        if (!comparators) continue;
+        parsedAny = true;
+        if (comparators.every(([operator, target]) => testComparator(version, operator, target))) {
+            return true;
+        }
+    }
+    return parsedAny ? false : null;
+}
+
+type Comparator = [operator: '<' | '<=' | '>' | '>=' | '=', version: string];
+
+function toComparators(range: string): Comparator[] | null {
+    if (range === '' || range === '*' || range === 'x' || range === 'X') return [['>=', '0.0.0']];
+
+    const hyphen = range.match(/^(\S+)\s+-\s+(\S+)$/);
+    if (hyphen) {
+        const lower = expandPartial(hyphen[1]);
+        const upper = hyphen[2];
+        if (!lower) return null;
+        const upperParts = upper.replace(/^v/, '').split('.');
+        if (upperParts.length < 3 || upperParts.some(part => /^[x*]$/i.test(part))) {
+            const upperBound = partialUpperBound(upper);
+            return upperBound ? [['>=', lower], ['<', upperBound]] : null;
+        }
+        return [['>=', lower], ['<=', upper]];
+    }
+
+    const comparators: Comparator[] = [];
+    for (const token of range.replace(/(>=|<=|>|<|=|~|\^)\s+/g, '$1').split(/\s+/)) {
+        const match = token.match(/^(>=|<=|>|<|=|~>|~|\^)?(.+)$/);
+        if (!match) return null;
+        const [, operator = '', target] = match;
+        const expanded = expandRange(operator, target);
+        if (!expanded) return null;
+        comparators.push(...expanded);
+    }
+    return comparators;
+}
+
+function expandRange(operator: string, target: string): Comparator[] | null {
+    const parts = target.replace(/^v/, '').split(/[.+-]/).slice(0, 3);
+    const isWildcard = (part: string | undefined) => part === undefined || /^[x*]$/i.test(part);
+    const lower = expandPartial(target);
+    if (!lower) return null;
+    const parsed = parseVersion(lower)!;
+
+    if (operator === '^') {
+        let upper: string;
+        if (parsed.major > 0 || isWildcard(parts[1])) upper = `${parsed.major + 1}.0.0`;
+        else if (parsed.minor > 0 || isWildcard(parts[2])) upper = `0.${parsed.minor + 1}.0`;
+        else upper = `0.0.${parsed.patch + 1}`;
+        return [['>=', lower], ['<', `${upper}-0`]];
+    }
+
+    if (operator === '~' || operator === '~>') {
+        const upper = isWildcard(parts[1]) ? `${parsed.major + 1}.0.0` : `${parsed.major}.${parsed.minor + 1}.0`;
+        return [['>=', lower], ['<', `${upper}-0`]];
+    }
+
+    if (operator === '' || operator === '=') {
+        // x-range（1.x, 1.2.* など）は範囲として扱う
+        if (isWildcard(parts[1]) || isWildcard(parts[2])) {
+            const upper = partialUpperBound(target);
+            return upper ? [['>=', lower], ['<', `${upper}-0`]] : null;
+        }
+        return [['=', target.replace(/^v/, '')]];
+    }
+
+    if ((operator === '>' || operator === '<=') && (isWildcard(parts[1]) || isWildcard(parts[2]))) {
+        const upper = partialUpperBound(target);
+        if (!upper) return null;
+        return operator === '>' ? [['>=', upper]] : [['<', `${upper}-0`]];
+    }
+
+    return [[operator as Comparator[0], lower]];
+}
+
+function expandPartial(version: string): string | null {
+    const [core, prerelease] = version.replace(/^v/, '').split(/-(.*)/s);
+    const parts = core.split('.');
+    if (parts.length === 0 || !/^\d+$/.test(parts[0])) return null;
+    const numbers = [0, 1, 2].map(i => (parts[i] && /^\d+$/.test(parts[i]) ? parts[i] : '0'));
+    return `${numbers.join('.')}${prerelease ? `-${prerelease}` : ''}`;
+}
+
+function partialUpperBound(version: string): string | null {
+    const parts = version.replace(/^v/, '').split('.');
+    if (!/^\d+$/.test(parts[0])) return null;
+    if (parts.length < 2 || /^[x*]$/i.test(parts[1])) return `${Number(parts[0]) + 1}.0.0`;
+    return `${parts[0]}.${Number(parts[1]) + 1}.0`;
+}
+
+function testComparator(version: string, operator: Comparator[0], target: string): boolean {
+    const diff = compareVersions(version, target);
+    switch (operator) {
+        case '<': return diff < 0;
+        case '<=': return diff <= 0;
+        case '>': return diff > 0;
+        case '>=': return diff >= 0;
+        case '=': return diff === 0;
+    }
+}
@@ -0,0 +1,97 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { HostedRepository, ProviderKind, detectProvider } from './providers';
+
+// リポジトリの取得方法
+// - local-directory: ローカルの作業ディレクトリをそのまま解析（クローンしない）
+// - local-bare: ローカルのベアリポジトリからクローン（ネットワーク不要）
+// - git-url: 任意のgitリモート（GitHub、GitLab、社内gitサーバーなど）からクローン
+export type RepositorySourceKind = 'local-directory' | 'local-bare' | 'git-url';
+
+export interface RepositorySource {
+    kind: RepositorySourceKind;
+    // ローカルの場合は絶対パス、リモートの場合はURL
+    location: string;
+    name: string;
+    // GitHub・GitLab・Gitea・Bitbucket のリポジトリの場合のみ設定
+    provider: HostedRepository | null;
+    // GitHub（GitHub Enterprise Server を含む）のリポジトリの場合のみ設定
+    github: { owner: string; repo: string } | null;
+}
+
+/**
+ * URL・ローカルパス・file:// URL のいずれかを受け取り、取得方法を自動判定する。
+ * リモートの場合はホスティングサービスも判定する（provider を指定した場合はそれに従う）。
+ */
+export async function resolveRepositorySource(input: string, options: { provider?: ProviderKind } = {}): Promise<RepositorySource> {
+    const trimmed = input.trim();
+
+    const localPath = toLocalPath(trimmed);
+    if (localPath) {
+        const kind = await detectLocalKind(localPath);
+        if (kind) {
+            return {
+                kind,
+                location: localPath,
+                name: repositoryName(localPath),
+                provider: null,
+                github: null,
+            };
+        }
+        if (trimmed.startsWith('file://')) {
+            throw new Error(`Local repository not found: ${localPath}`);
+        }
+    }
+
+    const provider = await detectProvider(trimmed, { provider: options.provider });
+    return {
+        kind: 'git-url',
+        location: trimmed,
+        name: repositoryName(trimmed),
+        provider,
+        github: provider?.kind === 'github' ? { owner: provider.owner, repo: provider.repo } : null,
+    };
+}
+
+export function repositoryName(location: string): string {
+    const trimmed = location.replace(/[/\\]+$/, '');
+    const base = trimmed.split(/[/\\:]/).pop() || '';
+    return base.replace(/\.git$/, '') || 'repo';
+}
+
+function toLocalPath(input: string): string | null {
+    if (input.startsWith('file://')) {
+        return fileURLToPath(input);
+    }
+    // scheme付きURLやscp形式（git@host:path）はリモートとして扱う
+    if (/^[a-z][a-z0-9+.-]*:\/\//i.test(input) || /^[^/\\]+@[^/\\]+:/.test(input)) {
+        return null;
+    }
+    return path.resolve(input);
+}
+
+async function detectLocalKind(localPath: string): Promise<RepositorySourceKind | null> {
+    const stats = await fs.stat(localPath).catch(() => null);
+    if (!stats?.isDirectory()) return null;
+
+    if (await pathExists(path.join(localPath, '.git'))) {
+        return 'local-directory';
+    }
+
+    const isBare = await pathExists(path.join(localPath, 'HEAD'))
+        && await pathExists(path.join(localPath, 'objects'))
+        && await pathExists(path.join(localPath, 'refs'));
+
+    // gitで管理されていないディレクトリもそのまま解析対象とする
+    return isBare ? 'local-bare' : 'local-directory';
+}
+
+async function pathExists(filePath: string): Promise<boolean> {
+    try {
+        await fs.access(filePath);
+        return true;
+    } catch {
+        return false;
+    }
+}
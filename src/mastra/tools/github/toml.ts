@@ -0,0 +1,199 @@
+// マニフェスト解析用の最小限のTOMLパーサー
+// テーブル・配列テーブル・ドット区切りキー・文字列・配列・インラインテーブルに対応する。
+// 日時などの型は文字列のまま扱う。
+
+export type TomlValue = string | number | boolean | TomlValue[] | TomlTable;
+export interface TomlTable {
+    [key: string]: TomlValue;
+}
+
+export function parseToml(content: string): TomlTable {
+    const parser = new TomlParser(content);
+    return parser.parse();
+}
+
+class TomlParser {
+    private pos = 0;
+    private readonly root: TomlTable = {};
+
+    constructor(private readonly text: string) { }
+
+    parse(): TomlTable {
+        let current = this.root;
+
+        while (true) {
+            this.skipWhitespace(true);
+            if (this.pos >= this.text.length) break;
+
+            if (this.text.startsWith('[[', this.pos)) {
+                this.pos += 2;
+                const keys = this.parseKeyPath();
+                this.expect(']]');
+                const parent = this.ensureTable(this.root, keys.slice(0, -1));
+                const last = keys[keys.length - 1];
+                const list = Array.isArray(parent[last]) ? parent[last] as TomlValue[] : [];
+                const table: TomlTable = {};
+                list.push(table);
+                parent[last] = list;
+                current = table;
+            } else if (this.text[this.pos] === '[') {
+                this.pos++;
+                const keys = this.parseKeyPath();
+                this.expect(']');
+                current = this.ensureTable(this.root, keys);
+            } else {
+                const keys = this.parseKeyPath();
+                this.skipWhitespace(false);
+                this.expect('=');
+                this.skipWhitespace(false);
+                const value = this.parseValue();
+                const table = this.ensureTable(current, keys.slice(0, -1));
+                table[keys[keys.length - 1]] = value;
+            }
+
+            this.skipToLineEnd();
+        }
+
+        return this.root;
+    }
+
+    private ensureTable(base: TomlTable, keys: string[]): TomlTable {
+        let table = base;
+        for (const key of keys) {
+            const next = table[key];
+            if (Array.isArray(next)) {
+                // 配列テーブルの場合は最後の要素を対象とする
+                table = next[next.length - 1] as TomlTable;
+            } else if (typeof next === 'object') {
+                table = next;
+            } else {
+                const created: TomlTable = {};
+                table[key] = created;
+                table = created;
+            }
+        }
+        return table;
+    }
+
+    private parseKeyPath(): string[] {
+        const keys: string[] = [];
+        while (true) {
+            this.skipWhitespace(false);
+            const char = this.text[this.pos];
+            if (char === '"' || char === "'") {
+                keys.push(this.parseString());
+            } else {
+                const match = /^[A-Za-z0-9_-]+/.exec(this.text.slice(this.pos));
+                if (!match) throw new Error(`Invalid TOML key at position ${this.pos}`);
+                keys.push(match[0]);
+                this.pos += match[0].length;
+            }
+            this.skipWhitespace(false);
+            if (this.text[this.pos] !== '.') break;
+            this.pos++;
+        }
+        return keys;
+    }
+
+    private parseValue(): TomlValue {
+        const char = this.text[this.pos];
+
+        if (char === '"' || char === "'") {
+            return this.parseString();
+        }
+
+        if (char === '[') {
+            this.pos++;
+            const values: TomlValue[] = [];
+            while (true) {
+                this.skipWhitespace(true);
+                if (this.text[this.pos] === ']') {
+                    this.pos++;
+                    return values;
+                }
+                values.push(this.parseValue());
+                this.skipWhitespace(true);
+                if (this.text[this.pos] === ',') this.pos++;
+            }
+        }
+
+        if (char === '{') {
+            this.pos++;
+            const table: TomlTable = {};
+            while (true) {
+                this.skipWhitespace(false);
+                if (this.text[this.pos] === '}') {
+                    this.pos++;
+                    return table;
+                }
+                const keys = this.parseKeyPath();
+                this.expect('=');
+                this.skipWhitespace(false);
+                const value = this.parseValue();
+                this.ensureTable(table, keys.slice(0, -1))[keys[keys.length - 1]] = value;
+                this.skipWhitespace(false);
+                if (this.text[this.pos] === ',') this.pos++;
+            }
+        }
+
+        const match = /^[^,\]}\s#]+/.exec(this.text.slice(this.pos));
+        if (!match) throw new Error(`Invalid TOML value at position ${this.pos}`);
+        this.pos += match[0].length;
+
+        const raw = match[0];
+        if (raw === 'true') return true;
+        if (raw === 'false') return false;
+        const numeric = Number(raw.replace(/_/g, ''));
+        return Number.isNaN(numeric) ? raw : numeric;
+    }
+
+    private parseString(): string {
+        const quote = this.text[this.pos];
+        const triple = this.text.startsWith(quote.repeat(3), this.pos);
+        const delimiter = triple ? quote.repeat(3) : quote;
+        this.pos += delimiter.length;
+
+        let value = '';
+        while (this.pos < this.text.length && !this.text.startsWith(delimiter, this.pos)) {
+            const char = this.text[this.pos];
+            if (char === '\\' && quote === '"') {
+                const next = this.text[this.pos + 1];
+                const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', '"': '"', '\\': '\\' };
+                value += escapes[next] ?? next;
+                this.pos += 2;
+                continue;
+            }
+            value += char;
+            this.pos++;
+        }
+        this.pos += delimiter.length;
+
+        // 複数行文字列の先頭の改行は無視される
+        return triple ? value.replace(/^\r?\n/, '') : value;
+    }
+
+    private skipWhitespace(includeNewlines: boolean): void {
+        while (this.pos < this.text.length) {
+            const char = this.text[this.pos];
+            if (char === '#') {
+                if (!includeNewlines) return;
+                while (this.pos < this.text.length && this.text[this.pos] !== '\n') this.pos++;
+            } else if (char === ' ' || char === '\t' || (includeNewlines && (char === '\n' || char === '\r'))) {
+                this.pos++;
+            } else {
+                return;
+            }
+        }
+    }
+
+    private skipToLineEnd(): void {
+        while (this.pos < this.text.length && this.text[this.pos] !== '\n') this.pos++;
+    }
+
+    private expect(token: string): void {
+        if (!this.text.startsWith(token, this.pos)) {
+            throw new Error(`Expected "${token}" in TOML at position ${this.pos}`);
+        }
+        this.pos += token.length;
+    }
+}
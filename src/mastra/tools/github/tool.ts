@@ -1,140 +1,156 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
-import { Octokit } from '@octokit/rest';
-import { simpleGit } from 'simple-git';
 import * as fs from 'fs/promises';
-import * as path from 'path';
-import { createHash } from 'crypto';
-
-// GitHub API client
-const octokit = new Octokit();
-const git = simpleGit();
+import fg from 'fast-glob';
+import { analyzeIssueHealth, issueHealthSchema } from './issues';
+import { analyzeProjectActivity, projectActivitySchema } from './activity';
+import { resolveRepositorySource } from './source';
+import {
+    ProviderRequestError,
+    createProvider,
+    getHostedGitHubClient,
+    hostedIssueSchema,
+    providerKindSchema,
+    repositoryInfoSchema,
+    resolveHostedRepository,
+} from './providers';
+import { checkoutRepository } from './cache';
+import { analyzeGitHistory, gitHistorySchema } from './history';
+import { analyzeLockfile, lockfileAnalysisSchema } from './lockfile';
+import { scanVulnerabilities, severitySchema, vulnerabilityReportSchema } from './vulnerabilities';
+import { checkLicenses, licenseReportSchema } from './licenses';
+import { analyzeRepositoryManifests, workspaceAnalysisSchema } from './workspaces';
+import { analyzeWorkspaces } from './utils';
+import { detectDuplication, duplicationReportSchema } from './duplication';
+import { analyzeImportGraph, graphLevelSchema, importGraphSchema } from './imports';
+import { deadCodeReportSchema, detectDeadCode } from './deadcode';
+import { scanSecrets, secretReportSchema } from './secrets';
+import { filterIgnoredFiles } from './gitignore';
+import { classifyFiles, excludedFilesSchema, fileLineStatSchema, languageStatSchema, summarizeLanguages } from './languages';
+import { ManifestAnalysis, dependencySchema, packageManagerSchema } from './manifests';
 
 // Schemas
-const repositoryInfoSchema = z.object({
-    name: z.string(),
-    fullName: z.string(),
-    description: z.string().nullable(),
-    defaultBranch: z.string(),
-    stars: z.number(),
-    forks: z.number(),
-    openIssues: z.number(),
-    language: z.string().nullable(),
-    topics: z.array(z.string()),
-    lastUpdated: z.string(),
-});
-
 const codeAnalysisSchema = z.object({
     files: z.array(z.string()),
-    languages: z.record(z.number()),
+    languages: z.record(languageStatSchema),
+    // ファイルごとのコード・コメント・空行の行数
+    fileStats: z.array(fileLineStatSchema),
+    excludedFiles: excludedFilesSchema,
     totalSize: z.number(),
-    dependencies: z.record(z.string()),
-    devDependencies: z.record(z.string()),
-    packageManager: z.enum(['npm', 'yarn', 'pnpm']).nullable(),
-});
-
-// Cache helper functions
-const getCacheDir = () => {
-    return path.join(process.cwd(), '.mastra', 'cache', 'github');
-};
-
-const getCachePath = (repoUrl: string) => {
-    const hash = createHash('md5').update(repoUrl).digest('hex');
-    return path.join(getCacheDir(), hash);
-};
-
-const ensureCacheDir = async () => {
-    const cacheDir = getCacheDir();
-    await fs.mkdir(cacheDir, { recursive: true });
-    return cacheDir;
-};
-
-const isCacheValid = async (cachePath: string, maxAge: number = 3600000) => {
-    try {
-        const stats = await fs.stat(cachePath);
-        return Date.now() - stats.mtimeMs < maxAge;
-    } catch {
-        return false;
-    }
-};
+    manifests: z.array(z.string()),
+    dependencies: z.array(dependencySchema),
+    packageManagers: z.array(packageManagerSchema),
+});
 
 // Tool implementations
+// URL または所有者・リポジトリ名で対象を指定するツールの共通の入力
+const hostedRepositoryInputSchema = z.object({
+    repoUrl: z.string().optional().describe('リポジトリのURL（ホスティングサービスを自動判定）'),
+    owner: z.string().optional().describe('リポジトリの所有者（GitLabではサブグループを含むグループのパス）'),
+    repo: z.string().optional().describe('リポジトリ名'),
+    provider: providerKindSchema.optional().describe('ホスティングサービス（github・gitlab・gitea・bitbucket、省略時はURLから判定し、判定できない場合はgithub）'),
+    host: z.string().optional().describe('セルフホストの場合のホスト名（例: gitlab.example.com）'),
+});
+
 export const githubRepoInfoTool = createTool({
     id: 'github-repo-info',
-    description: 'GitHubリポジトリの詳細情報を取得',
-    inputSchema: z.object({
-        owner: z.string().describe('リポジトリの所有者'),
-        repo: z.string().describe('リポジトリ名'),
-    }),
+    description: 'リポジトリの詳細情報を取得（GitHub・GitLab・Gitea・Bitbucketに対応）',
+    inputSchema: hostedRepositoryInputSchema,
     outputSchema: repositoryInfoSchema,
     execute: async ({ context }) => {
+        let label = context.repoUrl || `${context.owner}/${context.repo}`;
         try {
-            const { data } = await octokit.repos.get({
-                owner: context.owner,
-                repo: context.repo,
-            });
-
-            return {
-                name: data.name,
-                fullName: data.full_name,
-                description: data.description,
-                defaultBranch: data.default_branch,
-                stars: data.stargazers_count,
-                forks: data.forks_count,
-                openIssues: data.open_issues_count,
-                language: data.language,
-                topics: data.topics || [],
-                lastUpdated: data.updated_at,
-            };
+            const repository = await resolveHostedRepository(context);
+            label = `${repository.owner}/${repository.repo}`;
+            // GitHub の場合は共有クライアントの ETag により、変更がなければ 304 で済む
+            return await createProvider(repository).getRepository(repository);
         } catch (error: any) {
             if (error?.status === 404) {
-                throw new Error(`リポジトリが見つかりません: ${context.owner}/${context.repo}`);
+                throw new Error(`リポジトリが見つかりません: ${label}`);
             }
             throw new Error(`リポジトリ情報の取得に失敗: ${error?.message || '不明なエラー'}`);
         }
     },
 });
 
+export const repositoryIssuesTool = createTool({
+    id: 'repository-issues',
+    description: 'イシューとプルリクエスト（GitLabではマージリクエスト）の一覧を取得（GitHub・GitLab・Gitea・Bitbucketに対応）',
+    inputSchema: hostedRepositoryInputSchema.extend({
+        state: z.enum(['open', 'closed', 'all']).optional().describe('状態（省略時は open）'),
+        days: z.number().optional().describe('直近の日数以内に更新されたもののみ'),
+        limit: z.number().optional().describe('イシューとプルリクエストそれぞれの最大件数（省略時は50件）'),
+    }),
+    outputSchema: z.object({
+        provider: providerKindSchema,
+        repository: z.string(),
+        issues: z.array(hostedIssueSchema),
+        pullRequests: z.array(hostedIssueSchema),
+        // イシューが無効なリポジトリなどで取得できなかった場合の理由
+        skipped: z.array(z.string()),
+    }),
+    execute: async ({ context }) => {
+        try {
+            const repository = await resolveHostedRepository(context);
+            const provider = createProvider(repository);
+            const options = {
+                state: context.state,
+                since: context.days !== undefined ? new Date(Date.now() - context.days * 24 * 60 * 60 * 1000) : undefined,
+                limit: context.limit ?? 50,
+            };
+            const skipped: string[] = [];
+            // 一方が無効（404・403）でも、もう一方は返す
+            const listOrSkip = async (kind: string, list: () => Promise<z.infer<typeof hostedIssueSchema>[]>) => {
+                try {
+                    return await list();
+                } catch (error) {
+                    if (error instanceof ProviderRequestError && (error.status === 403 || error.status === 404)) {
+                        skipped.push(`${kind}: ${error.message}`);
+                        return [];
+                    }
+                    throw error;
+                }
+            };
+
+            return {
+                provider: repository.kind,
+                repository: `${repository.owner}/${repository.repo}`,
+                issues: await listOrSkip('issues', () => provider.listIssues(repository, options)),
+                pullRequests: await listOrSkip('pull requests', () => provider.listPullRequests(repository, options)),
+                skipped,
+            };
+        } catch (error: any) {
+            throw new Error(`イシューとプルリクエストの取得に失敗: ${error?.message || '不明なエラー'}`);
+        }
+    },
+});
+
 export const githubCloneTool = createTool({
     id: 'github-clone',
-    description: 'GitHubリポジトリをクローン（キャッシュ機能付き）',
+    description: 'リポジトリを取得（GitHub・任意のgitリモート・ローカルパスに対応、コミット単位のキャッシュ付き）',
     inputSchema: z.object({
-        repoUrl: z.string().describe('GitHubリポジトリのURL'),
-        branch: z.string().optional().describe('クローンするブランチ'),
+        repoUrl: z.string().describe('リポジトリのURL、file:// URL、またはローカルパス'),
+        branch: z.string().optional().describe('チェックアウトするブランチ・タグ・コミットSHA'),
         forceFresh: z.boolean().optional().describe('キャッシュを無視して新規クローン'),
     }),
     outputSchema: z.object({
         path: z.string(),
         branch: z.string(),
         commit: z.string(),
+        status: z.enum(['local', 'cached', 'updated', 'cloned']),
+        sourceKind: z.enum(['local-directory', 'local-bare', 'git-url']),
     }),
     execute: async ({ context }) => {
         try {
-            await ensureCacheDir();
-            const cachePath = getCachePath(context.repoUrl);
-            const cacheValid = await isCacheValid(cachePath);
-
-            if (!context.forceFresh && cacheValid) {
-                const currentBranch = await git.cwd(cachePath).revparse(['--abbrev-ref', 'HEAD']);
-                const commit = await git.cwd(cachePath).revparse(['HEAD']);
-                return { path: cachePath, branch: currentBranch.trim(), commit: commit.trim() };
-            }
-
-            await fs.rm(cachePath, { recursive: true, force: true });
-            await fs.mkdir(path.dirname(cachePath), { recursive: true });
-
-            await git.clone(context.repoUrl, cachePath);
-            if (context.branch) {
-                await git.cwd(cachePath).checkout(context.branch);
-            }
-
-            const branch = await git.cwd(cachePath).revparse(['--abbrev-ref', 'HEAD']);
-            const commit = await git.cwd(cachePath).revparse(['HEAD']);
+            const source = await resolveRepositorySource(context.repoUrl);
+            const checkout = await checkoutRepository(source, context.branch, context.forceFresh);
 
             return {
-                path: cachePath,
-                branch: branch.trim(),
-                commit: commit.trim(),
+                path: checkout.path,
+                branch: checkout.branch,
+                commit: checkout.commit,
+                status: checkout.status,
+                sourceKind: source.kind,
             };
         } catch (error: any) {
             throw new Error(`リポジトリのクローンに失敗: ${error?.message || '不明なエラー'}`);
@@ -144,7 +160,7 @@ export const githubCloneTool = createTool({
 
 export const analyzeCodeTool = createTool({
     id: 'analyze-code',
-    description: 'リポジトリのコードと依存関係を分析',
+    description: 'リポジトリの言語構成（.gitignore・vendored・生成ファイルを除外）と依存関係を分析',
     inputSchema: z.object({
         repoPath: z.string().describe('リポジトリのパス'),
     }),
@@ -163,73 +179,300 @@ export const analyzeCodeTool = createTool({
                 throw new Error(`指定されたパスにリポジトリが見つかりません: ${context.repoPath}`);
             }
 
-            const files: string[] = [];
-            const languages: Record<string, number> = {};
-            let totalSize = 0;
-
-            // Recursively read all files
-            const readDir = async (dir: string) => {
-                const entries = await fs.readdir(dir, { withFileTypes: true });
-                for (const entry of entries) {
-                    const fullPath = path.join(dir, entry.name);
-                    if (entry.isDirectory()) {
-                        if (entry.name !== 'node_modules' && entry.name !== '.git') {
-                            await readDir(fullPath);
-                        }
-                    } else {
-                        const ext = path.extname(entry.name).toLowerCase();
-                        if (ext) {
-                            const stats = await fs.stat(fullPath);
-                            totalSize += stats.size;
-                            files.push(fullPath);
-                            languages[ext] = (languages[ext] || 0) + stats.size;
-                        }
-                    }
-                }
-            };
-
-            await readDir(context.repoPath);
+            // .gitignore で除外されたファイルを除き、言語ごとに分類（vendored・generated は統計から除外）
+            const listed = await fg('**/*', {
+                cwd: context.repoPath,
+                absolute: true,
+                onlyFiles: true,
+                dot: true,
+                ignore: ['**/.git/**', '**/node_modules/**'],
+            });
+            const files = await filterIgnoredFiles(context.repoPath, listed);
+            const classified = await classifyFiles(files, context.repoPath);
+            const { languageStats, fileStats, excludedFiles } = summarizeLanguages(classified);
+            const totalSize = classified.reduce((sum, file) => sum + file.bytes, 0);
 
-            // Parse package.json if exists
-            let dependencies = {};
-            let devDependencies = {};
-            let packageManager: 'npm' | 'yarn' | 'pnpm' | null = null;
+            // Parse dependency manifests (package.json, pyproject.toml, go.mod, Cargo.toml, ...) including workspace packages
+            let manifestAnalysis: Pick<ManifestAnalysis, 'manifests' | 'dependencies' | 'packageManagers'> = {
+                manifests: [],
+                dependencies: [],
+                packageManagers: [],
+            };
 
             try {
-                const packageJsonPath = path.join(context.repoPath, 'package.json');
-                const packageJsonExists = await fs.access(packageJsonPath)
-                    .then(() => true)
-                    .catch(() => false);
-
-                if (packageJsonExists) {
-                    const packageJsonContent = await fs.readFile(packageJsonPath, 'utf-8');
-                    const packageJson = JSON.parse(packageJsonContent);
-
-                    dependencies = packageJson.dependencies || {};
-                    devDependencies = packageJson.devDependencies || {};
-
-                    if (await fs.access(path.join(context.repoPath, 'yarn.lock')).catch(() => false)) {
-                        packageManager = 'yarn';
-                    } else if (await fs.access(path.join(context.repoPath, 'pnpm-lock.yaml')).catch(() => false)) {
-                        packageManager = 'pnpm';
-                    } else if (await fs.access(path.join(context.repoPath, 'package-lock.json')).catch(() => false)) {
-                        packageManager = 'npm';
-                    }
-                }
+                manifestAnalysis = await analyzeRepositoryManifests(context.repoPath);
             } catch (error: any) {
-                console.warn(`package.jsonの解析に失敗: ${error?.message || '不明なエラー'}`);
+                console.warn(`マニフェストの解析に失敗: ${error?.message || '不明なエラー'}`);
             }
 
             return {
                 files,
-                languages,
+                languages: languageStats,
+                fileStats,
+                excludedFiles,
                 totalSize,
-                dependencies,
-                devDependencies,
-                packageManager,
+                manifests: manifestAnalysis.manifests,
+                dependencies: manifestAnalysis.dependencies,
+                packageManagers: manifestAnalysis.packageManagers,
             };
         } catch (error: any) {
             throw new Error(`コード分析に失敗: ${error?.message || '不明なエラー'}`);
         }
     },
-});
\ No newline at end of file
+});
+
+export const gitHistoryTool = createTool({
+    id: 'git-history',
+    description: 'gitの履歴からチャーン・ホットスポット・オーナーシップ・バスファクターを分析',
+    inputSchema: z.object({
+        repoPath: z.string().describe('リポジトリのパス'),
+        since: z.string().optional().describe('分析対象期間の開始（例: "1 year ago"）'),
+        staleDays: z.number().optional().describe('この日数以上更新のないファイルを停滞とみなす'),
+        limit: z.number().optional().describe('ランキングの最大件数'),
+    }),
+    outputSchema: gitHistorySchema,
+    execute: async ({ context }) => {
+        try {
+            return await analyzeGitHistory(context.repoPath, {
+                since: context.since,
+                staleDays: context.staleDays,
+                limit: context.limit,
+            });
+        } catch (error: any) {
+            throw new Error(`履歴の分析に失敗: ${error?.message || '不明なエラー'}`);
+        }
+    },
+});
+
+export const dependencyGraphTool = createTool({
+    id: 'dependency-graph',
+    description: 'ロックファイルから解決済みの依存グラフを構築し、推移的依存・重複バージョン・宣言との不一致を分析',
+    inputSchema: z.object({
+        repoPath: z.string().describe('リポジトリのパス'),
+        includeGraph: z.boolean().optional().describe('グラフ全体（ノードとエッジ）をJSONで含めるか'),
+        limit: z.number().optional().describe('ランキングの最大件数'),
+    }),
+    outputSchema: lockfileAnalysisSchema,
+    execute: async ({ context }) => {
+        try {
+            return await analyzeLockfile(context.repoPath, {
+                includeGraph: context.includeGraph,
+                limit: context.limit,
+            });
+        } catch (error: any) {
+            throw new Error(`依存グラフの分析に失敗: ${error?.message || '不明なエラー'}`);
+        }
+    },
+});
+
+export const vulnerabilityScanTool = createTool({
+    id: 'vulnerability-scan',
+    description: '解決済みの依存バージョンをローカルのOSVアドバイザリDBと照合し、既知の脆弱性を検出（ネットワーク通信なし）',
+    inputSchema: z.object({
+        repoPath: z.string().describe('リポジトリのパス'),
+        database: z.string().optional().describe('OSV形式のアドバイザリのディレクトリまたはJSONバンドルのパス'),
+        package: z.string().optional().describe('特定のパッケージ名に絞り込む'),
+        minSeverity: severitySchema.optional().describe('この深刻度以上のみを返す'),
+    }),
+    outputSchema: vulnerabilityReportSchema,
+    execute: async ({ context }) => {
+        try {
+            const report = await scanVulnerabilities(context.repoPath, { database: context.database });
+            const order = severitySchema.options;
+            const threshold = context.minSeverity ? order.indexOf(context.minSeverity) : order.length - 1;
+            const findings = report.findings.filter(finding =>
+                (!context.package || finding.package === context.package)
+                && order.indexOf(finding.severity) <= threshold
+            );
+            return { ...report, findings };
+        } catch (error: any) {
+            throw new Error(`脆弱性の照合に失敗: ${error?.message || '不明なエラー'}`);
+        }
+    },
+});
+
+export const licenseCheckTool = createTool({
+    id: 'license-check',
+    description: 'プロジェクトと依存パッケージのライセンスを特定し、許可・拒否・要確認のポリシーと照合',
+    inputSchema: z.object({
+        repoPath: z.string().describe('リポジトリのパス'),
+        policy: z.string().optional().describe('ポリシーファイルのパス（省略時は .mastra-license.json、なければ既定のポリシー）'),
+        onlyIssues: z.boolean().optional().describe('許可されていない依存のみを返す'),
+    }),
+    outputSchema: licenseReportSchema,
+    execute: async ({ context }) => {
+        try {
+            const report = await checkLicenses(context.repoPath, { policy: context.policy });
+            return context.onlyIssues
+                ? { ...report, dependencies: report.dependencies.filter(dep => dep.status !== 'allowed') }
+                : report;
+        } catch (error: any) {
+            throw new Error(`ライセンスの確認に失敗: ${error?.message || '不明なエラー'}`);
+        }
+    },
+});
+
+export const workspaceAnalysisTool = createTool({
+    id: 'analyze-workspaces',
+    description: 'モノレポのワークスペース（npm・yarn・pnpm・Nx・Turborepo・Lerna）を検出し、パッケージごとの解析とパッケージ間の依存グラフを作成',
+    inputSchema: z.object({
+        repoPath: z.string().describe('リポジトリのパス'),
+    }),
+    outputSchema: workspaceAnalysisSchema,
+    execute: async ({ context }) => {
+        try {
+            return await analyzeWorkspaces(context.repoPath);
+        } catch (error: any) {
+            throw new Error(`ワークスペースの分析に失敗: ${error?.message || '不明なエラー'}`);
+        }
+    },
+});
+
+export const duplicationTool = createTool({
+    id: 'detect-duplication',
+    description: 'コピー＆ペーストされたコードブロックを検出（TS/JSは識別子とリテラルを正規化したトークン、それ以外の言語は行で比較）',
+    inputSchema: z.object({
+        repoPath: z.string().describe('リポジトリのパス'),
+        minTokens: z.number().optional().describe('クローンとみなす最小トークン数（TS/JS、既定は50）'),
+        minLines: z.number().optional().describe('クローンとみなす最小行数（既定は5）'),
+        limit: z.number().optional().describe('返すクローングループの最大件数'),
+    }),
+    outputSchema: duplicationReportSchema,
+    execute: async ({ context }) => {
+        try {
+            return await detectDuplication(context.repoPath, {
+                minTokens: context.minTokens,
+                minLines: context.minLines,
+                limit: context.limit,
+            });
+        } catch (error: any) {
+            throw new Error(`重複コードの検出に失敗: ${error?.message || '不明なエラー'}`);
+        }
+    },
+});
+
+export const importGraphTool = createTool({
+    id: 'import-graph',
+    description: 'TS/JSのimport・export（ESM・CommonJS・動的import・tsconfigのpaths）からモジュールの依存グラフを構築し、循環依存・fan-in/fan-outを分析してMermaid・DOTで出力',
+    inputSchema: z.object({
+        repoPath: z.string().describe('リポジトリのパス'),
+        level: graphLevelSchema.optional().describe('図の単位（file: ファイル単位、directory: ディレクトリ単位、既定はdirectory）'),
+        depth: z.number().optional().describe('ディレクトリ単位で集約する階層の深さ'),
+        includeEdges: z.boolean().optional().describe('ファイル間の依存（エッジ）の一覧を含めるか'),
+        limit: z.number().optional().describe('fan-in/fan-outランキングの最大件数'),
+    }),
+    outputSchema: importGraphSchema,
+    execute: async ({ context }) => {
+        try {
+            return await analyzeImportGraph(context.repoPath, {
+                level: context.level,
+                depth: context.depth,
+                includeEdges: context.includeEdges,
+                limit: context.limit,
+            });
+        } catch (error: any) {
+            throw new Error(`依存グラフの構築に失敗: ${error?.message || '不明なエラー'}`);
+        }
+    },
+});
+
+export const deadCodeTool = createTool({
+    id: 'dead-code',
+    description: 'TS/JSのモジュール依存グラフから、どこからもimportされていないexportとエントリポイントから到達できないファイルを検出（動的importを考慮した信頼度付き）',
+    inputSchema: z.object({
+        repoPath: z.string().describe('リポジトリのパス'),
+        entryPoints: z.array(z.string()).optional().describe('package.jsonやフレームワークの規約に加えて扱うエントリポイント（相対パスまたはglob）'),
+        limit: z.number().optional().describe('未使用のexport・到達不能なファイルそれぞれの最大件数'),
+    }),
+    outputSchema: deadCodeReportSchema,
+    execute: async ({ context }) => {
+        try {
+            return await detectDeadCode(context.repoPath, {
+                entryPoints: context.entryPoints,
+                limit: context.limit,
+            });
+        } catch (error: any) {
+            throw new Error(`未使用コードの検出に失敗: ${error?.message || '不明なエラー'}`);
+        }
+    },
+});
+
+export const secretScanTool = createTool({
+    id: 'secret-scan',
+    description: 'リポジトリのファイルとgitの履歴から、コミットされた認証情報（AWS・GitHub・Slackのトークン、秘密鍵、JWT、高エントロピーな文字列）を検出（値は伏せ字で出力）',
+    inputSchema: z.object({
+        repoPath: z.string().describe('リポジトリのパス'),
+        allowlist: z.string().optional().describe('許可リストのパス（省略時は .mastra-secrets.json）'),
+        history: z.boolean().optional().describe('gitの履歴も検査するか（既定はtrue）'),
+        maxCommits: z.number().optional().describe('履歴を検査するコミット数の上限'),
+        limit: z.number().optional().describe('検出結果の最大件数'),
+    }),
+    outputSchema: secretReportSchema,
+    execute: async ({ context }) => {
+        try {
+            return await scanSecrets(context.repoPath, {
+                allowlist: context.allowlist,
+                history: context.history,
+                maxCommits: context.maxCommits,
+                limit: context.limit,
+            });
+        } catch (error: any) {
+            throw new Error(`シークレットの検査に失敗: ${error?.message || '不明なエラー'}`);
+        }
+    },
+});
+
+export const issueHealthTool = createTool({
+    id: 'github-issue-health',
+    description: 'GitHub（GitHub Enterprise Serverを含む）のイシューとプルリクエストを集計（初回応答・クローズ／マージまでの時間の中央値、停滞した項目、ラベルの分布、外部からの貢献の割合）。他のホスティングサービスには対応しない',
+    inputSchema: hostedRepositoryInputSchema.extend({
+        days: z.number().optional().describe('集計する期間（日数、既定は90日）'),
+        staleDays: z.number().optional().describe('停滞とみなす未更新の日数（既定は90日）'),
+        maxItems: z.number().optional().describe('取得するイシュー・プルリクエスト・コメントの上限'),
+    }),
+    outputSchema: issueHealthSchema,
+    execute: async ({ context }) => {
+        let label = context.repoUrl || `${context.owner}/${context.repo}`;
+        try {
+            const repository = await resolveHostedRepository(context);
+            label = `${repository.owner}/${repository.repo}`;
+            const { octokit } = await getHostedGitHubClient(repository);
+            return await analyzeIssueHealth(octokit, repository.owner, repository.repo, {
+                days: context.days,
+                staleDays: context.staleDays,
+                maxItems: context.maxItems,
+            });
+        } catch (error: any) {
+            if (error?.status === 404) {
+                throw new Error(`リポジトリが見つかりません: ${label}`);
+            }
+            throw new Error(`イシューとプルリクエストの集計に失敗: ${error?.message || '不明なエラー'}`);
+        }
+    },
+});
+
+export const projectActivityTool = createTool({
+    id: 'project-activity',
+    description: 'リリースの頻度と最後のリリースからの経過日数、タグのセマンティックバージョニングへの準拠、月ごとのコントリビューター（新規・継続）、週ごとのコミット数を集計',
+    inputSchema: z.object({
+        repoPath: z.string().describe('リポジトリのパス'),
+        repoUrl: z.string().optional().describe('リポジトリのURL（指定するとホスティングサービスのリリースを使用）'),
+        owner: z.string().optional().describe('リポジトリの所有者（指定するとホスティングサービスのリリースを使用）'),
+        repo: z.string().optional().describe('リポジトリ名'),
+        provider: providerKindSchema.optional().describe('ホスティングサービス（github・gitlab・gitea・bitbucket、省略時はURLから判定）'),
+        host: z.string().optional().describe('セルフホストの場合のホスト名'),
+        months: z.number().optional().describe('集計する期間（月数、既定は12か月）'),
+    }),
+    outputSchema: projectActivitySchema,
+    execute: async ({ context }) => {
+        try {
+            const repository = context.repoUrl || (context.owner && context.repo)
+                ? await resolveHostedRepository(context)
+                : null;
+            const hosting = repository ? { provider: createProvider(repository), repository } : undefined;
+            return await analyzeProjectActivity(context.repoPath, { hosting, months: context.months });
+        } catch (error: any) {
+            throw new Error(`リリースとコントリビューターの集計に失敗: ${error?.message || '不明なエラー'}`);
+        }
+    },
+});
@@ -1,57 +1,71 @@
-import { exec } from 'child_process';
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { promisify } from 'util';
 import fg from 'fast-glob';
-
-const execAsync = promisify(exec);
+import {
+    ComplexitySummary,
+    FileComplexity,
+    aggregateComplexity,
+    analyzeSourceComplexity,
+    isComplexitySupported,
+} from './complexity';
+import { RepositorySource, resolveRepositorySource } from './source';
+import { CheckoutStatus, checkoutRepository } from './cache';
+import { ProviderKind } from './providers';
+import { Dependency, Ecosystem } from './manifests';
+import { detectProjectLicense } from './licenses';
+import { filterIgnoredFiles } from './gitignore';
+import {
+    ExcludedFiles,
+    FileClassification,
+    FileLineStat,
+    LanguageStat,
+    classifyFiles,
+    isSourceFile,
+    summarizeLanguages,
+} from './languages';
+import {
+    WorkspaceAnalysis,
+    analyzeRepositoryManifests,
+    detectWorkspaces,
+    findWorkspaceCycles,
+    workspaceGraphMermaid,
+} from './workspaces';
+
+const CHECKOUT_MESSAGES: Record<CheckoutStatus, string> = {
+    local: 'Using local working copy. Skipping clone.',
+    cached: 'Cached checkout matches the remote commit. Skipping clone.',
+    updated: 'Cached checkout updated with git fetch.',
+    cloned: 'Repository cloned successfully',
+};
 
 export async function cloneRepo(
     repoUrl: string,
     branch?: string,
-    forceClone: boolean = false
+    forceClone: boolean = false,
+    provider?: ProviderKind
 ): Promise<{
     repoPath: string;
     files: string[];
     success: boolean;
     message: string;
+    source: RepositorySource | null;
+    commit: string;
 }> {
+    let source: RepositorySource | null = null;
     try {
-        const repoName = repoUrl.split('/').pop()?.replace('.git', '') || 'repo';
-        const repoPath = path.join(process.cwd(), 'temp', repoName);
-
-        const repoExists = await fileExists(path.join(repoPath, '.git'));
-
-        if (repoExists && !forceClone) {
-            const files = await listFiles(repoPath);
-            return {
-                repoPath,
-                files,
-                success: true,
-                message: 'Repository already cloned. Skipping clone.',
-            };
-        }
-
-        // ディレクトリ削除（forceCloneがtrue または repoが存在）
-        if (repoExists) {
-            await fs.rm(repoPath, { recursive: true, force: true });
-        }
-
-        await fs.mkdir(path.join(process.cwd(), 'temp'), { recursive: true });
-
-        const cloneCommand = branch
-            ? `git clone -b ${branch} ${repoUrl} ${repoPath}`
-            : `git clone ${repoUrl} ${repoPath}`;
+        source = await resolveRepositorySource(repoUrl, { provider });
 
-        await execAsync(cloneCommand);
-
-        const files = await listFiles(repoPath);
+        // クローンは githubCloneTool と共通のキャッシュ（リポジトリ + ref 単位）に保存する
+        const checkout = await checkoutRepository(source, branch, forceClone);
+        const files = await listFiles(checkout.path);
 
         return {
-            repoPath,
+            repoPath: checkout.path,
             files,
             success: true,
-            message: 'Repository cloned successfully',
+            message: CHECKOUT_MESSAGES[checkout.status],
+            source,
+            commit: checkout.commit,
         };
     } catch (error) {
         return {
@@ -59,20 +73,27 @@ export async function cloneRepo(
             files: [],
             success: false,
             message: `Failed to clone repository: ${error instanceof Error ? error.message : String(error)}`,
+            source,
+            commit: '',
         };
     }
 }
 
 export async function analyzeCode(repoPath: string, filePattern?: string): Promise<{
     files: string[];
-    dependencies: string[];
+    dependencies: Dependency[];
     codeMetrics: {
         totalFiles: number;
         totalLines: number;
-        languageStats: Record<string, number>;
+        totalCode: number;
+        totalComment: number;
+        totalBlank: number;
+        languageStats: Record<string, LanguageStat>;
+        fileStats: FileLineStat[];
+        excludedFiles: ExcludedFiles;
     };
     analysis: {
-        complexity: number;
+        complexity: ComplexitySummary;
         maintainability: number;
         documentation: number;
     };
@@ -94,11 +115,11 @@ export async function analyzeCode(repoPath: string, filePattern?: string): Promi
         // 依存関係を解析
         const dependencies = await analyzeDependencies(repoPath);
 
-        // コードメトリクスを計算
-        const metrics = await calculateMetrics(files, repoPath);
+        // コードメトリクスを計算（vendored・generated なファイルは集計から除外）
+        const { metrics, sourceFiles } = await calculateMetrics(files, repoPath);
 
         // コード品質分析
-        const analysis = await analyzeCodeQuality(files, repoPath);
+        const analysis = await analyzeCodeQuality(sourceFiles, repoPath);
 
         return {
             files,
@@ -117,8 +138,9 @@ export async function analyzeSpecification(repoPath: string): Promise<{
     version: string;
     mainTechnologies: string[];
     scripts: Record<string, string>;
-    dependencies: Record<string, string>;
-    devDependencies: Record<string, string>;
+    ecosystems: Ecosystem[];
+    manifests: string[];
+    dependencies: Dependency[];
     configurations: Array<{
         fileName: string;
         content: unknown;
@@ -127,6 +149,8 @@ export async function analyzeSpecification(repoPath: string): Promise<{
         hasReadme: boolean;
         hasContributing: boolean;
         hasLicense: boolean;
+        // LICENSE 本文またはマニフェストから特定したSPDX識別子
+        license: string | null;
         readmeContent?: string;
     };
 }> {
@@ -134,9 +158,11 @@ export async function analyzeSpecification(repoPath: string): Promise<{
         // 全ファイルを取得
         const allFiles = await listFiles(repoPath);
 
+        // モノレポではネストしたパッケージのファイルも一致するため、ルートに最も近いものを優先する
         function findFile(name: string): string | null {
-            const match = allFiles.find(f => f.endsWith(`/${name}`));
-            return match || null;
+            const matches = allFiles.filter(f => f.endsWith(`/${name}`));
+            const depth = (file: string) => path.relative(repoPath, file).split(path.sep).length;
+            return matches.sort((a, b) => depth(a) - depth(b))[0] || null;
         }
 
         // package.jsonの解析
@@ -192,22 +218,30 @@ export async function analyzeSpecification(repoPath: string): Promise<{
             })
         ).then(results => results.filter((result): result is NonNullable<typeof result> => result !== null));
 
+        // 各エコシステムのマニフェストを解析（ワークスペース内のパッケージを含む）
+        const manifestAnalysis = await analyzeRepositoryManifests(repoPath);
+        const { project } = manifestAnalysis;
+
+        const projectLicense = await detectProjectLicense(repoPath);
+
         // メインの技術スタックを特定
-        const mainTechnologies = detectMainTechnologies(packageJson, configurations);
+        const mainTechnologies = detectMainTechnologies(manifestAnalysis.dependencies, configurations);
 
         return {
-            projectName: (packageJson as any).name || path.basename(repoPath),
-            description: (packageJson as any).description || '',
-            version: (packageJson as any).version || '0.0.0',
+            projectName: (packageJson as any).name || project.name || path.basename(repoPath),
+            description: (packageJson as any).description || project.description || '',
+            version: (packageJson as any).version || project.version || '0.0.0',
             mainTechnologies,
             scripts: (packageJson as any).scripts || {},
-            dependencies: (packageJson as any).dependencies || {},
-            devDependencies: (packageJson as any).devDependencies || {},
+            ecosystems: manifestAnalysis.ecosystems,
+            manifests: manifestAnalysis.manifests,
+            dependencies: manifestAnalysis.dependencies,
             configurations,
             documentation: {
                 hasReadme,
                 hasContributing: await fileExists(path.join(repoPath, 'CONTRIBUTING.md')),
-                hasLicense: await fileExists(path.join(repoPath, 'LICENSE')),
+                hasLicense: await fileExists(path.join(repoPath, 'LICENSE')) || projectLicense.source !== null,
+                license: projectLicense.license,
                 readmeContent,
             },
         };
@@ -216,6 +250,95 @@ export async function analyzeSpecification(repoPath: string): Promise<{
     }
 }
 
+/**
+ * ワークスペース内の各パッケージを個別に解析し、パッケージ間の依存グラフとリポジトリ全体の集計を返す。
+ */
+export async function analyzeWorkspaces(repoPath: string): Promise<WorkspaceAnalysis> {
+    try {
+        const layout = await detectWorkspaces(repoPath);
+
+        const packages: WorkspaceAnalysis['packages'] = [];
+        // 保守性の重み付けに使う、パッケージごとの解析したソースファイル数
+        const sourceFileCounts: number[] = [];
+        for (const pkg of layout.packages) {
+            const packagePath = path.join(repoPath, pkg.path);
+            const files = await listFiles(packagePath);
+            const dependencies = await analyzeDependencies(packagePath);
+            const { metrics, sourceFiles } = await calculateMetrics(files, packagePath);
+            const quality = await analyzeCodeQuality(sourceFiles, packagePath, 0);
+            sourceFileCounts.push(sourceFiles.length);
+
+            packages.push({
+                ...pkg,
+                dependents: layout.packages
+                    .filter(other => other.internalDependencies.includes(pkg.name))
+                    .map(other => other.name),
+                files: metrics.totalFiles,
+                lines: metrics.totalLines,
+                dependencies: dependencies.map(dep => ({ ...dep, manifest: path.posix.join(pkg.path, dep.manifest) })),
+                complexity: {
+                    functionCount: quality.complexity.functionCount,
+                    averageCyclomatic: quality.complexity.averageCyclomatic,
+                    maxCyclomatic: quality.complexity.maxCyclomatic,
+                },
+                maintainability: quality.maintainability,
+                documentation: quality.documentation,
+            });
+        }
+
+        // 外部依存のうち複数パッケージで使われているものと、宣言バージョンが揃っていないものを集計する
+        const internalNames = new Set(layout.packages.map(pkg => pkg.name));
+        const usage = new Map<string, { packages: Set<string>; versions: Set<string> }>();
+        for (const pkg of packages) {
+            for (const dependency of pkg.dependencies) {
+                if (internalNames.has(dependency.name)) continue;
+                const key = `${dependency.ecosystem}:${dependency.name}`;
+                const entry = usage.get(key) || { packages: new Set(), versions: new Set() };
+                entry.packages.add(pkg.name);
+                if (dependency.version) entry.versions.add(dependency.version);
+                usage.set(key, entry);
+            }
+        }
+        const shared = Array.from(usage.entries())
+            .filter(([, entry]) => entry.packages.size > 1)
+            .map(([key, entry]) => ({
+                name: key.slice(key.indexOf(':') + 1),
+                packages: Array.from(entry.packages).sort(),
+                versions: Array.from(entry.versions).sort(),
+            }))
+            .sort((a, b) => b.packages.length - a.packages.length || a.name.localeCompare(b.name));
+
+        // 複雑度は関数数、保守性は（ファイル単位の平均のため）ソースファイル数で重み付けする。対象がなければ null
+        const weightedAverage = (values: number[], weights: number[]) => {
+            const total = weights.reduce((sum, weight) => sum + weight, 0);
+            return total > 0 ? values.reduce((sum, value, index) => sum + value * weights[index], 0) / total : null;
+        };
+
+        return {
+            tools: layout.tools,
+            patterns: layout.patterns,
+            packages,
+            cycles: findWorkspaceCycles(layout.packages),
+            mermaid: workspaceGraphMermaid(layout.packages),
+            rollup: {
+                packageCount: packages.length,
+                totalFiles: packages.reduce((sum, pkg) => sum + pkg.files, 0),
+                totalLines: packages.reduce((sum, pkg) => sum + pkg.lines, 0),
+                externalDependencies: usage.size,
+                averageCyclomatic: weightedAverage(
+                    packages.map(pkg => pkg.complexity.averageCyclomatic),
+                    packages.map(pkg => pkg.complexity.functionCount)
+                ),
+                maintainability: weightedAverage(packages.map(pkg => pkg.maintainability), sourceFileCounts),
+                sharedDependencies: shared,
+                versionDrift: shared.filter(dependency => dependency.versions.length > 1),
+            },
+        };
+    } catch (error) {
+        throw new Error(`Failed to analyze workspaces: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
 async function listFiles(dir: string, pattern?: string): Promise<string[]> {
     try {
         // パターンの正規化
@@ -236,7 +359,7 @@ async function listFiles(dir: string, pattern?: string): Promise<string[]> {
             absolute: true,
             onlyFiles: true,
             dot: false, // .gitなどは除外
-        });
+        }).then(found => filterIgnoredFiles(dir, found));
 
         if (files.length === 0 && pattern) {
             throw new Error(`No files matched the pattern "${globPattern}" in ${dir}`);
@@ -248,92 +371,87 @@ async function listFiles(dir: string, pattern?: string): Promise<string[]> {
     }
 }
 
-async function analyzeDependencies(repoPath: string): Promise<string[]> {
-    const dependencies: string[] = [];
-
+async function analyzeDependencies(repoPath: string): Promise<Dependency[]> {
     try {
-        // package.jsonが存在する場合はnpm依存関係を解析
-        const packageJsonPath = path.join(repoPath, 'package.json');
-        const packageJsonExists = await fileExists(packageJsonPath);
-
-        if (packageJsonExists) {
-            const packageJson = JSON.parse(await fs.readFile(packageJsonPath, 'utf-8'));
-            dependencies.push(...Object.keys(packageJson.dependencies || {}));
-            dependencies.push(...Object.keys(packageJson.devDependencies || {}));
-        }
+        // package.json・pyproject.toml・go.mod などのマニフェストを解析（ワークスペース内のパッケージを含む）
+        const { dependencies } = await analyzeRepositoryManifests(repoPath);
+        return dependencies;
     } catch (error) {
         console.error('Error analyzing dependencies:', error);
+        return [];
     }
-
-    return dependencies;
 }
 
 async function calculateMetrics(files: string[], repoPath: string): Promise<{
-    totalFiles: number;
-    totalLines: number;
-    languageStats: Record<string, number>;
+    metrics: Awaited<ReturnType<typeof analyzeCode>>['codeMetrics'];
+    sourceFiles: FileClassification[];
 }> {
-    let totalLines = 0;
-    const languageStats: Record<string, number> = {};
-
-    for (const file of files) {
-        try {
-            const content = await fs.readFile(file, 'utf-8');
-            const lines = content.split('\n').length;
-            totalLines += lines;
-
-            const ext = path.extname(file).toLowerCase();
-            languageStats[ext] = (languageStats[ext] || 0) + 1;
-        } catch (error) {
-            console.error(`Error processing file ${file}:`, error);
-        }
-    }
+    // 拡張子・ファイル名・シバンから言語を特定し、.gitattributes の linguist-* 属性を反映する
+    // 行数は言語ごとのコメント構文に従ってコード・コメント・空行に分類する
+    const classified = await classifyFiles(files, repoPath);
 
     return {
-        totalFiles: files.length,
-        totalLines,
-        languageStats,
+        metrics: summarizeLanguages(classified),
+        sourceFiles: classified.filter(isSourceFile),
     };
 }
 
-async function analyzeCodeQuality(files: string[], repoPath: string): Promise<{
-    complexity: number;
+async function analyzeCodeQuality(files: FileClassification[], repoPath: string, worstFunctionLimit: number = 10): Promise<{
+    complexity: ComplexitySummary;
     maintainability: number;
     documentation: number;
 }> {
-    // シンプルなコード品質分析の実装
-    let totalComplexity = 0;
+    const fileComplexities: FileComplexity[] = [];
     let totalMaintainability = 0;
-    let totalDocumentation = 0;
     let fileCount = 0;
+    let codeLines = 0;
+    let commentLines = 0;
 
     for (const file of files) {
+        const filePath = path.join(repoPath, file.path);
         try {
-            const content = await fs.readFile(file, 'utf-8');
-            const lines = content.split('\n');
-
-            // 循環的複雑度の簡易計算（if, for, while, switch, catch文の数をカウント）
-            const complexity = (content.match(/\b(if|for|while|switch|catch)\b/g) || []).length;
-
-            // メンテナンス性（行の長さ、関数の長さなどを考慮）
-            const maintainability = calculateMaintainability(lines);
+            const content = await fs.readFile(filePath, 'utf-8');
+            const { complexity: fileComplexity, maintainability } = measureFileQuality(content, file.path);
+            if (fileComplexity) {
+                fileComplexities.push(fileComplexity);
+            }
 
-            // ドキュメント化率（コメント行の割合）
-            const documentation = (content.match(/\/\*[\s\S]*?\*\/|\/\/.*/g) || []).length / lines.length;
+            // ドキュメント化率はプログラミング言語のコメント行の割合（コメント行 / (コード行 + コメント行)）
+            if (file.type === 'programming') {
+                codeLines += file.code;
+                commentLines += file.comment;
+            }
 
-            totalComplexity += complexity;
             totalMaintainability += maintainability;
-            totalDocumentation += documentation;
             fileCount++;
         } catch (error) {
-            console.error(`Error analyzing file ${file}:`, error);
+            console.error(`Error analyzing file ${filePath}:`, error);
         }
     }
 
     return {
-        complexity: fileCount > 0 ? totalComplexity / fileCount : 0,
+        complexity: aggregateComplexity(fileComplexities, worstFunctionLimit),
         maintainability: fileCount > 0 ? totalMaintainability / fileCount : 0,
-        documentation: fileCount > 0 ? totalDocumentation : 0,
+        documentation: codeLines + commentLines > 0 ? commentLines / (codeLines + commentLines) : 0,
+    };
+}
+
+/**
+ * 1ファイル分の複雑度と保守性指数を算出する。
+ * TS/JSはASTから関数単位の複雑度と保守性指数を算出し、それ以外は行ベースで推定する。
+ */
+export function measureFileQuality(content: string, relativePath: string): {
+    complexity: FileComplexity | null;
+    maintainability: number;
+} {
+    const complexity = isComplexitySupported(relativePath)
+        ? analyzeSourceComplexity(content, relativePath)
+        : null;
+
+    return {
+        complexity,
+        // メンテナンス性（行の長さ、関数の長さなどを考慮）
+        maintainability: complexity ? complexity.maintainability : calculateMaintainability(content.split('\n')),
     };
 }
 
@@ -354,33 +472,55 @@ async function fileExists(filePath: string): Promise<boolean> {
 }
 
 function detectMainTechnologies(
-    packageJson: Record<string, any>,
+    dependencies: Dependency[],
     configurations: Array<{ fileName: string; content: unknown }>
 ): string[] {
     const technologies: Set<string> = new Set();
 
-    // package.jsonからの検出
-    const allDeps = {
-        ...packageJson.dependencies,
-        ...packageJson.devDependencies,
+    // エコシステムから言語を検出
+    const ecosystemLanguages: Record<Ecosystem, string> = {
+        npm: 'Node.js',
+        pypi: 'Python',
+        go: 'Go',
+        cargo: 'Rust',
+        maven: 'JVM',
+        rubygems: 'Ruby',
+        composer: 'PHP',
     };
+    dependencies.forEach(dep => technologies.add(ecosystemLanguages[dep.ecosystem]));
+
+    const has = (ecosystem: Ecosystem, name: string) =>
+        dependencies.some(dep => dep.ecosystem === ecosystem && dep.name.toLowerCase() === name);
 
     // 主要なフレームワークやライブラリを検出
-    if (allDeps) {
-        if (allDeps['react']) technologies.add('React');
-        if (allDeps['vue']) technologies.add('Vue.js');
-        if (allDeps['@angular/core']) technologies.add('Angular');
-        if (allDeps['next']) technologies.add('Next.js');
-        if (allDeps['nuxt']) technologies.add('Nuxt.js');
-        if (allDeps['express']) technologies.add('Express.js');
-        if (allDeps['koa']) technologies.add('Koa.js');
-        if (allDeps['fastify']) technologies.add('Fastify');
-        if (allDeps['typescript']) technologies.add('TypeScript');
-        if (allDeps['jest'] || allDeps['@jest/core']) technologies.add('Jest');
-        if (allDeps['webpack']) technologies.add('Webpack');
-        if (allDeps['vite']) technologies.add('Vite');
-        if (allDeps['tailwindcss']) technologies.add('Tailwind CSS');
-    }
+    if (has('npm', 'react')) technologies.add('React');
+    if (has('npm', 'vue')) technologies.add('Vue.js');
+    if (has('npm', '@angular/core')) technologies.add('Angular');
+    if (has('npm', 'next')) technologies.add('Next.js');
+    if (has('npm', 'nuxt')) technologies.add('Nuxt.js');
+    if (has('npm', 'express')) technologies.add('Express.js');
+    if (has('npm', 'koa')) technologies.add('Koa.js');
+    if (has('npm', 'fastify')) technologies.add('Fastify');
+    if (has('npm', 'typescript')) technologies.add('TypeScript');
+    if (has('npm', 'jest') || has('npm', '@jest/core')) technologies.add('Jest');
+    if (has('npm', 'webpack')) technologies.add('Webpack');
+    if (has('npm', 'vite')) technologies.add('Vite');
+    if (has('npm', 'tailwindcss')) technologies.add('Tailwind CSS');
+    if (has('pypi', 'django')) technologies.add('Django');
+    if (has('pypi', 'flask')) technologies.add('Flask');
+    if (has('pypi', 'fastapi')) technologies.add('FastAPI');
+    if (has('pypi', 'pytest')) technologies.add('pytest');
+    if (has('go', 'github.com/gin-gonic/gin')) technologies.add('Gin');
+    if (has('go', 'github.com/labstack/echo/v4')) technologies.add('Echo');
+    if (has('cargo', 'actix-web')) technologies.add('Actix Web');
+    if (has('cargo', 'axum')) technologies.add('Axum');
+    if (has('cargo', 'tokio')) technologies.add('Tokio');
+    if (dependencies.some(dep => dep.ecosystem === 'maven' && dep.name.startsWith('org.springframework'))) technologies.add('Spring');
+    if (dependencies.some(dep => dep.ecosystem === 'maven' && dep.name.startsWith('org.jetbrains.kotlin'))) technologies.add('Kotlin');
+    if (has('rubygems', 'rails')) technologies.add('Ruby on Rails');
+    if (has('rubygems', 'rspec')) technologies.add('RSpec');
+    if (has('composer', 'laravel/framework')) technologies.add('Laravel');
+    if (has('composer', 'symfony/framework-bundle')) technologies.add('Symfony');
 
     // 設定ファイルからの検出
     configurations.forEach(config => {
@@ -0,0 +1,356 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import fg from 'fast-glob';
+import { z } from 'zod';
+import { Ecosystem, analyzeManifests } from './manifests';
+import { findDependencyPath, loadLockfile } from './lockfile';
+import { compareVersions, isValidVersion } from './semver';
+
+export const severitySchema = z.enum(['critical', 'high', 'medium', 'low', 'unknown']);
+
+export const vulnerabilityReportSchema = z.object({
+    database: z.object({
+        // 読み込んだアドバイザリDBのパス（見つからない場合は null）
+        source: z.string().nullable(),
+        advisories: z.number(),
+    }),
+    // 照合したパッケージ数
+    scannedPackages: z.number(),
+    findings: z.array(z.object({
+        id: z.string(),
+        aliases: z.array(z.string()),
+        summary: z.string(),
+        severity: severitySchema,
+        // CVSS v3 のベーススコア（算出できない場合は null）
+        score: z.number().nullable(),
+        ecosystem: z.string(),
+        package: z.string(),
+        version: z.string(),
+        affectedRange: z.string(),
+        fixedVersion: z.string().nullable(),
+        // 直接依存から該当パッケージまでの依存パス（name@version）
+        path: z.array(z.string()),
+        direct: z.boolean(),
+    })),
+    counts: z.record(severitySchema, z.number()),
+});
+
+export type Severity = z.infer<typeof severitySchema>;
+export type VulnerabilityReport = z.infer<typeof vulnerabilityReportSchema>;
+type Finding = VulnerabilityReport['findings'][number];
+
+export interface VulnerabilityScanOptions {
+    // OSV形式のアドバイザリを格納したディレクトリ、またはJSONバンドルのパス
+    database?: string;
+}
+
+// OSVスキーマのうち照合に使用する項目
+interface OsvEntry {
+    id: string;
+    summary?: string;
+    details?: string;
+    aliases?: string[];
+    withdrawn?: string;
+    severity?: Array<{ type: string; score: string }>;
+    database_specific?: { severity?: string };
+    affected?: Array<{
+        package?: { ecosystem?: string; name?: string };
+        ranges?: Array<{ type: string; events: Array<Record<string, string>> }>;
+        versions?: string[];
+        database_specific?: { severity?: string };
+        ecosystem_specific?: { severity?: string };
+    }>;
+}
+
+interface InventoryPackage {
+    ecosystem: Ecosystem;
+    name: string;
+    version: string;
+    // 依存パスは照合で該当した場合のみ求める
+    path: () => string[];
+}
+
+// 内部のエコシステム名とOSVのエコシステム名の対応
+const OSV_ECOSYSTEMS: Record<Ecosystem, string> = {
+    npm: 'npm',
+    pypi: 'PyPI',
+    go: 'Go',
+    cargo: 'crates.io',
+    maven: 'Maven',
+    rubygems: 'RubyGems',
+    composer: 'Packagist',
+};
+
+const SEVERITY_ORDER: Severity[] = ['critical', 'high', 'medium', 'low', 'unknown'];
+
+export const getAdvisoryDatabasePath = () => {
+    return process.env.OSV_DATABASE_PATH || path.join(process.cwd(), '.mastra', 'osv');
+};
+
+/**
+ * 解決済みの依存バージョンをローカルのOSVアドバイザリと照合する。
+ * ネットワークには一切アクセスしない。
+ */
+export async function scanVulnerabilities(
+    repoPath: string,
+    options: VulnerabilityScanOptions = {}
+): Promise<VulnerabilityReport> {
+    const databasePath = options.database || getAdvisoryDatabasePath();
+    const advisories = await loadAdvisories(databasePath);
+    const inventory = await collectInventory(repoPath);
+
+    const counts = Object.fromEntries(SEVERITY_ORDER.map(severity => [severity, 0])) as Record<Severity, number>;
+    if (!advisories) {
+        return { database: { source: null, advisories: 0 }, scannedPackages: inventory.length, findings: [], counts };
+    }
+
+    const index = indexAdvisories(advisories);
+    const findings: Finding[] = [];
+
+    for (const pkg of inventory) {
+        const ecosystem = OSV_ECOSYSTEMS[pkg.ecosystem];
+        for (const entry of index.get(advisoryKey(ecosystem, pkg.name)) || []) {
+            const finding = matchAdvisory(entry, ecosystem, pkg);
+            if (finding) findings.push(finding);
+        }
+    }
+
+    findings.sort((a, b) =>
+        SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity)
+        || (b.score ?? 0) - (a.score ?? 0)
+        || a.package.localeCompare(b.package)
+    );
+    findings.forEach(finding => counts[finding.severity]++);
+
+    return {
+        database: { source: databasePath, advisories: advisories.length },
+        scannedPackages: inventory.length,
+        findings,
+        counts,
+    };
+}
+
+/**
+ * OSV形式のアドバイザリを読み込む。
+ * ディレクトリの場合は配下の *.json を、ファイルの場合は配列・{ vulns: [...] }・単一エントリのいずれかとして扱う。
+ */
+export async function loadAdvisories(databasePath: string): Promise<OsvEntry[] | null> {
+    let stat;
+    try {
+        stat = await fs.stat(databasePath);
+    } catch {
+        return null;
+    }
+
+    const files = stat.isDirectory()
+        ? await fg('**/*.json', { cwd: databasePath, absolute: true, onlyFiles: true })
+        : [databasePath];
+
+    const entries: OsvEntry[] = [];
+    for (const file of files) {
+        try {
+            const content = JSON.parse(await fs.readFile(file, 'utf-8'));
+            const list = Array.isArray(content) ? content : content.vulns || content.advisories || [content];
+            entries.push(...list.filter((entry: any) => entry && typeof entry.id === 'string' && Array.isArray(entry.affected)));
+        } catch (error) {
+            console.error(`Error reading advisory ${file}:`, error);
+        }
+    }
+
+    return entries.filter(entry => !entry.withdrawn);
+}
+
+// ロックファイルの解決済みバージョンと、他エコシステムの固定バージョンを照合対象とする
+async function collectInventory(repoPath: string): Promise<InventoryPackage[]> {
+    const inventory: InventoryPackage[] = [];
+    const lockfile = await loadLockfile(repoPath);
+    const resolved = lockfile?.resolved;
+
+    if (resolved) {
+        for (const pkg of resolved.packages.values()) {
+            inventory.push({
+                ecosystem: 'npm',
+                name: pkg.name,
+                version: pkg.version,
+                path: () => {
+                    const dependencyPath = findDependencyPath(resolved, pkg.id);
+                    return dependencyPath.length > 0 ? dependencyPath : [pkg.id];
+                },
+            });
+        }
+    }
+
+    const { dependencies } = await analyzeManifests(repoPath);
+    for (const dependency of dependencies) {
+        if (dependency.ecosystem === 'npm' && resolved) continue;
+        const version = pinnedVersion(dependency.version);
+        if (!version) continue;
+        inventory.push({
+            ecosystem: dependency.ecosystem,
+            name: dependency.name,
+            version,
+            path: () => [`${dependency.name}@${version}`],
+        });
+    }
+
+    return inventory;
+}
+
+// "==1.2.3" や "v1.2.3" のように単一バージョンに固定された制約のみ扱う
+function pinnedVersion(constraint: string): string | null {
+    const version = constraint.trim().replace(/^(==|=)\s*/, '');
+    return isValidVersion(version) ? version : null;
+}
+
+function advisoryKey(ecosystem: string, name: string): string {
+    const normalizedName = ecosystem === 'PyPI' ? name.toLowerCase().replace(/[-_.]+/g, '-') : name;
+    return `${ecosystem.toLowerCase()}:${normalizedName}`;
+}
+
+function indexAdvisories(entries: OsvEntry[]): Map<string, OsvEntry[]> {
+    const index = new Map<string, OsvEntry[]>();
+    for (const entry of entries) {
+        for (const affected of entry.affected || []) {
+            const { ecosystem, name } = affected.package || {};
+            if (!ecosystem || !name) continue;
+            // "Debian:11" のようなサフィックスは除いて照合する
+            const key = advisoryKey(ecosystem.split(':')[0], name);
+            const list = index.get(key) || [];
+            if (!list.includes(entry)) list.push(entry);
+            index.set(key, list);
+        }
+    }
+    return index;
+}
+
+function matchAdvisory(entry: OsvEntry, ecosystem: string, pkg: InventoryPackage): Finding | null {
+    for (const affected of entry.affected || []) {
+        const { ecosystem: affectedEcosystem = '', name = '' } = affected.package || {};
+        if (advisoryKey(affectedEcosystem.split(':')[0], name) !== advisoryKey(ecosystem, pkg.name)) continue;
+
+        let range: { description: string; fixed: string | null } | null = null;
+        if (affected.versions?.includes(pkg.version)) {
+            range = { description: `=${pkg.version}`, fixed: null };
+        }
+        for (const candidate of affected.ranges || []) {
+            if (range) break;
+            if (candidate.type === 'GIT') continue;
+            range = matchRange(pkg.version, candidate.events);
+        }
+        if (!range) continue;
+
+        const { severity, score } = resolveSeverity(entry, affected);
+        const dependencyPath = pkg.path();
+        return {
+            id: entry.id,
+            aliases: entry.aliases || [],
+            summary: entry.summary || entry.details?.split('\n')[0] || '',
+            severity,
+            score,
+            ecosystem,
+            package: pkg.name,
+            version: pkg.version,
+            affectedRange: range.description,
+            fixedVersion: range.fixed,
+            path: dependencyPath,
+            direct: dependencyPath.length === 1,
+        };
+    }
+    return null;
+}
+
+/**
+ * OSVの events（introduced / fixed / last_affected / limit）で表される区間にバージョンが含まれるかを判定する。
+ */
+function matchRange(version: string, events: Array<Record<string, string>>): { description: string; fixed: string | null } | null {
+    const sorted = [...events].sort((a, b) => {
+        const left = Object.values(a)[0];
+        const right = Object.values(b)[0];
+        if (left === '0') return -1;
+        if (right === '0') return 1;
+        return compareVersions(left, right);
+    });
+
+    let introduced: string | null = null;
+    for (const event of sorted) {
+        if (event.introduced !== undefined) {
+            if (event.introduced === '0' || compareVersions(version, event.introduced) >= 0) {
+                introduced = event.introduced;
+            }
+            continue;
+        }
+        if (introduced === null) continue;
+
+        const lower = introduced === '0' ? '' : `>=${introduced} `;
+        if (event.fixed !== undefined || event.limit !== undefined) {
+            const upper = event.fixed ?? event.limit;
+            if (compareVersions(version, upper) < 0) {
+                return { description: `${lower}<${upper}`.trim(), fixed: event.fixed ?? null };
+            }
+            introduced = null;
+        } else if (event.last_affected !== undefined) {
+            if (compareVersions(version, event.last_affected) <= 0) {
+                return { description: `${lower}<=${event.last_affected}`.trim(), fixed: null };
+            }
+            introduced = null;
+        }
+    }
+
+    // 上限のない区間（修正版が存在しない）
+    if (introduced !== null) {
+        return { description: introduced === '0' ? '*' : `>=${introduced}`, fixed: null };
+    }
+    return null;
+}
+
+function resolveSeverity(entry: OsvEntry, affected: NonNullable<OsvEntry['affected']>[number]): { severity: Severity; score: number | null } {
+    const cvss = entry.severity?.find(item => item.type === 'CVSS_V3');
+    const score = cvss ? cvssV3BaseScore(cvss.score) : null;
+
+    const label = affected.database_specific?.severity
+        || affected.ecosystem_specific?.severity
+        || entry.database_specific?.severity;
+    const normalized = label?.toLowerCase() === 'moderate' ? 'medium' : label?.toLowerCase();
+    if (normalized && SEVERITY_ORDER.includes(normalized as Severity)) {
+        return { severity: normalized as Severity, score };
+    }
+
+    if (score === null) return { severity: 'unknown', score };
+    if (score >= 9) return { severity: 'critical', score };
+    if (score >= 7) return { severity: 'high', score };
+    if (score >= 4) return { severity: 'medium', score };
+    return { severity: 'low', score };
+}
+
+/**
+ * CVSS v3.x のベクター文字列からベーススコアを算出する。
+ */
+function cvssV3BaseScore(vector: string): number | null {
+    const metrics = Object.fromEntries(
+        vector.split('/').slice(1).map(part => part.split(':') as [string, string])
+    );
+    const weights: Record<string, Record<string, number>> = {
+        AV: { N: 0.85, A: 0.62, L: 0.55, P: 0.2 },
+        AC: { L: 0.77, H: 0.44 },
+        UI: { N: 0.85, R: 0.62 },
+        C: { H: 0.56, L: 0.22, N: 0 },
+        I: { H: 0.56, L: 0.22, N: 0 },
+        A: { H: 0.56, L: 0.22, N: 0 },
+    };
+    const changed = metrics.S === 'C';
+    const privileges: Record<string, number> = { N: 0.85, L: changed ? 0.68 : 0.62, H: changed ? 0.5 : 0.27 };
+
+    const [av, ac, ui, c, i, a] = ['AV', 'AC', 'UI', 'C', 'I', 'A'].map(key => weights[key][metrics[key]]);
+    const pr = privileges[metrics.PR];
+    if ([av, ac, ui, c, i, a, pr].some(value => value === undefined)) return null;
+
+    const iss = 1 - (1 - c) * (1 - i) * (1 - a);
+    const impact = changed ? 7.52 * (iss - 0.029) - 3.25 * Math.pow(iss - 0.02, 15) : 6.42 * iss;
+    if (impact <= 0) return 0;
+
+    const exploitability = 8.22 * av * ac * pr * ui;
+    const roundUp = (value: number) => Math.ceil(Math.round(value * 100000) / 10000) / 10;
+    return changed
+        ? roundUp(Math.min(1.08 * (impact + exploitability), 10))
+        : roundUp(Math.min(impact + exploitability, 10));
+}
@@ -0,0 +1,256 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import fg from 'fast-glob';
+import { z } from 'zod';
+import { parse as parseYaml } from 'yaml';
+import { ManifestAnalysis, analyzeManifests, dependencySchema } from './manifests';
+
+export const workspaceToolSchema = z.enum(['npm', 'yarn', 'pnpm', 'bun', 'nx', 'turborepo', 'lerna']);
+
+export const workspacePackageSchema = z.object({
+    name: z.string(),
+    // リポジトリルートからの相対パス
+    path: z.string(),
+    version: z.string(),
+    private: z.boolean(),
+    // ワークスペース内の他パッケージへの依存（パッケージ名）
+    internalDependencies: z.array(z.string()),
+});
+
+export const workspaceAnalysisSchema = z.object({
+    tools: z.array(workspaceToolSchema),
+    patterns: z.array(z.string()),
+    // パッケージごとの解析結果
+    packages: z.array(workspacePackageSchema.extend({
+        // このパッケージに依存しているワークスペース内のパッケージ
+        dependents: z.array(z.string()),
+        files: z.number(),
+        lines: z.number(),
+        dependencies: z.array(dependencySchema),
+        complexity: z.object({
+            functionCount: z.number(),
+            averageCyclomatic: z.number(),
+            maxCyclomatic: z.number(),
+        }),
+        maintainability: z.number(),
+        documentation: z.number(),
+    })),
+    // パッケージ間の循環依存
+    cycles: z.array(z.array(z.string())),
+    mermaid: z.string(),
+    // リポジトリ全体の集計
+    rollup: z.object({
+        packageCount: z.number(),
+        totalFiles: z.number(),
+        totalLines: z.number(),
+        // ワークスペース外の依存パッケージの種類数
+        externalDependencies: z.number(),
+        // 関数数で重み付けした平均（関数がなければ null）
+        averageCyclomatic: z.number().nullable(),
+        // ソースファイル数で重み付けした平均（ソースファイルがなければ null）
+        maintainability: z.number().nullable(),
+        // 複数のパッケージで使われている外部依存
+        sharedDependencies: z.array(z.object({
+            name: z.string(),
+            packages: z.array(z.string()),
+            versions: z.array(z.string()),
+        })),
+        // 宣言バージョンがパッケージ間で揃っていない外部依存
+        versionDrift: z.array(z.object({
+            name: z.string(),
+            packages: z.array(z.string()),
+            versions: z.array(z.string()),
+        })),
+    }),
+});
+
+export type WorkspaceTool = z.infer<typeof workspaceToolSchema>;
+export type WorkspacePackage = z.infer<typeof workspacePackageSchema>;
+export type WorkspaceAnalysis = z.infer<typeof workspaceAnalysisSchema>;
+
+export interface WorkspaceLayout {
+    tools: WorkspaceTool[];
+    // ワークスペースとして宣言されたglobパターン
+    patterns: string[];
+    packages: WorkspacePackage[];
+}
+
+const IGNORED_DIRECTORIES = ['**/node_modules/**', '**/dist/**', '**/.git/**'];
+const DEPENDENCY_FIELDS = ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies'];
+
+/**
+ * npm / yarn / pnpm / bun のワークスペース、Nx・Turborepo・Lerna の構成を検出し、ワークスペース内のパッケージを列挙する。
+ * モノレポでない場合は packages が空になる。
+ */
+export async function detectWorkspaces(repoPath: string): Promise<WorkspaceLayout> {
+    const rootPackage = await readJson(path.join(repoPath, 'package.json'));
+    const tools: WorkspaceTool[] = [];
+    const patterns: string[] = [];
+
+    const declared = Array.isArray(rootPackage?.workspaces) ? rootPackage.workspaces : rootPackage?.workspaces?.packages;
+    if (Array.isArray(declared) && declared.length > 0) {
+        patterns.push(...declared);
+        if (await exists(path.join(repoPath, 'yarn.lock'))) tools.push('yarn');
+        else if (await exists(path.join(repoPath, 'bun.lockb')) || await exists(path.join(repoPath, 'bun.lock'))) tools.push('bun');
+        else tools.push('npm');
+    }
+
+    const pnpmWorkspace = await readText(path.join(repoPath, 'pnpm-workspace.yaml'));
+    if (pnpmWorkspace !== null) {
+        tools.push('pnpm');
+        patterns.push(...(parseYaml(pnpmWorkspace)?.packages || []));
+    }
+
+    const lerna = await readJson(path.join(repoPath, 'lerna.json'));
+    if (lerna) {
+        tools.push('lerna');
+        // useWorkspaces の場合はパッケージマネージャーの設定に従う
+        if (!lerna.useWorkspaces) patterns.push(...(lerna.packages || ['packages/*']));
+    }
+
+    if (await exists(path.join(repoPath, 'turbo.json'))) tools.push('turborepo');
+
+    const manifests = new Set<string>();
+    if (patterns.length > 0) {
+        const include = patterns.filter(pattern => !pattern.startsWith('!')).map(pattern => `${pattern.replace(/\/$/, '')}/package.json`);
+        const exclude = patterns.filter(pattern => pattern.startsWith('!')).map(pattern => `${pattern.slice(1).replace(/\/$/, '')}/**`);
+        const found = await fg(include, { cwd: repoPath, onlyFiles: true, ignore: [...IGNORED_DIRECTORIES, ...exclude] });
+        found.forEach(manifest => manifests.add(manifest));
+    }
+
+    if (await exists(path.join(repoPath, 'nx.json'))) {
+        tools.push('nx');
+        // Nx はパッケージマネージャーのワークスペースとは別に project.json でプロジェクトを定義できる
+        const projects = await fg('**/project.json', { cwd: repoPath, onlyFiles: true, ignore: IGNORED_DIRECTORIES });
+        for (const project of projects) {
+            const packageJson = path.join(path.dirname(project), 'package.json');
+            manifests.add(await exists(path.join(repoPath, packageJson)) ? packageJson : project);
+        }
+    }
+
+    const packages: WorkspacePackage[] = [];
+    const implicit = new Map<string, string[]>();
+    for (const manifest of Array.from(manifests).sort()) {
+        const directory = path.dirname(manifest);
+        if (directory === '.') continue;
+
+        const content = await readJson(path.join(repoPath, manifest));
+        if (!content) continue;
+
+        const projectJson = manifest.endsWith('project.json')
+            ? content
+            : await readJson(path.join(repoPath, directory, 'project.json'));
+        const name = content.name || projectJson?.name || path.basename(directory);
+
+        packages.push({
+            name,
+            path: directory.split(path.sep).join('/'),
+            version: content.version || '0.0.0',
+            private: content.private === true,
+            internalDependencies: DEPENDENCY_FIELDS.flatMap(field => Object.keys(content[field] || {})),
+        });
+        implicit.set(name, projectJson?.implicitDependencies || []);
+    }
+
+    // 依存のうちワークスペース内のパッケージのみを残す
+    const names = new Set(packages.map(pkg => pkg.name));
+    for (const pkg of packages) {
+        const internal = [...pkg.internalDependencies, ...(implicit.get(pkg.name) || [])]
+            .filter(dependency => names.has(dependency) && dependency !== pkg.name);
+        pkg.internalDependencies = [...new Set(internal)].sort();
+    }
+
+    return { tools, patterns, packages };
+}
+
+/**
+ * ルートとワークスペース内の各パッケージのマニフェストを解析し、リポジトリ全体の依存関係としてまとめる。
+ */
+export async function analyzeRepositoryManifests(repoPath: string, layout?: WorkspaceLayout): Promise<ManifestAnalysis> {
+    const root = await analyzeManifests(repoPath);
+    const { packages } = layout || await detectWorkspaces(repoPath);
+
+    for (const pkg of packages) {
+        const analysis = await analyzeManifests(path.join(repoPath, pkg.path), repoPath);
+        root.manifests.push(...analysis.manifests.filter(manifest => !root.manifests.includes(manifest)));
+        root.dependencies.push(...analysis.dependencies);
+        for (const ecosystem of analysis.ecosystems) {
+            if (!root.ecosystems.includes(ecosystem)) root.ecosystems.push(ecosystem);
+        }
+    }
+
+    return root;
+}
+
+/**
+ * パッケージ間の依存に含まれる循環を検出する（各循環はパッケージ名の列）。
+ */
+export function findWorkspaceCycles(packages: WorkspacePackage[]): string[][] {
+    const dependencies = new Map(packages.map(pkg => [pkg.name, pkg.internalDependencies]));
+    const cycles: string[][] = [];
+    const seen = new Set<string>();
+    const state = new Map<string, 'visiting' | 'done'>();
+    const stack: string[] = [];
+
+    const visit = (name: string) => {
+        state.set(name, 'visiting');
+        stack.push(name);
+        for (const next of dependencies.get(name) || []) {
+            if (state.get(next) === 'visiting') {
+                const cycle = stack.slice(stack.indexOf(next));
+                const key = [...cycle].sort().join('\u0000');
+                if (!seen.has(key)) {
+                    seen.add(key);
+                    cycles.push([...cycle, next]);
+                }
+            } else if (!state.has(next)) {
+                visit(next);
+            }
+        }
+        stack.pop();
+        state.set(name, 'done');
+    };
+
+    for (const pkg of packages) {
+        if (!state.has(pkg.name)) visit(pkg.name);
+    }
+    return cycles;
+}
+
+export function workspaceGraphMermaid(packages: WorkspacePackage[]): string {
+    if (packages.length === 0) return '';
+
+    const ids = new Map(packages.map((pkg, index) => [pkg.name, `p${index}`]));
+    const lines = ['graph LR'];
+    for (const pkg of packages) {
+        lines.push(`    ${ids.get(pkg.name)}["${pkg.name}"]`);
+    }
+    for (const pkg of packages) {
+        for (const dependency of pkg.internalDependencies) {
+            lines.push(`    ${ids.get(pkg.name)} --> ${ids.get(dependency)}`);
+        }
+    }
+    return lines.join('\n');
+}
+
+async function readJson(filePath: string): Promise<any | null> {
+    const content = await readText(filePath);
+    if (content === null) return null;
+    try {
+        return JSON.parse(content);
+    } catch {
+        return null;
+    }
+}
+
+async function readText(filePath: string): Promise<string | null> {
+    try {
+        return await fs.readFile(filePath, 'utf-8');
+    } catch {
+        return null;
+    }
+}
+
+async function exists(filePath: string): Promise<boolean> {
+    return fs.access(filePath).then(() => true).catch(() => false);
+}
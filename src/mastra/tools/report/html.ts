@@ -0,0 +1,172 @@
+import { ReportBlock, ReportDocument, ReportSection } from './model';
+import { ReportRenderer } from './renderer';
+
+export const htmlRenderer: ReportRenderer = {
+    format: 'html',
+    extension: 'html',
+    render: renderHtml,
+};
+
+// 外部のファイルを読み込まずに表示できるよう、スタイルは埋め込む
+const STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; line-height: 1.5; color: #1f2328; max-width: 1200px; margin: 0 auto; padding: 24px; }
+h1 { border-bottom: 1px solid #d1d9e0; padding-bottom: 8px; }
+nav ul { columns: 2; }
+details { border: 1px solid #d1d9e0; border-radius: 6px; padding: 8px 16px; margin: 12px 0; }
+details details { border-color: #e6eaef; }
+summary { cursor: pointer; font-weight: 600; }
+summary.level-2 { font-size: 1.4em; }
+summary.level-3 { font-size: 1.2em; }
+table { border-collapse: collapse; margin: 12px 0; display: block; overflow-x: auto; }
+th, td { border: 1px solid #d1d9e0; padding: 4px 10px; text-align: left; vertical-align: top; }
+th { background: #f6f8fa; }
+tr:nth-child(even) td { background: #fafbfc; }
+pre { background: #f6f8fa; padding: 12px; border-radius: 6px; overflow-x: auto; }
+code { background: #eff1f3; padding: 1px 4px; border-radius: 4px; }
+pre code { background: none; padding: 0; }
+dl { display: grid; grid-template-columns: max-content auto; gap: 2px 16px; }
+dt { font-weight: 600; }
+dd { margin: 0; }
+footer { color: #59636e; border-top: 1px solid #d1d9e0; margin-top: 24px; padding-top: 8px; }
+`;
+
+export function renderHtml(document: ReportDocument): string {
+    const anchors = new Map<ReportSection, string>();
+    document.sections.forEach((section, index) => anchors.set(section, `section-${index + 1}`));
+
+    const toc = document.sections
+        .map(section => `<li><a href="#${anchors.get(section)}">${escapeHtml(section.title)}</a></li>`)
+        .join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(document.title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(document.title)}</h1>
+<p>Generated at ${escapeHtml(document.generatedAt)}${document.repository?.commit ? ` from commit <code>${escapeHtml(document.repository.commit.slice(0, 7))}</code>` : ''}</p>
+<nav>
+<ul>
+${toc}
+</ul>
+</nav>
+${document.sections.map(section => renderSection(section, 2, anchors.get(section))).join('\n')}
+${document.footer ? `<footer>${renderInline(document.footer).replace(/\n/g, '<br>')}</footer>` : ''}
+</body>
+</html>
+`;
+}
+
+function renderSection(section: ReportSection, level: number, id?: string): string {
+    // 上位の見出しは開いた状態、それ以下は折りたたんだ状態で出力する
+    return `<details${level <= 2 ? ' open' : ''}${id ? ` id="${id}"` : ''}>
+<summary class="level-${level}">${escapeHtml(section.title)}</summary>
+${section.blocks.map(renderBlock).join('\n')}
+${section.sections.map(child => renderSection(child, level + 1)).join('\n')}
+</details>`;
+}
+
+function renderBlock(block: ReportBlock): string {
+    switch (block.type) {
+        case 'text':
+            return `<p>${renderInline(block.text).replace(/\n/g, '<br>')}</p>`;
+        case 'list':
+            return `<ul>\n${block.items.map(item => `<li>${renderInline(item)}</li>`).join('\n')}\n</ul>`;
+        case 'fields':
+            return `<dl>\n${block.fields.map(field => `<dt>${escapeHtml(field.label)}</dt><dd>${renderInline(field.value)}</dd>`).join('\n')}\n</dl>`;
+        case 'table':
+            return `<table>
+<thead><tr>${block.columns.map(column => `<th>${escapeHtml(column)}</th>`).join('')}</tr></thead>
+<tbody>
+${block.rows.map(row => `<tr>${row.map(cell => `<td>${renderInline(cell).replace(/\n/g, '<br>')}</td>`).join('')}</tr>`).join('\n')}
+</tbody>
+</table>`;
+        case 'code':
+            return `<pre><code${block.language ? ` class="language-${escapeHtml(block.language)}"` : ''}>${escapeHtml(block.content)}</code></pre>`;
+        case 'markdown':
+            return renderMarkdownContent(block.content);
+    }
+}
+
+/**
+ * LLMの出力や README を表示するための簡易的な Markdown の変換。
+ * 見出し・リスト・コードブロック・段落のみを扱い、それ以外はテキストのまま出力する。
+ */
+function renderMarkdownContent(content: string): string {
+    const output: string[] = [];
+    const lines = content.split('\n');
+    let paragraph: string[] = [];
+    let list: { tag: 'ul' | 'ol'; items: string[] } | null = null;
+
+    const flush = () => {
+        if (paragraph.length > 0) {
+            output.push(`<p>${paragraph.map(renderInline).join('<br>')}</p>`);
+            paragraph = [];
+        }
+        if (list) {
+            output.push(`<${list.tag}>${list.items.map(item => `<li>${renderInline(item)}</li>`).join('')}</${list.tag}>`);
+            list = null;
+        }
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        const fence = line.match(/^\s*```(\S*)/);
+        if (fence) {
+            flush();
+            const code: string[] = [];
+            while (++i < lines.length && !/^\s*```/.test(lines[i])) code.push(lines[i]);
+            output.push(`<pre><code${fence[1] ? ` class="language-${escapeHtml(fence[1])}"` : ''}>${escapeHtml(code.join('\n'))}</code></pre>`);
+            continue;
+        }
+
+        const heading = line.match(/^(#{1,6})\s+(.*)$/);
+        if (heading) {
+            flush();
+            // レポートの見出しより下の階層として扱う
+            const level = Math.min(heading[1].length + 2, 6);
+            output.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+            continue;
+        }
+
+        const item = line.match(/^\s*(?:([-*+])|(\d+)[.)])\s+(.*)$/);
+        if (item) {
+            const tag = item[1] ? 'ul' : 'ol';
+            if (paragraph.length > 0 || (list && list.tag !== tag)) flush();
+            list = list || { tag, items: [] };
+            list.items.push(item[3]);
+            continue;
+        }
+
+        if (line.trim() === '') {
+            flush();
+            continue;
+        }
+
+        if (list) flush();
+        paragraph.push(line);
+    }
+    flush();
+
+    return output.join('\n');
+}
+
+function renderInline(text: string): string {
+    return escapeHtml(text)
+        .replace(/`([^`]+)`/g, '<code>$1</code>')
+        .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>');
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
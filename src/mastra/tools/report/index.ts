@@ -0,0 +1,80 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { z } from 'zod';
+import { ReportDocument } from './model';
+import { ReportRenderer } from './renderer';
+import { markdownRenderer } from './markdown';
+import { htmlRenderer } from './html';
+import { jsonRenderer } from './json';
+import { sarifRenderer } from './sarif';
+
+export * from './model';
+export type { ReportRenderer } from './renderer';
+
+const renderers = new Map<string, ReportRenderer>();
+
+/**
+ * レンダラーを登録する。同じ形式のレンダラーがある場合は置き換える。
+ */
+export function registerReportRenderer(renderer: ReportRenderer): void {
+    renderers.set(renderer.format, renderer);
+}
+
+export function listReportFormats(): string[] {
+    return Array.from(renderers.keys());
+}
+
+/**
+ * 登録済みの形式のみを受け付けるスキーマ。解析や LLM の呼び出しより前に入力の形式を検証するために使う。
+ */
+export const reportFormatSchema = z.string().refine(
+    format => renderers.has(format),
+    format => ({ message: `Unknown report format: ${format} (available: ${listReportFormats().join(', ')})` })
+);
+
+export function getReportRenderer(format: string): ReportRenderer {
+    const renderer = renderers.get(format);
+    if (!renderer) {
+        throw new Error(`Unknown report format: ${format} (available: ${listReportFormats().join(', ')})`);
+    }
+    return renderer;
+}
+
+export function renderReport(document: ReportDocument, format: string): string {
+    return getReportRenderer(format).render(document);
+}
+
+export interface WriteReportOptions {
+    directory: string;
+    // 拡張子を除いたファイル名
+    baseName: string;
+    formats: string[];
+    // 書き出す直前に出力全体に適用する変換（認証情報の伏せ字など）
+    transform?: (content: string) => string;
+}
+
+/**
+ * 指定された形式ごとにレポートを書き出す。未知の形式が含まれる場合は何も書き出さずにエラーにする。
+ */
+export async function writeReport(
+    document: ReportDocument,
+    options: WriteReportOptions
+): Promise<Array<{ format: string; path: string; content: string }>> {
+    const selected = Array.from(new Set(options.formats)).map(getReportRenderer);
+    await fs.mkdir(options.directory, { recursive: true });
+
+    const outputs = [];
+    for (const renderer of selected) {
+        const rendered = renderer.render(document);
+        const content = options.transform ? options.transform(rendered) : rendered;
+        const file = path.join(options.directory, `${options.baseName}.${renderer.extension}`);
+        await fs.writeFile(file, content, 'utf-8');
+        outputs.push({ format: renderer.format, path: file, content });
+    }
+    return outputs;
+}
+
+registerReportRenderer(markdownRenderer);
+registerReportRenderer(htmlRenderer);
+registerReportRenderer(jsonRenderer);
+registerReportRenderer(sarifRenderer);
@@ -0,0 +1,9 @@
+import { reportDocumentSchema } from './model';
+import { ReportRenderer } from './renderer';
+
+export const jsonRenderer: ReportRenderer = {
+    format: 'json',
+    extension: 'json',
+    // 公開しているスキーマに沿っていることを検証してから出力する
+    render: document => `${JSON.stringify(reportDocumentSchema.parse(document), null, 2)}\n`,
+};
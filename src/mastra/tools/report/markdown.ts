@@ -0,0 +1,51 @@
+import { ReportBlock, ReportDocument, ReportSection } from './model';
+import { ReportRenderer } from './renderer';
+
+export const markdownRenderer: ReportRenderer = {
+    format: 'markdown',
+    extension: 'md',
+    render: renderMarkdown,
+};
+
+export function renderMarkdown(document: ReportDocument): string {
+    const parts = [
+        `# ${document.title}`,
+        ...document.sections.map(section => renderSection(section, 2)),
+    ];
+    if (document.footer) {
+        parts.push(`---\n${document.footer}`);
+    }
+    return `${parts.join('\n\n')}\n`;
+}
+
+function renderSection(section: ReportSection, level: number): string {
+    // 見出しの直後には空行を入れず、ブロックと小見出しの間は空行で区切る
+    const body = [
+        ...section.blocks.map(renderBlock),
+        ...section.sections.map(child => renderSection(child, Math.min(level + 1, 6))),
+    ].join('\n\n');
+    return `${'#'.repeat(level)} ${section.title}${body ? `\n${body}` : ''}`;
+}
+
+function renderBlock(block: ReportBlock): string {
+    switch (block.type) {
+        case 'text':
+            return block.text;
+        case 'list':
+            return block.items.map(item => `- ${item}`).join('\n');
+        case 'fields':
+            return block.fields.map(field => `- ${field.label}: ${field.value}`).join('\n');
+        case 'table': {
+            const cell = (value: string) => value.replace(/\|/g, '\\|').replace(/\n/g, '<br>');
+            return [
+                `| ${block.columns.map(cell).join(' | ')} |`,
+                `|${block.columns.map(() => '---').join('|')}|`,
+                ...block.rows.map(row => `| ${row.map(cell).join(' | ')} |`),
+            ].join('\n');
+        }
+        case 'code':
+            return `\`\`\`${block.language ?? ''}\n${block.content}\n\`\`\``;
+        case 'markdown':
+            return block.content.trim();
+    }
+}
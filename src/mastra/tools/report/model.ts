@@ -0,0 +1,128 @@
+import { z } from 'zod';
+
+// レポートの本文を構成するブロック。各レンダラーが出力形式に合わせて描画する
+export const reportBlockSchema = z.discriminatedUnion('type', [
+    // 1段落のテキスト（インラインの `code` のみ解釈する）
+    z.object({ type: z.literal('text'), text: z.string() }),
+    z.object({ type: z.literal('list'), items: z.array(z.string()) }),
+    // 「項目: 値」の一覧
+    z.object({
+        type: z.literal('fields'),
+        fields: z.array(z.object({ label: z.string(), value: z.string() })),
+    }),
+    // セル内の改行はセル内の改行として描画する
+    z.object({
+        type: z.literal('table'),
+        columns: z.array(z.string()),
+        rows: z.array(z.array(z.string())),
+    }),
+    z.object({ type: z.literal('code'), language: z.string().nullable(), content: z.string() }),
+    // LLMの出力や README など、Markdown のまま扱う本文
+    z.object({ type: z.literal('markdown'), content: z.string() }),
+]);
+
+export type ReportBlock = z.infer<typeof reportBlockSchema>;
+
+export interface ReportSection {
+    title: string;
+    blocks: ReportBlock[];
+    sections: ReportSection[];
+}
+
+export const reportSectionSchema: z.ZodType<ReportSection> = z.lazy(() => z.object({
+    title: z.string(),
+    blocks: z.array(reportBlockSchema),
+    sections: z.array(reportSectionSchema),
+}));
+
+// ファイル単位の指摘（SARIF などコードスキャンの結果として出力する）
+export const reportFindingSchema = z.object({
+    ruleId: z.string(),
+    // ルールの短い説明
+    ruleName: z.string(),
+    // 検出したスキャナー（secret、vulnerability など）
+    category: z.string(),
+    level: z.enum(['error', 'warning', 'note']),
+    message: z.string(),
+    // リポジトリルートからの相対パス
+    file: z.string(),
+    startLine: z.number().nullable(),
+    endLine: z.number().nullable(),
+    // 行がずれても同じ指摘として扱うための識別子
+    fingerprint: z.string().nullable(),
+});
+
+export type ReportFinding = z.infer<typeof reportFindingSchema>;
+
+export const REPORT_SCHEMA_VERSION = 1;
+
+export const reportDocumentSchema = z.object({
+    schemaVersion: z.literal(REPORT_SCHEMA_VERSION),
+    title: z.string(),
+    generatedAt: z.string(),
+    repository: z.object({
+        name: z.string(),
+        // URL またはローカルパス（不明な場合は null）
+        location: z.string().nullable(),
+        commit: z.string().nullable(),
+    }).nullable(),
+    sections: z.array(reportSectionSchema),
+    // 本文の末尾に添える注記
+    footer: z.string().nullable(),
+    findings: z.array(reportFindingSchema),
+    // ワークフローごとの解析結果（JSON 出力のみに含める）
+    data: z.record(z.unknown()),
+});
+
+export type ReportDocument = z.infer<typeof reportDocumentSchema>;
+
+export function reportSection(title: string, blocks: ReportBlock[], sections: ReportSection[] = []): ReportSection {
+    return { title, blocks, sections };
+}
+
+export function textBlock(text: string): ReportBlock {
+    return { type: 'text', text };
+}
+
+/**
+ * 項目がない場合は empty の文言を代わりに出力する。
+ */
+export function listBlock(items: string[], empty: string = 'None'): ReportBlock {
+    return items.length > 0 ? { type: 'list', items } : textBlock(empty);
+}
+
+export function fieldsBlock(fields: Array<[string, string | number]>): ReportBlock {
+    return { type: 'fields', fields: fields.map(([label, value]) => ({ label, value: String(value) })) };
+}
+
+/**
+ * 行がない場合は empty の文言を代わりに出力する。
+ */
+export function tableBlock(columns: string[], rows: Array<Array<string | number>>, empty: string): ReportBlock {
+    return rows.length > 0
+        ? { type: 'table', columns, rows: rows.map(row => row.map(String)) }
+        : textBlock(empty);
+}
+
+export function codeBlock(content: string, language: string | null = null): ReportBlock {
+    return { type: 'code', language, content };
+}
+
+export function markdownBlock(content: string): ReportBlock {
+    return { type: 'markdown', content };
+}
+
+const SPARK_LEVELS = ['▁', '▂', '▃', '▄', '▅', '▆', '▇', '█'];
+
+/**
+ * Mermaid を表示できない環境向けに、値の推移を1行の文字列で表す。
+ */
+export function sparkline(values: number[]): string {
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const range = max - min;
+
+    return values
+        .map(value => SPARK_LEVELS[range === 0 ? 0 : Math.round(((value - min) / range) * (SPARK_LEVELS.length - 1))])
+        .join('');
+}
@@ -0,0 +1,9 @@
+import { ReportDocument } from './model';
+
+export interface ReportRenderer {
+    // 出力形式の名前（markdown、html など）
+    format: string;
+    // 書き出すファイルの拡張子
+    extension: string;
+    render(document: ReportDocument): string;
+}
@@ -0,0 +1,68 @@
+import { ReportDocument, ReportFinding } from './model';
+import { ReportRenderer } from './renderer';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const TOOL_NAME = 'mastra-repository-analysis';
+// 相対パスの基準（コードスキャンの UI がチェックアウトのルートに対応付ける）
+const SOURCE_ROOT = '%SRCROOT%';
+
+export const sarifRenderer: ReportRenderer = {
+    format: 'sarif',
+    extension: 'sarif',
+    render: document => `${JSON.stringify(renderSarif(document), null, 2)}\n`,
+};
+
+/**
+ * ファイル単位の指摘を SARIF 2.1.0 のログに変換する。本文のセクションは出力しない。
+ */
+export function renderSarif(document: ReportDocument) {
+    const rules = new Map<string, ReportFinding>();
+    for (const finding of document.findings) {
+        if (!rules.has(finding.ruleId)) rules.set(finding.ruleId, finding);
+    }
+    const ruleIndex = new Map(Array.from(rules.keys()).map((id, index) => [id, index]));
+    const repositoryUri = document.repository?.location && /^[a-z][a-z0-9+.-]*:\/\//i.test(document.repository.location)
+        ? document.repository.location
+        : null;
+
+    return {
+        $schema: SARIF_SCHEMA,
+        version: '2.1.0',
+        runs: [
+            {
+                tool: {
+                    driver: {
+                        name: TOOL_NAME,
+                        rules: Array.from(rules.values()).map(finding => ({
+                            id: finding.ruleId,
+                            name: finding.ruleName,
+                            shortDescription: { text: finding.ruleName },
+                            defaultConfiguration: { level: finding.level },
+                            properties: { category: finding.category },
+                        })),
+                    },
+                },
+                ...(repositoryUri && document.repository?.commit
+                    ? { versionControlProvenance: [{ repositoryUri, revisionId: document.repository.commit }] }
+                    : {}),
+                results: document.findings.map(finding => ({
+                    ruleId: finding.ruleId,
+                    ruleIndex: ruleIndex.get(finding.ruleId),
+                    level: finding.level,
+                    message: { text: finding.message },
+                    locations: [
+                        {
+                            physicalLocation: {
+                                artifactLocation: { uri: encodeURI(finding.file), uriBaseId: SOURCE_ROOT },
+                                ...(finding.startLine !== null
+                                    ? { region: { startLine: finding.startLine, ...(finding.endLine !== null ? { endLine: finding.endLine } : {}) } }
+                                    : {}),
+                            },
+                        },
+                    ],
+                    ...(finding.fingerprint ? { partialFingerprints: { [`${finding.category}/v1`]: finding.fingerprint } } : {}),
+                })),
+            },
+        ],
+    };
+}
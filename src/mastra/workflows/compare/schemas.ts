@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import { refComparisonSchema } from '../../tools/github/compare';
+import { secretReportSchema } from '../../tools/github/secrets';
+import { deadCodeReportSchema } from '../../tools/github/deadcode';
+import {
+    cloneResultSchema,
+    codeAnalysisResultSchema,
+    duplicationResultSchema,
+    licenseResultSchema,
+    reportResultSchema,
+    vulnerabilityResultSchema,
+} from '../github/schemas';
+
+export const compareWorkflowInputSchema = z.object({
+    repoUrl: z.string().describe('Repository URL (any git remote), file:// URL, or local path'),
+    base: z.string().describe('Base ref (branch, tag or commit) to compare from'),
+    head: z.string().describe('Head ref (branch, tag or commit) to compare to'),
+    forceClone: z.boolean().optional().describe('Force re-cloning the repository if already cloned'),
+    advisoryDatabase: z.string().optional().describe('Path to a local OSV advisory directory or JSON bundle'),
+    licensePolicy: z.string().optional().describe('Path to a license policy file (defaults to .mastra-license.json)'),
+    secretAllowlist: z.string().optional().describe('Path to a secret scanning allowlist (defaults to .mastra-secrets.json)'),
+    entryPoints: z.array(z.string()).optional().describe('Additional entry points (paths or globs) for dead code detection'),
+});
+
+export const refCheckoutSchema = cloneResultSchema.extend({
+    ref: z.string(),
+});
+
+export const checkoutRefsResultSchema = z.object({
+    base: refCheckoutSchema,
+    head: refCheckoutSchema,
+});
+
+export const snapshotResultSchema = z.object({
+    ref: z.string(),
+    commit: z.string(),
+    repoPath: z.string(),
+    analysis: codeAnalysisResultSchema,
+    vulnerabilities: vulnerabilityResultSchema,
+    secrets: secretReportSchema,
+    licenses: licenseResultSchema,
+    deadCode: deadCodeReportSchema,
+    duplication: duplicationResultSchema,
+    importCycles: z.array(z.array(z.string())),
+});
+
+export const comparisonResultSchema = refComparisonSchema;
+
+export const compareReportResultSchema = reportResultSchema.extend({
+    jsonPath: z.string(),
+});
+
+export type CompareWorkflowInput = z.infer<typeof compareWorkflowInputSchema>;
+export type RefCheckout = z.infer<typeof refCheckoutSchema>;
+export type CheckoutRefsResult = z.infer<typeof checkoutRefsResultSchema>;
+export type SnapshotResult = z.infer<typeof snapshotResultSchema>;
+export type ComparisonResult = z.infer<typeof comparisonResultSchema>;
+export type CompareReportResult = z.infer<typeof compareReportResultSchema>;
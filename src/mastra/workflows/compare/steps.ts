@@ -0,0 +1,289 @@
+import { Step, WorkflowContext } from '@mastra/core/workflows';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { streamAgentText } from '../../agents';
+import { cloneRepo } from '../../tools/github/utils';
+import { collectSnapshot, compareSnapshots, RepositorySnapshot } from '../../tools/github/compare';
+import { redactSecrets } from '../../tools/github/secrets';
+import {
+    CheckoutRefsResult,
+    CompareWorkflowInput,
+    ComparisonResult,
+    RefCheckout,
+    SnapshotResult,
+    checkoutRefsResultSchema,
+    compareReportResultSchema,
+    compareWorkflowInputSchema,
+    comparisonResultSchema,
+    snapshotResultSchema,
+} from './schemas';
+
+export const checkoutRefsStep = new Step({
+    id: 'checkout-refs',
+    description: 'Checks out the base and head refs of the repository side by side',
+    inputSchema: compareWorkflowInputSchema,
+    outputSchema: checkoutRefsResultSchema,
+    execute: async ({ context }) => {
+        const triggerData = context?.getStepResult<CompareWorkflowInput>('trigger');
+
+        if (!triggerData) {
+            throw new Error('Trigger data not found');
+        }
+
+        // ref ごとに別のキャッシュディレクトリにチェックアウトされる
+        const checkout = async (ref: string): Promise<RefCheckout> => {
+            const result = await cloneRepo(triggerData.repoUrl, ref, triggerData.forceClone);
+            if (!result.success) {
+                throw new Error(`Failed to check out ${ref}: ${result.message}`);
+            }
+            return { ...result, ref };
+        };
+
+        return {
+            base: await checkout(triggerData.base),
+            head: await checkout(triggerData.head),
+        };
+    },
+});
+
+async function analyzeRef(context: WorkflowContext | undefined, side: 'base' | 'head'): Promise<RepositorySnapshot> {
+    const checkouts = context?.getStepResult<CheckoutRefsResult>('checkout-refs');
+    const triggerData = context?.getStepResult<CompareWorkflowInput>('trigger');
+
+    if (!checkouts) {
+        throw new Error('Checkout result not found');
+    }
+
+    const checkout = checkouts[side];
+    return await collectSnapshot(checkout.repoPath, checkout.ref, checkout.commit, {
+        advisoryDatabase: triggerData?.advisoryDatabase,
+        licensePolicy: triggerData?.licensePolicy,
+        secretAllowlist: triggerData?.secretAllowlist,
+        entryPoints: triggerData?.entryPoints,
+    });
+}
+
+export const analyzeBaseStep = new Step({
+    id: 'analyze-base',
+    description: 'Runs the code analysis and scanners on the base ref',
+    outputSchema: snapshotResultSchema,
+    execute: async ({ context }) => analyzeRef(context, 'base'),
+});
+
+export const analyzeHeadStep = new Step({
+    id: 'analyze-head',
+    description: 'Runs the code analysis and scanners on the head ref',
+    outputSchema: snapshotResultSchema,
+    execute: async ({ context }) => analyzeRef(context, 'head'),
+});
+
+export const compareRefsStep = new Step({
+    id: 'compare-refs',
+    description: 'Computes metric deltas and new findings between the base and head refs',
+    outputSchema: comparisonResultSchema,
+    execute: async ({ context }) => {
+        const base = context?.getStepResult<SnapshotResult>('analyze-base');
+        const head = context?.getStepResult<SnapshotResult>('analyze-head');
+
+        if (!base || !head) {
+            throw new Error('Required step results not found');
+        }
+
+        return await compareSnapshots(base, head);
+    },
+});
+
+export const generateCompareReportStep = new Step({
+    id: 'generate-compare-report',
+    description: 'Generates markdown and JSON reports of the differences between two refs',
+    outputSchema: compareReportResultSchema,
+    execute: async ({ context }) => {
+        const checkouts = context?.getStepResult<CheckoutRefsResult>('checkout-refs');
+        const comparison = context?.getStepResult<ComparisonResult>('compare-refs');
+
+        if (!checkouts || !comparison) {
+            throw new Error('Required step results not found');
+        }
+
+        const repoName = checkouts.head.source?.name || 'unknown-repo';
+
+        const summary = await generateDeltaSummary(repoName, comparison);
+        const report = redactSecrets(generateCompareMarkdownReport(repoName, comparison, summary));
+
+        const reportPath = path.join(process.cwd(), 'reports');
+        await fs.mkdir(reportPath, { recursive: true });
+
+        const fileName = `${repoName}-${sanitizeRef(comparison.base.ref)}..${sanitizeRef(comparison.head.ref)}-compare`;
+        const reportFile = path.join(reportPath, `${fileName}.md`);
+        const jsonFile = path.join(reportPath, `${fileName}.json`);
+        await fs.writeFile(reportFile, report, 'utf-8');
+        await fs.writeFile(jsonFile, redactSecrets(JSON.stringify({ ...comparison, summary }, null, 2)), 'utf-8');
+
+        return {
+            reportPath: reportFile,
+            jsonPath: jsonFile,
+            report,
+            summary,
+        };
+    },
+});
+
+function sanitizeRef(ref: string): string {
+    return ref.replace(/[^A-Za-z0-9._-]/g, '_');
+}
+
+async function generateDeltaSummary(repoName: string, comparison: ComparisonResult): Promise<string> {
+    const facts = {
+        repository: repoName,
+        base: comparison.base,
+        head: comparison.head,
+        commits: comparison.commits,
+        changedFiles: {
+            total: comparison.changedFiles.length,
+            added: comparison.changedFiles.filter(file => file.status === 'added').length,
+            deleted: comparison.changedFiles.filter(file => file.status === 'deleted').length,
+            linesAdded: comparison.changedFiles.reduce((sum, file) => sum + file.added, 0),
+            linesDeleted: comparison.changedFiles.reduce((sum, file) => sum + file.deleted, 0),
+        },
+        totals: comparison.totals,
+        languages: comparison.languages.slice(0, 10),
+        dependencies: comparison.dependencies,
+        complexity: {
+            regressions: comparison.complexity.regressions.slice(0, 10),
+            improvements: comparison.complexity.improvements,
+        },
+        // 検出した値は伏せ字も含めて渡さず、種類と場所のみを渡す
+        newFindings: comparison.findings.new.slice(0, 20).map(({ scanner, severity, location, message }) => ({
+            scanner,
+            severity,
+            location,
+            message: scanner === 'secret' ? undefined : message,
+        })),
+        resolvedFindings: comparison.findings.resolved.length,
+    };
+
+    const prompt = `
+以下は2つのref（base と head）を静的解析して得られた差分です。ツールは呼び出さず、この数値のみに基づいてリリースレビュー向けの要約を書いてください。
+
+${redactSecrets(JSON.stringify(facts, null, 2))}
+
+以下の観点から簡潔にまとめてください：
+1. 変更の規模と内容の概要
+2. 依存関係の追加・削除・更新
+3. 複雑度が悪化した関数と品質指標の変化
+4. 新たに検出された指摘（脆弱性・認証情報・ライセンス・未使用コード・循環依存）
+5. リリース前に確認すべき事項
+
+※日本語で、具体的な数値を引用して説明してください。`;
+
+    return streamAgentText(
+        prompt,
+        text => text.trim() || '要約を生成できませんでした（LLMの応答が空です）',
+        message => `要約の生成に失敗しました: ${message}`
+    );
+}
+
+function generateCompareMarkdownReport(repoName: string, comparison: ComparisonResult, summary: string): string {
+    const { base, head, totals } = comparison;
+    const formatDelta = (value: number, digits: number = 0) => {
+        const formatted = value.toFixed(digits);
+        return value > 0 ? `+${formatted}` : formatted;
+    };
+    const formatMetric = (metric: { base: number; head: number; delta: number }, digits: number = 0) =>
+        `${metric.base.toFixed(digits)} → ${metric.head.toFixed(digits)} (${formatDelta(metric.delta, digits)})`;
+    const formatPercentage = (metric: { base: number; head: number; delta: number }) =>
+        `${(metric.base * 100).toFixed(1)}% → ${(metric.head * 100).toFixed(1)}% (${formatDelta(metric.delta * 100, 1)} pt)`;
+
+    return `# Ref Comparison Report: ${repoName}
+
+- Base: ${base.ref} (${base.commit.slice(0, 7)})
+- Head: ${head.ref} (${head.commit.slice(0, 7)})
+- Commits: ${comparison.commits}
+
+## Overview
+- Files: ${formatMetric(totals.files)}
+- Lines of Code: ${formatMetric(totals.code)}
+- Comment Lines: ${formatMetric(totals.comment)}
+- Functions: ${formatMetric(totals.functions)}
+- Average Cyclomatic Complexity: ${formatMetric(totals.averageCyclomatic, 2)}
+- Maintainability Index: ${formatPercentage(totals.maintainability)}
+- Duplication: ${formatPercentage(totals.duplication)}
+
+${generateChangedFilesSection(comparison)}
+
+## Lines of Code by Language
+${comparison.languages.length > 0
+        ? `| Language | Files | Code |
+|---|---|---|
+${comparison.languages.map(entry => `| ${entry.language} | ${formatMetric(entry.files)} | ${formatMetric(entry.code)} |`).join('\n')}`
+        : 'No language-level changes.'}
+
+${generateDependencyDeltaSection(comparison)}
+
+## Complexity Regressions
+${comparison.complexity.regressions.length > 0
+        ? `| Function | Location | Cyclomatic | Cognitive |
+|---|---|---|---|
+${comparison.complexity.regressions
+            .map(fn => `| ${fn.name}${fn.isNew ? ' (new)' : ''} | ${fn.file}:${fn.line} | ${formatMetric(fn.cyclomatic)} | ${formatMetric(fn.cognitive)} |`)
+            .join('\n')}`
+        : 'No functions became more complex.'}
+
+Functions that became simpler: ${comparison.complexity.improvements}
+
+${generateFindingsSection('New Findings', comparison.findings.new, 'No new findings.')}
+
+${generateFindingsSection('Resolved Findings', comparison.findings.resolved, 'No resolved findings.')}
+
+## Reviewer Notes
+${summary}
+`;
+}
+
+function generateChangedFilesSection(comparison: ComparisonResult): string {
+    const { changedFiles } = comparison;
+    if (changedFiles.length === 0) {
+        return `## Changed Files
+No files changed.`;
+    }
+
+    const added = changedFiles.reduce((sum, file) => sum + file.added, 0);
+    const deleted = changedFiles.reduce((sum, file) => sum + file.deleted, 0);
+    const shown = changedFiles.slice(0, 50);
+
+    return `## Changed Files
+- ${changedFiles.length} files changed, +${added} / -${deleted} lines
+
+| File | Status | Added | Deleted |
+|---|---|---|---|
+${shown.map(file => `| ${file.previousFile ? `${file.previousFile} → ${file.file}` : file.file} | ${file.status} | ${file.added} | ${file.deleted} |`).join('\n')}${changedFiles.length > shown.length ? `\n\n…and ${changedFiles.length - shown.length} more files.` : ''}`;
+}
+
+function generateDependencyDeltaSection(comparison: ComparisonResult): string {
+    const { added, removed, changed } = comparison.dependencies;
+    const format = (dep: { name: string; version: string; ecosystem: string; scope: string }) =>
+        `- ${dep.name}: ${dep.version || '*'} (${dep.ecosystem}, ${dep.scope})`;
+
+    return `## Dependency Changes
+
+### Added
+${added.map(format).join('\n') || 'None'}
+
+### Removed
+${removed.map(format).join('\n') || 'None'}
+
+### Updated
+${changed.map(dep => `- ${dep.name}: ${dep.from || '*'} → ${dep.to || '*'} (${dep.ecosystem}, ${dep.scope})`).join('\n') || 'None'}`;
+}
+
+function generateFindingsSection(title: string, findings: ComparisonResult['findings']['new'], emptyMessage: string): string {
+    if (findings.length === 0) {
+        return `## ${title}
+${emptyMessage}`;
+    }
+
+    return `## ${title}
+| Scanner | Severity | Location | Detail |
+|---|---|---|---|
+${findings.map(finding => `| ${finding.scanner} | ${finding.severity} | ${finding.location ?? '-'} | ${finding.message.replace(/\|/g, '\\|')} |`).join('\n')}`;
+}
@@ -0,0 +1,23 @@
+import { Workflow } from '@mastra/core/workflows';
+import {
+    checkoutRefsStep,
+    analyzeBaseStep,
+    analyzeHeadStep,
+    compareRefsStep,
+    generateCompareReportStep,
+} from './steps';
+import { compareWorkflowInputSchema } from './schemas';
+
+export const compareWorkflow = new Workflow({
+    name: 'compare-workflow',
+    triggerSchema: compareWorkflowInputSchema,
+})
+    .step(checkoutRefsStep)
+    .after(checkoutRefsStep)
+    .step(analyzeBaseStep)
+    .step(analyzeHeadStep)
+    .after([analyzeBaseStep, analyzeHeadStep])
+    .step(compareRefsStep)
+    .then(generateCompareReportStep);
+
+compareWorkflow.commit();
@@ -2,17 +2,23 @@ import { Workflow } from '@mastra/core/workflows';
 import { z } from 'zod';
 import { Step } from '@mastra/core/workflows';
 import { docsAgent } from '../../agents/docs';
+import { cloneRepo } from '../../tools/github/utils';
+import { ImportGraph, analyzeImportGraph } from '../../tools/github/imports';
+import { REPORT_SCHEMA_VERSION, ReportDocument, fieldsBlock, markdownBlock, renderReport, reportFormatSchema, reportSection } from '../../tools/report';
 
 const docsWorkflowInputSchema = z.object({
-    repoUrl: z.string().describe('GitHubリポジトリのURL'),
+    repoUrl: z.string().describe('リポジトリのURL、file:// URL、またはローカルパス'),
     branch: z.string().optional().describe('対象ブランチ'),
-    outputFormat: z.enum(['markdown', 'json']).default('markdown').describe('出力形式'),
+    outputFormat: z.union([reportFormatSchema, z.array(reportFormatSchema)]).default('markdown')
+        .describe('出力形式（markdown / html / json / sarif、配列で複数指定可）'),
 });
 
 interface DocumentSection {
     id: string;
     title: string;
     prompt: string;
+    // import の静的解析から得た依存グラフを渡し、図はそのグラフから生成する
+    useImportGraph?: boolean;
 }
 
 // ドキュメントセクションを定義
@@ -25,7 +31,8 @@ const sections: DocumentSection[] = [
     {
         id: 'system-architecture',
         title: 'システム構成',
-        prompt: 'システムのアーキテクチャ、コンポーネント構成について分析してください。',
+        prompt: '以下の依存グラフ（静的解析の結果）に基づいて、システムのアーキテクチャ、コンポーネント構成と依存の方向、循環依存について説明してください。構成図は依存グラフから自動で挿入されるため、図は作成しないでください。',
+        useImportGraph: true,
     },
     {
         id: 'screens',
@@ -53,27 +60,36 @@ export const generateDocs = new Step({
             throw new Error('入力データが提供されていません');
         }
 
-        const { repoUrl, branch, outputFormat } = context.inputData;
-
-        // リポジトリのクローン指示
-        const cloneResponse = await docsAgent.stream([
-            {
-                role: 'user',
-                content: `リポジトリをクローンしてください：
-リポジトリURL: ${repoUrl}
-ブランチ: ${branch || 'デフォルト'}`,
-            },
-        ]);
+        // 未知の出力形式は、セクションの生成（LLM の呼び出し）より前にエラーにする
+        const input = docsWorkflowInputSchema.safeParse(context.inputData);
+        if (!input.success) {
+            throw new Error(`入力が不正です: ${input.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`);
+        }
+        const { repoUrl, branch, outputFormat } = input.data;
 
-        let clonePath = '';
-        for await (const chunk of cloneResponse.textStream) {
-            clonePath += chunk;
+        // リポジトリの取得（ローカルの作業ディレクトリはそのまま使用）
+        const cloneResult = await cloneRepo(repoUrl, branch);
+        if (!cloneResult.success) {
+            throw new Error(cloneResult.message);
+        }
+        const clonePath = cloneResult.repoPath;
+
+        // 依存グラフの構築（失敗した場合はグラフなしで生成を続ける）
+        let importGraph: ImportGraph | null = null;
+        try {
+            importGraph = await analyzeImportGraph(clonePath, { level: 'directory' });
+        } catch (error) {
+            console.warn(`依存グラフの構築に失敗: ${error instanceof Error ? error.message : String(error)}`);
         }
 
         // 各セクションのドキュメントを生成
         const documentSections: Record<string, string> = {};
 
         for (const section of sections) {
+            const graphContext = section.useImportGraph && importGraph
+                ? `\n\n依存グラフ:\n${JSON.stringify(summarizeImportGraph(importGraph), null, 2)}`
+                : '';
+
             const response = await docsAgent.stream([
                 {
                     role: 'user',
@@ -81,7 +97,7 @@ export const generateDocs = new Step({
 セクション: ${section.title}
 対象パス: ${clonePath}
 
-${section.prompt}
+${section.prompt}${graphContext}
 
 注意：
 - 簡潔で具体的な説明を心がけてください
@@ -95,47 +111,71 @@ ${section.prompt}
             for await (const chunk of response.textStream) {
                 sectionContent += chunk;
             }
-            documentSections[section.id] = sectionContent;
+            documentSections[section.id] = section.useImportGraph && importGraph?.mermaid
+                ? `\`\`\`mermaid\n${importGraph.mermaid}\n\`\`\`\n\n${sectionContent}`
+                : sectionContent;
 
             // トークン制限を考慮して少し待機
             await new Promise(resolve => setTimeout(resolve, 1000));
         }
 
-        // 出力形式に応じた整形
-        if (outputFormat === 'json') {
-            return {
-                format: 'json',
-                content: {
-                    リポジトリ: repoUrl,
-                    ブランチ: branch || 'デフォルト',
-                    生成日時: new Date().toISOString(),
-                    セクション: documentSections,
-                },
-            };
-        }
+        // 出力形式ごとに整形（先頭の形式を format / content として返す）
+        const generatedAt = new Date();
+        const document: ReportDocument = {
+            schemaVersion: REPORT_SCHEMA_VERSION,
+            title: 'プロジェクトドキュメント',
+            generatedAt: generatedAt.toISOString(),
+            repository: {
+                name: cloneResult.source?.name || repoUrl,
+                location: repoUrl,
+                commit: cloneResult.commit || null,
+            },
+            sections: [
+                reportSection('基本情報', [
+                    fieldsBlock([
+                        ['リポジトリ', repoUrl],
+                        ['ブランチ', branch || 'デフォルト'],
+                        ['生成日時', generatedAt.toLocaleString('ja-JP')],
+                    ]),
+                ]),
+                ...sections.map(section => reportSection(section.title, [markdownBlock(documentSections[section.id])])),
+            ],
+            footer: `このドキュメントは自動生成されています。\n更新日時: ${generatedAt.toLocaleString('ja-JP')}`,
+            findings: [],
+            data: {
+                repository: repoUrl,
+                branch: branch || null,
+                sections: documentSections,
+            },
+        };
+
+        const formats = Array.isArray(outputFormat) ? outputFormat : [outputFormat];
+        const outputs = (formats.length > 0 ? formats : ['markdown']).map(format => {
+            const rendered = renderReport(document, format);
+            // JSON はオブジェクトとして返す
+            return { format, content: format === 'json' ? JSON.parse(rendered) : rendered };
+        });
 
-        // Markdown形式の場合
         return {
-            format: 'markdown',
-            content: `# プロジェクトドキュメント
-
-## 基本情報
-- リポジトリ: ${repoUrl}
-- ブランチ: ${branch || 'デフォルト'}
-- 生成日時: ${new Date().toLocaleString('ja-JP')}
-
-${sections
-                    .map(section => `## ${section.title}\n\n${documentSections[section.id]}\n`)
-                    .join('\n')}
-
----
-このドキュメントは自動生成されています。
-更新日時: ${new Date().toLocaleString('ja-JP')}
-`,
+            ...outputs[0],
+            outputs,
         };
     },
 });
 
+// LLMに渡す依存グラフの要約（図の文字列は除く）
+function summarizeImportGraph(graph: ImportGraph) {
+    return {
+        files: graph.files,
+        edges: graph.edges,
+        directories: graph.directories,
+        directoryEdges: graph.directoryEdges.slice(0, 30),
+        cycles: graph.cycles,
+        mostDependedOn: graph.modules.slice(0, 10),
+        externalPackages: graph.externalPackages.slice(0, 15).map(pkg => pkg.name),
+    };
+}
+
 export const docsWorkflow = new Workflow({
     name: 'docs-workflow',
     triggerSchema: docsWorkflowInputSchema,
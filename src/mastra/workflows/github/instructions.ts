@@ -1,15 +1,18 @@
 export const analyzeRepoInstructions = `
-GitHubリポジトリの解析ワークフローを実行します。
+gitリポジトリの解析ワークフローを実行します。
 
 このワークフローでは以下のステップを実行します：
-1. 指定されたGitHubリポジトリをクローン
-2. クローンしたリポジトリのコード解析を実行
-3. 解析結果のレポートを生成
+1. 指定されたリポジトリを取得（ローカルの作業ディレクトリはクローンせずに使用）
+2. コード解析・仕様解析・git履歴の解析を並列に実行
+3. 解析結果のレポートを生成（総評のみLLMで作成）
 
 入力パラメータ：
-- repoUrl: GitHubリポジトリのURL
+- repoUrl: リポジトリのURL（GitHub・GitLab・Gitea・Bitbucket・社内gitサーバーなど）、file:// URL、またはローカルパス
+- provider: ホスティングサービス（github・gitlab・gitea・bitbucket、オプション。省略時はURLと .mastra-providers.json から判定）
 - branch: 解析対象のブランチ名（オプション）
 - filePattern: 解析対象のファイルパターン（オプション）
+- forceClone: 既存のクローンを破棄して再取得（オプション）
+- issueWindowDays: イシューとプルリクエストを集計する期間（日数、オプション、既定は90日）
 
 出力：
 - クローン結果
@@ -17,4 +20,9 @@ GitHubリポジトリの解析ワークフローを実行します。
   - 依存関係
   - コードメトリクス
   - 品質分析
-`;
\ No newline at end of file
+- 仕様解析結果
+- git履歴の解析結果（チャーン、ホットスポット、オーナーシップ、バスファクター）
+- イシューとプルリクエストの集計（GitHub のリポジトリのみ。応答時間、停滞した項目、ラベル、外部からの貢献の割合）
+- リリースの頻度とコントリビューターの推移（ホスティングサービスのリリースまたは git のタグ、月ごとの新規・継続のコントリビューター、週ごとのコミット数）
+- レポート（reports/<リポジトリ名>-analysis.md）
+`;
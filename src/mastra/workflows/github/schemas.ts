@@ -1,35 +1,198 @@
 import { z } from 'zod';
+import { gitHistorySchema } from '../../tools/github/history';
+import { lockfileAnalysisSchema } from '../../tools/github/lockfile';
+import { vulnerabilityReportSchema } from '../../tools/github/vulnerabilities';
+import { licenseReportSchema } from '../../tools/github/licenses';
+import { workspaceAnalysisSchema } from '../../tools/github/workspaces';
+import { duplicationReportSchema } from '../../tools/github/duplication';
+import { deadCodeReportSchema } from '../../tools/github/deadcode';
+import { secretReportSchema } from '../../tools/github/secrets';
+import { qualityGateReportSchema } from '../../tools/github/quality';
+import { issueHealthSchema } from '../../tools/github/issues';
+import { projectActivitySchema } from '../../tools/github/activity';
+import { excludedFilesSchema, fileLineStatSchema, languageStatSchema } from '../../tools/github/languages';
+import { dependencySchema, ecosystemSchema } from '../../tools/github/manifests';
+import { providerKindSchema } from '../../tools/github/providers';
+import { reportFormatSchema } from '../../tools/report';
 
 export const githubWorkflowInputSchema = z.object({
-    repoUrl: z.string().url().describe('GitHub repository URL'),
+    repoUrl: z.string().describe('Repository URL (any git remote), file:// URL, or local path'),
+    provider: providerKindSchema.optional().describe('Hosting provider of the repository: github, gitlab, gitea or bitbucket (detected from the URL by default)'),
     branch: z.string().optional().describe('Branch name to analyze'),
     filePattern: z.string().optional().describe('File pattern to analyze (e.g., "**/*.ts")'),
     forceClone: z.boolean().optional().describe('Force re-cloning the repository if already cloned'),
+    advisoryDatabase: z.string().optional().describe('Path to a local OSV advisory directory or JSON bundle'),
+    licensePolicy: z.string().optional().describe('Path to a license policy file (defaults to .mastra-license.json)'),
+    entryPoints: z.array(z.string()).optional().describe('Additional entry points (paths or globs) for dead code detection'),
+    secretAllowlist: z.string().optional().describe('Path to a secret scanning allowlist (defaults to .mastra-secrets.json)'),
+    qualityConfig: z.string().optional().describe('Path to a quality gate config (defaults to .mastra-quality.json)'),
+    failOnQualityGate: z.boolean().optional().describe('Fail the workflow run after writing the report when a quality gate fails'),
+    formats: z.array(reportFormatSchema).optional().describe('Report formats to write: markdown, html, json, sarif (defaults to markdown)'),
+    issueWindowDays: z.number().optional().describe('Days of issue and pull request activity to summarize for GitHub and GitHub Enterprise Server repositories; other providers are skipped (defaults to 90)'),
 });
 
+export const repositorySourceSchema = z.object({
+    kind: z.enum(['local-directory', 'local-bare', 'git-url']),
+    location: z.string(),
+    name: z.string(),
+    provider: z.object({
+        kind: providerKindSchema,
+        host: z.string(),
+        owner: z.string(),
+        repo: z.string(),
+        apiBaseUrl: z.string().nullable(),
+        tokenEnv: z.string().nullable(),
+    }).nullable(),
+    github: z.object({
+        owner: z.string(),
+        repo: z.string(),
+    }).nullable(),
+});
 
-export const githubWorkflowOutputSchema = z.object({
-    cloneResult: z.object({
-        repoPath: z.string(),
-        files: z.array(z.string()),
-        success: z.boolean(),
-        message: z.string(),
+export const cloneResultSchema = z.object({
+    repoPath: z.string(),
+    files: z.array(z.string()),
+    success: z.boolean(),
+    message: z.string(),
+    source: repositorySourceSchema.nullable(),
+    commit: z.string(),
+});
+
+export const functionComplexitySchema = z.object({
+    name: z.string(),
+    file: z.string(),
+    line: z.number(),
+    cyclomatic: z.number(),
+    cognitive: z.number(),
+    maxNesting: z.number(),
+    length: z.number(),
+    params: z.number(),
+    maintainability: z.number(),
+});
+
+export const complexitySummarySchema = z.object({
+    functionCount: z.number(),
+    averageCyclomatic: z.number(),
+    maxCyclomatic: z.number(),
+    averageCognitive: z.number(),
+    maxCognitive: z.number(),
+    maxNesting: z.number(),
+    averageLength: z.number(),
+    averageParams: z.number(),
+    worstFunctions: z.array(functionComplexitySchema),
+});
+
+export const codeAnalysisResultSchema = z.object({
+    files: z.array(z.string()),
+    dependencies: z.array(dependencySchema),
+    codeMetrics: z.object({
+        totalFiles: z.number(),
+        totalLines: z.number(),
+        totalCode: z.number(),
+        totalComment: z.number(),
+        totalBlank: z.number(),
+        languageStats: z.record(languageStatSchema),
+        fileStats: z.array(fileLineStatSchema),
+        excludedFiles: excludedFilesSchema,
     }),
-    analysisResult: z.object({
-        files: z.array(z.string()),
-        dependencies: z.array(z.string()),
-        codeMetrics: z.object({
-            totalFiles: z.number(),
-            totalLines: z.number(),
-            languageStats: z.record(z.number()),
-        }),
-        analysis: z.object({
-            complexity: z.number(),
-            maintainability: z.number(),
-            documentation: z.number(),
-        }),
+    analysis: z.object({
+        complexity: complexitySummarySchema,
+        maintainability: z.number(),
+        documentation: z.number(),
     }),
 });
 
+export const specificationResultSchema = z.object({
+    projectName: z.string(),
+    description: z.string(),
+    version: z.string(),
+    mainTechnologies: z.array(z.string()),
+    scripts: z.record(z.string()),
+    ecosystems: z.array(ecosystemSchema),
+    manifests: z.array(z.string()),
+    dependencies: z.array(dependencySchema),
+    configurations: z.array(z.object({
+        fileName: z.string(),
+        content: z.unknown(),
+    })),
+    documentation: z.object({
+        hasReadme: z.boolean(),
+        hasContributing: z.boolean(),
+        hasLicense: z.boolean(),
+        license: z.string().nullable(),
+        readmeContent: z.string().optional(),
+    }),
+});
+
+export const gitHistoryResultSchema = gitHistorySchema;
+
+export const dependencyGraphResultSchema = lockfileAnalysisSchema;
+
+export const vulnerabilityResultSchema = vulnerabilityReportSchema;
+
+export const licenseResultSchema = licenseReportSchema;
+
+export const workspaceResultSchema = workspaceAnalysisSchema;
+
+export const duplicationResultSchema = duplicationReportSchema;
+
+export const deadCodeResultSchema = deadCodeReportSchema;
+
+export const secretResultSchema = secretReportSchema;
+
+export const qualityGateResultSchema = qualityGateReportSchema;
+
+export const activityResultSchema = projectActivitySchema;
+
+// 解析が失敗した場合は後続のステップを止めないよう、結果の代わりに失敗の理由を返す
+export const analyzerFailureSchema = z.object({
+    failed: z.string(),
+});
+
+export function orAnalyzerFailure<T extends z.ZodTypeAny>(schema: T) {
+    return z.union([schema, analyzerFailureSchema]);
+}
+
+export const issueHealthResultSchema = z.object({
+    // 集計しなかった理由（GitHub 以外のリポジトリ、API の呼び出しの失敗など）
+    skipped: z.string().nullable(),
+    health: issueHealthSchema.nullable(),
+});
+
+export const reportResultSchema = z.object({
+    reportPath: z.string(),
+    report: z.string(),
+    summary: z.string(),
+    // 保存した解析結果のパス（解析元を特定できない場合は未設定）
+    runPath: z.string().optional(),
+    // 書き出したレポートのファイル（形式ごと）
+    outputs: z.array(z.object({
+        format: z.string(),
+        path: z.string(),
+    })).optional(),
+});
+
+export const githubWorkflowOutputSchema = z.object({
+    cloneResult: cloneResultSchema,
+    analysisResult: codeAnalysisResultSchema,
+});
+
 export type GitHubWorkflowInput = z.infer<typeof githubWorkflowInputSchema>;
-export type GitHubWorkflowOutput = z.infer<typeof githubWorkflowOutputSchema>;
\ No newline at end of file
+export type GitHubWorkflowOutput = z.infer<typeof githubWorkflowOutputSchema>;
+export type CloneResult = z.infer<typeof cloneResultSchema>;
+export type CodeAnalysisResult = z.infer<typeof codeAnalysisResultSchema>;
+export type SpecificationResult = z.infer<typeof specificationResultSchema>;
+export type GitHistoryResult = z.infer<typeof gitHistoryResultSchema>;
+export type DependencyGraphResult = z.infer<typeof dependencyGraphResultSchema>;
+export type VulnerabilityResult = z.infer<typeof vulnerabilityResultSchema>;
+export type LicenseResult = z.infer<typeof licenseResultSchema>;
+export type WorkspaceResult = z.infer<typeof workspaceResultSchema>;
+export type DuplicationResult = z.infer<typeof duplicationResultSchema>;
+export type DeadCodeResult = z.infer<typeof deadCodeResultSchema>;
+export type SecretResult = z.infer<typeof secretResultSchema>;
+export type QualityGateResult = z.infer<typeof qualityGateResultSchema>;
+export type ActivityResult = z.infer<typeof activityResultSchema>;
+export type IssueHealthResult = z.infer<typeof issueHealthResultSchema>;
+export type AnalyzerFailure = z.infer<typeof analyzerFailureSchema>;
+export type AnalyzerOutcome<T> = T | AnalyzerFailure;
+export type ReportResult = z.infer<typeof reportResultSchema>;
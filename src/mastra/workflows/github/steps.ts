@@ -1,50 +1,78 @@
-import { Agent } from '@mastra/core/agent';
 import { Step } from '@mastra/core/workflows';
 import { z } from 'zod';
-import * as fs from 'fs/promises';
 import * as path from 'path';
-import { githubAgent } from '../../agents';
-import { GitHubWorkflowInput, githubWorkflowInputSchema } from './schemas';
-
-interface CodeAnalysisResult {
-    files: string[];
-    dependencies: string[];
-    codeMetrics: {
-        totalFiles: number;
-        totalLines: number;
-        languageStats: Record<string, number>;
-    };
-    analysis: {
-        complexity: number;
-        maintainability: number;
-        documentation: number;
-    };
-}
-
-interface SpecificationResult {
-    projectName: string;
-    description: string;
-    version: string;
-    mainTechnologies: string[];
-    scripts: Record<string, string>;
-    dependencies: Record<string, string>;
-    devDependencies: Record<string, string>;
-    configurations: Array<{
-        fileName: string;
-        content: unknown;
-    }>;
-    documentation: {
-        hasReadme: boolean;
-        hasContributing: boolean;
-        hasLicense: boolean;
-        readmeContent?: string;
-    };
-}
+import { streamAgentText } from '../../agents';
+import { cloneRepo, analyzeCode, analyzeSpecification, analyzeWorkspaces } from '../../tools/github/utils';
+import { analyzeGitHistory } from '../../tools/github/history';
+import { analyzeLockfile } from '../../tools/github/lockfile';
+import { scanVulnerabilities } from '../../tools/github/vulnerabilities';
+import { checkLicenses } from '../../tools/github/licenses';
+import { detectDuplication } from '../../tools/github/duplication';
+import { detectDeadCode } from '../../tools/github/deadcode';
+import { redactSecrets, scanSecrets } from '../../tools/github/secrets';
+import { AnalysisRun, createAnalysisRun, saveAnalysisRun } from '../../tools/github/runs';
+import { evaluateQualityGates } from '../../tools/github/quality';
+import { analyzeIssueHealth } from '../../tools/github/issues';
+import { analyzeProjectActivity } from '../../tools/github/activity';
+import { PROVIDER_NAMES, createProvider, getHostedGitHubClient } from '../../tools/github/providers';
+import {
+    REPORT_SCHEMA_VERSION,
+    ReportBlock,
+    ReportDocument,
+    ReportFinding,
+    ReportSection,
+    codeBlock,
+    fieldsBlock,
+    listBlock,
+    markdownBlock,
+    renderReport,
+    reportSection,
+    tableBlock,
+    textBlock,
+    writeReport,
+} from '../../tools/report';
+import {
+    ActivityResult,
+    AnalyzerFailure,
+    AnalyzerOutcome,
+    CloneResult,
+    CodeAnalysisResult,
+    DeadCodeResult,
+    DependencyGraphResult,
+    DuplicationResult,
+    GitHistoryResult,
+    GitHubWorkflowInput,
+    IssueHealthResult,
+    LicenseResult,
+    QualityGateResult,
+    SecretResult,
+    SpecificationResult,
+    VulnerabilityResult,
+    WorkspaceResult,
+    activityResultSchema,
+    cloneResultSchema,
+    codeAnalysisResultSchema,
+    deadCodeResultSchema,
+    dependencyGraphResultSchema,
+    duplicationResultSchema,
+    gitHistoryResultSchema,
+    githubWorkflowInputSchema,
+    issueHealthResultSchema,
+    licenseResultSchema,
+    orAnalyzerFailure,
+    qualityGateResultSchema,
+    reportResultSchema,
+    secretResultSchema,
+    specificationResultSchema,
+    vulnerabilityResultSchema,
+    workspaceResultSchema,
+} from './schemas';
 
 export const cloneRepositoryStep = new Step({
     id: 'clone-repository',
-    description: 'Clones the specified GitHub repository',
+    description: 'Clones the specified repository, or uses a local working copy as-is',
     inputSchema: githubWorkflowInputSchema,
+    outputSchema: cloneResultSchema,
     execute: async ({ context }) => {
         const triggerData = context?.getStepResult<GitHubWorkflowInput>('trigger');
 
@@ -52,277 +80,1219 @@ export const cloneRepositoryStep = new Step({
             throw new Error('Trigger data not found');
         }
 
-        const response = await githubAgent.stream([
-            {
-                role: 'user',
-                content: JSON.stringify({
-                    command: 'githubCloneTool',
-                    params: {
-                        repoUrl: triggerData.repoUrl,
-                        branch: triggerData.branch,
-                        forceClone: triggerData.forceClone,
-                    }
-                })
-            }
-        ]);
-
-        let result = '';
-        for await (const chunk of response.textStream) {
-            process.stdout.write(chunk);
-            result += chunk;
+        // レポートの形式などの誤りは、解析を始める前にエラーにする
+        const input = githubWorkflowInputSchema.safeParse(triggerData);
+        if (!input.success) {
+            throw new Error(`Invalid workflow input: ${input.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`);
         }
 
-        const parsedResult = JSON.parse(result);
-        if (!parsedResult.success) {
-            throw new Error(`Failed to clone repository: ${parsedResult.message}`);
+        const result = await cloneRepo(triggerData.repoUrl, triggerData.branch, triggerData.forceClone, triggerData.provider);
+        if (!result.success) {
+            throw new Error(`Failed to clone repository: ${result.message}`);
         }
 
-        return parsedResult;
+        return result;
     },
 });
 
-export const analyzeCodeStep = new Step({
-    id: 'analyze-code',
-    description: 'Analyzes the cloned repository code',
+export const analyzeCodeStep = analyzerStep('analyze-code', 'Analyzes the cloned repository code', codeAnalysisResultSchema,
+    (clone, trigger) => analyzeCode(clone.repoPath, trigger?.filePattern));
+
+export const analyzeSpecificationStep = analyzerStep('analyze-specification', 'Analyzes the project specification', specificationResultSchema,
+    clone => analyzeSpecification(clone.repoPath));
+
+export const analyzeHistoryStep = analyzerStep('analyze-history', 'Analyzes git history for churn, hotspots and ownership', gitHistoryResultSchema,
+    clone => analyzeGitHistory(clone.repoPath));
+
+export const analyzeDependencyGraphStep = analyzerStep('analyze-dependency-graph', 'Builds the resolved dependency graph from the lockfile', dependencyGraphResultSchema,
+    clone => analyzeLockfile(clone.repoPath));
+
+export const scanVulnerabilitiesStep = analyzerStep('scan-vulnerabilities', 'Matches resolved dependencies against a local OSV advisory database', vulnerabilityResultSchema,
+    (clone, trigger) => scanVulnerabilities(clone.repoPath, { database: trigger?.advisoryDatabase }));
+
+export const scanSecretsStep = analyzerStep('scan-secrets', 'Scans the working tree and git history for committed credentials', secretResultSchema,
+    (clone, trigger) => scanSecrets(clone.repoPath, { allowlist: trigger?.secretAllowlist }));
+
+export const checkLicensesStep = analyzerStep('check-licenses', 'Evaluates project and dependency licenses against the license policy', licenseResultSchema,
+    (clone, trigger) => checkLicenses(clone.repoPath, { policy: trigger?.licensePolicy }));
+
+export const analyzeWorkspacesStep = analyzerStep('analyze-workspaces', 'Detects monorepo workspaces and analyzes each package', workspaceResultSchema,
+    clone => analyzeWorkspaces(clone.repoPath));
+
+export const detectDuplicationStep = analyzerStep('detect-duplication', 'Detects copy-pasted code blocks across the repository', duplicationResultSchema,
+    clone => detectDuplication(clone.repoPath, { files: clone.files }));
+
+export const detectDeadCodeStep = analyzerStep('detect-dead-code', 'Finds unused exports and files unreachable from entry points', deadCodeResultSchema,
+    (clone, trigger) => detectDeadCode(clone.repoPath, { entryPoints: trigger?.entryPoints }));
+
+export const analyzeIssueHealthStep = new Step({
+    id: 'analyze-issue-health',
+    description: 'Summarizes issue and pull request activity from the GitHub API',
     inputSchema: z.object({
-        repoPath: z.string(),
-        filePattern: z.string().optional(),
+        issueWindowDays: z.number().optional(),
     }),
+    outputSchema: issueHealthResultSchema,
     execute: async ({ context }) => {
-        const cloneResult = context?.getStepResult<{
-            repoPath: string;
-            success: boolean;
-            message: string;
-        }>('clone-repository');
-
+        const cloneResult = context?.getStepResult<CloneResult>('clone-repository');
         const triggerData = context?.getStepResult<GitHubWorkflowInput>('trigger');
 
         if (!cloneResult || !cloneResult.success) {
             throw new Error('Repository clone result not found or failed');
         }
 
-        if (!triggerData) {
-            throw new Error('Trigger data not found');
+        // 集計には GitHub API（コメントと author_association）が必要なため、他のホスティングサービスは対象外
+        const hosted = cloneResult.source?.provider;
+        if (!hosted) {
+            return { skipped: 'Not a GitHub repository.', health: null };
         }
-
-        const response = await githubAgent.stream([
-            {
-                role: 'user',
-                content: JSON.stringify({
-                    command: 'codeAnalysisTool',
-                    params: {
-                        repoPath: cloneResult.repoPath,
-                        filePattern: triggerData.filePattern,
-                    }
-                })
-            }
-        ]);
-
-        let result = '';
-        for await (const chunk of response.textStream) {
-            process.stdout.write(chunk);
-            result += chunk;
+        if (hosted.kind !== 'github') {
+            return { skipped: `Issue health is only available for GitHub repositories (this is a ${PROVIDER_NAMES[hosted.kind]} repository).`, health: null };
         }
 
-        return JSON.parse(result) as CodeAnalysisResult;
+        // ネットワークやレート制限による失敗ではレポート全体を止めず、集計できなかった理由を残す
+        try {
+            const { octokit } = await getHostedGitHubClient(hosted);
+            const health = await analyzeIssueHealth(octokit, hosted.owner, hosted.repo, { days: triggerData?.issueWindowDays });
+            return { skipped: null, health };
+        } catch (error) {
+            return { skipped: `GitHub API request failed: ${error instanceof Error ? error.message : String(error)}`, health: null };
+        }
     },
 });
 
-export const analyzeSpecificationStep = new Step({
-    id: 'analyze-specification',
-    description: 'Analyzes the project specification',
+// ホスティングサービスのリリースを取得できない場合はローカルのタグで集計される
+export const analyzeActivityStep = analyzerStep('analyze-activity', 'Summarizes release cadence and contributor activity from git tags and hosted releases', activityResultSchema,
+    ({ repoPath, source }) => analyzeProjectActivity(repoPath, {
+        hosting: source?.provider ? { provider: createProvider(source.provider), repository: source.provider } : undefined,
+    }));
+
+export const evaluateQualityGatesStep = new Step({
+    id: 'evaluate-quality-gates',
+    description: 'Evaluates the analysis results against the configured quality gates',
     inputSchema: z.object({
         repoPath: z.string(),
+        qualityConfig: z.string().optional(),
     }),
+    outputSchema: orAnalyzerFailure(qualityGateResultSchema),
     execute: async ({ context }) => {
-        const cloneResult = context?.getStepResult<{
-            repoPath: string;
-            success: boolean;
-        }>('clone-repository');
+        const cloneResult = context?.getStepResult<CloneResult>('clone-repository');
+        const triggerData = context?.getStepResult<GitHubWorkflowInput>('trigger');
+        const analysisResult = context?.getStepResult<AnalyzerOutcome<CodeAnalysisResult>>('analyze-code');
+        const vulnerabilityResult = context?.getStepResult<AnalyzerOutcome<VulnerabilityResult>>('scan-vulnerabilities');
+        const secretResult = context?.getStepResult<AnalyzerOutcome<SecretResult>>('scan-secrets');
+        const licenseResult = context?.getStepResult<AnalyzerOutcome<LicenseResult>>('check-licenses');
+        const duplicationResult = context?.getStepResult<AnalyzerOutcome<DuplicationResult>>('detect-duplication');
+        const deadCodeResult = context?.getStepResult<AnalyzerOutcome<DeadCodeResult>>('detect-dead-code');
 
         if (!cloneResult || !cloneResult.success) {
             throw new Error('Repository clone result not found or failed');
         }
 
-        const response = await githubAgent.stream([
-            {
-                role: 'user',
-                content: JSON.stringify({
-                    command: 'specificationAnalysisTool',
-                    params: {
-                        repoPath: cloneResult.repoPath,
-                    }
-                })
-            }
-        ]);
+        if (!analysisResult || !vulnerabilityResult || !secretResult || !licenseResult || !duplicationResult || !deadCodeResult) {
+            throw new Error('Required step results not found');
+        }
 
-        let result = '';
-        for await (const chunk of response.textStream) {
-            process.stdout.write(chunk);
-            result += chunk;
+        // 評価に使う解析が失敗している場合は、合否を判定せずに理由を残す
+        const inputs = {
+            analysis: succeeded(analysisResult),
+            vulnerabilities: succeeded(vulnerabilityResult),
+            secrets: succeeded(secretResult),
+            licenses: succeeded(licenseResult),
+            duplication: succeeded(duplicationResult),
+            deadCode: succeeded(deadCodeResult),
+        };
+        const { analysis, vulnerabilities, secrets, licenses, duplication, deadCode } = inputs;
+        if (!analysis || !vulnerabilities || !secrets || !licenses || !duplication || !deadCode) {
+            const failed = Object.entries(inputs).filter(([, result]) => !result).map(([name]) => name);
+            return { failed: `Required analysis failed: ${failed.join(', ')}` };
         }
 
-        return JSON.parse(result) as SpecificationResult;
+        return await runAnalyzer(() => evaluateQualityGates(
+            cloneResult.repoPath,
+            { analysis, vulnerabilities, secrets, licenses, duplication, deadCode },
+            { config: triggerData?.qualityConfig }
+        ));
     },
 });
 
+// 失敗した解析の結果は null（理由は failures に残す）
+interface AnalysisResults {
+    analysis: CodeAnalysisResult | null;
+    specification: SpecificationResult | null;
+    history: GitHistoryResult | null;
+    dependencyGraph: DependencyGraphResult | null;
+    vulnerabilities: VulnerabilityResult | null;
+    secrets: SecretResult | null;
+    licenses: LicenseResult | null;
+    workspaces: WorkspaceResult | null;
+    duplication: DuplicationResult | null;
+    deadCode: DeadCodeResult | null;
+    qualityGate: QualityGateResult | null;
+    issueHealth: IssueHealthResult;
+    activity: ActivityResult | null;
+    // 解析の名前（このオブジェクトのキー）ごとの失敗の理由
+    failures: Record<string, string>;
+}
+
+/**
+ * クローンしたリポジトリに1つの解析を実行するステップを作成する。解析の失敗は例外にせず、理由を結果として返す。
+ */
+function analyzerStep<TId extends string, TSchema extends z.ZodTypeAny>(
+    id: TId,
+    description: string,
+    schema: TSchema,
+    analyze: (cloneResult: CloneResult, triggerData: GitHubWorkflowInput | undefined) => Promise<z.infer<TSchema>>
+) {
+    return new Step({
+        id,
+        description,
+        inputSchema: z.object({
+            repoPath: z.string(),
+        }),
+        outputSchema: orAnalyzerFailure(schema),
+        execute: async ({ context }) => {
+            const cloneResult = context?.getStepResult<CloneResult>('clone-repository');
+            const triggerData = context?.getStepResult<GitHubWorkflowInput>('trigger');
+
+            if (!cloneResult || !cloneResult.success) {
+                throw new Error('Repository clone result not found or failed');
+            }
+
+            return await runAnalyzer(() => analyze(cloneResult, triggerData));
+        },
+    });
+}
+
+/**
+ * 解析を実行し、失敗した場合は例外の代わりに理由を返す（1つの解析の失敗でレポート全体を止めない）。
+ */
+async function runAnalyzer<T>(analyze: () => Promise<T>): Promise<AnalyzerOutcome<T>> {
+    try {
+        return await analyze();
+    } catch (error) {
+        return { failed: error instanceof Error ? error.message : String(error) };
+    }
+}
+
+function isAnalyzerFailure<T>(outcome: AnalyzerOutcome<T>): outcome is AnalyzerFailure {
+    return typeof outcome === 'object' && outcome !== null && typeof (outcome as AnalyzerFailure).failed === 'string';
+}
+
+function succeeded<T>(outcome: AnalyzerOutcome<T>): T | null {
+    return isAnalyzerFailure(outcome) ? null : outcome;
+}
+
 export const generateReportStep = new Step({
     id: 'generate-report',
-    description: 'Generates a markdown report of the analysis results',
-    inputSchema: z.object({
-        repoPath: z.string(),
-        analysis: z.object({
-            files: z.array(z.string()),
-            dependencies: z.array(z.string()),
-            codeMetrics: z.object({
-                totalFiles: z.number(),
-                totalLines: z.number(),
-                languageStats: z.record(z.number()),
-            }),
-            analysis: z.object({
-                complexity: z.number(),
-                maintainability: z.number(),
-                documentation: z.number(),
-            }),
-        }),
-    }),
+    description: 'Generates reports of the analysis results in the requested formats',
+    outputSchema: reportResultSchema,
     execute: async ({ context }) => {
-        const cloneResult = context?.getStepResult<{
-            repoPath: string;
-            success: boolean;
-        }>('clone-repository');
-
-        const analysisResult = context?.getStepResult<CodeAnalysisResult>('analyze-code');
-        const specResult = context?.getStepResult<SpecificationResult>('analyze-specification');
+        const cloneResult = context?.getStepResult<CloneResult>('clone-repository');
+        const analysisResult = context?.getStepResult<AnalyzerOutcome<CodeAnalysisResult>>('analyze-code');
+        const specResult = context?.getStepResult<AnalyzerOutcome<SpecificationResult>>('analyze-specification');
+        const historyResult = context?.getStepResult<AnalyzerOutcome<GitHistoryResult>>('analyze-history');
+        const graphResult = context?.getStepResult<AnalyzerOutcome<DependencyGraphResult>>('analyze-dependency-graph');
+        const vulnerabilityResult = context?.getStepResult<AnalyzerOutcome<VulnerabilityResult>>('scan-vulnerabilities');
+        const secretResult = context?.getStepResult<AnalyzerOutcome<SecretResult>>('scan-secrets');
+        const licenseResult = context?.getStepResult<AnalyzerOutcome<LicenseResult>>('check-licenses');
+        const workspaceResult = context?.getStepResult<AnalyzerOutcome<WorkspaceResult>>('analyze-workspaces');
+        const duplicationResult = context?.getStepResult<AnalyzerOutcome<DuplicationResult>>('detect-duplication');
+        const deadCodeResult = context?.getStepResult<AnalyzerOutcome<DeadCodeResult>>('detect-dead-code');
+        const qualityGateResult = context?.getStepResult<AnalyzerOutcome<QualityGateResult>>('evaluate-quality-gates');
+        const issueHealthResult = context?.getStepResult<IssueHealthResult>('analyze-issue-health');
+        const activityResult = context?.getStepResult<AnalyzerOutcome<ActivityResult>>('analyze-activity');
         const triggerData = context?.getStepResult<GitHubWorkflowInput>('trigger');
 
-        if (!cloneResult || !analysisResult || !specResult || !triggerData) {
+        if (
+            !cloneResult || !analysisResult || !specResult || !historyResult
+            || !graphResult || !vulnerabilityResult || !licenseResult || !workspaceResult || !duplicationResult
+            || !deadCodeResult || !secretResult || !qualityGateResult || !issueHealthResult
+            || !activityResult
+        ) {
             throw new Error('Required step results not found');
         }
 
-        const repoName = triggerData.repoUrl.split('/').pop()?.replace('.git', '') || 'unknown-repo';
+        const repoName = cloneResult.source?.name || 'unknown-repo';
+        const outcomes = {
+            analysis: analysisResult,
+            specification: specResult,
+            history: historyResult,
+            dependencyGraph: graphResult,
+            vulnerabilities: vulnerabilityResult,
+            secrets: secretResult,
+            licenses: licenseResult,
+            workspaces: workspaceResult,
+            duplication: duplicationResult,
+            deadCode: deadCodeResult,
+            qualityGate: qualityGateResult,
+            activity: activityResult,
+        };
+        const failures: Record<string, string> = {};
+        for (const [name, outcome] of Object.entries(outcomes)) {
+            if (isAnalyzerFailure(outcome)) failures[name] = outcome.failed;
+        }
+        const results: AnalysisResults = {
+            analysis: succeeded(analysisResult),
+            specification: succeeded(specResult),
+            history: succeeded(historyResult),
+            dependencyGraph: succeeded(graphResult),
+            vulnerabilities: succeeded(vulnerabilityResult),
+            secrets: succeeded(secretResult),
+            licenses: succeeded(licenseResult),
+            workspaces: succeeded(workspaceResult),
+            duplication: succeeded(duplicationResult),
+            deadCode: succeeded(deadCodeResult),
+            qualityGate: succeeded(qualityGateResult),
+            issueHealth: issueHealthResult,
+            activity: succeeded(activityResult),
+            failures,
+        };
 
-        const report = generateMarkdownReport(repoName, analysisResult, specResult);
+        // LLMは所見の文章化のみに使用し、失敗してもレポートは必ず出力する
+        const summary = await generateNarrativeSummary(repoName, results);
+        const document = buildAnalysisReport(repoName, cloneResult, results, summary);
 
-        const reportPath = path.join(process.cwd(), 'reports');
-        await fs.mkdir(reportPath, { recursive: true });
+        // README などに含まれる認証情報がレポートに転記されないよう、出力前に伏せ字にする
+        const report = redactSecrets(renderReport(document, 'markdown'));
+        const outputs = await writeReport(document, {
+            directory: path.join(process.cwd(), 'reports'),
+            baseName: `${repoName}-analysis`,
+            formats: triggerData?.formats?.length ? triggerData.formats : ['markdown'],
+            transform: redactSecrets,
+        });
+        const reportFile = (outputs.find(output => output.format === 'markdown') || outputs[0]).path;
 
-        const reportFile = path.join(reportPath, `${repoName}-analysis.md`);
-        await fs.writeFile(reportFile, report, 'utf-8');
+        // トレンド分析のため、実行ごとの指標と指摘を保存する
+        // 一部の解析が失敗した実行は、指摘が解消したように見えるため保存しない
+        let runPath: string | undefined;
+        const { analysis, duplication, qualityGate } = results;
+        if (cloneResult.source && analysis && Object.keys(failures).length === 0) {
+            const run = await createAnalysisRun({
+                repository: { name: repoName, location: cloneResult.source.location },
+                repoPath: cloneResult.repoPath,
+                commit: cloneResult.commit,
+                origin: 'workflow',
+                analysis,
+                duplication: duplication?.percentage,
+                findings: collectRunFindings(results),
+            });
+            runPath = await saveAnalysisRun(run);
+        }
+
+        // CI などから実行を失敗させる場合も、レポートと解析結果は先に出力しておく
+        if (triggerData?.failOnQualityGate && !qualityGate) {
+            throw new Error(`Quality gate could not be evaluated: ${failures.qualityGate} (report: ${reportFile})`);
+        }
+        if (triggerData?.failOnQualityGate && qualityGate && !qualityGate.passed) {
+            const reasons = qualityGate.gates
+                .filter(evaluation => evaluation.status === 'failed')
+                .map(evaluation => evaluation.scope === 'repository' ? evaluation.reason : `${evaluation.reason} [${evaluation.scope}]`);
+            throw new Error(`Quality gate failed: ${reasons.join('; ')} (report: ${reportFile})`);
+        }
 
         return {
             reportPath: reportFile,
             report,
+            summary,
+            runPath,
+            outputs: outputs.map(({ format, path }) => ({ format, path })),
         };
     },
 });
 
-function generateMarkdownReport(
+/**
+ * 保存用に、各スキャナーの指摘を識別子と深刻度のみに変換する。
+ * 識別子は compare-workflow と同じ形式にそろえる。
+ */
+function collectRunFindings({ vulnerabilities, secrets, licenses, deadCode }: AnalysisResults): AnalysisRun['findings'] {
+    if (!vulnerabilities || !secrets || !licenses || !deadCode) return [];
+    return [
+        ...vulnerabilities.findings.map(finding => ({
+            scanner: 'vulnerability',
+            id: `${finding.id}:${finding.ecosystem}:${finding.package}`,
+            severity: finding.severity,
+        })),
+        ...secrets.findings.map(finding => ({
+            scanner: 'secret',
+            id: `${finding.fingerprint}:${finding.file}`,
+            severity: finding.severity,
+        })),
+        ...licenses.dependencies
+            .filter(dependency => dependency.status !== 'allowed')
+            .map(dependency => ({
+                scanner: 'license',
+                id: `${dependency.name}:${dependency.license ?? 'UNKNOWN'}:${dependency.status}`,
+                severity: dependency.status,
+            })),
+        ...deadCode.deadFiles.map(file => ({
+            scanner: 'dead-code',
+            id: `file:${file.file}`,
+            severity: file.confidence,
+        })),
+        ...deadCode.unusedExports.map(entry => ({
+            scanner: 'dead-code',
+            id: `export:${entry.file}:${entry.name}`,
+            severity: entry.confidence,
+        })),
+    ];
+}
+
+async function generateNarrativeSummary(
+    repoName: string,
+    { analysis, specification, history, dependencyGraph, vulnerabilities, secrets, licenses, workspaces, duplication, deadCode, qualityGate, issueHealth, activity, failures }: AnalysisResults
+): Promise<string> {
+    // 失敗した解析は推測させないよう、理由のみを渡す
+    const unavailable = (name: keyof AnalysisResults) => ({ unavailable: `Analysis failed: ${failures[name]}` });
+
+    const facts = {
+        repository: repoName,
+        project: specification ? {
+            name: specification.projectName,
+            description: specification.description,
+            version: specification.version,
+            mainTechnologies: specification.mainTechnologies,
+            documentation: {
+                hasReadme: specification.documentation.hasReadme,
+                hasContributing: specification.documentation.hasContributing,
+                hasLicense: specification.documentation.hasLicense,
+                license: specification.documentation.license,
+            },
+        } : unavailable('specification'),
+        dependencies: {
+            ecosystems: specification ? specification.ecosystems : unavailable('specification'),
+            runtime: analysis ? analysis.dependencies.filter(dep => dep.scope === 'runtime').map(dep => `${dep.name}@${dep.version}`) : unavailable('analysis'),
+            dev: analysis ? analysis.dependencies.filter(dep => dep.scope === 'dev').map(dep => `${dep.name}@${dep.version}`) : unavailable('analysis'),
+            lockfile: dependencyGraph ? dependencyGraph.lockfile && {
+                file: dependencyGraph.lockfile,
+                directCount: dependencyGraph.directCount,
+                transitiveCount: dependencyGraph.transitiveCount,
+                maxDepth: dependencyGraph.maxDepth,
+                duplicates: dependencyGraph.duplicates.length,
+                mismatches: dependencyGraph.mismatches,
+                heaviestSubtrees: dependencyGraph.heaviestSubtrees.slice(0, 5),
+            } : unavailable('dependencyGraph'),
+        },
+        security: vulnerabilities ? vulnerabilities.database.source && {
+            counts: vulnerabilities.counts,
+            findings: vulnerabilities.findings.slice(0, 10).map(finding => ({
+                id: finding.id,
+                severity: finding.severity,
+                package: `${finding.package}@${finding.version}`,
+                fixedVersion: finding.fixedVersion,
+                direct: finding.direct,
+            })),
+        } : unavailable('vulnerabilities'),
+        // 検出した値は伏せ字も含めて渡さず、種類と場所のみを渡す
+        secrets: secrets ? {
+            counts: secrets.counts,
+            findings: secrets.findings.slice(0, 10).map(finding => ({
+                rule: finding.rule,
+                severity: finding.severity,
+                location: `${finding.file}:${finding.line}`,
+                onlyInHistory: finding.source === 'history',
+            })),
+        } : unavailable('secrets'),
+        licenses: licenses ? {
+            project: licenses.project,
+            summary: licenses.summary,
+            denied: licenses.dependencies.filter(dep => dep.status === 'denied').map(dep => `${dep.name}@${dep.version} (${dep.license})`),
+            conflicts: licenses.conflicts,
+        } : unavailable('licenses'),
+        workspaces: !workspaces ? unavailable('workspaces') : workspaces.packages.length > 0 ? {
+            tools: workspaces.tools,
+            rollup: { ...workspaces.rollup, sharedDependencies: workspaces.rollup.sharedDependencies.length },
+            cycles: workspaces.cycles,
+            packages: workspaces.packages.map(pkg => ({
+                name: pkg.name,
+                files: pkg.files,
+                lines: pkg.lines,
+                averageCyclomatic: pkg.complexity.averageCyclomatic,
+                maintainability: pkg.maintainability,
+                internalDependencies: pkg.internalDependencies,
+                dependents: pkg.dependents.length,
+            })),
+        } : null,
+        duplication: duplication ? {
+            percentage: duplication.percentage,
+            duplicatedLines: duplication.duplicatedLines,
+            totalLines: duplication.totalLines,
+            groupCount: duplication.groupCount,
+            largestGroups: duplication.groups.slice(0, 5),
+        } : unavailable('duplication'),
+        deadCode: deadCode ? {
+            modules: deadCode.modules,
+            reachable: deadCode.reachable,
+            entryPoints: deadCode.entryPoints.length,
+            counts: deadCode.counts,
+            unknownDynamicImports: deadCode.unknownDynamicImports,
+            deadFiles: deadCode.deadFiles.slice(0, 10),
+            unusedExports: deadCode.unusedExports.filter(entry => entry.confidence === 'high').slice(0, 10),
+        } : unavailable('deadCode'),
+        codeMetrics: analysis ? { ...analysis.codeMetrics, fileStats: analysis.codeMetrics.fileStats.slice(0, 10) } : unavailable('analysis'),
+        quality: analysis ? analysis.analysis : unavailable('analysis'),
+        qualityGate: qualityGate ? {
+            status: qualityGate.status,
+            failed: qualityGate.gates.filter(evaluation => evaluation.status === 'failed').map(evaluation => ({ scope: evaluation.scope, reason: evaluation.reason })),
+            warnings: qualityGate.gates.filter(evaluation => evaluation.status === 'warning').map(evaluation => ({ scope: evaluation.scope, reason: evaluation.reason })),
+        } : { unavailable: failures.qualityGate },
+        history: history ? {
+            totalCommits: history.totalCommits,
+            totalAuthors: history.totalAuthors,
+            lastCommitDate: history.lastCommitDate,
+            hotspots: history.hotspots.slice(0, 5),
+            topOwners: history.ownership.slice(0, 5),
+            busFactor: history.busFactor.slice(0, 5),
+        } : unavailable('history'),
+        // GitHub 以外のリポジトリでは集計できないため、推測させないよう理由を渡す
+        issueHealth: issueHealth.health
+            ? { ...issueHealth.health, stale: { ...issueHealth.health.stale, items: issueHealth.health.stale.items.slice(0, 5) }, labels: issueHealth.health.labels.slice(0, 10) }
+            : { unavailable: issueHealth.skipped },
+        activity: activity ? {
+            releases: { ...activity.releases, recent: activity.releases.recent.slice(0, 3) },
+            tags: activity.tags,
+            contributors: activity.contributors,
+            weeklyCommits: activity.commitFrequency.sparkline,
+        } : unavailable('activity'),
+    };
+
+    const prompt = `
+以下は静的解析で得られたリポジトリの計測結果です。ツールは呼び出さず、この数値のみに基づいて総評を書いてください。
+
+${redactSecrets(JSON.stringify(facts, null, 2))}
+
+以下の観点から簡潔にまとめてください：
+1. コードベースの評価
+2. 変更履歴とオーナーシップのリスク、イシューとプルリクエストの管理（issueHealth がない場合は評価しない）
+3. コミュニティの活動状況（リリースの頻度、コントリビューターの推移）
+4. 技術的な特徴と依存関係の管理
+5. セキュリティ上の懸念（既知の脆弱性・コミットされた認証情報）とライセンス上のリスク
+6. 優先度の高い改善提案
+
+※日本語で、具体的な数値を引用して説明してください。`;
+
+    return streamAgentText(
+        prompt,
+        text => text.trim() || '総評を生成できませんでした（LLMの応答が空です）',
+        message => `総評の生成に失敗しました: ${message}`
+    );
+}
+
+function buildAnalysisReport(
     repoName: string,
-    analysis: CodeAnalysisResult,
-    specification: SpecificationResult
-): string {
-    const {
-        files,
-        dependencies,
-        codeMetrics,
-        analysis: codeAnalysis,
-    } = analysis;
+    cloneResult: CloneResult,
+    results: AnalysisResults,
+    summary: string
+): ReportDocument {
+    const { analysis, specification, history, dependencyGraph, vulnerabilities, secrets, licenses, workspaces, duplication, deadCode, qualityGate, issueHealth, activity, failures } = results;
+
+    // 解析が失敗した項目は、その理由のみを記載する
+    const unavailable = (title: string, name: keyof AnalysisResults) =>
+        reportSection(title, [textBlock(`Not available: analysis failed (${failures[name]})`)]);
+    const dependencyGraphSection = dependencyGraph ? generateDependencyGraphSection(dependencyGraph) : unavailable('Dependency Graph', 'dependencyGraph');
+
+    const sections: ReportSection[] = [
+        specification ? generateSpecificationSection(specification, dependencyGraphSection) : unavailable('Project Specification', 'specification'),
+        reportSection('Code Analysis', [], [
+            ...(analysis ? generateCodeAnalysisSections(analysis) : [unavailable('Code Metrics', 'analysis')]),
+            duplication ? generateDuplicationSection(duplication) : unavailable('Duplication', 'duplication'),
+            deadCode ? generateDeadCodeSection(deadCode) : unavailable('Dead Code', 'deadCode'),
+            ...(analysis ? [reportSection('File Structure', [codeBlock(analysis.files.map((file: string) => `- ${file}`).join('\n'))])] : []),
+        ]),
+        workspaces ? generateWorkspaceSection(workspaces) : unavailable('Workspaces', 'workspaces'),
+        reportSection('Security', [], [
+            vulnerabilities ? generateVulnerabilitySection(vulnerabilities) : unavailable('Known Vulnerabilities', 'vulnerabilities'),
+            secrets ? generateSecretSection(secrets) : unavailable('Committed Secrets', 'secrets'),
+        ]),
+        licenses ? generateLicenseSection(licenses) : unavailable('License Compliance', 'licenses'),
+        history ? generateHistorySection(history) : unavailable('Git History', 'history'),
+        activity ? generateActivitySection(activity) : unavailable('Release Cadence & Contributor Activity', 'activity'),
+        generateIssueHealthSection(issueHealth),
+        qualityGate ? generateQualityGateSection(qualityGate) : reportSection('Quality Gates', [textBlock(`Not available: ${failures.qualityGate}`)]),
+        reportSection('Analysis Summary', [textBlock(qualityGate ? generateAnalysisSummary(qualityGate) : 'Quality gates were not evaluated.')], [
+            reportSection('Reviewer Notes', [markdownBlock(summary)]),
+        ]),
+    ];
+
+    if (specification?.documentation.readmeContent) {
+        sections.push(reportSection('Project README', [markdownBlock(specification.documentation.readmeContent)]));
+    }
+
+    return {
+        schemaVersion: REPORT_SCHEMA_VERSION,
+        title: `Repository Analysis Report: ${repoName}`,
+        generatedAt: new Date().toISOString(),
+        repository: {
+            name: repoName,
+            location: cloneResult.source?.location ?? null,
+            commit: cloneResult.commit || null,
+        },
+        sections,
+        footer: null,
+        findings: collectReportFindings(results),
+        data: { ...results, summary },
+    };
+}
+
+// 複雑な関数としてコードスキャンの結果に含める循環的複雑度
+const COMPLEX_FUNCTION_CYCLOMATIC = 10;
+
+/**
+ * SARIF などに出力するため、各スキャナーの結果からファイル単位の指摘を集める。
+ * 依存パッケージの指摘はロックファイル（なければマニフェスト）の指摘として扱う。
+ */
+function collectReportFindings({ analysis, specification, dependencyGraph, vulnerabilities, secrets, licenses, duplication, deadCode }: AnalysisResults): ReportFinding[] {
+    const findings: ReportFinding[] = [];
+    const dependencyFile = (name: string) => dependencyGraph?.lockfile
+        ?? specification?.dependencies.find(dep => dep.name === name)?.manifest
+        ?? specification?.manifests[0]
+        ?? 'package.json';
 
+    for (const finding of vulnerabilities?.findings ?? []) {
+        findings.push({
+            ruleId: `vulnerability/${finding.id}`,
+            ruleName: finding.summary || finding.id,
+            category: 'vulnerability',
+            level: finding.severity === 'critical' || finding.severity === 'high' ? 'error' : finding.severity === 'medium' ? 'warning' : 'note',
+            message: `${finding.package}@${finding.version} is affected by ${finding.id} (${finding.severity})${finding.fixedVersion ? `; fixed in ${finding.fixedVersion}` : ''}. Dependency path: ${finding.path.join(' → ')}`,
+            file: dependencyFile(finding.package),
+            startLine: null,
+            endLine: null,
+            fingerprint: `${finding.id}:${finding.ecosystem}:${finding.package}`,
+        });
+    }
+
+    for (const finding of secrets?.findings ?? []) {
+        findings.push({
+            ruleId: `secret/${finding.rule}`,
+            ruleName: finding.description,
+            category: 'secret',
+            level: finding.severity === 'medium' ? 'warning' : 'error',
+            message: `${finding.description} (${finding.redacted})${finding.source === 'history'
+                ? ` remains in git history${finding.commit ? ` since ${finding.commit.slice(0, 7)}` : ''}`
+                : ''}. Rotate the credential.`,
+            file: finding.file,
+            startLine: finding.line,
+            endLine: finding.line,
+            fingerprint: finding.fingerprint,
+        });
+    }
+
+    for (const dependency of licenses?.dependencies ?? []) {
+        if (dependency.status !== 'denied') continue;
+        findings.push({
+            ruleId: 'license/denied',
+            ruleName: 'License denied by policy',
+            category: 'license',
+            level: 'error',
+            message: `${dependency.name}@${dependency.version} is licensed under ${dependency.license ?? 'an unknown license'}, which the license policy denies`,
+            file: dependencyFile(dependency.name),
+            startLine: null,
+            endLine: null,
+            fingerprint: `${dependency.name}:${dependency.license ?? 'UNKNOWN'}`,
+        });
+    }
+
+    for (const fn of analysis?.analysis.complexity.worstFunctions ?? []) {
+        if (fn.cyclomatic < COMPLEX_FUNCTION_CYCLOMATIC) continue;
+        findings.push({
+            ruleId: 'complexity/function',
+            ruleName: 'Complex function',
+            category: 'complexity',
+            level: 'warning',
+            message: `${fn.name} has a cyclomatic complexity of ${fn.cyclomatic} and a cognitive complexity of ${fn.cognitive}`,
+            file: fn.file,
+            startLine: fn.line,
+            endLine: fn.line + Math.max(fn.length - 1, 0),
+            fingerprint: `${fn.file}:${fn.name}`,
+        });
+    }
+
+    for (const group of duplication?.groups ?? []) {
+        const [first, ...others] = group.occurrences;
+        if (!first) continue;
+        findings.push({
+            ruleId: 'duplication/clone',
+            ruleName: 'Duplicated code block',
+            category: 'duplication',
+            level: 'note',
+            message: `${group.lines} lines are duplicated in ${others.map(occurrence => `${occurrence.file}:${occurrence.startLine}-${occurrence.endLine}`).join(', ')}`,
+            file: first.file,
+            startLine: first.startLine,
+            endLine: first.endLine,
+            fingerprint: null,
+        });
+    }
+
+    for (const file of deadCode?.deadFiles ?? []) {
+        findings.push({
+            ruleId: 'dead-code/unreachable-file',
+            ruleName: 'File unreachable from entry points',
+            category: 'dead-code',
+            level: file.confidence === 'high' ? 'warning' : 'note',
+            message: `Unreachable file (${file.reason})`,
+            file: file.file,
+            startLine: null,
+            endLine: null,
+            fingerprint: `file:${file.file}`,
+        });
+    }
+
+    for (const entry of deadCode?.unusedExports ?? []) {
+        findings.push({
+            ruleId: 'dead-code/unused-export',
+            ruleName: 'Unused export',
+            category: 'dead-code',
+            level: entry.confidence === 'high' ? 'warning' : 'note',
+            message: `${entry.typeOnly ? 'Type' : 'Export'} ${entry.name} is not imported anywhere`,
+            file: entry.file,
+            startLine: entry.line,
+            endLine: entry.line,
+            fingerprint: `export:${entry.file}:${entry.name}`,
+        });
+    }
+
+    return findings;
+}
+
+function generateSpecificationSection(specification: SpecificationResult, dependencyGraphSection: ReportSection): ReportSection {
+    const formatStatus = (value: boolean) => value ? '✅' : '❌';
+
+    return reportSection('Project Specification', [
+        fieldsBlock([
+            ['Name', specification.projectName],
+            ['Description', specification.description],
+            ['Version', specification.version],
+        ]),
+    ], [
+        reportSection('Main Technologies', [listBlock(specification.mainTechnologies)]),
+        reportSection('NPM Scripts', [codeBlock(JSON.stringify(specification.scripts, null, 2), 'json')]),
+        reportSection('Dependency Manifests', [listBlock(specification.manifests, 'No dependency manifests found.')]),
+        reportSection('Dependencies', [formatDependencies(specification.dependencies.filter(dep => dep.scope === 'runtime'))]),
+        reportSection('Dev Dependencies', [formatDependencies(specification.dependencies.filter(dep => dep.scope === 'dev'))]),
+        dependencyGraphSection,
+        reportSection('Configuration Files', [listBlock(specification.configurations.map(config => config.fileName))]),
+        reportSection('Documentation Status', [
+            fieldsBlock([
+                ['README', formatStatus(specification.documentation.hasReadme)],
+                ['Contributing Guide', formatStatus(specification.documentation.hasContributing)],
+                ['License', `${formatStatus(specification.documentation.hasLicense)}${specification.documentation.license ? ` (${specification.documentation.license})` : ''}`],
+            ]),
+        ]),
+    ]);
+}
+
+function generateCodeAnalysisSections({ codeMetrics, analysis: codeAnalysis }: CodeAnalysisResult): ReportSection[] {
+    const { complexity } = codeAnalysis;
     const formatPercentage = (value: number) => `${(value * 100).toFixed(1)}%`;
     const formatNumber = (value: number) => value.toFixed(2);
 
-    return `# Repository Analysis Report: ${repoName}
+    return [
+        reportSection('Overview', [
+            fieldsBlock([
+                ['Total Files', codeMetrics.totalFiles],
+                ['Total Lines', `${codeMetrics.totalLines} (code ${codeMetrics.totalCode} / comment ${codeMetrics.totalComment} / blank ${codeMetrics.totalBlank})`],
+            ]),
+        ]),
+        generateLanguageSection(codeMetrics),
+        reportSection('Code Quality Metrics', [
+            fieldsBlock([
+                ['Functions Analyzed', complexity.functionCount],
+                ['Cyclomatic Complexity', `avg ${formatNumber(complexity.averageCyclomatic)} / max ${complexity.maxCyclomatic}`],
+                ['Cognitive Complexity', `avg ${formatNumber(complexity.averageCognitive)} / max ${complexity.maxCognitive}`],
+                ['Max Nesting Depth', complexity.maxNesting],
+                ['Average Function Length', `${formatNumber(complexity.averageLength)} lines`],
+                ['Average Parameters', formatNumber(complexity.averageParams)],
+                ['Maintainability Index', formatPercentage(codeAnalysis.maintainability)],
+                ['Documentation Coverage', formatPercentage(codeAnalysis.documentation)],
+            ]),
+        ]),
+        reportSection('Most Complex Functions', [
+            tableBlock(
+                ['Function', 'Location', 'Cyclomatic', 'Cognitive', 'Nesting', 'Lines', 'Params'],
+                complexity.worstFunctions.map(fn => [fn.name, `${fn.file}:${fn.line}`, fn.cyclomatic, fn.cognitive, fn.maxNesting, fn.length, fn.params]),
+                'No TypeScript/JavaScript functions found.'
+            ),
+        ]),
+    ];
+}
 
-## Project Specification
-- Name: ${specification.projectName}
-- Description: ${specification.description}
-- Version: ${specification.version}
+function formatDependencies(dependencies: SpecificationResult['dependencies']): ReportBlock {
+    return listBlock(dependencies.map(dep => {
+        // ワークスペース内のパッケージの依存は宣言元のマニフェストを併記する
+        const location = dep.manifest.includes('/') ? `, ${dep.manifest}` : '';
+        return `${dep.name}: ${dep.version || '*'} (${dep.ecosystem}${location})`;
+    }));
+}
 
-### Main Technologies
-${specification.mainTechnologies.map(tech => `- ${tech}`).join('\n')}
+function generateLanguageSection(codeMetrics: CodeAnalysisResult['codeMetrics']): ReportSection {
+    const { languageStats, excludedFiles } = codeMetrics;
+    const languages = Object.entries(languageStats);
+    const totalBytes = languages.reduce((sum, [, stat]) => sum + stat.bytes, 0);
+    const largest = codeMetrics.fileStats.slice(0, 10);
 
-### NPM Scripts
-\`\`\`json
-${JSON.stringify(specification.scripts, null, 2)}
-\`\`\`
+    return reportSection('Language Distribution', [
+        tableBlock(
+            ['Language', 'Type', 'Files', 'Code', 'Comment', 'Blank', 'Bytes', 'Share'],
+            languages.map(([language, stat]) => [language, stat.type, stat.files, stat.code, stat.comment, stat.blank, stat.bytes, `${(stat.bytes / totalBytes * 100).toFixed(1)}%`]),
+            'No programming or markup languages detected.'
+        ),
+        textBlock(`Excluded from statistics: ${excludedFiles.vendored} vendored, ${excludedFiles.generated} generated, ${excludedFiles.documentation} documentation, ${excludedFiles.other} data/prose/unknown files.`),
+    ], largest.length > 0 ? [
+        reportSection('Largest Files', [
+            tableBlock(
+                ['File', 'Language', 'Code', 'Comment', 'Blank'],
+                largest.map(file => [file.path, file.language, file.code, file.comment, file.blank]),
+                'No files.'
+            ),
+        ]),
+    ] : []);
+}
 
-### Dependencies
-${Object.entries(specification.dependencies)
-            .map(([dep, version]) => `- ${dep}: ${version}`)
-            .join('\n')}
+function generateDuplicationSection(duplication: DuplicationResult): ReportSection {
+    const formatPercentage = (value: number) => `${(value * 100).toFixed(1)}%`;
 
-### Dev Dependencies
-${Object.entries(specification.devDependencies)
-            .map(([dep, version]) => `- ${dep}: ${version}`)
-            .join('\n')}
+    return reportSection('Duplication', [
+        fieldsBlock([
+            ['Duplicated Lines', `${duplication.duplicatedLines} / ${duplication.totalLines} (${formatPercentage(duplication.percentage)})`],
+            ['Clone Groups', `${duplication.groupCount} (min ${duplication.minTokens} tokens / ${duplication.minLines} lines)`],
+        ]),
+        tableBlock(
+            ['#', 'Lines', 'Tokens', 'Detection', 'Occurrences'],
+            duplication.groups.map((group, index) => [
+                index + 1,
+                group.lines,
+                group.mode === 'token' ? group.tokens : '-',
+                group.mode,
+                group.occurrences.map(occurrence => `${occurrence.file}:${occurrence.startLine}-${occurrence.endLine}`).join('\n'),
+            ]),
+            'No duplicated blocks found.'
+        ),
+    ]);
+}
 
-### Configuration Files
-${specification.configurations
-            .map(config => `- ${config.fileName}`)
-            .join('\n')}
+function generateDeadCodeSection(deadCode: DeadCodeResult): ReportSection {
+    const summary = fieldsBlock([
+        ['Modules', `${deadCode.modules} (${deadCode.reachable} reachable from ${deadCode.entryPoints.length} entry points)`],
+        ['Unused Exports', deadCode.counts.unusedExports],
+        ['Unreachable Files', deadCode.counts.deadFiles],
+        ['Confidence', `${deadCode.counts.high} high / ${deadCode.counts.medium} medium / ${deadCode.counts.low} low`],
+        ...(deadCode.unknownDynamicImports > 0
+            ? [['Unresolvable dynamic imports', `${deadCode.unknownDynamicImports} (results may include false positives)`] as [string, string]]
+            : []),
+    ]);
 
-### Documentation Status
-- README: ${specification.documentation.hasReadme ? '✅' : '❌'}
-- Contributing Guide: ${specification.documentation.hasContributing ? '✅' : '❌'}
-- License: ${specification.documentation.hasLicense ? '✅' : '❌'}
+    if (deadCode.modules === 0) {
+        return reportSection('Dead Code', [summary, textBlock('No TypeScript/JavaScript modules found.')]);
+    }
 
-## Code Analysis
+    return reportSection('Dead Code', [summary], [
+        reportSection('Unreachable Files', [
+            tableBlock(
+                ['File', 'Importers', 'Confidence', 'Reason'],
+                deadCode.deadFiles.map(file => [file.file, file.importers, file.confidence, file.reason]),
+                'No unreachable files found.'
+            ),
+        ]),
+        reportSection('Unused Exports', [
+            tableBlock(
+                ['Symbol', 'Location', 'Kind', 'Confidence'],
+                deadCode.unusedExports.map(entry => [entry.name, `${entry.file}:${entry.line}`, entry.typeOnly ? 'type' : 'value', entry.confidence]),
+                'No unused exports found.'
+            ),
+        ]),
+    ]);
+}
 
-### Overview
-- Total Files: ${codeMetrics.totalFiles}
-- Total Lines of Code: ${codeMetrics.totalLines}
+function generateWorkspaceSection(workspaces: WorkspaceResult): ReportSection {
+    if (workspaces.packages.length === 0) {
+        return reportSection('Workspaces', [textBlock('No workspace packages detected.')]);
+    }
 
-### Language Distribution
-${Object.entries(codeMetrics.languageStats)
-            .map(([ext, count]) => `- ${ext || 'No Extension'}: ${count} files`)
-            .join('\n')}
+    const { rollup } = workspaces;
+    const formatPercentage = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+    return reportSection('Workspaces', [], [
+        reportSection('Overview', [
+            fieldsBlock([
+                ['Tools', workspaces.tools.join(', ') || 'N/A'],
+                ['Packages', rollup.packageCount],
+                ['Total Files', rollup.totalFiles],
+                ['Total Lines', rollup.totalLines],
+                ['External Dependencies', rollup.externalDependencies],
+                ['Shared Dependencies', rollup.sharedDependencies.length],
+                ['Cyclomatic Complexity (weighted avg)', rollup.averageCyclomatic === null ? 'N/A' : rollup.averageCyclomatic.toFixed(2)],
+                ['Maintainability Index (weighted avg)', rollup.maintainability === null ? 'N/A' : formatPercentage(rollup.maintainability)],
+            ]),
+        ]),
+        reportSection('Packages', [
+            tableBlock(
+                ['Package', 'Path', 'Version', 'Files', 'Lines', 'Avg Cyclomatic', 'Maintainability', 'Dependencies', 'Internal Dependencies', 'Dependents'],
+                workspaces.packages.map(pkg => [
+                    pkg.name,
+                    pkg.path,
+                    `${pkg.version}${pkg.private ? ' (private)' : ''}`,
+                    pkg.files,
+                    pkg.lines,
+                    pkg.complexity.averageCyclomatic.toFixed(2),
+                    formatPercentage(pkg.maintainability),
+                    pkg.dependencies.length,
+                    pkg.internalDependencies.join(', ') || '-',
+                    pkg.dependents.length,
+                ]),
+                'No workspace packages detected.'
+            ),
+        ]),
+        reportSection('Inter-package Dependencies', [codeBlock(workspaces.mermaid, 'mermaid')]),
+        reportSection('Dependency Cycles', [listBlock(workspaces.cycles.map(cycle => cycle.join(' → ')))]),
+        reportSection('Version Drift', [
+            listBlock(rollup.versionDrift.map(dependency => `${dependency.name}: ${dependency.versions.join(', ')} (${dependency.packages.join(', ')})`)),
+        ]),
+    ]);
+}
+
+function generateDependencyGraphSection(graph: DependencyGraphResult): ReportSection {
+    if (!graph.lockfile) {
+        return reportSection('Dependency Graph', [textBlock('No lockfile found.')]);
+    }
+
+    return reportSection(`Dependency Graph (${graph.lockfile})`, [
+        fieldsBlock([
+            ['Direct Dependencies', graph.directCount],
+            ['Transitive Dependencies', graph.transitiveCount],
+            ['Total Resolved Packages', graph.totalPackages],
+            ['Max Depth', graph.maxDepth],
+        ]),
+    ], [
+        reportSection('Heaviest Subtrees', [
+            tableBlock(
+                ['Package', 'Transitive Dependencies'],
+                graph.heaviestSubtrees.map(subtree => [subtree.id, subtree.subtreeSize]),
+                'No resolved dependencies.'
+            ),
+            ...(graph.mermaid ? [codeBlock(graph.mermaid, 'mermaid')] : []),
+        ]),
+        reportSection('Duplicate Versions', [
+            listBlock(graph.duplicates.map(duplicate => `${duplicate.name}: ${duplicate.versions.join(', ')}`)),
+        ]),
+        reportSection('Declared Range Mismatches', [
+            listBlock(graph.mismatches.map(mismatch => `${mismatch.name}: declared ${mismatch.declared}, locked ${mismatch.locked ?? '(missing)'}`)),
+        ]),
+    ]);
+}
+
+function generateVulnerabilitySection(vulnerabilities: VulnerabilityResult): ReportSection {
+    if (!vulnerabilities.database.source) {
+        return reportSection('Known Vulnerabilities', [
+            textBlock('No advisory database configured. Set OSV_DATABASE_PATH or place OSV advisories under .mastra/osv to enable vulnerability matching.'),
+        ]);
+    }
+
+    const { counts, findings } = vulnerabilities;
+
+    return reportSection('Known Vulnerabilities', [
+        fieldsBlock([
+            ['Advisories Loaded', vulnerabilities.database.advisories],
+            ['Packages Scanned', vulnerabilities.scannedPackages],
+            ['Critical', `${counts.critical} / High: ${counts.high} / Medium: ${counts.medium} / Low: ${counts.low} / Unknown: ${counts.unknown}`],
+        ]),
+        tableBlock(
+            ['Severity', 'Advisory', 'Package', 'Affected', 'Fixed In', 'Dependency Path'],
+            findings.map(finding => [
+                finding.severity.toUpperCase() + (finding.score !== null ? ` (${finding.score})` : ''),
+                [finding.id, ...finding.aliases.slice(0, 1)].join(' / '),
+                `${finding.package}@${finding.version}`,
+                finding.affectedRange,
+                finding.fixedVersion ?? '-',
+                finding.path.join(' → '),
+            ]),
+            'No known vulnerabilities found.'
+        ),
+    ]);
+}
+
+function generateSecretSection(secrets: SecretResult): ReportSection {
+    const { counts, findings } = secrets;
+    const summary = fieldsBlock([
+        ['Files Scanned', `${secrets.scannedFiles} / Commits Scanned: ${secrets.scannedCommits}`],
+        ['Critical', `${counts.critical} / High: ${counts.high} / Medium: ${counts.medium}`],
+        ['Suppressed by allowlist', `${secrets.suppressed}${secrets.allowlist.source ? ` (${secrets.allowlist.source})` : ''}`],
+    ]);
+
+    if (findings.length === 0) {
+        return reportSection('Committed Secrets', [summary, textBlock('No committed secrets found.')]);
+    }
+
+    return reportSection('Committed Secrets', [
+        summary,
+        tableBlock(
+            ['Severity', 'Type', 'Location', 'Value', 'Introduced In', 'Status', 'Fingerprint'],
+            findings.map(finding => [
+                finding.severity.toUpperCase(),
+                finding.description,
+                `${finding.file}:${finding.line}`,
+                `\`${finding.redacted}\``,
+                finding.commit ? finding.commit.slice(0, 7) : '-',
+                finding.source === 'tree' ? 'present' : 'history only',
+                finding.fingerprint,
+            ]),
+            'No committed secrets found.'
+        ),
+        textBlock('Rotate exposed credentials: removing them from the tree does not remove them from git history. To suppress a false positive, add its fingerprint to `fingerprints` in .mastra-secrets.json.'),
+    ]);
+}
 
-### Code Quality Metrics
-- Complexity Score: ${formatNumber(codeAnalysis.complexity)}
-- Maintainability Index: ${formatPercentage(codeAnalysis.maintainability)}
-- Documentation Coverage: ${formatPercentage(codeAnalysis.documentation)}
+function generateLicenseSection(licenses: LicenseResult): ReportSection {
+    const { project, summary, conflicts } = licenses;
+    const issues = licenses.dependencies.filter(dep => dep.status !== 'allowed');
 
-### File Structure
-\`\`\`
-${files.map((file: string) => `- ${file}`).join('\n')}
-\`\`\`
+    const distribution = Object.entries(licenses.distribution)
+        .sort(([, a], [, b]) => b - a)
+        .map(([license, count]) => `${license}: ${count}`);
+
+    return reportSection('License Compliance', [
+        fieldsBlock([
+            ['Project License', `${project.license ?? 'Not detected (treated as proprietary)'}${project.source ? ` (from ${project.source})` : ''}`],
+            ['Policy', licenses.policy.source ?? 'Default policy'],
+            ['Allowed', `${summary.allowed} / Review Required: ${summary.review} / Denied: ${summary.denied} / Unknown: ${summary.unknown}`],
+        ]),
+    ], [
+        reportSection('License Distribution', [listBlock(distribution, 'No dependency licenses found.')]),
+        reportSection('Conflicts', [
+            listBlock(conflicts.map(conflict => `❌ ${conflict.name}@${conflict.version} (${conflict.license}): ${conflict.reason}`), 'No license conflicts found.'),
+        ]),
+        reportSection('Policy Violations', [
+            tableBlock(
+                ['Package', 'License', 'Status', 'Scope'],
+                issues.map(dep => [`${dep.name}@${dep.version}`, dep.license ?? 'UNKNOWN', dep.status, dep.scope]),
+                'All dependency licenses are allowed by the policy.'
+            ),
+        ]),
+    ]);
+}
+
+function generateHistorySection(history: GitHistoryResult): ReportSection {
+    if (history.totalCommits === 0) {
+        return reportSection('Git History', [textBlock('No git history available.')]);
+    }
+
+    const formatPercentage = (value: number) => `${(value * 100).toFixed(1)}%`;
+    const formatDate = (value: string | null) => value ? value.slice(0, 10) : 'N/A';
+
+    const codeowners = history.codeowners
+        ? reportSection(`CODEOWNERS (${history.codeowners.file})`, [
+            fieldsBlock([['Files without owner', history.codeowners.unownedFiles]]),
+            tableBlock(
+                ['Pattern', 'Declared Owners', 'Files', 'Top Committers', 'Owners Active'],
+                history.codeowners.rules.map(rule => [
+                    rule.pattern,
+                    rule.owners.join(' ') || '(none)',
+                    rule.matchedFiles,
+                    rule.topCommitters.map(c => `${c.author} (${formatPercentage(c.share)})`).join(', ') || '-',
+                    rule.ownersActive === null ? '?' : rule.ownersActive ? '✅' : '❌',
+                ]),
+                'No CODEOWNERS rules.'
+            ),
+        ])
+        : reportSection('CODEOWNERS', [textBlock('No CODEOWNERS file found.')]);
+
+    return reportSection('Git History', [], [
+        reportSection('Overview', [
+            fieldsBlock([
+                ['Total Commits', history.totalCommits],
+                ['Contributors', history.totalAuthors],
+                ['First Commit', formatDate(history.firstCommitDate)],
+                ['Last Commit', formatDate(history.lastCommitDate)],
+            ]),
+        ]),
+        reportSection('Hotspots (Change Frequency × Complexity)', [
+            tableBlock(
+                ['File', 'Commits', 'Complexity', 'Score'],
+                history.hotspots.map(h => [h.file, h.commits, `${h.complexity} (${h.complexitySource})`, h.score]),
+                'No hotspots found.'
+            ),
+        ]),
+        reportSection('Churn', [
+            tableBlock(
+                ['File', 'Commits', 'Added', 'Deleted', 'Authors', 'Last Modified'],
+                history.churn.map(c => [c.file, c.commits, c.added, c.deleted, c.authors, formatDate(c.lastModified)]),
+                'No churn data.'
+            ),
+        ]),
+        reportSection('Ownership', [
+            tableBlock(
+                ['Author', 'Commits', 'Lines Changed', 'Share'],
+                history.ownership.slice(0, 10).map(o => [o.author, o.commits, o.linesChanged, formatPercentage(o.share)]),
+                'No ownership data.'
+            ),
+        ]),
+        reportSection('Bus Factor by Directory', [
+            tableBlock(
+                ['Directory', 'Bus Factor', 'Top Authors'],
+                history.busFactor.map(b => [b.directory, b.busFactor, b.topAuthors.map(a => `${a.author} (${formatPercentage(a.share)})`).join(', ')]),
+                'No directory data.'
+            ),
+        ]),
+        reportSection('Stale Files', [
+            tableBlock(
+                ['File', 'Last Modified', 'Days Since Change'],
+                history.staleFiles.map(f => [f.file, formatDate(f.lastModified), f.daysSinceChange === null ? 'N/A' : f.daysSinceChange]),
+                'No stale files.'
+            ),
+        ]),
+        codeowners,
+    ]);
+}
+
+function generateActivitySection({ releases, tags, contributors, commitFrequency }: ActivityResult): ReportSection {
+    const releaseSource = releases.source === 'git-tags' ? 'git tags' : releases.source === 'none' ? 'none' : `${PROVIDER_NAMES[releases.source]} releases`;
+
+    return reportSection('Release Cadence & Contributor Activity', [], [
+        reportSection('Releases', [
+            fieldsBlock([
+                ['Source', `${releaseSource}${releases.fallbackReason ? ` (${releases.fallbackReason})` : ''}`],
+                ['Total Releases', `${releases.total} (${releases.prereleases} pre-releases)`],
+                ['Releases in the Last Year', releases.lastYear],
+                ['Latest Release', releases.latest ? `${releases.latest.tag} (${releases.latest.date.slice(0, 10)}, ${releases.daysSinceLastRelease} days ago)` : 'N/A'],
+                ['Release Interval', releases.medianIntervalDays === null ? 'N/A' : `median ${releases.medianIntervalDays} days / avg ${releases.averageIntervalDays} days`],
+                ['Semver Tags', tags.semverRatio === null ? 'No tags' : `${tags.semver} / ${tags.total} (${(tags.semverRatio * 100).toFixed(1)}%)`],
+            ]),
+            ...(tags.nonSemver.length > 0 ? [textBlock(`Tags not following semver: ${tags.nonSemver.map(tag => `\`${tag}\``).join(', ')}`)] : []),
+        ]),
+        reportSection('Weekly Commits', [
+            fieldsBlock([
+                ['Trend', commitFrequency.sparkline ? `\`${commitFrequency.sparkline}\`` : 'N/A'],
+                ['Total', commitFrequency.weeks.reduce((sum, week) => sum + week.commits, 0)],
+                ['Since', commitFrequency.weeks[0]?.start ?? 'N/A'],
+            ]),
+        ]),
+        reportSection('Contributors by Month', [
+            fieldsBlock([['All-time Contributors', contributors.total]]),
+            tableBlock(
+                ['Month', 'Commits', 'Active', 'New', 'Returning'],
+                contributors.months.map(month => [month.month, month.commits, month.active, month.new, month.returning]),
+                'No commits.'
+            ),
+        ]),
+    ]);
+}
+
+function generateIssueHealthSection({ skipped, health }: IssueHealthResult): ReportSection {
+    const title = 'Issue & Pull Request Health';
+    if (!health) {
+        return reportSection(title, [textBlock(`Not available: ${skipped ?? 'unknown reason'}`)]);
+    }
+
+    const formatHours = (value: number | null) => {
+        if (value === null) return 'N/A';
+        return value >= 48 ? `${(value / 24).toFixed(1)} days` : `${value} hours`;
+    };
+    const { issues, pullRequests, contributions } = health;
+
+    return reportSection(title, [
+        textBlock(`Items created between ${health.window.since.slice(0, 10)} and ${health.window.until.slice(0, 10)} (${health.window.days} days).${health.truncated ? ' Only part of the activity was fetched because the item limit was reached.' : ''}`),
+        tableBlock(
+            ['Metric', 'Issues', 'Pull Requests'],
+            [
+                ['Opened', issues.opened, pullRequests.opened],
+                ['Still Open', issues.open, pullRequests.open],
+                ['Closed / Merged', issues.closed, `${pullRequests.merged} merged / ${pullRequests.closedUnmerged} closed without merge`],
+                ['Without Response', issues.unanswered, pullRequests.unanswered],
+                ['Median Time to First Response', formatHours(issues.medianFirstResponseHours), formatHours(pullRequests.medianFirstResponseHours)],
+                ['Median Time to Close / Merge', formatHours(issues.medianTimeToCloseHours), formatHours(pullRequests.medianTimeToMergeHours)],
+            ],
+            'No activity.'
+        ),
+    ], [
+        reportSection('Contributions', [
+            fieldsBlock([
+                ['Pull Requests by Maintainers', contributions.maintainer],
+                ['Pull Requests by External Contributors', contributions.external],
+                ['Pull Requests by Bots', contributions.bots],
+                ['External Ratio', contributions.externalRatio === null ? 'N/A' : `${(contributions.externalRatio * 100).toFixed(1)}%`],
+            ]),
+        ]),
+        reportSection(`Stale Items (no update for ${health.stale.thresholdDays}+ days)`, [
+            fieldsBlock([['Stale Open Items', health.stale.count]]),
+            tableBlock(
+                ['#', 'Type', 'Title', 'Days Since Update'],
+                health.stale.items.map(item => [`#${item.number}`, item.kind, item.title, item.daysSinceUpdate]),
+                'No stale items.'
+            ),
+        ]),
+        reportSection('Labels', [
+            tableBlock(
+                ['Label', 'Issues', 'Pull Requests'],
+                health.labels.map(label => [label.name, label.issues, label.pullRequests]),
+                'No labels used.'
+            ),
+        ]),
+    ]);
+}
 
-## Analysis Summary
-${generateAnalysisSummary(codeAnalysis)}
+function generateQualityGateSection(qualityGate: QualityGateResult): ReportSection {
+    const icons = { passed: '✅', warning: '⚠️', failed: '❌' };
 
-${specification.documentation.readmeContent ? '\n## Project README\n' + specification.documentation.readmeContent : ''}
-`;
+    return reportSection('Quality Gates', [
+        fieldsBlock([
+            ['Result', `${icons[qualityGate.status]} ${qualityGate.status} (${qualityGate.counts.passed} passed / ${qualityGate.counts.warning} warnings / ${qualityGate.counts.failed} failed)`],
+            ['Config', qualityGate.config.source ?? 'defaults'],
+        ]),
+        tableBlock(
+            ['Gate', 'Scope', 'Status', 'Reason'],
+            qualityGate.gates.map(evaluation => [
+                evaluation.gate,
+                `${evaluation.scope}${evaluation.files !== null ? ` (${evaluation.files} files)` : ''}`,
+                `${icons[evaluation.status]} ${evaluation.status}`,
+                evaluation.reason,
+            ]),
+            'No quality gates configured.'
+        ),
+    ]);
 }
 
-function generateAnalysisSummary(analysis: CodeAnalysisResult['analysis']): string {
+function generateAnalysisSummary(qualityGate: QualityGateResult): string {
     const summaries = [];
+    // パスごとの上書きがある場合は、上書きに一致しなかったファイルの評価を使う
+    const statusOf = (gate: string) => qualityGate.gates
+        .find(evaluation => evaluation.gate === gate && (evaluation.scope === 'repository' || evaluation.scope === '*'))?.status;
 
-    // 複雑度の評価
-    if (analysis.complexity < 10) {
-        summaries.push('✅ コードの複雑度は良好です。保守が容易である可能性が高いです。');
-    } else if (analysis.complexity < 20) {
-        summaries.push('⚠️ コードの複雑度は中程度です。一部のモジュールでリファクタリングを検討してください。');
-    } else {
-        summaries.push('❌ コードの複雑度が高いです。リファクタリングを推奨します。');
+    // 複雑度の評価（関数あたりの平均循環的複雑度）
+    switch (statusOf('averageCyclomatic')) {
+        case 'passed':
+            summaries.push('✅ コードの複雑度は良好です。保守が容易である可能性が高いです。');
+            break;
+        case 'warning':
+            summaries.push('⚠️ コードの複雑度は中程度です。一部のモジュールでリファクタリングを検討してください。');
+            break;
+        case 'failed':
+            summaries.push('❌ コードの複雑度が高いです。リファクタリングを推奨します。');
+            break;
     }
 
     // 保守性の評価
-    if (analysis.maintainability > 0.8) {
-        summaries.push('✅ 保守性は優れています。コードは整理されており、変更が容易です。');
-    } else if (analysis.maintainability > 0.6) {
-        summaries.push('⚠️ 保守性は許容範囲内ですが、改善の余地があります。');
-    } else {
-        summaries.push('❌ 保守性に課題があります。コードの構造を見直すことを推奨します。');
+    switch (statusOf('maintainability')) {
+        case 'passed':
+            summaries.push('✅ 保守性は優れています。コードは整理されており、変更が容易です。');
+            break;
+        case 'warning':
+            summaries.push('⚠️ 保守性は許容範囲内ですが、改善の余地があります。');
+            break;
+        case 'failed':
+            summaries.push('❌ 保守性に課題があります。コードの構造を見直すことを推奨します。');
+            break;
     }
 
     // ドキュメント化の評価
-    if (analysis.documentation > 0.3) {
-        summaries.push('✅ ドキュメント化は十分です。');
-    } else if (analysis.documentation > 0.1) {
-        summaries.push('⚠️ ドキュメント化が不足しています。主要な機能の説明を追加することを推奨します。');
-    } else {
-        summaries.push('❌ ドキュメントが著しく不足しています。コードの理解と保守が困難になる可能性があります。');
+    switch (statusOf('documentation')) {
+        case 'passed':
+            summaries.push('✅ ドキュメント化は十分です。');
+            break;
+        case 'warning':
+            summaries.push('⚠️ ドキュメント化が不足しています。主要な機能の説明を追加することを推奨します。');
+            break;
+        case 'failed':
+            summaries.push('❌ ドキュメントが著しく不足しています。コードの理解と保守が困難になる可能性があります。');
+            break;
     }
 
     return summaries.join('\n');
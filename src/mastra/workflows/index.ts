@@ -1,3 +1,6 @@
 export * from './weather/workflow';
 export * from './github/workflow';
 export * from './docs/workflow';
+export * from './compare/workflow';
+export * from './trend/workflow';
+export * from './review/workflow';
@@ -0,0 +1,54 @@
+import { z } from 'zod';
+import { changeAnalysisSchema, reviewCommentSchema } from '../../tools/github/review';
+import { cloneResultSchema } from '../github/schemas';
+
+export const reviewWorkflowInputSchema = z.object({
+    repoUrl: z.string().describe('Repository URL (any git remote), file:// URL, or local path'),
+    pullNumber: z.number().int().positive().optional().describe('Pull request number to review (GitHub repositories only)'),
+    base: z.string().optional().describe('Base ref to review from (required without pullNumber; overrides the pull request base)'),
+    head: z.string().optional().describe('Head ref to review (required without pullNumber)'),
+    post: z.boolean().optional().describe('Post the review comments to the pull request (defaults to false: dry run)'),
+    maxComments: z.number().int().positive().optional().describe('Maximum number of review comments (defaults to 30)'),
+    forceClone: z.boolean().optional().describe('Force re-cloning the repository if already cloned'),
+    secretAllowlist: z.string().optional().describe('Path to a secret scanning allowlist (defaults to .mastra-secrets.json)'),
+});
+
+export const reviewTargetSchema = cloneResultSchema.extend({
+    base: z.object({ ref: z.string(), commit: z.string() }),
+    head: z.object({ ref: z.string(), commit: z.string() }),
+    mergeBase: z.string(),
+    pullRequest: z.object({
+        owner: z.string(),
+        repo: z.string(),
+        number: z.number(),
+        title: z.string(),
+        url: z.string(),
+    }).nullable(),
+});
+
+export const changeAnalysisResultSchema = changeAnalysisSchema;
+
+export const reviewCommentsResultSchema = z.object({
+    comments: z.array(reviewCommentSchema),
+    summary: z.string(),
+    // githubAgent の出力のうち、差分の行に対応付けられず捨てたコメントの数
+    discarded: z.number(),
+});
+
+export const reviewResultSchema = z.object({
+    reportPath: z.string(),
+    jsonPath: z.string(),
+    comments: z.array(reviewCommentSchema),
+    dryRun: z.boolean(),
+    // 投稿した場合のレビュー
+    posted: z.object({
+        id: z.number(),
+        url: z.string(),
+    }).nullable(),
+});
+
+export type ReviewWorkflowInput = z.infer<typeof reviewWorkflowInputSchema>;
+export type ReviewTarget = z.infer<typeof reviewTargetSchema>;
+export type ChangeAnalysisResult = z.infer<typeof changeAnalysisResultSchema>;
+export type ReviewCommentsResult = z.infer<typeof reviewCommentsResultSchema>;
+export type ReviewResult = z.infer<typeof reviewResultSchema>;
@@ -0,0 +1,379 @@
+import { Step } from '@mastra/core/workflows';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { streamAgentText } from '../../agents';
+import { cloneRepo } from '../../tools/github/utils';
+import { resolveRepositorySource } from '../../tools/github/source';
+import { getHostedGitHubClient } from '../../tools/github/providers';
+import { redactSecrets } from '../../tools/github/secrets';
+import {
+    ReviewComment,
+    analyzeChanges,
+    isChangedLine,
+    postReview,
+    readPatch,
+    resolveDiffBase,
+    sortComments,
+} from '../../tools/github/review';
+import {
+    ChangeAnalysisResult,
+    ReviewCommentsResult,
+    ReviewTarget,
+    ReviewWorkflowInput,
+    changeAnalysisResultSchema,
+    reviewCommentsResultSchema,
+    reviewResultSchema,
+    reviewTargetSchema,
+    reviewWorkflowInputSchema,
+} from './schemas';
+
+const DEFAULT_MAX_COMMENTS = 30;
+
+export const resolveReviewTargetStep = new Step({
+    id: 'resolve-review-target',
+    description: 'Resolves the pull request or base/head refs and checks out the head',
+    inputSchema: reviewWorkflowInputSchema,
+    outputSchema: reviewTargetSchema,
+    execute: async ({ context }) => {
+        const triggerData = context?.getStepResult<ReviewWorkflowInput>('trigger');
+
+        if (!triggerData) {
+            throw new Error('Trigger data not found');
+        }
+
+        let baseRef = triggerData.base;
+        let headRef = triggerData.head;
+        let pullRequest: ReviewTarget['pullRequest'] = null;
+
+        if (triggerData.pullNumber !== undefined) {
+            const source = await resolveRepositorySource(triggerData.repoUrl);
+            const hosted = source.provider;
+            if (hosted?.kind !== 'github') {
+                throw new Error('Pull request reviews require a GitHub repository (use base and head for other remotes)');
+            }
+
+            const client = await getHostedGitHubClient(hosted);
+            // 解析に時間をかける前に、投稿できない設定を検出する
+            if (triggerData.post && !client.authenticated) {
+                throw new Error(`Posting a review requires a GitHub token (set ${hosted.tokenEnv ? `${hosted.tokenEnv}, ` : ''}GITHUB_TOKEN or GH_TOKEN)`);
+            }
+
+            const { data } = await client.octokit.pulls.get({
+                owner: hosted.owner,
+                repo: hosted.repo,
+                pull_number: triggerData.pullNumber,
+            });
+            baseRef = baseRef || data.base.ref;
+            // フォークからのプルリクエストも取得できるよう、ベースリポジトリの refs/pull を使う
+            headRef = headRef || `refs/pull/${triggerData.pullNumber}/head`;
+            pullRequest = {
+                owner: hosted.owner,
+                repo: hosted.repo,
+                number: data.number,
+                title: data.title,
+                url: data.html_url,
+            };
+        } else if (triggerData.post) {
+            throw new Error('Posting a review requires pullNumber');
+        }
+
+        if (!baseRef || !headRef) {
+            throw new Error('Either pullNumber or both base and head are required');
+        }
+
+        const checkout = await cloneRepo(triggerData.repoUrl, headRef, triggerData.forceClone);
+        if (!checkout.success) {
+            throw new Error(`Failed to check out ${headRef}: ${checkout.message}`);
+        }
+
+        const base = await resolveDiffBase(checkout.repoPath, baseRef, checkout.commit);
+
+        return {
+            ...checkout,
+            base: { ref: baseRef, commit: base.commit },
+            head: { ref: headRef, commit: checkout.commit },
+            mergeBase: base.mergeBase,
+            pullRequest,
+        };
+    },
+});
+
+export const analyzeChangesStep = new Step({
+    id: 'analyze-changes',
+    description: 'Runs the metrics, complexity, dependency and secret analyzers on the changed files and lines',
+    outputSchema: changeAnalysisResultSchema,
+    execute: async ({ context }) => {
+        const target = context?.getStepResult<ReviewTarget>('resolve-review-target');
+        const triggerData = context?.getStepResult<ReviewWorkflowInput>('trigger');
+
+        if (!target) {
+            throw new Error('Review target not found');
+        }
+
+        return await analyzeChanges(target.repoPath, target.mergeBase, {
+            base: target.base,
+            head: target.head,
+            secretAllowlist: triggerData?.secretAllowlist,
+        });
+    },
+});
+
+export const writeReviewCommentsStep = new Step({
+    id: 'write-review-comments',
+    description: 'Has the GitHub agent write line-anchored review comments for the diff',
+    outputSchema: reviewCommentsResultSchema,
+    execute: async ({ context }) => {
+        const target = context?.getStepResult<ReviewTarget>('resolve-review-target');
+        const analysis = context?.getStepResult<ChangeAnalysisResult>('analyze-changes');
+        const triggerData = context?.getStepResult<ReviewWorkflowInput>('trigger');
+
+        if (!target || !analysis) {
+            throw new Error('Required step results not found');
+        }
+
+        // 差分がない場合は LLM を呼び出さない
+        if (analysis.files.length === 0) {
+            return { comments: [], summary: 'No changes to review.', discarded: 0 };
+        }
+
+        const { patch, truncated } = await readPatch(target.repoPath, target.mergeBase, target.head.commit);
+        const generated = await generateAgentReview(target, analysis, patch, truncated);
+
+        // 差分の行に付けられないコメントは GitHub が受け付けないため捨てる
+        const anchored = generated.comments.filter(comment => isChangedLine(analysis.files, comment.path, comment.line));
+        const comments = selectComments(
+            [...analysis.comments, ...anchored],
+            triggerData?.maxComments ?? DEFAULT_MAX_COMMENTS
+        );
+
+        return {
+            comments,
+            summary: generated.summary,
+            discarded: generated.comments.length - anchored.length,
+        };
+    },
+});
+
+export const publishReviewStep = new Step({
+    id: 'publish-review',
+    description: 'Writes the review report and posts the review when requested',
+    outputSchema: reviewResultSchema,
+    execute: async ({ context }) => {
+        const target = context?.getStepResult<ReviewTarget>('resolve-review-target');
+        const analysis = context?.getStepResult<ChangeAnalysisResult>('analyze-changes');
+        const review = context?.getStepResult<ReviewCommentsResult>('write-review-comments');
+        const triggerData = context?.getStepResult<ReviewWorkflowInput>('trigger');
+
+        if (!target || !analysis || !review) {
+            throw new Error('Required step results not found');
+        }
+
+        const repoName = target.source?.name || 'unknown-repo';
+        const dryRun = !triggerData?.post;
+        const body = generateReviewBody(analysis, review);
+
+        let posted: { id: number; url: string } | null = null;
+        if (!dryRun && target.pullRequest) {
+            if (!target.source?.provider) {
+                throw new Error('Hosting provider of the pull request not found');
+            }
+            const { octokit } = await getHostedGitHubClient(target.source.provider);
+            posted = await postReview(octokit, {
+                owner: target.pullRequest.owner,
+                repo: target.pullRequest.repo,
+                pullNumber: target.pullRequest.number,
+                commit: target.head.commit,
+                body: redactSecrets(body),
+                comments: review.comments.map(comment => ({ ...comment, body: redactSecrets(comment.body) })),
+            });
+        }
+
+        const reportPath = path.join(process.cwd(), 'reports');
+        await fs.mkdir(reportPath, { recursive: true });
+
+        const fileName = target.pullRequest
+            ? `${repoName}-pr-${target.pullRequest.number}-review`
+            : `${repoName}-${sanitizeRef(target.base.ref)}..${sanitizeRef(target.head.ref)}-review`;
+        const reportFile = path.join(reportPath, `${fileName}.md`);
+        const jsonFile = path.join(reportPath, `${fileName}.json`);
+        await fs.writeFile(reportFile, redactSecrets(generateReviewMarkdownReport(repoName, target, analysis, review, posted)), 'utf-8');
+        await fs.writeFile(jsonFile, redactSecrets(JSON.stringify({
+            pullRequest: target.pullRequest,
+            base: analysis.base,
+            head: analysis.head,
+            mergeBase: analysis.mergeBase,
+            dryRun,
+            posted,
+            body,
+            comments: review.comments,
+            analysis,
+        }, null, 2)), 'utf-8');
+
+        return {
+            reportPath: reportFile,
+            jsonPath: jsonFile,
+            comments: review.comments,
+            dryRun,
+            posted,
+        };
+    },
+});
+
+function sanitizeRef(ref: string): string {
+    return ref.replace(/[^A-Za-z0-9._-]/g, '_');
+}
+
+/**
+ * 重大度の高いものを優先して上限までに絞り、同じ行への同じ内容のコメントを除く。
+ */
+function selectComments(comments: ReviewComment[], maxComments: number): ReviewComment[] {
+    const order = { error: 0, warning: 1, info: 2 };
+    const seen = new Set<string>();
+    const unique = comments.filter(comment => {
+        const key = `${comment.path}:${comment.line}:${comment.body}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+    // 同じ重大度では解析結果によるコメントを優先する（sort は安定）
+    const selected = [...unique].sort((a, b) => order[a.severity] - order[b.severity]).slice(0, maxComments);
+    return sortComments(selected);
+}
+
+async function generateAgentReview(
+    target: ReviewTarget,
+    analysis: ChangeAnalysisResult,
+    patch: string,
+    truncated: boolean
+): Promise<{ summary: string; comments: ReviewComment[] }> {
+    const facts = {
+        pullRequest: target.pullRequest ? { number: target.pullRequest.number, title: target.pullRequest.title } : null,
+        base: analysis.base.ref,
+        head: analysis.head.ref,
+        totals: analysis.totals,
+        files: analysis.files.map(({ file, status, added, deleted, maintainability }) => ({ file, status, added, deleted, maintainability })),
+        complexity: analysis.complexity.slice(0, 20),
+        dependencies: analysis.dependencies,
+        // 検出した値は伏せ字も含めて渡さず、場所のみを渡す
+        secrets: analysis.secrets.map(({ rule, file, line }) => ({ rule, file, line })),
+        // 解析結果から既に付けるコメント（同じ指摘を繰り返さないため）
+        existingComments: analysis.comments.map(({ path: file, line, category }) => ({ path: file, line, category })),
+    };
+
+    const prompt = `
+以下はプルリクエストの差分と、変更されたファイル・行に限定した静的解析の結果です。ツールは呼び出さず、この内容のみに基づいてコードレビューを行ってください。
+
+## 解析結果
+${redactSecrets(JSON.stringify(facts, null, 2))}
+
+## 差分${truncated ? '（長いため一部のファイルを省略）' : ''}
+\`\`\`diff
+${redactSecrets(patch)}
+\`\`\`
+
+以下の形式の JSON オブジェクトのみを出力してください（コードブロックや説明文は不要です）：
+{"summary": "レビュー全体の要約", "comments": [{"path": "ファイルのパス", "line": 行番号, "severity": "warning" または "info", "body": "コメント"}]}
+
+- line は head 側の行番号で、差分で追加・変更された行（+ で始まる行）のみを指定してください
+- バグ・エラー処理の漏れ・境界条件・可読性など、差分から具体的に指摘できることのみをコメントしてください
+- existingComments と同じ指摘は繰り返さないでください
+- summary は日本語、comments の body は英語で、簡潔に書いてください`;
+
+    return streamAgentText(prompt, parseAgentReview, message => ({
+        summary: `レビューコメントの生成に失敗しました: ${message}`,
+        comments: [],
+    }));
+}
+
+function parseAgentReview(text: string): { summary: string; comments: ReviewComment[] } {
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start < 0 || end <= start) {
+        return { summary: text.trim() || 'レビューを生成できませんでした（LLMの応答が空です）', comments: [] };
+    }
+
+    let parsed: any;
+    try {
+        parsed = JSON.parse(text.slice(start, end + 1));
+    } catch {
+        return { summary: `レビューの応答を解析できませんでした: ${text.trim().slice(0, 200)}`, comments: [] };
+    }
+
+    const comments: ReviewComment[] = (Array.isArray(parsed?.comments) ? parsed.comments : []).flatMap((comment: any) => {
+        if (typeof comment?.path !== 'string' || !Number.isInteger(comment?.line) || typeof comment?.body !== 'string' || !comment.body.trim()) {
+            return [];
+        }
+        return [{
+            path: comment.path.replace(/^[ab]\//, ''),
+            line: comment.line,
+            severity: comment.severity === 'warning' ? 'warning' : 'info',
+            category: 'review',
+            body: comment.body.trim(),
+            source: 'agent',
+        }];
+    });
+
+    return {
+        summary: typeof parsed?.summary === 'string' && parsed.summary.trim() ? parsed.summary.trim() : 'No summary provided.',
+        comments,
+    };
+}
+
+function generateReviewBody(analysis: ChangeAnalysisResult, review: ReviewCommentsResult): string {
+    const { totals, dependencies, secrets } = analysis;
+    const notes = analysis.notes.map(note => `- ${note}`).join('\n');
+
+    return `## Automated Review
+${totals.files} files changed, +${totals.added} / -${totals.deleted} lines. ${review.comments.length} comments, ${secrets.length} possible secrets, ${dependencies.added.length} added / ${dependencies.removed.length} removed / ${dependencies.changed.length} updated dependencies.
+
+${review.summary}${notes ? `
+
+### Notes
+${notes}` : ''}`;
+}
+
+function generateReviewMarkdownReport(
+    repoName: string,
+    target: ReviewTarget,
+    analysis: ChangeAnalysisResult,
+    review: ReviewCommentsResult,
+    posted: { id: number; url: string } | null
+): string {
+    const { base, head, totals } = analysis;
+    const formatDelta = (value: number) => (value > 0 ? `+${value}` : String(value));
+
+    return `# Pull Request Review: ${repoName}${target.pullRequest ? ` #${target.pullRequest.number}` : ''}
+
+${target.pullRequest ? `- Pull Request: [${target.pullRequest.title}](${target.pullRequest.url})\n` : ''}- Base: ${base.ref} (${base.commit.slice(0, 7)}), merge base ${analysis.mergeBase.slice(0, 7)}
+- Head: ${head.ref} (${head.commit.slice(0, 7)})
+- Changes: ${totals.files} files, +${totals.added} / -${totals.deleted} lines
+- Mode: ${posted ? `posted as review [${posted.id}](${posted.url})` : 'dry run (not posted)'}
+
+## Summary
+${review.summary}
+
+## Review Comments
+${review.comments.length > 0
+        ? `| Location | Severity | Category | Source | Comment |
+|---|---|---|---|---|
+${review.comments.map(comment => `| ${comment.path}:${comment.line} | ${comment.severity} | ${comment.category} | ${comment.source} | ${comment.body.replace(/\|/g, '\\|').replace(/\n/g, ' ')} |`).join('\n')}`
+        : 'No review comments.'}${review.discarded > 0 ? `\n\n${review.discarded} agent comments were dropped because they did not point at changed lines.` : ''}
+
+## Changed Files
+${analysis.files.length > 0
+        ? `| File | Status | Added | Deleted | Maintainability |
+|---|---|---|---|---|
+${analysis.files.map(file => `| ${file.previousFile ? `${file.previousFile} → ${file.file}` : file.file} | ${file.status} | ${file.added} | ${file.deleted} | ${file.maintainability ? `${(file.maintainability.head * 100).toFixed(1)}% (${formatDelta(Number((file.maintainability.delta * 100).toFixed(1)))} pt)` : '-'} |`).join('\n')}`
+        : 'No files changed.'}
+
+## Complexity Changes
+${analysis.complexity.length > 0
+        ? `| Function | Location | Cyclomatic | Cognitive |
+|---|---|---|---|
+${analysis.complexity.map(fn => `| ${fn.name}${fn.isNew ? ' (new)' : ''} | ${fn.file}:${fn.line} | ${fn.cyclomatic.base} → ${fn.cyclomatic.head} (${formatDelta(fn.cyclomatic.delta)}) | ${fn.cognitive.base} → ${fn.cognitive.head} (${formatDelta(fn.cognitive.delta)}) |`).join('\n')}`
+        : 'No changed functions became more complex.'}
+
+## Notes
+${analysis.notes.map(note => `- ${note}`).join('\n') || 'None'}
+`;
+}
@@ -0,0 +1,19 @@
+import { Workflow } from '@mastra/core/workflows';
+import {
+    resolveReviewTargetStep,
+    analyzeChangesStep,
+    writeReviewCommentsStep,
+    publishReviewStep,
+} from './steps';
+import { reviewWorkflowInputSchema } from './schemas';
+
+export const reviewWorkflow = new Workflow({
+    name: 'review-workflow',
+    triggerSchema: reviewWorkflowInputSchema,
+})
+    .step(resolveReviewTargetStep)
+    .then(analyzeChangesStep)
+    .then(writeReviewCommentsStep)
+    .then(publishReviewStep);
+
+reviewWorkflow.commit();
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { analysisRunSchema, skippedCommitSchema } from '../../tools/github/runs';
+
+export const trendWorkflowInputSchema = z.object({
+    repoUrl: z.string().describe('Repository URL (any git remote), file:// URL, or local path'),
+    source: z.enum(['runs', 'commits']).optional()
+        .describe('Chart stored analysis runs (default), or analyze commits sampled from the history'),
+    commits: z.number().int().positive().optional().describe('Number of commits to sample when source is "commits" (default: 10)'),
+    limit: z.number().int().positive().optional().describe('Maximum number of stored runs to chart when source is "runs" (default: 30)'),
+    branch: z.string().optional().describe('Branch whose history is sampled when source is "commits"'),
+    forceClone: z.boolean().optional().describe('Force re-cloning the repository if already cloned'),
+});
+
+export const trendRunsResultSchema = z.object({
+    repository: z.object({
+        name: z.string(),
+        location: z.string(),
+    }),
+    source: z.enum(['runs', 'commits']),
+    runs: z.array(analysisRunSchema),
+    // source が commits の場合に、解析できずにグラフから除いたコミット
+    skipped: z.array(skippedCommitSchema),
+});
+
+export const trendReportResultSchema = z.object({
+    reportPath: z.string(),
+    report: z.string(),
+});
+
+export type TrendWorkflowInput = z.infer<typeof trendWorkflowInputSchema>;
+export type TrendRunsResult = z.infer<typeof trendRunsResultSchema>;
+export type TrendReportResult = z.infer<typeof trendReportResultSchema>;
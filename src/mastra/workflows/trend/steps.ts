@@ -0,0 +1,208 @@
+import { Step } from '@mastra/core/workflows';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { cloneRepo } from '../../tools/github/utils';
+import { resolveRepositorySource } from '../../tools/github/source';
+import { AnalysisRun, collectHistoricalRuns, loadAnalysisRuns } from '../../tools/github/runs';
+import { sparkline } from '../../tools/report';
+import {
+    TrendRunsResult,
+    TrendWorkflowInput,
+    trendReportResultSchema,
+    trendRunsResultSchema,
+    trendWorkflowInputSchema,
+} from './schemas';
+
+const DEFAULT_COMMITS = 10;
+const DEFAULT_RUN_LIMIT = 30;
+
+interface TrendMetric {
+    title: string;
+    axis: string;
+    value: (run: AnalysisRun) => number;
+    format: (value: number) => string;
+}
+
+// チャートとして出力する指標
+const TREND_METRICS: TrendMetric[] = [
+    {
+        title: 'Lines of Code',
+        axis: 'Lines',
+        value: run => run.metrics.code,
+        format: value => value.toFixed(0),
+    },
+    {
+        title: 'Average Cyclomatic Complexity',
+        axis: 'Complexity',
+        value: run => run.metrics.averageCyclomatic,
+        format: value => value.toFixed(2),
+    },
+    {
+        title: 'Dependencies',
+        axis: 'Count',
+        value: run => run.metrics.dependencies,
+        format: value => value.toFixed(0),
+    },
+    {
+        title: 'Documentation Coverage',
+        axis: 'Percent',
+        value: run => run.metrics.documentation * 100,
+        format: value => `${value.toFixed(1)}%`,
+    },
+];
+
+export const collectTrendRunsStep = new Step({
+    id: 'collect-trend-runs',
+    description: 'Loads stored analysis runs, or analyzes commits sampled from the repository history',
+    inputSchema: trendWorkflowInputSchema,
+    outputSchema: trendRunsResultSchema,
+    execute: async ({ context }) => {
+        const triggerData = context?.getStepResult<TrendWorkflowInput>('trigger');
+
+        if (!triggerData) {
+            throw new Error('Trigger data not found');
+        }
+
+        if ((triggerData.source ?? 'runs') === 'runs') {
+            const source = await resolveRepositorySource(triggerData.repoUrl);
+            // 過去のコミットを後から解析した結果も含め、コミット日時の順に並べる
+            const runs = (await loadAnalysisRuns(source.location))
+                .sort((a, b) => Date.parse(a.committedAt ?? a.timestamp) - Date.parse(b.committedAt ?? b.timestamp));
+            if (runs.length === 0) {
+                throw new Error(`No stored analysis runs found for ${source.location}. Run github-workflow first, or use source "commits".`);
+            }
+
+            return {
+                repository: { name: source.name, location: source.location },
+                source: 'runs' as const,
+                runs: runs.slice(-(triggerData.limit ?? DEFAULT_RUN_LIMIT)),
+                skipped: [],
+            };
+        }
+
+        const cloneResult = await cloneRepo(triggerData.repoUrl, triggerData.branch, triggerData.forceClone);
+        if (!cloneResult.success || !cloneResult.source) {
+            throw new Error(`Failed to clone repository: ${cloneResult.message}`);
+        }
+
+        const repository = { name: cloneResult.source.name, location: cloneResult.source.location };
+        const { runs, skipped } = await collectHistoricalRuns(cloneResult.repoPath, repository, {
+            commits: triggerData.commits ?? DEFAULT_COMMITS,
+        });
+        if (runs.length === 0) {
+            const reasons = skipped.map(commit => `${commit.commit.slice(0, 7)}: ${commit.reason}`).join('; ');
+            throw new Error(`No analyzable commits found in ${repository.location}${reasons ? ` (${reasons})` : ''}`);
+        }
+
+        return {
+            repository,
+            source: 'commits' as const,
+            runs,
+            skipped,
+        };
+    },
+});
+
+export const generateTrendReportStep = new Step({
+    id: 'generate-trend-report',
+    description: 'Generates a markdown report charting metrics across analysis runs',
+    outputSchema: trendReportResultSchema,
+    execute: async ({ context }) => {
+        const trendRuns = context?.getStepResult<TrendRunsResult>('collect-trend-runs');
+
+        if (!trendRuns) {
+            throw new Error('Required step results not found');
+        }
+
+        const report = generateTrendMarkdownReport(trendRuns);
+
+        const reportPath = path.join(process.cwd(), 'reports');
+        await fs.mkdir(reportPath, { recursive: true });
+
+        const reportFile = path.join(reportPath, `${trendRuns.repository.name}-trend.md`);
+        await fs.writeFile(reportFile, report, 'utf-8');
+
+        return {
+            reportPath: reportFile,
+            report,
+        };
+    },
+});
+
+function generateTrendMarkdownReport({ repository, source, runs, skipped }: TrendRunsResult): string {
+    const first = runs[0];
+    const latest = runs[runs.length - 1];
+    const labels = runs.map(run => run.commit.slice(0, 7) || run.timestamp.slice(0, 10));
+
+    return `# Trend Report: ${repository.name}
+
+- Source: ${source === 'runs' ? 'stored analysis runs' : 'commits sampled from the history'}
+- Data Points: ${runs.length}${skipped.length > 0 ? ` (${skipped.length} commits skipped)` : ''}
+- Range: ${describeRun(first)} → ${describeRun(latest)}
+
+## Summary
+| Metric | Trend | First | Latest | Change |
+|---|---|---|---|---|
+${TREND_METRICS.map(metric => {
+        const values = runs.map(metric.value);
+        const delta = values[values.length - 1] - values[0];
+        return `| ${metric.title} | ${sparkline(values)} | ${metric.format(values[0])} | ${metric.format(values[values.length - 1])} | ${delta > 0 ? '+' : ''}${metric.format(delta)} |`;
+    }).join('\n')}
+
+## Charts
+${TREND_METRICS.map(metric => `### ${metric.title}
+\`\`\`mermaid
+${renderLineChart(metric, labels, runs.map(metric.value))}
+\`\`\``).join('\n\n')}
+
+${generateDependencyChangesSection(first, latest)}
+
+## Data Points
+| # | Commit | Committed | Analyzed | Origin | Code | Avg Cyclomatic | Dependencies | Documentation | Findings |
+|---|---|---|---|---|---|---|---|---|---|
+${runs.map((run, index) => `| ${index + 1} | ${run.commit.slice(0, 7) || '-'} | ${run.committedAt?.slice(0, 10) ?? '-'} | ${run.timestamp.slice(0, 16).replace('T', ' ')} | ${run.origin} | ${run.metrics.code} | ${run.metrics.averageCyclomatic.toFixed(2)} | ${run.metrics.dependencies} | ${(run.metrics.documentation * 100).toFixed(1)}% | ${run.origin === 'history' ? '-' : run.findings.length} |`).join('\n')}
+${skipped.length > 0 ? `
+## Skipped Commits
+| Commit | Reason |
+|---|---|
+${skipped.map(commit => `| ${commit.commit.slice(0, 7)} | ${commit.reason.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ')} |`).join('\n')}
+` : ''}`;
+}
+
+function describeRun(run: AnalysisRun): string {
+    const date = (run.committedAt ?? run.timestamp).slice(0, 10);
+    return run.commit ? `${run.commit.slice(0, 7)} (${date})` : date;
+}
+
+/**
+ * Mermaid の xychart で折れ線グラフを描く。
+ */
+function renderLineChart(metric: TrendMetric, labels: string[], values: number[]): string {
+    const max = Math.max(...values);
+    // 値がすべて同じでも線が見えるよう、縦軸に余白を持たせる
+    const upper = max > 0 ? max * 1.1 : 1;
+
+    return `xychart-beta
+    title "${metric.title}"
+    x-axis [${labels.map(label => `"${label}"`).join(', ')}]
+    y-axis "${metric.axis}" 0 --> ${Number(upper.toFixed(2))}
+    line [${values.map(value => Number(value.toFixed(2))).join(', ')}]`;
+}
+
+function generateDependencyChangesSection(first: AnalysisRun, latest: AnalysisRun): string {
+    const key = (dep: AnalysisRun['dependencies'][number]) => `${dep.ecosystem}:${dep.name}:${dep.scope}`;
+    const before = new Map(first.dependencies.map(dep => [key(dep), dep]));
+    const after = new Map(latest.dependencies.map(dep => [key(dep), dep]));
+
+    const added = Array.from(after.entries()).filter(([name]) => !before.has(name)).map(([, dep]) => dep);
+    const removed = Array.from(before.entries()).filter(([name]) => !after.has(name)).map(([, dep]) => dep);
+    const format = (dep: AnalysisRun['dependencies'][number]) => `- ${dep.name}: ${dep.version || '*'} (${dep.ecosystem}, ${dep.scope})`;
+
+    return `## Dependency Changes Since First Data Point
+
+### Added
+${added.map(format).join('\n') || 'None'}
+
+### Removed
+${removed.map(format).join('\n') || 'None'}`;
+}
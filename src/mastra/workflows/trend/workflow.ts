@@ -0,0 +1,12 @@
+import { Workflow } from '@mastra/core/workflows';
+import { collectTrendRunsStep, generateTrendReportStep } from './steps';
+import { trendWorkflowInputSchema } from './schemas';
+
+export const trendWorkflow = new Workflow({
+    name: 'trend-workflow',
+    triggerSchema: trendWorkflowInputSchema,
+})
+    .step(collectTrendRunsStep)
+    .then(generateTrendReportStep);
+
+trendWorkflow.commit();